@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import sharp from "sharp";
+import { isRawPath } from "@/lib/utils/thumbnail";
+import { decodeRawToTiff } from "@/lib/utils/rawDecode";
+import {
+  analyzeAutoTone,
+  AUTO_TONE_SIZE,
+  type AutoToneValues,
+} from "@/lib/filters/core";
+
+// RAW-only photos are decoded with dcraw; give batches room to finish
+export const maxDuration = 300;
+
+const MAX_PHOTOS = 100;
+
+// Create Supabase client with service role for server-side operations
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+);
+
+interface AutoTonePhoto {
+  id: string;
+  storagePath?: string; // Path in 'photos' / 'collab-photos' (preview, preferred)
+  originalStoragePath?: string; // Path in 'originals' (used when there is no preview)
+}
+
+interface AutoToneRequest {
+  photos: AutoTonePhoto[];
+  sessionId?: string; // If present, previews are in collab-photos
+}
+
+type AutoToneResult =
+  | { id: string; values: AutoToneValues }
+  | { id: string; error: string };
+
+async function analyzePhoto(
+  photo: AutoTonePhoto,
+  sessionId?: string,
+): Promise<AutoToneValues> {
+  // The preview is plenty for statistics and avoids a RAW decode
+  const source = photo.storagePath
+    ? {
+        bucket: sessionId ? "collab-photos" : "photos",
+        path: photo.storagePath,
+      }
+    : photo.originalStoragePath
+      ? { bucket: "originals", path: photo.originalStoragePath }
+      : null;
+  if (!source) throw new Error("Photo has no storage path");
+
+  const { data: fileData, error } = await supabase.storage
+    .from(source.bucket)
+    .download(source.path);
+  if (error || !fileData) {
+    throw error ?? new Error("Failed to download source image");
+  }
+
+  const buffer = Buffer.from(await fileData.arrayBuffer());
+  const input = isRawPath(source.path)
+    ? await decodeRawToTiff(buffer)
+    : buffer;
+  const { data, info } = await sharp(input)
+    .resize(AUTO_TONE_SIZE, AUTO_TONE_SIZE, {
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return analyzeAutoTone(data, info.width * info.height, 3);
+}
+
+// Auto tone for a batch of photos: returns proposed Light / Color values per photo
+// (the client applies them, one undo step per photo)
+export async function POST(request: NextRequest) {
+  try {
+    const body: AutoToneRequest = await request.json();
+    const photos = Array.isArray(body.photos) ? body.photos : [];
+
+    if (photos.length === 0) {
+      return NextResponse.json({ error: "No photos" }, { status: 400 });
+    }
+    if (photos.length > MAX_PHOTOS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_PHOTOS} photos per request` },
+        { status: 400 },
+      );
+    }
+
+    const results: AutoToneResult[] = [];
+    for (const photo of photos) {
+      try {
+        results.push({
+          id: photo.id,
+          values: await analyzePhoto(photo, body.sessionId),
+        });
+      } catch (photoError) {
+        console.error(`Auto tone: ${photo.id} failed:`, photoError);
+        results.push({ id: photo.id, error: "Failed to analyze photo" });
+      }
+    }
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Auto tone error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
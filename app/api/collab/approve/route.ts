@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { hasCollabRole } from "@/lib/utils/collabRoles";
+import { getRequestUser } from "@/lib/utils/requestAuth";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -7,15 +9,21 @@ const supabase = createClient(
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
 );
 
-// POST /api/collab/approve - Approve or reject a join request (master only)
+// POST /api/collab/approve - Approve or reject a join request (master or admin)
 export async function POST(request: NextRequest) {
   try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
     const body = await request.json();
-    const { memberId, userId, action } = body; // action: 'approve' | 'reject' | 'remove'
+    const { memberId, action } = body; // action: 'approve' | 'reject' | 'remove'
 
-    if (!memberId || !userId || !action) {
+    if (!memberId || !action) {
       return NextResponse.json(
-        { error: "Missing required fields: memberId, userId, action" },
+        { error: "Missing required fields: memberId, action" },
         { status: 400 },
       );
     }
@@ -51,12 +59,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify the requester is the session owner
+    // Verify the requester is the session owner or an admin
     if (member.session.owner_id !== userId) {
-      return NextResponse.json(
-        { error: "Only the session owner can approve or reject requests" },
-        { status: 403 },
-      );
+      const { data: requester } = await supabase
+        .from("collab_members")
+        .select("role")
+        .eq("session_id", member.session_id)
+        .eq("user_id", userId)
+        .eq("status", "approved")
+        .maybeSingle();
+
+      if (!hasCollabRole(requester?.role, "admin")) {
+        return NextResponse.json(
+          {
+            error:
+              "Only the session owner or an admin can approve or reject requests",
+          },
+          { status: 403 },
+        );
+      }
+
+      // Admins manage the members below them
+      if (hasCollabRole(member.role, "admin")) {
+        return NextResponse.json(
+          { error: "Only the session owner can remove an admin" },
+          { status: 403 },
+        );
+      }
     }
 
     // Cannot approve/reject master
@@ -138,13 +167,18 @@ export async function POST(request: NextRequest) {
 // POST /api/collab/leave - Leave a session (member only)
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get("sessionId");
-    const userId = searchParams.get("userId");
 
-    if (!sessionId || !userId) {
+    if (!sessionId) {
       return NextResponse.json(
-        { error: "Missing required fields: sessionId, userId" },
+        { error: "Missing required field: sessionId" },
         { status: 400 },
       );
     }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { hasCollabRole } from "@/lib/utils/collabRoles";
 
 function generateId(): string {
   return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
@@ -46,7 +47,7 @@ export async function POST(request: NextRequest) {
     // Verify user is a member of the session
     const { data: membership, error: membershipError } = await supabase
       .from("collab_members")
-      .select("status")
+      .select("status, role")
       .eq("session_id", sessionId)
       .eq("user_id", userId)
       .single();
@@ -65,6 +66,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!hasCollabRole(membership.role, "editor")) {
+      return NextResponse.json(
+        { error: "Your role in this session can't duplicate" },
+        { status: 403 },
+      );
+    }
+
     if (type === "photo") {
       // Get the source photo
       const { data: sourcePhoto, error: sourceError } = await supabase
@@ -142,6 +150,9 @@ export async function POST(request: NextRequest) {
           vignette: sourcePhoto.vignette,
           grain: sourcePhoto.grain,
           curves: sourcePhoto.curves,
+          masks: sourcePhoto.masks,
+          crop: sourcePhoto.crop,
+          straighten: sourcePhoto.straighten,
           brightness: sourcePhoto.brightness,
           hue: sourcePhoto.hue,
           blur: sourcePhoto.blur,
@@ -152,6 +163,7 @@ export async function POST(request: NextRequest) {
           split_toning: sourcePhoto.split_toning,
           color_grading: sourcePhoto.color_grading,
           color_calibration: sourcePhoto.color_calibration,
+          profile: sourcePhoto.profile,
           grain_size: sourcePhoto.grain_size,
           grain_roughness: sourcePhoto.grain_roughness,
           border_width: sourcePhoto.border_width,
@@ -164,6 +176,10 @@ export async function POST(request: NextRequest) {
           camera_make: sourcePhoto.camera_make,
           camera_model: sourcePhoto.camera_model,
           labels: sourcePhoto.labels,
+          rating: sourcePhoto.rating,
+          color_label: sourcePhoto.color_label,
+          flag: sourcePhoto.flag,
+          snapshots: sourcePhoto.snapshots,
           duplicated_from_id: sourceId,
         })
         .select()
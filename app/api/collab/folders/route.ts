@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { hasCollabRole } from "@/lib/utils/collabRoles";
+import { getRequestUser } from "@/lib/utils/requestAuth";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -10,13 +12,18 @@ const supabase = createClient(
 // GET /api/collab/folders - Get all folders in a session
 export async function GET(request: NextRequest) {
   try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get("sessionId");
-    const userId = searchParams.get("userId");
 
-    if (!sessionId || !userId) {
+    if (!sessionId) {
       return NextResponse.json(
-        { error: "Missing required fields: sessionId, userId" },
+        { error: "Missing required field: sessionId" },
         { status: 400 },
       );
     }
@@ -24,7 +31,7 @@ export async function GET(request: NextRequest) {
     // Verify membership
     const { data: membership, error: membershipError } = await supabase
       .from("collab_members")
-      .select("status")
+      .select("status, role")
       .eq("session_id", sessionId)
       .eq("user_id", userId)
       .single();
@@ -36,6 +43,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (membership.status !== "approved") {
+      return NextResponse.json(
+        { error: "Your membership is not approved" },
+        { status: 403 },
+      );
+    }
+
     const { data: folders, error } = await supabase
       .from("collab_folders")
       .select("*")
@@ -63,10 +77,15 @@ export async function GET(request: NextRequest) {
 // POST /api/collab/folders - Create a new folder
 export async function POST(request: NextRequest) {
   try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
     const body = await request.json();
     const {
       sessionId,
-      userId,
       name,
       x = 0,
       y = 0,
@@ -78,7 +97,7 @@ export async function POST(request: NextRequest) {
       backgroundColor = null,
     } = body;
 
-    if (!sessionId || !userId || !name) {
+    if (!sessionId || !name) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 },
@@ -88,7 +107,7 @@ export async function POST(request: NextRequest) {
     // Verify membership
     const { data: membership, error: membershipError } = await supabase
       .from("collab_members")
-      .select("status")
+      .select("status, role")
       .eq("session_id", sessionId)
       .eq("user_id", userId)
       .single();
@@ -107,6 +126,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!hasCollabRole(membership.role, "editor")) {
+      return NextResponse.json(
+        { error: "Your role in this session can't add folders" },
+        { status: 403 },
+      );
+    }
+
     const { data: folder, error } = await supabase
       .from("collab_folders")
       .insert({
@@ -155,39 +181,52 @@ export async function POST(request: NextRequest) {
 // PATCH /api/collab/folders - Update a folder
 export async function PATCH(request: NextRequest) {
   try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
     const body = await request.json();
-    const { sessionId, userId, folderId, updates } = body;
+    const { sessionId, folderId, updates } = body;
 
-    if (!sessionId || !userId || !folderId || !updates) {
+    if (!sessionId || !folderId || !updates) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 },
       );
     }
 
-    // Verify ownership - can only update own folders
+    // Verify role - editors update their own folders, admins any
+    const { data: membership } = await supabase
+      .from("collab_members")
+      .select("role")
+      .eq("session_id", sessionId)
+      .eq("user_id", userId)
+      .eq("status", "approved")
+      .maybeSingle();
+
     const { data: folder, error: folderError } = await supabase
       .from("collab_folders")
       .select("user_id")
       .eq("id", folderId)
+      .eq("session_id", sessionId)
       .single();
 
     if (folderError || !folder) {
       return NextResponse.json({ error: "Folder not found" }, { status: 404 });
     }
 
-    if (folder.user_id !== userId) {
-      const { data: sessionData } = await supabase
-        .from("collab_sessions")
-        .select("owner_id")
-        .eq("id", sessionId)
-        .single();
-      if (sessionData?.owner_id !== userId) {
-        return NextResponse.json(
-          { error: "You can only update your own folders" },
-          { status: 403 },
-        );
-      }
+    if (
+      !hasCollabRole(
+        membership?.role,
+        folder.user_id === userId ? "editor" : "admin",
+      )
+    ) {
+      return NextResponse.json(
+        { error: "You can only update your own folders" },
+        { status: 403 },
+      );
     }
 
     const { data: updatedFolder, error } = await supabase
@@ -218,41 +257,53 @@ export async function PATCH(request: NextRequest) {
 // DELETE /api/collab/folders - Delete a folder
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get("sessionId");
-    const userId = searchParams.get("userId");
     const folderId = searchParams.get("folderId");
 
-    if (!sessionId || !userId || !folderId) {
+    if (!sessionId || !folderId) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 },
       );
     }
 
-    // Verify ownership - can only delete own folders
+    // Verify role - editors delete their own folders, admins any
+    const { data: membership } = await supabase
+      .from("collab_members")
+      .select("role")
+      .eq("session_id", sessionId)
+      .eq("user_id", userId)
+      .eq("status", "approved")
+      .maybeSingle();
+
     const { data: folder, error: folderError } = await supabase
       .from("collab_folders")
       .select("id, user_id")
       .eq("id", folderId)
+      .eq("session_id", sessionId)
       .single();
 
     if (folderError || !folder) {
       return NextResponse.json({ error: "Folder not found" }, { status: 404 });
     }
 
-    if (folder.user_id !== userId) {
-      const { data: sessionData } = await supabase
-        .from("collab_sessions")
-        .select("owner_id")
-        .eq("id", sessionId)
-        .single();
-      if (sessionData?.owner_id !== userId) {
-        return NextResponse.json(
-          { error: "You can only delete your own folders" },
-          { status: 403 },
-        );
-      }
+    if (
+      !hasCollabRole(
+        membership?.role,
+        folder.user_id === userId ? "editor" : "admin",
+      )
+    ) {
+      return NextResponse.json(
+        { error: "You can only delete your own folders" },
+        { status: 403 },
+      );
     }
 
     // Delete from database (cascades to photos via RLS)
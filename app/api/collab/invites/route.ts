@@ -0,0 +1,308 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { hasCollabRole } from "@/lib/utils/collabRoles";
+import { getInvitableRoles } from "@/lib/utils/collabInvites";
+import { getRequestUser } from "@/lib/utils/requestAuth";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+);
+
+// The requester's role in a session: "master" for the owner, else their approved role
+async function getRequesterRole(sessionId: string, userId: string) {
+  const { data: session } = await supabase
+    .from("collab_sessions")
+    .select("owner_id")
+    .eq("id", sessionId)
+    .single();
+
+  if (!session) return null;
+  if (session.owner_id === userId) return "master";
+
+  const { data: membership } = await supabase
+    .from("collab_members")
+    .select("role")
+    .eq("session_id", sessionId)
+    .eq("user_id", userId)
+    .eq("status", "approved")
+    .maybeSingle();
+
+  return (membership?.role as string | undefined) ?? null;
+}
+
+// GET /api/collab/invites?sessionId=xxx - Invite links and pending email invites (master or admin)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get("sessionId");
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Missing required field: sessionId" },
+        { status: 400 },
+      );
+    }
+
+    const requesterRole = await getRequesterRole(sessionId, userId);
+    if (!hasCollabRole(requesterRole, "admin")) {
+      return NextResponse.json(
+        { error: "Only the session owner or an admin can view invites" },
+        { status: 403 },
+      );
+    }
+
+    const [invitesRes, emailInvitesRes] = await Promise.all([
+      supabase
+        .from("collab_invites")
+        .select("*")
+        .eq("session_id", sessionId)
+        .is("revoked_at", null)
+        .order("created_at", { ascending: false }),
+      supabase
+        .from("collab_members")
+        .select("id, invited_email, role, created_at")
+        .eq("session_id", sessionId)
+        .is("user_id", null)
+        .eq("status", "pending")
+        .order("created_at", { ascending: false }),
+    ]);
+
+    if (invitesRes.error || emailInvitesRes.error) {
+      console.error(
+        "Error fetching invites:",
+        invitesRes.error || emailInvitesRes.error,
+      );
+      return NextResponse.json(
+        { error: "Failed to fetch invites" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({
+      invites: invitesRes.data || [],
+      emailInvites: emailInvitesRes.data || [],
+    });
+  } catch (error) {
+    console.error("Get invites error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/collab/invites - Create an invite link, or an email invite when email is set (master or admin)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
+    const body = await request.json();
+    const { sessionId, role = null, email } = body;
+    const expiresInHours: number | null = body.expiresInHours ?? null;
+    const maxUses: number | null = body.maxUses ?? null;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: "Missing required field: sessionId" },
+        { status: 400 },
+      );
+    }
+
+    const requesterRole = await getRequesterRole(sessionId, userId);
+    if (!hasCollabRole(requesterRole, "admin")) {
+      return NextResponse.json(
+        { error: "Only the session owner or an admin can invite" },
+        { status: 403 },
+      );
+    }
+
+    // Admins can't hand out admin; links without a role send join requests
+    const invitableRoles = getInvitableRoles(requesterRole) as string[];
+    if ((role !== null || email) && !invitableRoles.includes(role)) {
+      return NextResponse.json(
+        { error: `Invalid role. Must be: ${invitableRoles.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    if (email) {
+      const invitedEmail = String(email).trim().toLowerCase();
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(invitedEmail)) {
+        return NextResponse.json(
+          { error: "Invalid email address" },
+          { status: 400 },
+        );
+      }
+
+      const { data: emailInvite, error } = await supabase
+        .from("collab_members")
+        .insert({
+          session_id: sessionId,
+          user_id: null,
+          role,
+          status: "pending",
+          invited_email: invitedEmail,
+        })
+        .select("id, invited_email, role, created_at")
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          return NextResponse.json(
+            { error: "That email has already been invited" },
+            { status: 400 },
+          );
+        }
+        console.error("Error creating email invite:", error);
+        return NextResponse.json(
+          { error: "Failed to create invite", details: error.message },
+          { status: 500 },
+        );
+      }
+
+      // An existing account is approved now; otherwise on its first sign-in
+      const { data: claimed, error: claimError } = await supabase.rpc(
+        "claim_collab_email_invites",
+        { _email: invitedEmail },
+      );
+      if (claimError) {
+        console.error("Error claiming email invite:", claimError);
+      }
+
+      return NextResponse.json({
+        success: true,
+        emailInvite,
+        claimed: (claimed ?? 0) > 0,
+      });
+    }
+
+    if (
+      expiresInHours !== null &&
+      !(typeof expiresInHours === "number" && expiresInHours > 0)
+    ) {
+      return NextResponse.json(
+        { error: "expiresInHours must be a positive number" },
+        { status: 400 },
+      );
+    }
+
+    if (maxUses !== null && !(Number.isInteger(maxUses) && maxUses > 0)) {
+      return NextResponse.json(
+        { error: "maxUses must be a positive integer" },
+        { status: 400 },
+      );
+    }
+
+    const { data: invite, error } = await supabase
+      .from("collab_invites")
+      .insert({
+        session_id: sessionId,
+        created_by: userId,
+        role,
+        expires_at:
+          expiresInHours !== null
+            ? new Date(Date.now() + expiresInHours * 3600_000).toISOString()
+            : null,
+        max_uses: maxUses,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating invite:", error);
+      return NextResponse.json(
+        { error: "Failed to create invite", details: error.message },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ success: true, invite });
+  } catch (error) {
+    console.error("Create invite error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/collab/invites?sessionId=xxx&inviteId=xxx (or &memberId=xxx for an email invite) - Revoke an invite (master or admin)
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get("sessionId");
+    const inviteId = searchParams.get("inviteId");
+    const memberId = searchParams.get("memberId");
+
+    if (!sessionId || (!inviteId && !memberId)) {
+      return NextResponse.json(
+        { error: "Missing required fields: sessionId, inviteId or memberId" },
+        { status: 400 },
+      );
+    }
+
+    const requesterRole = await getRequesterRole(sessionId, userId);
+    if (!hasCollabRole(requesterRole, "admin")) {
+      return NextResponse.json(
+        { error: "Only the session owner or an admin can revoke invites" },
+        { status: 403 },
+      );
+    }
+
+    // Revoked links are kept so a reused token reads as revoked, not unknown
+    const { data: revoked, error } = inviteId
+      ? await supabase
+          .from("collab_invites")
+          .update({ revoked_at: new Date().toISOString() })
+          .eq("id", inviteId)
+          .eq("session_id", sessionId)
+          .is("revoked_at", null)
+          .select("id")
+      : await supabase
+          .from("collab_members")
+          .delete()
+          .eq("id", memberId)
+          .eq("session_id", sessionId)
+          .is("user_id", null)
+          .eq("status", "pending")
+          .select("id");
+
+    if (error) {
+      console.error("Error revoking invite:", error);
+      return NextResponse.json(
+        { error: "Failed to revoke invite", details: error.message },
+        { status: 500 },
+      );
+    }
+
+    if (!revoked || revoked.length === 0) {
+      return NextResponse.json({ error: "Invite not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Revoke invite error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
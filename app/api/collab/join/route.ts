@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import type { CollabInvite } from "@/lib/types";
+import { hasCollabRole } from "@/lib/utils/collabRoles";
+import {
+  getInviteStatus,
+  normalizeInviteToken,
+} from "@/lib/utils/collabInvites";
+import { getRequestUser } from "@/lib/utils/requestAuth";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -7,79 +14,198 @@ const supabase = createClient(
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
 );
 
-// POST /api/collab/join - Request to join a session
+// Failed invite codes per user (and per IP) before /api/collab/join answers 429
+const MAX_FAILED_JOIN_ATTEMPTS = 10;
+const FAILED_JOIN_WINDOW_MS = 15 * 60 * 1000;
+
+// Proxies in front of the app that append to X-Forwarded-For (0 = the header is
+// the client's own and isn't used)
+const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS) || 0;
+
+type InviteWithSession = CollabInvite & {
+  session: {
+    id: string;
+    name: string;
+    owner_id: string;
+    is_active: boolean;
+    max_collaborators: number;
+  } | null;
+};
+
+const unauthorizedResponse = () =>
+  NextResponse.json({ error: "Please sign in" }, { status: 401 });
+
+// The address the outermost trusted proxy saw: entries left of it are the client's
+function getClientIp(request: NextRequest): string | null {
+  if (TRUSTED_PROXY_HOPS === 0) return null;
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim());
+  return hops[hops.length - TRUSTED_PROXY_HOPS] || null;
+}
+
+async function isJoinRateLimited(userId: string, ip: string | null) {
+  const since = new Date(Date.now() - FAILED_JOIN_WINDOW_MS).toISOString();
+  const countSince = (column: "user_id" | "ip", value: string) =>
+    supabase
+      .from("collab_join_attempts")
+      .select("id", { count: "exact", head: true })
+      .eq(column, value)
+      .gte("created_at", since);
+
+  const [byUser, byIp] = await Promise.all([
+    countSince("user_id", userId),
+    ip ? countSince("ip", ip) : Promise.resolve({ count: 0 }),
+  ]);
+  return (
+    (byUser.count ?? 0) >= MAX_FAILED_JOIN_ATTEMPTS ||
+    (byIp.count ?? 0) >= MAX_FAILED_JOIN_ATTEMPTS
+  );
+}
+
+const rateLimitedResponse = () =>
+  NextResponse.json(
+    { error: "Too many invalid invite codes. Please try again later." },
+    {
+      status: 429,
+      headers: { "Retry-After": String(FAILED_JOIN_WINDOW_MS / 1000) },
+    },
+  );
+
+// Count a code that doesn't get the user in toward the rate limit. Attempts are
+// only needed for the rate limit window: older ones are pruned as new ones come in.
+async function recordFailedJoin(userId: string, ip: string | null) {
+  await supabase.from("collab_join_attempts").insert({ user_id: userId, ip });
+  await supabase.rpc("cleanup_old_join_attempts");
+}
+
+// Look up an invite by token; unknown tokens count toward the rate limit
+async function findInvite(
+  inviteCode: string,
+  userId: string,
+  ip: string | null,
+): Promise<InviteWithSession | null> {
+  const { data: invite } = await supabase
+    .from("collab_invites")
+    .select(
+      `
+      *,
+      session:collab_sessions (
+        id,
+        name,
+        owner_id,
+        is_active,
+        max_collaborators
+      )
+    `,
+    )
+    .eq("token", normalizeInviteToken(inviteCode))
+    .maybeSingle();
+
+  if (!invite?.session) {
+    await recordFailedJoin(userId, ip);
+    return null;
+  }
+  return invite as InviteWithSession;
+}
+
+// Why an invite that exists can't be used (null = it can)
+function getInviteError(invite: InviteWithSession): string | null {
+  const status = getInviteStatus(invite);
+  if (status === "revoked") return "This invite link has been revoked";
+  if (status === "expired") return "This invite link has expired";
+  if (status === "used_up") return "This invite link has been used up";
+  if (!invite.session?.is_active) return "This session is no longer active";
+  return null;
+}
+
+// Count a use with a compare-and-set on use_count, so max_uses holds under concurrent joins
+async function consumeInvite(invite: CollabInvite): Promise<boolean> {
+  let useCount = invite.use_count;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    if (invite.max_uses !== null && useCount >= invite.max_uses) return false;
+
+    const { data: updated } = await supabase
+      .from("collab_invites")
+      .update({ use_count: useCount + 1 })
+      .eq("id", invite.id)
+      .eq("use_count", useCount)
+      .is("revoked_at", null)
+      .select("id");
+    if (updated && updated.length > 0) return true;
+
+    const { data: current } = await supabase
+      .from("collab_invites")
+      .select("use_count, revoked_at")
+      .eq("id", invite.id)
+      .single();
+    if (!current || current.revoked_at) return false;
+    useCount = current.use_count;
+  }
+  return false;
+}
+
+// POST /api/collab/join - Join a session with an invite link (approved right away when the link has a role).
+// Joins as the user of the access token; the rate limit counts per user and per IP.
 export async function POST(request: NextRequest) {
   try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) return unauthorizedResponse();
+    const userId = user.id;
+
     const body = await request.json();
-    const { inviteCode, userId, email } = body;
+    const { inviteCode } = body;
 
-    if (!inviteCode || !userId) {
+    if (!inviteCode) {
       return NextResponse.json(
-        { error: "Missing required fields: inviteCode, userId" },
+        { error: "Missing required field: inviteCode" },
         { status: 400 },
       );
     }
 
-    // Find the session by invite code
-    const { data: session, error: sessionError } = await supabase
-      .from("collab_sessions")
-      .select("id, name, owner_id, is_active, max_collaborators")
-      .eq("invite_code", inviteCode.toUpperCase())
-      .single();
+    const ip = getClientIp(request);
+    if (await isJoinRateLimited(userId, ip)) {
+      return rateLimitedResponse();
+    }
 
-    if (sessionError || !session) {
+    const invite = await findInvite(inviteCode, userId, ip);
+    if (!invite?.session) {
       return NextResponse.json(
         { error: "Invalid invite code" },
         { status: 404 },
       );
     }
 
-    if (!session.is_active) {
-      return NextResponse.json(
-        { error: "This session is no longer active" },
-        { status: 400 },
-      );
+    const inviteError = getInviteError(invite);
+    if (inviteError) {
+      // Revoked and expired tokens are throttled like unknown ones
+      await recordFailedJoin(userId, ip);
+      return NextResponse.json({ error: inviteError }, { status: 400 });
     }
 
+    const session = invite.session;
+    const preApproved = invite.role !== null;
+    const status = preApproved ? "approved" : "pending";
+
     // Check if user is already a member
     const { data: existingMember } = await supabase
       .from("collab_members")
       .select("id, status")
       .eq("session_id", session.id)
       .eq("user_id", userId)
-      .single();
+      .maybeSingle();
 
-    if (existingMember) {
-      if (existingMember.status === "approved") {
-        return NextResponse.json(
-          { error: "You are already a member" },
-          { status: 400 },
-        );
-      }
-      if (existingMember.status === "pending") {
-        return NextResponse.json(
-          { error: "Request already pending" },
-          { status: 400 },
-        );
-      }
-      if (
-        existingMember.status === "rejected" ||
-        existingMember.status === "removed"
-      ) {
-        // Allow re-apply by updating the existing record
-        await supabase
-          .from("collab_members")
-          .update({
-            status: "pending",
-            invited_email: email,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", existingMember.id);
-        return NextResponse.json({
-          message: "Request submitted",
-          sessionId: session.id,
-        });
-      }
+    if (existingMember?.status === "approved") {
+      return NextResponse.json(
+        { error: "You are already a member" },
+        { status: 400 },
+      );
+    }
+    if (existingMember?.status === "pending" && !preApproved) {
+      return NextResponse.json(
+        { error: "Request already pending" },
+        { status: 400 },
+      );
     }
 
     // Check if session is full
@@ -93,18 +219,36 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Session is full" }, { status: 400 });
     }
 
-    // Create join request
-    const { data: member, error } = await supabase
-      .from("collab_members")
-      .insert({
-        session_id: session.id,
-        user_id: userId,
-        role: "collaborator",
-        status: "pending",
-        invited_email: email,
-      })
-      .select()
-      .single();
+    if (!(await consumeInvite(invite))) {
+      return NextResponse.json(
+        { error: "This invite link has been used up" },
+        { status: 400 },
+      );
+    }
+
+    const now = new Date().toISOString();
+    const membership = {
+      role: invite.role ?? "editor",
+      status,
+      invited_email: user.email ?? null,
+      approved_at: preApproved ? now : null,
+      joined_at: preApproved ? now : null,
+      updated_at: now,
+    };
+
+    // Pending requests and past members (rejected / removed) reuse their record
+    const { data: member, error } = existingMember
+      ? await supabase
+          .from("collab_members")
+          .update(membership)
+          .eq("id", existingMember.id)
+          .select()
+          .single()
+      : await supabase
+          .from("collab_members")
+          .insert({ session_id: session.id, user_id: userId, ...membership })
+          .select()
+          .single();
 
     if (error) {
       console.error("Error creating join request:", error);
@@ -114,8 +258,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (preApproved) {
+      await supabase.from("collab_activity").insert({
+        session_id: session.id,
+        user_id: userId,
+        action: "member_joined",
+        target_type: "member",
+        target_id: member.id,
+        metadata: {
+          joined_user_id: userId,
+          status: "approved",
+          invite_id: invite.id,
+        },
+      });
+    }
+
     return NextResponse.json({
-      message: "Request submitted, waiting for approval",
+      message: preApproved
+        ? "Joined session"
+        : "Request submitted, waiting for approval",
+      status,
       sessionId: session.id,
       sessionName: session.name,
     });
@@ -128,21 +290,61 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET /api/collab/join?sessionId=xxx - Get pending requests for a session (master only)
+// GET /api/collab/join?code=xxx - Session an invite link is for (join page)
+async function getInvitePreview(request: NextRequest, inviteCode: string) {
+  const user = await getRequestUser(supabase, request);
+  if (!user) return unauthorizedResponse();
+  const userId = user.id;
+
+  const ip = getClientIp(request);
+  if (await isJoinRateLimited(userId, ip)) {
+    return rateLimitedResponse();
+  }
+
+  const invite = await findInvite(inviteCode, userId, ip);
+  if (!invite?.session) {
+    return NextResponse.json({ error: "Invalid invite code" }, { status: 404 });
+  }
+
+  const inviteError = getInviteError(invite);
+  if (inviteError) {
+    await recordFailedJoin(userId, ip);
+    return NextResponse.json({ error: inviteError }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    session: {
+      id: invite.session.id,
+      name: invite.session.name,
+      owner_id: invite.session.owner_id,
+    },
+    role: invite.role,
+  });
+}
+
+// GET /api/collab/join?sessionId=xxx - Get pending requests for a session (master or admin)
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get("sessionId");
-    const userId = searchParams.get("userId");
+    const inviteCode = searchParams.get("code");
+
+    if (inviteCode) {
+      return await getInvitePreview(request, inviteCode);
+    }
 
-    if (!sessionId || !userId) {
+    const user = await getRequestUser(supabase, request);
+    if (!user) return unauthorizedResponse();
+    const userId = user.id;
+
+    if (!sessionId) {
       return NextResponse.json(
-        { error: "Missing required fields: sessionId, userId" },
+        { error: "Missing required field: sessionId" },
         { status: 400 },
       );
     }
 
-    // Verify user is the owner
+    // Verify user is the owner or an admin
     const { data: session, error: sessionError } = await supabase
       .from("collab_sessions")
       .select("owner_id")
@@ -154,13 +356,23 @@ export async function GET(request: NextRequest) {
     }
 
     if (session.owner_id !== userId) {
-      return NextResponse.json(
-        { error: "Only the session owner can view requests" },
-        { status: 403 },
-      );
+      const { data: membership } = await supabase
+        .from("collab_members")
+        .select("role")
+        .eq("session_id", sessionId)
+        .eq("user_id", userId)
+        .eq("status", "approved")
+        .maybeSingle();
+
+      if (!hasCollabRole(membership?.role, "admin")) {
+        return NextResponse.json(
+          { error: "Only the session owner or an admin can view requests" },
+          { status: 403 },
+        );
+      }
     }
 
-    // Get pending requests with user info
+    // Get pending requests with user info (email invites are listed by /api/collab/invites)
     const { data: pendingRequests, error } = await supabase
       .from("collab_members")
       .select(
@@ -172,7 +384,8 @@ export async function GET(request: NextRequest) {
       `,
       )
       .eq("session_id", sessionId)
-      .eq("status", "pending");
+      .eq("status", "pending")
+      .not("user_id", "is", null);
 
     if (error) {
       console.error("Error fetching pending requests:", error);
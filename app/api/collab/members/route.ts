@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { ASSIGNABLE_COLLAB_ROLES } from "@/lib/utils/collabRoles";
+import { getRequestUser } from "@/lib/utils/requestAuth";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+);
+
+// PATCH /api/collab/members - Change a member's role (master only)
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
+    const body = await request.json();
+    const { memberId, role } = body;
+
+    if (!memberId || !role) {
+      return NextResponse.json(
+        { error: "Missing required fields: memberId, role" },
+        { status: 400 },
+      );
+    }
+
+    if (!(ASSIGNABLE_COLLAB_ROLES as string[]).includes(role)) {
+      return NextResponse.json(
+        {
+          error: `Invalid role. Must be: ${ASSIGNABLE_COLLAB_ROLES.join(", ")}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Get member info with session details
+    const { data: member, error: memberError } = await supabase
+      .from("collab_members")
+      .select(
+        `
+        *,
+        session:collab_sessions (
+          id,
+          owner_id
+        )
+      `,
+      )
+      .eq("id", memberId)
+      .single();
+
+    if (memberError || !member) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    // Verify the requester is the session owner
+    if (member.session.owner_id !== userId) {
+      return NextResponse.json(
+        { error: "Only the session owner can change roles" },
+        { status: 403 },
+      );
+    }
+
+    if (member.role === "master") {
+      return NextResponse.json(
+        { error: "Cannot modify the master user" },
+        { status: 400 },
+      );
+    }
+
+    const { data: updatedMember, error } = await supabase
+      .from("collab_members")
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq("id", memberId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating member role:", error);
+      return NextResponse.json(
+        { error: "Failed to update role", details: error.message },
+        { status: 500 },
+      );
+    }
+
+    // Log activity
+    await supabase.from("collab_activity").insert({
+      session_id: member.session_id,
+      user_id: userId,
+      action: "member_role_changed",
+      target_type: "member",
+      target_id: memberId,
+      metadata: {
+        member_user_id: member.user_id,
+        from: member.role,
+        to: role,
+      },
+    });
+
+    return NextResponse.json({ success: true, member: updatedMember });
+  } catch (error) {
+    console.error("Change role error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
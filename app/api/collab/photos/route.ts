@@ -1,5 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import {
+  OWNER_ONLY_PHOTO_COLUMNS,
+  isPhotoColumn,
+  mergeFieldUpdates,
+  toServerClock,
+  type FieldClock,
+  type PhotoColumn,
+} from "@/lib/utils/collabMerge";
+import { hasCollabRole } from "@/lib/utils/collabRoles";
+import { getRequestUser } from "@/lib/utils/requestAuth";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -7,16 +17,24 @@ const supabase = createClient(
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
 );
 
+// Merges retried after losing a race with another merge of the same photo
+const MAX_MERGE_ATTEMPTS = 5;
+
 // GET /api/collab/photos - Get all photos in a session
 export async function GET(request: NextRequest) {
   try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get("sessionId");
-    const userId = searchParams.get("userId");
 
-    if (!sessionId || !userId) {
+    if (!sessionId) {
       return NextResponse.json(
-        { error: "Missing required fields: sessionId, userId" },
+        { error: "Missing required field: sessionId" },
         { status: 400 },
       );
     }
@@ -24,7 +42,7 @@ export async function GET(request: NextRequest) {
     // Verify membership
     const { data: membership, error: membershipError } = await supabase
       .from("collab_members")
-      .select("status")
+      .select("status, role")
       .eq("session_id", sessionId)
       .eq("user_id", userId)
       .single();
@@ -36,6 +54,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (membership.status !== "approved") {
+      return NextResponse.json(
+        { error: "Your membership is not approved" },
+        { status: 403 },
+      );
+    }
+
     const { data: photos, error } = await supabase
       .from("collab_photos")
       .select("*")
@@ -86,10 +111,15 @@ export async function GET(request: NextRequest) {
 // POST /api/collab/photos - Create a new photo
 export async function POST(request: NextRequest) {
   try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
     const body = await request.json();
     const {
       sessionId,
-      userId,
       storagePath,
       folderId,
       x = 0,
@@ -98,7 +128,7 @@ export async function POST(request: NextRequest) {
       height = 400,
     } = body;
 
-    if (!sessionId || !userId || !storagePath) {
+    if (!sessionId || !storagePath) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 },
@@ -108,7 +138,7 @@ export async function POST(request: NextRequest) {
     // Verify membership
     const { data: membership, error: membershipError } = await supabase
       .from("collab_members")
-      .select("status")
+      .select("status, role")
       .eq("session_id", sessionId)
       .eq("user_id", userId)
       .single();
@@ -127,6 +157,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!hasCollabRole(membership.role, "editor")) {
+      return NextResponse.json(
+        { error: "Your role in this session can't add photos" },
+        { status: 403 },
+      );
+    }
+
     const { data: photo, error } = await supabase
       .from("collab_photos")
       .insert({
@@ -169,53 +206,168 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// PATCH /api/collab/photos - Update a photo (position, edits, etc.)
+// PATCH /api/collab/photos - Merge updates into a photo, field by field.
+// Each column is last-writer-wins on its own write time (clock, shifted to server time
+// by the client's sentAt), so concurrent edits to different fields of one photo all
+// survive. Editors change their own photos, "all photos" editors (and up) anyone's;
+// layout columns stay with the uploader (or an admin).
 export async function PATCH(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { sessionId, userId, photoId, updates } = body;
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
 
-    if (!sessionId || !userId || !photoId || !updates) {
+    const body = await request.json();
+    const {
+      sessionId,
+      photoId,
+      storagePath,
+      copyId = "",
+      updates,
+      clock = {},
+      sentAt,
+    } = body as {
+      sessionId?: string;
+      photoId?: string;
+      storagePath?: string;
+      copyId?: string;
+      updates?: Record<string, unknown>;
+      clock?: FieldClock;
+      sentAt?: number;
+    };
+
+    if (!sessionId || !(photoId || storagePath) || !updates) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 },
       );
     }
 
-    // Verify ownership - can only update own photos
-    const { data: photo, error: photoError } = await supabase
-      .from("collab_photos")
-      .select("user_id")
-      .eq("id", photoId)
+    const unknownColumns = Object.keys(updates).filter(
+      (column) => !isPhotoColumn(column),
+    );
+    if (unknownColumns.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown fields: ${unknownColumns.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    // Verify membership
+    const { data: membership, error: membershipError } = await supabase
+      .from("collab_members")
+      .select("status, role")
+      .eq("session_id", sessionId)
+      .eq("user_id", userId)
       .single();
 
-    if (photoError || !photo) {
-      return NextResponse.json({ error: "Photo not found" }, { status: 404 });
+    if (membershipError || !membership) {
+      return NextResponse.json(
+        { error: "Not a member of this session" },
+        { status: 403 },
+      );
     }
 
-    if (photo.user_id !== userId) {
+    if (membership.status !== "approved") {
       return NextResponse.json(
-        { error: "You can only update your own photos" },
+        { error: "Your membership is not approved" },
         { status: 403 },
       );
     }
 
-    const { data: updatedPhoto, error } = await supabase
-      .from("collab_photos")
-      .update(updates)
-      .eq("id", photoId)
-      .select()
-      .single();
-
-    if (error) {
-      console.error("Error updating photo:", error);
+    if (!hasCollabRole(membership.role, "editor")) {
       return NextResponse.json(
-        { error: "Failed to update photo", details: error.message },
-        { status: 500 },
+        { error: "Your role in this session can't edit photos" },
+        { status: 403 },
       );
     }
 
-    return NextResponse.json({ photo: updatedPhoto });
+    // Read, merge, then write only if nobody merged in between (revision check);
+    // on a lost race, merge again against the newer row
+    for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS; attempt++) {
+      let photoQuery = supabase
+        .from("collab_photos")
+        .select("*")
+        .eq("session_id", sessionId);
+      photoQuery = photoId
+        ? photoQuery.eq("id", photoId)
+        : photoQuery.eq("storage_path", storagePath!).eq("copy_id", copyId);
+      const { data: photo, error: photoError } = await photoQuery.single();
+
+      if (photoError || !photo) {
+        return NextResponse.json({ error: "Photo not found" }, { status: 404 });
+      }
+
+      if (
+        photo.user_id !== userId &&
+        !hasCollabRole(membership.role, "editor_all")
+      ) {
+        return NextResponse.json(
+          { error: "Your role in this session can only edit your own photos" },
+          { status: 403 },
+        );
+      }
+
+      if (
+        photo.user_id !== userId &&
+        !hasCollabRole(membership.role, "admin") &&
+        Object.keys(updates).some((column) =>
+          OWNER_ONLY_PHOTO_COLUMNS.has(column as PhotoColumn),
+        )
+      ) {
+        return NextResponse.json(
+          {
+            error: "Only the uploader or an admin can move or resize a photo",
+          },
+          { status: 403 },
+        );
+      }
+
+      const now = Date.now();
+      const merged = mergeFieldUpdates(
+        (photo.field_clock as FieldClock) ?? {},
+        updates,
+        toServerClock(clock, sentAt, now),
+        now,
+      );
+      if (Object.keys(merged.applied).length === 0) {
+        return NextResponse.json({ photo, rejected: merged.rejected });
+      }
+
+      const { data: updatedPhoto, error } = await supabase
+        .from("collab_photos")
+        .update({
+          ...merged.applied,
+          field_clock: merged.clock,
+          revision: photo.revision + 1,
+        })
+        .eq("id", photo.id)
+        .eq("revision", photo.revision)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error updating photo:", error);
+        return NextResponse.json(
+          { error: "Failed to update photo", details: error.message },
+          { status: 500 },
+        );
+      }
+
+      if (updatedPhoto) {
+        return NextResponse.json({
+          photo: updatedPhoto,
+          rejected: merged.rejected,
+        });
+      }
+    }
+
+    return NextResponse.json(
+      { error: "Photo is being edited concurrently, please retry" },
+      { status: 409 },
+    );
   } catch (error) {
     console.error("Update photo error:", error);
     return NextResponse.json(
@@ -228,41 +380,64 @@ export async function PATCH(request: NextRequest) {
 // DELETE /api/collab/photos - Delete a photo
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get("sessionId");
-    const userId = searchParams.get("userId");
     const photoId = searchParams.get("photoId");
 
-    if (!sessionId || !userId || !photoId) {
+    if (!sessionId || !photoId) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 },
       );
     }
 
-    // Verify ownership - can only delete own photos
+    // Verify role - editors delete their own photos, admins any
+    const { data: membership } = await supabase
+      .from("collab_members")
+      .select("role")
+      .eq("session_id", sessionId)
+      .eq("user_id", userId)
+      .eq("status", "approved")
+      .maybeSingle();
+
     const { data: photo, error: photoError } = await supabase
       .from("collab_photos")
-      .select("id, storage_path, user_id")
+      .select("id, storage_path, user_id, copy_id")
       .eq("id", photoId)
+      .eq("session_id", sessionId)
       .single();
 
     if (photoError || !photo) {
       return NextResponse.json({ error: "Photo not found" }, { status: 404 });
     }
 
-    if (photo.user_id !== userId) {
+    if (
+      !hasCollabRole(
+        membership?.role,
+        photo.user_id === userId ? "editor" : "admin",
+      )
+    ) {
       return NextResponse.json(
         { error: "You can only delete your own photos" },
         { status: 403 },
       );
     }
 
-    // Delete from storage
-    await supabase.storage.from("collab-photos").remove([photo.storage_path]);
+    // Virtual copies share the master's file: only the master removes it
+    if (!photo.copy_id) {
+      await supabase.storage
+        .from("collab-photos")
+        .remove([photo.storage_path]);
+    }
 
     // Delete thumbnail if exists
-    if (photo.storage_path.includes("/")) {
+    if (!photo.copy_id && photo.storage_path.includes("/")) {
       const parts = photo.storage_path.split("/");
       const thumbPath = `${parts.slice(0, -1).join("/")}/thumbs/${parts[parts.length - 1].replace(/\.[^.]+$/, ".jpg")}`;
       await supabase.storage
@@ -271,11 +446,14 @@ export async function DELETE(request: NextRequest) {
         .catch(() => {});
     }
 
-    // Delete from database
-    const { error } = await supabase
-      .from("collab_photos")
-      .delete()
-      .eq("id", photoId);
+    // Delete from database (a master takes its virtual copies with it)
+    const { error } = photo.copy_id
+      ? await supabase.from("collab_photos").delete().eq("id", photoId)
+      : await supabase
+          .from("collab_photos")
+          .delete()
+          .eq("session_id", sessionId)
+          .eq("storage_path", photo.storage_path);
 
     if (error) {
       console.error("Error deleting photo:", error);
@@ -285,6 +463,15 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    // Edit history goes with the photo (or just the copy's own history)
+    const historyQuery = supabase
+      .from("photo_edit_history")
+      .delete()
+      .eq("session_id", sessionId)
+      .eq("storage_path", photo.storage_path);
+    if (photo.copy_id) historyQuery.eq("copy_id", photo.copy_id);
+    await historyQuery;
+
     // Log activity
     await supabase.from("collab_activity").insert({
       session_id: sessionId,
@@ -11,12 +11,14 @@ const supabase = createClient(
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { storagePath, originalStoragePath, userId, sessionId } = body as {
-      storagePath?: string;
-      originalStoragePath?: string;
-      userId: string;
-      sessionId?: string;
-    };
+    const { storagePath, originalStoragePath, copyId, userId, sessionId } =
+      body as {
+        storagePath?: string;
+        originalStoragePath?: string;
+        copyId?: string;
+        userId: string;
+        sessionId?: string;
+      };
 
     if (!userId) {
       return NextResponse.json({ error: "Missing userId" }, { status: 400 });
@@ -30,7 +32,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (storagePath) {
+    // Virtual copies share the master's files: only their own row is deleted
+    if (storagePath && !copyId) {
       const bucket = sessionId ? "collab-photos" : "photos";
       const { error: photosErr } = await supabase.storage
         .from(bucket)
@@ -68,7 +71,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Delete original (DNG) from same bucket if it exists
-    if (originalStoragePath) {
+    if (originalStoragePath && !copyId) {
       const bucket = sessionId ? "collab-photos" : "photos";
       await supabase.storage
         .from(bucket)
@@ -83,6 +86,9 @@ export async function POST(request: NextRequest) {
       .delete()
       .eq("storage_path", canonicalPath);
 
+    // Deleting the master (no copyId) also deletes its virtual copies' rows
+    if (copyId) query.eq("copy_id", copyId);
+
     // For personal, we ensure user_id matches. For collab, we ensure user is session member (handled by RLS, but double check user_id if needed)
     // Actually for collab, we should check session_id too if possible, but storage_path is unique in bucket.
     // The key constraint in collab_photos is (storage_path, session_id), so we should use that.
@@ -103,6 +109,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Edit history goes with the photo (or just the copy's own history)
+    const historyQuery = supabase
+      .from("photo_edit_history")
+      .delete()
+      .eq("storage_path", canonicalPath);
+    if (copyId) historyQuery.eq("copy_id", copyId);
+    if (sessionId) {
+      historyQuery.eq("session_id", sessionId);
+    } else {
+      historyQuery.is("session_id", null).eq("user_id", userId);
+    }
+    const { error: historyErr } = await historyQuery;
+    if (historyErr) {
+      console.error("Failed to delete edit history:", historyErr);
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Delete photo error:", error);
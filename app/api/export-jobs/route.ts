@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import type { ExportOptions } from "@/lib/types";
+import { normalizeExportOptions } from "@/lib/utils/exportEncode";
+import {
+  loadExportJobItems,
+  runExportJob,
+  MAX_EXPORT_JOB_ITEMS,
+  type ExportJobPhoto,
+} from "@/lib/utils/exportJobs";
+import { getRequestUser } from "@/lib/utils/requestAuth";
+
+// The job keeps running after the response is sent (see after() below)
+export const maxDuration = 800;
+
+// Create Supabase client with service role for server-side operations
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+);
+
+interface CreateExportJobRequest {
+  sessionId?: string;
+  photos: ExportJobPhoto[];
+  options?: Partial<ExportOptions>;
+}
+
+// Whether the user owns the session or is an approved member
+async function canAccessSession(userId: string, sessionId: string) {
+  const [{ data: session }, { data: membership }] = await Promise.all([
+    supabase
+      .from("collab_sessions")
+      .select("owner_id")
+      .eq("id", sessionId)
+      .maybeSingle(),
+    supabase
+      .from("collab_members")
+      .select("status")
+      .eq("session_id", sessionId)
+      .eq("user_id", userId)
+      .maybeSingle(),
+  ]);
+  return session?.owner_id === userId || membership?.status === "approved";
+}
+
+// Create a batch export job for the signed-in user. The photos' files and edits are read
+// from their saved rows (the user's own, or the session's for a member), then rendered
+// server-side after the response, so the export doesn't depend on the tab staying open;
+// progress is tracked in export_jobs.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(supabase, request);
+    if (!user) {
+      return NextResponse.json({ error: "Please sign in" }, { status: 401 });
+    }
+    const userId = user.id;
+
+    const body: CreateExportJobRequest = await request.json();
+    const { sessionId, photos } = body;
+
+    if (!Array.isArray(photos) || photos.length === 0) {
+      return NextResponse.json({ error: "Missing photos" }, { status: 400 });
+    }
+    if (photos.length > MAX_EXPORT_JOB_ITEMS) {
+      return NextResponse.json(
+        { error: `Too many photos (max ${MAX_EXPORT_JOB_ITEMS} per export)` },
+        { status: 400 },
+      );
+    }
+
+    if (sessionId && !(await canAccessSession(userId, sessionId))) {
+      return NextResponse.json(
+        { error: "Not a member of this session" },
+        { status: 403 },
+      );
+    }
+
+    const items = await loadExportJobItems(
+      supabase,
+      { userId, sessionId },
+      photos.filter((photo) => typeof photo?.storagePath === "string"),
+    );
+    if (items.length === 0) {
+      return NextResponse.json({ error: "Photos not found" }, { status: 404 });
+    }
+
+    const options = normalizeExportOptions(body.options);
+
+    // Fail jobs whose after() task was killed before finishing
+    const { error: sweepError } = await supabase.rpc("fail_stale_export_jobs");
+    if (sweepError) console.error("Failed to sweep stale jobs:", sweepError);
+
+    const { data: job, error: insertError } = await supabase
+      .from("export_jobs")
+      .insert({
+        user_id: userId,
+        session_id: sessionId ?? null,
+        status: "pending",
+        total: items.length,
+        options,
+      })
+      .select("*")
+      .single();
+
+    if (insertError || !job) {
+      console.error("Failed to create export job:", insertError);
+      return NextResponse.json(
+        { error: "Failed to create export job" },
+        { status: 500 },
+      );
+    }
+
+    after(() =>
+      runExportJob(
+        supabase,
+        { id: job.id, userId, sessionId },
+        items,
+        options,
+      ),
+    );
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error("Export job error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
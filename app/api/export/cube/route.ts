@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { applyEdits, type EditValues } from "@/lib/serverFilters";
+import {
+  BAKE_LUT_SIZE,
+  buildIdentityLutImage,
+  serializeCubeLut,
+} from "@/lib/filters/core";
+
+interface CubeRequest {
+  edits: EditValues;
+  title?: string;
+}
+
+// Bakes the global color/tone edits into a .cube 3D LUT by running an identity grid
+// through the server pipeline. Spatial edits (masks, vignette, grain, crop) can't be
+// expressed as a LUT and are dropped.
+export async function POST(request: NextRequest) {
+  try {
+    const body: CubeRequest = await request.json();
+    if (!body?.edits || typeof body.edits !== "object") {
+      return NextResponse.json({ error: "Missing edits" }, { status: 400 });
+    }
+
+    const edits: EditValues = {
+      ...body.edits,
+      masks: undefined,
+      vignette: 0,
+      grain: 0,
+      crop: undefined,
+      straighten: 0,
+    };
+    const title = (body.title || "Driftboard").slice(0, 120);
+
+    const grid = buildIdentityLutImage(BAKE_LUT_SIZE);
+    const baked = applyEdits(
+      Buffer.from(grid.data.buffer),
+      grid.width,
+      grid.height,
+      edits,
+    );
+    const cube = serializeCubeLut(baked, BAKE_LUT_SIZE, title);
+    const filename = `${title.replace(/[^\w.-]+/g, "_") || "profile"}.cube`;
+
+    return new NextResponse(cube, {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Cube export error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
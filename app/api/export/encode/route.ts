@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import sharp from "sharp";
+import {
+  EXPORT_FORMATS,
+  type EditValues,
+  type ExportPhotoMetadata,
+} from "@/lib/types";
+import {
+  normalizeExportOptions,
+  encodeExport,
+} from "@/lib/utils/exportEncode";
+
+// Encodes an image the browser already rendered (GPU/CPU export path) into formats
+// canvas.toBlob can't produce (TIFF, AVIF, WebP with metadata). Resize and sharpening are
+// done client-side; optional "metadata" / "edits" fields are embedded as EXIF / XMP.
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    const optionsJson = formData.get("options") as string | null;
+    const metadataJson = formData.get("metadata") as string | null;
+    const editsJson = formData.get("edits") as string | null;
+
+    if (!file) {
+      return NextResponse.json({ error: "Missing file" }, { status: 400 });
+    }
+
+    let options;
+    let metadata: ExportPhotoMetadata | null;
+    let edits: EditValues | null;
+    try {
+      // Browser renders are sRGB; P3 exports go through /api/export instead
+      options = normalizeExportOptions({
+        ...(optionsJson ? JSON.parse(optionsJson) : null),
+        colorSpace: "srgb",
+      });
+      metadata = metadataJson ? JSON.parse(metadataJson) : null;
+      edits = editsJson ? JSON.parse(editsJson) : null;
+    } catch {
+      return NextResponse.json({ error: "Invalid options" }, { status: 400 });
+    }
+
+    let rawData: Buffer;
+    let width: number;
+    let height: number;
+    try {
+      const { data, info } = await sharp(Buffer.from(await file.arrayBuffer()))
+        .removeAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      rawData = data;
+      width = info.width;
+      height = info.height;
+    } catch (sharpError) {
+      console.error("Encode: failed to read rendered image:", sharpError);
+      return NextResponse.json(
+        { error: "Failed to read rendered image" },
+        { status: 400 },
+      );
+    }
+
+    const { buffer, contentType } = await encodeExport(
+      rawData,
+      width,
+      height,
+      options,
+      { metadata, edits },
+    );
+    const filename = `export-${Date.now()}.${EXPORT_FORMATS[options.format].extension}`;
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Content-Length": buffer.length.toString(),
+      },
+    });
+  } catch (error) {
+    console.error("Encode error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,7 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
-import sharp from "sharp";
 import { createClient } from "@supabase/supabase-js";
-import { applyEdits, EditValues } from "@/lib/serverFilters";
+import type { EditValues, PixelBuffer } from "@/lib/serverFilters";
+import {
+  getExportSource,
+  decodeToRgb,
+  renderEdits,
+  normalizeExportOptions,
+  readSourceMetadata,
+  resizeAndSharpen,
+  encodeExport,
+} from "@/lib/utils/exportEncode";
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportPhotoMetadata,
+} from "@/lib/types";
+
+// RAW decoding is CPU-heavy; give full-resolution exports room to finish
+export const maxDuration = 300;
 
 // Create Supabase client with service role for server-side operations
 const supabase = createClient(
@@ -12,9 +29,13 @@ const supabase = createClient(
 
 interface ExportRequest {
   storagePath?: string; // Path in 'photos' bucket (for regular images / preview)
-  originalStoragePath?: string; // Path in 'originals' bucket (for DNG files)
+  originalStoragePath?: string; // Path in 'originals' bucket (RAW/DNG originals are decoded server-side)
   edits: EditValues;
-  format: "jpeg" | "png" | "tiff";
+  options?: Partial<ExportOptions>;
+  metadata?: ExportPhotoMetadata; // Canvas-side metadata (takenAt, labels); merged with the source EXIF
+  /** @deprecated use options.format */
+  format?: ExportFormat;
+  /** @deprecated use options.quality */
   quality?: number;
   sessionId?: string; // If present, look in collab-photos
 }
@@ -27,9 +48,14 @@ export async function POST(request: NextRequest) {
       originalStoragePath,
       edits,
       format,
-      quality = 95,
+      quality,
       sessionId,
     } = body;
+    const options = normalizeExportOptions({
+      format,
+      quality,
+      ...body.options,
+    });
 
     if (!storagePath && !originalStoragePath) {
       return NextResponse.json(
@@ -38,33 +64,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Prefer photos bucket (JPEG preview) when available so Sharp can decode; use originals only when no preview
-    // If sessionId is present and using storagePath (preview), use 'collab-photos'
-    const bucket = storagePath
-      ? sessionId
-        ? "collab-photos"
-        : "photos"
-      : "originals";
-
-    const path = storagePath || originalStoragePath!;
-
-    // Sharp cannot decode DNG/RAW; reject so client can use client-side export
-    const pathLower = path.toLowerCase();
-    if (
-      pathLower.endsWith(".dng") ||
-      pathLower.endsWith(".raw") ||
-      pathLower.endsWith(".cr2") ||
-      pathLower.endsWith(".nef") ||
-      pathLower.endsWith(".arw")
-    ) {
-      return NextResponse.json(
-        {
-          error:
-            "Export from DNG/RAW is not supported on the server. Use Export in the editor to download the edited image.",
-        },
-        { status: 400 },
-      );
-    }
+    const source = getExportSource(
+      storagePath,
+      originalStoragePath,
+      sessionId,
+    )!;
+    const { bucket, path } = source;
 
     // Download the source image
     const { data: fileData, error: downloadError } = await supabase.storage
@@ -83,21 +88,25 @@ export async function POST(request: NextRequest) {
     const arrayBuffer = await fileData.arrayBuffer();
     const sourceBuffer = Buffer.from(arrayBuffer);
 
-    // Get image as raw RGB pixels using Sharp
-    let rawData: Buffer;
+    // Read EXIF from the source before it's decoded (skipped when exporting without metadata)
+    const metadata =
+      options.metadata === "none"
+        ? null
+        : await readSourceMetadata(sourceBuffer, body.metadata);
+
+    // Get image as raw RGB pixels (RAW/DNG decoded with dcraw, everything else with Sharp)
+    let rawData: PixelBuffer;
     let width: number;
     let height: number;
 
     try {
-      const image = sharp(sourceBuffer);
-      const metadata = await image.metadata();
-      width = metadata.width || 0;
-      height = metadata.height || 0;
-
-      // Extract raw RGB pixels
-      rawData = await image.removeAlpha().raw().toBuffer();
-    } catch (sharpError) {
-      console.error("Failed to process image with Sharp:", sharpError);
+      ({ data: rawData, width, height } = await decodeToRgb(
+        sourceBuffer,
+        path,
+        options,
+      ));
+    } catch (decodeError) {
+      console.error("Failed to decode source image:", decodeError);
       return NextResponse.json(
         {
           error:
@@ -107,39 +116,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Apply edits to the raw pixel data
-    const editedData = applyEdits(rawData, width, height, edits);
+    // Apply edits + crop / straighten to the raw pixel data
+    const edited = renderEdits(rawData, width, height, edits);
 
-    // Convert back to desired format using Sharp
+    // Long-edge resize + output sharpening, then encode (same options as the client export path)
     let outputBuffer: Buffer;
     let contentType: string;
 
     try {
-      const outputImage = sharp(editedData, {
-        raw: {
-          width,
-          height,
-          channels: 3,
-        },
-      });
-
-      switch (format) {
-        case "png":
-          outputBuffer = await outputImage.png().toBuffer();
-          contentType = "image/png";
-          break;
-        case "tiff":
-          outputBuffer = await outputImage
-            .tiff({ compression: "lzw" })
-            .toBuffer();
-          contentType = "image/tiff";
-          break;
-        case "jpeg":
-        default:
-          outputBuffer = await outputImage.jpeg({ quality }).toBuffer();
-          contentType = "image/jpeg";
-          break;
-      }
+      const sized = await resizeAndSharpen(
+        edited.data,
+        edited.width,
+        edited.height,
+        options,
+      );
+      ({ buffer: outputBuffer, contentType } = await encodeExport(
+        sized.data,
+        sized.width,
+        sized.height,
+        options,
+        { metadata, edits },
+      ));
     } catch (outputError) {
       console.error("Failed to encode output image:", outputError);
       return NextResponse.json(
@@ -149,7 +146,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate filename
-    const ext = format === "jpeg" ? "jpg" : format;
+    const ext = EXPORT_FORMATS[options.format].extension;
     const filename = `export-${Date.now()}.${ext}`;
 
     // Return the processed image (convert Buffer to Uint8Array for NextResponse)
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getLabelingProvider } from "@/lib/labeling/provider";
+import { labelStoredPhoto, savePhotoLabels } from "@/lib/labeling/storedPhoto";
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+);
+
+const DEFAULT_BATCH_SIZE = 10;
+const MAX_BATCH_SIZE = 25;
+
+/**
+ * Backfill labels for the user's photos that have none (uploaded before labeling
+ * existed, or while it was off). Labels one page per call, ordered by storage path;
+ * the client passes the returned cursor back until it is null. Photos the model finds
+ * nothing in stay unlabeled but are not revisited in the same run thanks to the cursor.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, sessionId, cursor, limit } = body as {
+      userId?: string;
+      sessionId?: string;
+      cursor?: string | null;
+      limit?: number;
+    };
+
+    if (!userId) {
+      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
+    }
+    const batchSize = Math.min(
+      Math.max(1, Math.floor(limit ?? DEFAULT_BATCH_SIZE)),
+      MAX_BATCH_SIZE,
+    );
+
+    // Unlabeled master rows (copies share the upload, savePhotoLabels updates them too)
+    const unlabeled = (columns: string, options?: { count: "exact" }) => {
+      let query = supabase
+        .from(sessionId ? "collab_photos" : "photo_edits")
+        .select(columns, options)
+        .eq("user_id", userId)
+        .eq("copy_id", "")
+        .or("labels.is.null,labels.eq.{}");
+      if (sessionId) query = query.eq("session_id", sessionId);
+      return query;
+    };
+
+    let pageQuery = unlabeled("storage_path")
+      .order("storage_path", { ascending: true })
+      .limit(batchSize);
+    if (cursor) pageQuery = pageQuery.gt("storage_path", cursor);
+    const { data: rows, error: rowsError } = await pageQuery;
+    if (rowsError) {
+      console.error("label-photo batch query error:", rowsError);
+      return NextResponse.json(
+        { error: "Failed to load photos" },
+        { status: 500 },
+      );
+    }
+
+    const paths = (rows as unknown as { storage_path: string }[]).map(
+      (row) => row.storage_path,
+    );
+    const results: { storagePath: string; labels: string[] }[] = [];
+    let failed = 0;
+    for (const storagePath of paths) {
+      try {
+        const labels = await labelStoredPhoto(supabase, storagePath, sessionId);
+        await savePhotoLabels(
+          supabase,
+          { storagePath, userId, sessionId },
+          labels,
+        );
+        results.push({ storagePath, labels });
+      } catch (error) {
+        console.error(`label-photo batch failed for ${storagePath}:`, error);
+        failed++;
+      }
+    }
+
+    const nextCursor =
+      paths.length === batchSize ? paths[paths.length - 1] : null;
+    let remaining = 0;
+    if (nextCursor) {
+      const { count } = await unlabeled("storage_path", {
+        count: "exact",
+      }).gt("storage_path", nextCursor);
+      remaining = count ?? 0;
+    }
+
+    return NextResponse.json({
+      results,
+      failed,
+      nextCursor,
+      remaining,
+      provider: getLabelingProvider().name,
+    });
+  } catch (error) {
+    console.error("label-photo batch error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
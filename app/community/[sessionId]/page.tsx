@@ -4,7 +4,18 @@ import dynamic from "next/dynamic";
 import { useEffect, useState, useRef, useCallback } from "react";
 import { useAuth } from "@/lib/auth";
 import { useRouter, useParams } from "next/navigation";
-import { supabase } from "@/lib/supabase";
+import { getAuthHeaders, supabase } from "@/lib/supabase";
+import type {
+  CollabOnlineUser,
+  CollabPresenceState,
+  CollabRole,
+} from "@/lib/types";
+import {
+  ASSIGNABLE_COLLAB_ROLES,
+  COLLAB_ROLE_LABELS,
+  hasCollabRole,
+} from "@/lib/utils/collabRoles";
+import { CollabInvites } from "@/components/CollabInvites";
 
 const CanvasEditor = dynamic(
   () => import("@/components/CanvasEditor").then((m) => m.CanvasEditor),
@@ -25,21 +36,13 @@ interface Session {
 interface SessionMember {
   id: string;
   user_id: string;
-  role: string;
+  role: CollabRole;
   status: string;
   invited_email?: string;
   approved_at?: string;
   joined_at?: string;
 }
 
-interface UserPresence {
-  id: string;
-  email: string;
-  name?: string;
-  color: string;
-  cursor?: { x: number; y: number };
-}
-
 interface PendingRequest {
   id: string;
   userId: string;
@@ -69,6 +72,9 @@ const USER_COLORS = [
   "#F97316",
 ];
 
+// Cursor / viewport / selection updates are tracked at most this often
+const PRESENCE_THROTTLE_MS = 100;
+
 // Module-level initialization tracking to prevent re-fetching on tab switch
 const initializedSessions = new Set<string>();
 
@@ -83,23 +89,27 @@ export default function CollaborativeCanvasPage() {
   const [error, setError] = useState("");
   const [isOwner, setIsOwner] = useState(false);
   const isOwnerRef = useRef(false); // Keep a ref for realtime callback
+  const canReviewRequestsRef = useRef(false); // Owner or admin (realtime callback)
   const [pendingRequests, setPendingRequests] = useState<PendingRequest[]>([]);
-  const [onlineUsers, setOnlineUsers] = useState<UserPresence[]>([]);
+  const [onlineUsers, setOnlineUsers] = useState<CollabOnlineUser[]>([]);
   const [activityFeed, setActivityFeed] = useState<Activity[]>([]);
   const [showMembers, setShowMembers] = useState(false);
   const [showActivity, setShowActivity] = useState(false);
   const [photosLoading, setPhotosLoading] = useState(true);
   const [newJoinRequest, setNewJoinRequest] = useState<{email?: string; name?: string} | null>(null);
 
-  const realtimeChannel = useRef<ReturnType<typeof supabase.channel> | null>(
-    null,
-  );
   const presenceChannel = useRef<ReturnType<typeof supabase.channel> | null>(
     null,
   );
   const dbChangesChannel = useRef<ReturnType<typeof supabase.channel> | null>(
     null,
   );
+  // Latest canvas presence (cursor, viewport, selection, open photo), re-tracked on change
+  const presenceState = useRef<Partial<CollabPresenceState>>({});
+  const presenceSubscribed = useRef(false);
+  const presenceTrackTimeout = useRef<ReturnType<typeof setTimeout> | null>(
+    null,
+  );
   const isFetching = useRef(false);
 
   useEffect(() => {
@@ -159,15 +169,18 @@ export default function CollaborativeCanvasPage() {
       } as Session);
       setIsOwner(ownerStatus);
       isOwnerRef.current = ownerStatus; // Sync ref for realtime callback
+      canReviewRequestsRef.current =
+        ownerStatus || hasCollabRole(membership?.role, "admin");
       setActivityFeed(activityRes.data || []);
 
       // Initialize Realtime
       initializeRealtime();
 
-      // Fetch pending requests only for owners
-      if (ownerStatus) {
+      // Fetch pending requests only for owners and admins
+      if (canReviewRequestsRef.current) {
         const response = await fetch(
-          `/api/collab/join?sessionId=${sessionId}&userId=${user.id}`,
+          `/api/collab/join?sessionId=${sessionId}`,
+          { headers: await getAuthHeaders() },
         );
         const result = await response.json();
         if (result.requests) setPendingRequests(result.requests);
@@ -202,6 +215,12 @@ export default function CollaborativeCanvasPage() {
 
       if (data) {
         setSession(data as Session);
+        // Roles change live: an admin (or former admin) reviews requests accordingly
+        const membership = (data as Session).collab_members?.find(
+          (m) => m.user_id === user?.id && m.status === "approved",
+        );
+        canReviewRequestsRef.current =
+          isOwnerRef.current || hasCollabRole(membership?.role, "admin");
       }
     } catch (err) {
       console.error("Error refreshing session:", err);
@@ -232,15 +251,22 @@ export default function CollaborativeCanvasPage() {
     presenceChannel.current
       .on("presence", { event: "sync" }, () => {
         const state = presenceChannel.current?.presenceState() || {};
-        const users: UserPresence[] = [];
+        const users: CollabOnlineUser[] = [];
 
         Object.entries(state).forEach(([key, presences], index) => {
-          const presence = presences[0] as { email?: string; name?: string };
+          const presence = presences[0] as Partial<CollabPresenceState> & {
+            email?: string;
+            name?: string;
+          };
           users.push({
             id: key,
             email: presence?.email || "",
             name: presence?.name,
             color: USER_COLORS[index % USER_COLORS.length],
+            cursor: presence?.cursor,
+            viewport: presence?.viewport,
+            selectedKeys: presence?.selectedKeys,
+            editingKey: presence?.editingKey,
           });
         });
 
@@ -248,27 +274,11 @@ export default function CollaborativeCanvasPage() {
       })
       .subscribe(async (status) => {
         if (status === "SUBSCRIBED") {
-          await presenceChannel.current?.track({
-            email: user?.email,
-            name: user?.email?.split("@")[0],
-          });
+          presenceSubscribed.current = true;
+          await trackPresence();
         }
       });
 
-    realtimeChannel.current = supabase.channel(`broadcast:${sessionId}`);
-
-    realtimeChannel.current
-      .on("broadcast", { event: "cursor" }, ({ payload }) => {
-        setOnlineUsers((prev) =>
-          prev.map((u) =>
-            u.id === payload.userId
-              ? { ...u, cursor: { x: payload.x, y: payload.y } }
-              : u,
-          ),
-        );
-      })
-      .subscribe();
-
     dbChangesChannel.current = supabase
       .channel(`db-changes:${sessionId}`)
       .on(
@@ -279,16 +289,16 @@ export default function CollaborativeCanvasPage() {
           table: "collab_members",
           filter: `session_id=eq.${sessionId}`,
         },
-        (payload) => {
+        async (payload) => {
           console.log("[Realtime] Member change detected:", payload);
-          fetchSession();
-          console.log("[Realtime] isOwner value:", isOwnerRef.current);
-          if (isOwnerRef.current) {
+          await fetchSession();
+          console.log("[Realtime] canReviewRequests value:", canReviewRequestsRef.current);
+          if (canReviewRequestsRef.current) {
             console.log("[Realtime] Fetching pending requests with notification");
             // Check if there's a new pending request to show notification
             fetchPendingRequests(true);
           } else {
-            console.log("[Realtime] Not owner, skipping notification");
+            console.log("[Realtime] Not owner or admin, skipping notification");
           }
         },
       )
@@ -314,7 +324,8 @@ export default function CollaborativeCanvasPage() {
     try {
       console.log("[fetchPendingRequests] showNotification:", showNotification, "current pendingRequests:", pendingRequests.length);
       const response = await fetch(
-        `/api/collab/join?sessionId=${sessionId}&userId=${user?.id}`,
+        `/api/collab/join?sessionId=${sessionId}`,
+        { headers: await getAuthHeaders() },
       );
       const result = await response.json();
       console.log("[fetchPendingRequests] API result:", result);
@@ -341,14 +352,15 @@ export default function CollaborativeCanvasPage() {
   };
 
   const cleanupRealtime = () => {
+    if (presenceTrackTimeout.current) {
+      clearTimeout(presenceTrackTimeout.current);
+      presenceTrackTimeout.current = null;
+    }
     if (presenceChannel.current) {
+      presenceSubscribed.current = false;
       supabase.removeChannel(presenceChannel.current);
       presenceChannel.current = null;
     }
-    if (realtimeChannel.current) {
-      supabase.removeChannel(realtimeChannel.current);
-      realtimeChannel.current = null;
-    }
     if (dbChangesChannel.current) {
       supabase.removeChannel(dbChangesChannel.current);
       dbChangesChannel.current = null;
@@ -359,8 +371,11 @@ export default function CollaborativeCanvasPage() {
     try {
       const response = await fetch("/api/collab/approve", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ memberId, userId: user?.id, action: "approve" }),
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({ memberId, action: "approve" }),
       });
 
       if (response.ok) {
@@ -375,8 +390,11 @@ export default function CollaborativeCanvasPage() {
     try {
       const response = await fetch("/api/collab/approve", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ memberId, userId: user?.id, action: "reject" }),
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({ memberId, action: "reject" }),
       });
 
       if (response.ok) {
@@ -392,8 +410,11 @@ export default function CollaborativeCanvasPage() {
     try {
       const response = await fetch("/api/collab/approve", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ memberId, userId: user?.id, action: "remove" }),
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({ memberId, action: "remove" }),
       });
 
       if (response.ok) {
@@ -404,6 +425,25 @@ export default function CollaborativeCanvasPage() {
     }
   };
 
+  const handleChangeRole = async (memberId: string, role: CollabRole) => {
+    try {
+      const response = await fetch("/api/collab/members", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({ memberId, role }),
+      });
+
+      if (response.ok) {
+        // Refresh handled by realtime
+      }
+    } catch (err) {
+      console.error("Error changing role:", err);
+    }
+  };
+
   const handleEndSession = async () => {
     if (
       !confirm(
@@ -422,17 +462,26 @@ export default function CollaborativeCanvasPage() {
     }
   };
 
-  const broadcastCursor = useCallback(
-    (x: number, y: number) => {
-      if (realtimeChannel.current) {
-        realtimeChannel.current.send({
-          type: "broadcast",
-          event: "cursor",
-          payload: { userId: user?.id, x, y },
-        });
-      }
+  const trackPresence = useCallback(async () => {
+    if (!presenceChannel.current || !presenceSubscribed.current) return;
+    await presenceChannel.current.track({
+      email: user?.email,
+      name: user?.email?.split("@")[0],
+      ...presenceState.current,
+    });
+  }, [user?.email]);
+
+  // Canvas presence changes arrive on every pointer move: merge and track (throttled)
+  const handlePresenceChange = useCallback(
+    (state: Partial<CollabPresenceState>) => {
+      presenceState.current = { ...presenceState.current, ...state };
+      if (presenceTrackTimeout.current) return;
+      presenceTrackTimeout.current = setTimeout(() => {
+        presenceTrackTimeout.current = null;
+        trackPresence();
+      }, PRESENCE_THROTTLE_MS);
     },
-    [user?.id],
+    [trackPresence],
   );
 
   if (loading || loadingSession) {
@@ -464,6 +513,12 @@ export default function CollaborativeCanvasPage() {
       (m: SessionMember) => m.status === "approved",
     ) || [];
 
+  // The current user's role: the owner is always master
+  const myRole: CollabRole | undefined = isOwner
+    ? "master"
+    : approvedMembers.find((m) => m.user_id === user.id)?.role;
+  const canReviewRequests = hasCollabRole(myRole, "admin");
+
   // Build a static userId → display name map from all members (covers offline users too)
   const memberNames: Record<string, string> = {};
   session?.collab_members?.forEach((m: SessionMember) => {
@@ -484,11 +539,13 @@ export default function CollaborativeCanvasPage() {
         onPhotosLoadStateChange={setPhotosLoading}
         onToggleSidebar={() => setShowMembers((v) => !v)}
         onlineUsers={onlineUsers}
+        onPresenceChange={handlePresenceChange}
         memberNames={memberNames}
         pendingRequestCount={pendingRequests.length}
         approvedCount={approvedMembers.length}
         maxCollaborators={session?.max_collaborators}
         isOwner={isOwner}
+        role={myRole}
       />
 
       {/* Loading Overlay */}
@@ -571,43 +628,11 @@ export default function CollaborativeCanvasPage() {
               </button>
             </div>
 
-            {isOwner && (
-              <div className="mb-4 p-3 bg-[#0a0a0a] rounded-lg">
-                <p className="text-xs text-gray-400 mb-2">Invite others:</p>
-                <div className="flex items-center gap-2">
-                  <input
-                    type="text"
-                    readOnly
-                    value={`${typeof window !== "undefined" ? window.location.origin : ""}/community/join?code=${session?.invite_code}`}
-                    className="flex-1 text-xs bg-[#1a1a1a] border border-[#2a2a2a] rounded px-2 py-1 text-gray-300"
-                  />
-                  <button
-                    onClick={() =>
-                      navigator.clipboard.writeText(
-                        `${window.location.origin}/community/join?code=${session?.invite_code}`,
-                      )
-                    }
-                    className="p-1 bg-[#3ECF8E] rounded text-black hover:bg-[#35b87a]"
-                  >
-                    <svg
-                      className="w-4 h-4"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
-                      />
-                    </svg>
-                  </button>
-                </div>
-              </div>
+            {canReviewRequests && myRole && (
+              <CollabInvites sessionId={sessionId} role={myRole} />
             )}
 
-            {isOwner && pendingRequests.length > 0 && (
+            {canReviewRequests && pendingRequests.length > 0 && (
               <div className="mb-4">
                 <h3 className="text-sm font-medium mb-2 text-yellow-400">
                   Pending Requests
@@ -675,16 +700,41 @@ export default function CollaborativeCanvasPage() {
                 >
                   <div className="flex items-center gap-2">
                     <div className="w-8 h-8 rounded-full bg-[#3ECF8E] flex items-center justify-center text-xs font-medium text-black uppercase">
-                      {member.role === "master" ? "M" : "C"}
+                      {COLLAB_ROLE_LABELS[member.role]?.[0] ?? "?"}
                     </div>
                     <div>
                       <p className="text-sm">
-                        {member.role === "master" ? "Master" : "Collaborator"}
+                        {memberNames[member.user_id] ??
+                          COLLAB_ROLE_LABELS[member.role]}
                         {member.user_id === user?.id && " (You)"}
                       </p>
+                      {isOwner && member.role !== "master" ? (
+                        <select
+                          value={member.role}
+                          onChange={(e) =>
+                            handleChangeRole(
+                              member.id,
+                              e.target.value as CollabRole,
+                            )
+                          }
+                          className="mt-0.5 text-xs bg-[#0a0a0a] border border-[#2a2a2a] rounded px-1 py-0.5 text-gray-300"
+                        >
+                          {ASSIGNABLE_COLLAB_ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {COLLAB_ROLE_LABELS[role]}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <p className="text-xs text-gray-400">
+                          {COLLAB_ROLE_LABELS[member.role]}
+                        </p>
+                      )}
                     </div>
                   </div>
-                  {isOwner &&
+                  {(isOwner ||
+                    (canReviewRequests &&
+                      !hasCollabRole(member.role, "admin"))) &&
                     member.role !== "master" &&
                     member.user_id !== user?.id && (
                       <button
@@ -3,7 +3,9 @@
 import { useEffect, useState, Suspense, useRef } from "react";
 import { useAuth } from "@/lib/auth";
 import { useRouter, useSearchParams } from "next/navigation";
-import { supabase } from "@/lib/supabase";
+import { getAuthHeaders, supabase } from "@/lib/supabase";
+import type { CollabRole } from "@/lib/types";
+import { COLLAB_ROLE_LABELS } from "@/lib/utils/collabRoles";
 
 function JoinSessionContent() {
   const { user, loading } = useAuth();
@@ -21,6 +23,8 @@ function JoinSessionContent() {
   const [loadingState, setLoadingState] = useState(true);
   const [requesting, setRequesting] = useState(false);
   const [autoRedirect, setAutoRedirect] = useState(false);
+  // Role of a pre-approved invite link (null = the request needs approval)
+  const [invitedRole, setInvitedRole] = useState<CollabRole | null>(null);
   const memberChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
 
   const inviteCode = searchParams.get("code");
@@ -42,16 +46,18 @@ function JoinSessionContent() {
 
   const fetchSessionInfo = async () => {
     try {
-      const { data, error } = await supabase
-        .from("collab_sessions")
-        .select("id, name, owner_id")
-        .eq("invite_code", inviteCode?.toUpperCase())
-        .single();
-
-      if (error || !data) {
-        setSessionError("Invalid invite code");
+      const params = new URLSearchParams({ code: inviteCode ?? "" });
+      const response = await fetch(`/api/collab/join?${params}`, {
+        headers: await getAuthHeaders(),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setSessionError(result.error || "Invalid invite code");
       } else {
+        const data = result.session;
         setSessionInfo(data);
+        setInvitedRole(result.role);
 
         // Check if user is already a member
         const { data: member } = await supabase
@@ -61,7 +67,8 @@ function JoinSessionContent() {
           .eq("user_id", user?.id)
           .single();
 
-        if (member) {
+        // A pending request can still join through a pre-approved link
+        if (member && !(member.status === "pending" && result.role)) {
           setRequestStatus(
             member.status as "pending" | "approved" | "rejected",
           );
@@ -83,12 +90,11 @@ function JoinSessionContent() {
     try {
       const response = await fetch("/api/collab/join", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          inviteCode: inviteCode,
-          userId: user?.id,
-          email: user?.email,
-        }),
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({ inviteCode: inviteCode }),
       });
 
       const result = await response.json();
@@ -97,6 +103,12 @@ function JoinSessionContent() {
         throw new Error(result.error || "Failed to request to join");
       }
 
+      if (result.status === "approved") {
+        setRequestStatus("approved");
+        setAutoRedirect(true);
+        return;
+      }
+
       setRequestStatus("pending");
 
       // Set up realtime listener for this user's membership
@@ -211,8 +223,9 @@ function JoinSessionContent() {
             {requestStatus === "none" && (
               <>
                 <p className="text-gray-300 mb-6 text-center">
-                  Request to join this session? The master will need to approve
-                  your request.
+                  {invitedRole
+                    ? `This invite adds you as ${COLLAB_ROLE_LABELS[invitedRole].toLowerCase()}, no approval needed.`
+                    : "Request to join this session? The master will need to approve your request."}
                 </p>
                 <div className="flex items-center justify-center gap-3">
                   <button
@@ -226,7 +239,11 @@ function JoinSessionContent() {
                     disabled={requesting}
                     className="px-4 py-2 bg-[#3ECF8E] text-black font-medium rounded-lg hover:bg-[#35b87a] transition-colors disabled:opacity-50"
                   >
-                    {requesting ? "Sending..." : "Request to Join"}
+                    {requesting
+                      ? "Sending..."
+                      : invitedRole
+                        ? "Join Session"
+                        : "Request to Join"}
                   </button>
                 </div>
               </>
@@ -282,7 +299,9 @@ function JoinSessionContent() {
                 </div>
                 <h3 className="font-medium text-lg mb-2">You&apos;re In!</h3>
                 <p className="text-gray-400 mb-6">
-                  Your request has been approved. Welcome to the session!
+                  {invitedRole
+                    ? "Welcome to the session!"
+                    : "Your request has been approved. Welcome to the session!"}
                 </p>
                 <button
                   onClick={() => router.push(`/community/${sessionInfo.id}`)}
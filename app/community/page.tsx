@@ -3,7 +3,8 @@
 import { useEffect, useState, useRef, useCallback } from "react";
 import { useAuth } from "@/lib/auth";
 import { useRouter } from "next/navigation";
-import { supabase } from "@/lib/supabase";
+import { getAuthHeaders, supabase } from "@/lib/supabase";
+import { getInviteLink } from "@/lib/utils/collabInvites";
 
 interface Session {
   id: string;
@@ -201,26 +202,14 @@ export default function CommunityPage() {
     setError("");
 
     try {
-      const { data, error } = await supabase
-        .from("collab_members")
-        .insert({
-          session_id: null, // Will be resolved by invite code
-          user_id: user?.id,
-          role: "collaborator",
-          status: "pending",
-        })
-        .select()
-        .single();
-
       // Call the join API
       const response = await fetch("/api/collab/join", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          inviteCode: joinCode.trim(),
-          userId: user?.id,
-          email: user?.email,
-        }),
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({ inviteCode: joinCode.trim() }),
       });
 
       const result = await response.json();
@@ -229,9 +218,13 @@ export default function CommunityPage() {
         throw new Error(result.error || "Failed to join session");
       }
 
-      setSuccess("Join request sent! Waiting for approval.");
       setShowJoinModal(false);
       setJoinCode("");
+      if (result.status === "approved") {
+        router.push(`/community/${result.sessionId}`);
+        return;
+      }
+      setSuccess("Join request sent! Waiting for approval.");
       fetchSessions();
     } catch (err: unknown) {
       const errorMessage =
@@ -242,11 +235,36 @@ export default function CommunityPage() {
     }
   };
 
-  const copyInviteLink = (code: string) => {
-    const link = `${window.location.origin}/community/join?code=${code}`;
-    navigator.clipboard.writeText(link);
-    setSuccess("Invite link copied!");
-    setTimeout(() => setSuccess(""), 2000);
+  // A fresh link that needs approval and expires in a week; the Members panel has more options
+  const copyInviteLink = async (sessionId: string) => {
+    try {
+      const response = await fetch("/api/collab/invites", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({
+          sessionId,
+          expiresInHours: 7 * 24,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to create invite link");
+      }
+
+      await navigator.clipboard.writeText(
+        getInviteLink(window.location.origin, result.invite.token),
+      );
+      setSuccess("Invite link copied! It expires in 7 days.");
+      setTimeout(() => setSuccess(""), 2000);
+    } catch (err: unknown) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to create invite link";
+      setError(errorMessage);
+    }
   };
 
   if (loading) {
@@ -523,9 +541,9 @@ export default function CommunityPage() {
                     <div className="flex items-center gap-3 sm:self-center">
                       {isOwner && (
                         <button
-                          onClick={() => copyInviteLink(session.invite_code)}
+                          onClick={() => copyInviteLink(session.id)}
                           className="p-2.5 text-gray-400 hover:text-white hover:bg-[#252525] rounded-xl transition-all border border-transparent hover:border-[#333]"
-                          title="Copy invite link"
+                          title="Copy a 7-day invite link"
                         >
                           <svg
                             className="w-5 h-5"
@@ -0,0 +1,8 @@
+import { notFound } from "next/navigation";
+import { FilterParityPanel } from "@/components/FilterParityPanel";
+
+// Development-only diagnostics page (GPU vs CPU filter parity)
+export default function FilterParityPage() {
+  if (process.env.NODE_ENV === "production") notFound();
+  return <FilterParityPanel />;
+}
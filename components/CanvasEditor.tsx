@@ -21,6 +21,11 @@ import Konva from "konva";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { TopBar } from "./TopBar";
 import { EditPanel } from "./EditPanel";
+import { ExportDialog } from "./ExportDialog";
+import { PixelReadout } from "./PixelReadout";
+import { ReferencePanel } from "./ReferencePanel";
+import { CullingView } from "./CullingView";
+import { LabelEditor } from "./LabelEditor";
 import { snapToGrid, findNearestPhoto } from "@/lib/utils";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/lib/auth";
@@ -30,8 +35,17 @@ import {
   type PhotoFolder,
   type Preset,
   type PhotoEdits,
+  type LocalMask,
+  type CullMarks,
+  type CollabOnlineUser,
+  type CollabPresenceState,
+  type CollabMember,
+  type CollabCommentThread,
+  type CollabRole,
   DEFAULT_CURVES,
   EDIT_KEYS,
+  EDIT_KEY_GROUPS,
+  COLOR_LABELS,
   cloneEditValue,
 } from "@/lib/types";
 import {
@@ -44,16 +58,31 @@ import {
   selectDimensions,
 } from "@/lib/stores/canvasStore";
 import { useUIStore } from "@/lib/stores/uiStore";
-import { useEditStore } from "@/lib/stores/editStore";
+import { appendEditHistory, useEditStore } from "@/lib/stores/editStore";
 import { useInteractionStore } from "@/lib/stores/interactionStore";
+import type { AutoToneValues } from "@/lib/filters/core";
 import { useViewportCulling } from "@/lib/hooks/useViewportCulling";
 import { useIsMobile } from "@/lib/hooks/useIsMobile";
 import { getCachedImage } from "@/lib/imageCache";
 import { useAutoSave } from "@/lib/hooks/useAutoSave";
 import { useExport } from "@/lib/hooks/useExport";
 import { useCollabRealtime } from "@/lib/hooks/useCollabRealtime";
+import { useCollabComments } from "@/lib/hooks/useCollabComments";
+import { getPinNumbers } from "@/lib/utils/collabComments";
+import { hasCollabRole } from "@/lib/utils/collabRoles";
+import {
+  useSmartCollections,
+  useSmartCollectionMatches,
+} from "@/lib/hooks/useSmartCollections";
+import {
+  getPhotoRowKey,
+  isPhotoFilterActive,
+  matchesPhotoFilter,
+} from "@/lib/utils/smartCollections";
 
 import { ImageNode } from "@/components/canvas/ImageNode";
+import { CollabCursors } from "@/components/canvas/CollabCursors";
+import type { CommentPin } from "@/components/canvas/CommentPins";
 import { useUpload } from "@/lib/hooks/useUpload";
 import {
   isDNG,
@@ -88,6 +117,9 @@ import {
 
 const GRID_SIZE = 50;
 
+/** Photos per /api/auto-tone request (progress is reported per chunk) */
+const AUTO_TONE_BATCH_SIZE = 10;
+
 // Types imported from @/lib/types
 
 // Build delete-photo API payload: storagePath = path in photos bucket, originalStoragePath = path in originals bucket
@@ -112,7 +144,7 @@ function getDeletePhotoPayload(img: CanvasImage): {
 
 // EDIT_KEYS and cloneEditValue imported from @/lib/types
 
-function getEditSnapshot(img: CanvasImage): Partial<CanvasImage> {
+function getEditSnapshot(img: Partial<CanvasImage>): Partial<CanvasImage> {
   const out: Partial<CanvasImage> = {};
   for (const key of EDIT_KEYS) {
     const v = img[key as keyof CanvasImage];
@@ -124,25 +156,58 @@ function getEditSnapshot(img: CanvasImage): Partial<CanvasImage> {
   return out;
 }
 
-// PhotoEdits imported from @/lib/types
+// Last undo/redo step: the trailing run of entries sharing a batchId, or the last entry
+function getTrailingBatch<T extends { batchId?: string }>(stack: T[]): T[] {
+  const last = stack[stack.length - 1];
+  if (!last) return [];
+  if (!last.batchId) return [last];
+  let start = stack.length - 1;
+  while (start > 0 && stack[start - 1].batchId === last.batchId) start--;
+  return stack.slice(start);
+}
+
+// Keys typed into a form field or editable text aren't shortcuts
+function isEditableTarget(target: EventTarget | null): boolean {
+  return !!(target as HTMLElement | null)?.closest?.(
+    'input, textarea, select, [contenteditable="true"]',
+  );
+}
+
+// Row key shared with other clients (see getPhotoRowKey); null until the upload is saved
+function getImageRowKey(img: CanvasImage): string | null {
+  const path = img.storagePath || img.originalStoragePath;
+  return path ? getPhotoRowKey(path, img.copyId) : null;
+}
 
-interface SessionOnlineUser {
-  id: string;
-  email: string;
-  name?: string;
-  color: string;
+// On-canvas size of a photo: folder photos are fitted to the grid like in ImageNode
+function getDisplaySize(img: CanvasImage): { width: number; height: number } {
+  let width = img.width * img.scaleX;
+  let height = img.height * img.scaleY;
+  if (img.folderId) {
+    const { imageMaxSize, imageMaxHeight } = GRID_CONFIG;
+    const fitScale = Math.min(imageMaxSize / width, imageMaxHeight / height, 1);
+    width *= fitScale;
+    height *= fitScale;
+  }
+  return { width, height };
 }
 
+// PhotoEdits imported from @/lib/types
+
 type CanvasEditorProps = {
   onPhotosLoadStateChange?: (loading: boolean) => void;
   sessionId?: string;
   onToggleSidebar?: () => void;
-  onlineUsers?: SessionOnlineUser[];
+  onlineUsers?: CollabOnlineUser[];
+  /** Cursor / viewport / selection changes to share with the session (throttled by the page) */
+  onPresenceChange?: (state: Partial<CollabPresenceState>) => void;
   memberNames?: Record<string, string>;
   pendingRequestCount?: number;
   approvedCount?: number;
   maxCollaborators?: number;
   isOwner?: boolean;
+  /** Current user's collab role (the owner is master): controls it can't use are disabled */
+  role?: CollabRole;
 };
 
 export function CanvasEditor({
@@ -150,11 +215,13 @@ export function CanvasEditor({
   sessionId,
   onToggleSidebar,
   onlineUsers,
+  onPresenceChange,
   memberNames,
   pendingRequestCount,
   approvedCount,
   maxCollaborators,
   isOwner,
+  role,
 }: CanvasEditorProps = {}) {
   const stageRef = useRef<Konva.Stage>(null);
   const folderLabelRefs = useRef<Record<string, Konva.Text>>({});
@@ -189,6 +256,17 @@ export function CanvasEditor({
   const editRedoStack = useEditStore((s) => s.editRedoStack);
   const bypassedTabs = useEditStore((s) => s.bypassedTabs);
   const copiedEdit = useEditStore((s) => s.copiedEdit);
+  const activeMaskId = useEditStore((s) => s.activeMaskId);
+  const maskBrush = useEditStore((s) => s.maskBrush);
+  const isCropping = useEditStore((s) => s.isCropping);
+  const cropAspect = useEditStore((s) => s.cropAspect);
+  const histogram = useEditStore((s) => s.histogram);
+  const clippingWarnings = useEditStore((s) => s.clippingWarnings);
+  const isInspecting = useEditStore((s) => s.isInspecting);
+  const targetedAdjustment = useEditStore((s) => s.targetedAdjustment);
+  const isPlacingCommentPin = useEditStore((s) => s.isPlacingCommentPin);
+  const commentPinDraft = useEditStore((s) => s.commentPinDraft);
+  const activeCommentThreadId = useEditStore((s) => s.activeCommentThreadId);
   const editActions = useEditStore.getState();
   const setEditHistory = editActions.setEditHistory;
   const setEditRedoStack = editActions.setEditRedoStack;
@@ -269,6 +347,7 @@ export function CanvasEditor({
   );
   const imageContextMenu = useUIStore((s) => s.imageContextMenu);
   const borderDialogImageId = useUIStore((s) => s.borderDialogImageId);
+  const labelEditorImageId = useUIStore((s) => s.labelEditorImageId);
   const canvasContextMenu = useUIStore((s) => s.canvasContextMenu);
   const createPresetFromImageId = useUIStore((s) => s.createPresetFromImageId);
   const createPresetName = useUIStore((s) => s.createPresetName);
@@ -280,11 +359,21 @@ export function CanvasEditor({
     (s) => s.applyPresetToSelectionIds,
   );
   const applyPresetProgress = useUIStore((s) => s.applyPresetProgress);
+  const syncSettings = useUIStore((s) => s.syncSettings);
+  const syncSettingsGroups = useUIStore((s) => s.syncSettingsGroups);
+  const exportDialogIds = useUIStore((s) => s.exportDialogIds);
+  const exportOptions = useUIStore((s) => s.exportOptions);
   const zoomedImageId = useUIStore((s) => s.zoomedImageId);
+  const compareSplit = useUIStore((s) => s.compareSplit);
+  const referenceImageId = useUIStore((s) => s.referenceImageId);
+  const culling = useUIStore((s) => s.culling);
   const isUploading = useUIStore((s) => s.isUploading);
   const showHeader = useUIStore((s) => s.showHeader);
   const mobileEditFullscreen = useUIStore((s) => s.mobileEditFullscreen);
   const photoFilter = useUIStore((s) => s.photoFilter);
+  const activeSmartCollectionId = useUIStore(
+    (s) => s.activeSmartCollectionId,
+  );
   const isMobile = useIsMobile();
   const uiActions = useUIStore.getState();
   const setShowFolderPrompt = uiActions.setShowFolderPrompt;
@@ -322,6 +411,8 @@ export function CanvasEditor({
   const setDeleteFolderProgress = uiActions.setDeleteFolderProgress;
   const setApplyPresetToSelectionIds = uiActions.setApplyPresetToSelectionIds;
   const setApplyPresetProgress = uiActions.setApplyPresetProgress;
+  const setExportDialogIds = uiActions.setExportDialogIds;
+  const setExportOptions = uiActions.setExportOptions;
   const setZoomedImageId = uiActions.setZoomedImageId;
   const setIsUploading = uiActions.setIsUploading;
   const setShowHeader = uiActions.setShowHeader;
@@ -390,37 +481,84 @@ export function CanvasEditor({
     return map;
   }, [onlineUsers, memberNames]);
 
-  // Folder permission: master can manage any folder; non-master manages only their own.
+  // Other members online, and what each has selected / open in EditPanel by photo row key
+  const remoteUsers = useMemo(
+    () => (onlineUsers ?? []).filter((u) => u.id !== user?.id),
+    [onlineUsers, user?.id],
+  );
+  const photoCollaborators = useMemo(() => {
+    const byKey = new Map<
+      string,
+      { selectedBy: CollabMember[]; editingBy: CollabMember | null }
+    >();
+    const entry = (key: string) => {
+      let found = byKey.get(key);
+      if (!found) {
+        found = { selectedBy: [], editingBy: null };
+        byKey.set(key, found);
+      }
+      return found;
+    };
+    for (const u of remoteUsers) {
+      const member = { name: userNameMap[u.id] ?? u.email, color: u.color };
+      for (const key of u.selectedKeys ?? []) {
+        entry(key).selectedBy.push(member);
+      }
+      if (u.editingKey) entry(u.editingKey).editingBy = member;
+    }
+    return byKey;
+  }, [remoteUsers, userNameMap]);
+
+  // Collab roles: editors and up change photos and folders, commenters and up comment
+  const canEdit = !sessionId || hasCollabRole(role, "editor");
+  const canEditAll = !sessionId || hasCollabRole(role, "editor_all");
+  const canComment = !sessionId || hasCollabRole(role, "commenter");
+  const canManageAll = !!sessionId && hasCollabRole(role, "admin");
+
+  // Folder permission: admins (and the master) manage any folder; editors only their own.
   const canManageFolder = useCallback(
     (folderUserId?: string): boolean => {
       if (!sessionId) return true;   // personal canvas — always allowed
-      if (isOwner) return true;      // session master — always allowed
-      return folderUserId === user?.id;
+      if (canManageAll) return true; // session admin / master — always allowed
+      return canEdit && folderUserId === user?.id;
     },
-    [sessionId, isOwner, user?.id],
+    [sessionId, canManageAll, canEdit, user?.id],
   );
 
-  // Photo permission: only the original uploader can manage their photo (master has no exception).
+  // Photo permission: same as folders (develop edits go by canEditPhoto below).
   const canManagePhoto = useCallback(
     (photoUserId?: string): boolean => {
       if (!sessionId) return true;   // personal canvas — always allowed
-      return photoUserId === user?.id;
+      if (canManageAll) return true; // session admin / master — always allowed
+      return canEdit && photoUserId === user?.id;
     },
-    [sessionId, user?.id],
+    [sessionId, canManageAll, canEdit, user?.id],
   );
 
+  // Develop edits: all-photos editors change any photo, editors only their own
+  const canEditPhoto = useCallback(
+    (photoUserId?: string): boolean =>
+      canEditAll || (canEdit && (!photoUserId || photoUserId === user?.id)),
+    [canEditAll, canEdit, user?.id],
+  );
+
+  // Auto-save hook (handles saveStatus, editSignature, debounced save)
+  const { saveStatus, setSaveStatus, handleSave, mergeRemotePhoto } =
+    useAutoSave({
+      user,
+      images,
+      selectedIds,
+      sessionId,
+      canManageAllPhotos: canManageAll,
+      canEditAllPhotos: canEditAll,
+      readOnly: !canEdit,
+    });
+
   // Realtime collaboration - only active for collaborative sessions
-  const { broadcastCursor } = useCollabRealtime({
+  useCollabRealtime({
     sessionId: sessionId as string,
     userId: user?.id,
-  });
-
-  // Auto-save hook (handles saveStatus, editSignature, debounced save)
-  const { saveStatus, setSaveStatus, handleSave } = useAutoSave({
-    user,
-    images,
-    selectedIds,
-    sessionId,
+    mergeRemotePhoto,
   });
   // Debounce ref for multi-select preset/paste save
   const multiSelectSaveTimeoutRef = useRef<ReturnType<
@@ -431,10 +569,17 @@ export function CanvasEditor({
     exportProgress,
     setExportProgress,
     exportImageToDownload,
-    handleExport,
     handleExportSelection: handleExportSelectionBase,
     handleExportLayout,
-  } = useExport({ images, selectedIds, folders, decodeDNG });
+  } = useExport({
+    images,
+    selectedIds,
+    folders,
+    decodeDNG,
+    userId: user?.id,
+    sessionId,
+    saveEdits: handleSave,
+  });
 
   // Bridge: saveStatus/exportProgress from hooks to uiStore (hooks own internal state)
   const uiStoreSync = useUIStore.getState();
@@ -988,11 +1133,13 @@ export function CanvasEditor({
             const gridX = 100 + col * spacing;
             const gridY = 100 + row * spacing;
 
+            // Master row only; virtual copies are added once all photos are loaded
             const edit = savedEdits?.find(
               (e: PhotoEdits) =>
-                e.storage_path === storagePath ||
-                (e.original_storage_path != null &&
-                  e.original_storage_path === storagePath),
+                !e.copy_id &&
+                (e.storage_path === storagePath ||
+                  (e.original_storage_path != null &&
+                    e.original_storage_path === storagePath)),
             );
 
             const hasValidPosition =
@@ -1062,6 +1209,9 @@ export function CanvasEditor({
                 canvasImg.cameraModel = edit.camera_model;
               if (edit.labels != null && Array.isArray(edit.labels))
                 canvasImg.labels = edit.labels;
+              canvasImg.rating = edit.rating ?? 0;
+              canvasImg.colorLabel = edit.color_label ?? null;
+              canvasImg.flag = edit.flag ?? null;
               canvasImg.scaleY = edit.scale_y ?? 1;
               canvasImg.exposure = edit.exposure ?? 0;
               canvasImg.contrast = edit.contrast ?? 0;
@@ -1078,6 +1228,7 @@ export function CanvasEditor({
               canvasImg.splitToning = edit.split_toning ?? undefined;
               canvasImg.colorGrading = edit.color_grading ?? undefined;
               canvasImg.colorCalibration = edit.color_calibration ?? undefined;
+              canvasImg.profile = edit.profile ?? undefined;
               canvasImg.clarity = edit.clarity ?? 0;
               canvasImg.dehaze = edit.dehaze ?? 0;
               canvasImg.vignette = edit.vignette ?? 0;
@@ -1085,6 +1236,9 @@ export function CanvasEditor({
               canvasImg.grainSize = edit.grain_size ?? 0;
               canvasImg.grainRoughness = edit.grain_roughness ?? 0;
               canvasImg.curves = edit.curves ?? { ...DEFAULT_CURVES };
+              canvasImg.masks = edit.masks ?? undefined;
+              canvasImg.crop = edit.crop ?? undefined;
+              canvasImg.straighten = edit.straighten ?? 0;
               canvasImg.brightness = edit.brightness ?? 0;
               canvasImg.hue = edit.hue ?? 0;
               canvasImg.blur = edit.blur ?? 0;
@@ -1092,6 +1246,7 @@ export function CanvasEditor({
               // Border
               canvasImg.borderWidth = edit.border_width ?? undefined;
               canvasImg.borderColor = edit.border_color ?? undefined;
+              canvasImg.snapshots = edit.snapshots ?? undefined;
             }
 
             return canvasImg;
@@ -1189,15 +1344,32 @@ export function CanvasEditor({
         }
         // Apply any remaining edit fields to images we might have missed (e.g. originalStoragePath from storage_path key)
         // Use immutable updates — objects may be frozen when coming from store/React
+        const isRowFor = (e: PhotoEdits, img: CanvasImage) =>
+          e.storage_path === img.storagePath ||
+          e.storage_path === (img.originalStoragePath ?? "") ||
+          (e.original_storage_path != null &&
+            e.original_storage_path === img.storagePath);
+        const withCopies =
+          savedEdits && savedEdits.length > 0
+            ? loadedImages.flatMap((img) => [
+                img,
+                // Virtual copies share the master's loaded image
+                ...savedEdits
+                  .filter((e: PhotoEdits) => e.copy_id && isRowFor(e, img))
+                  .map((e: PhotoEdits, j: number) => ({
+                    ...img,
+                    id: `${img.id}-copy-${j}`,
+                    copyId: e.copy_id,
+                  })),
+              ])
+            : loadedImages;
         const newImages =
           savedEdits && savedEdits.length > 0
-            ? loadedImages.map((img) => {
+            ? withCopies.map((img) => {
                 const edit = savedEdits.find(
                   (e: PhotoEdits) =>
-                    e.storage_path === img.storagePath ||
-                    e.storage_path === (img.originalStoragePath ?? "") ||
-                    (e.original_storage_path != null &&
-                      e.original_storage_path === img.storagePath),
+                    (e.copy_id ?? "") === (img.copyId ?? "") &&
+                    isRowFor(e, img),
                 );
                 if (!edit) return img;
                 const hasValidPosition =
@@ -1239,6 +1411,9 @@ export function CanvasEditor({
                   }),
                   ...(edit.labels != null &&
                     Array.isArray(edit.labels) && { labels: edit.labels }),
+                  rating: edit.rating ?? 0,
+                  colorLabel: edit.color_label ?? null,
+                  flag: edit.flag ?? null,
                   exposure: edit.exposure ?? 0,
                   contrast: edit.contrast ?? 0,
                   highlights: edit.highlights ?? 0,
@@ -1254,6 +1429,7 @@ export function CanvasEditor({
                   splitToning: edit.split_toning ?? undefined,
                   colorGrading: edit.color_grading ?? undefined,
                   colorCalibration: edit.color_calibration ?? undefined,
+                  profile: edit.profile ?? undefined,
                   clarity: edit.clarity ?? 0,
                   dehaze: edit.dehaze ?? 0,
                   vignette: edit.vignette ?? 0,
@@ -1261,13 +1437,19 @@ export function CanvasEditor({
                   grainSize: edit.grain_size ?? 0,
                   grainRoughness: edit.grain_roughness ?? 0,
                   curves: edit.curves ?? { ...DEFAULT_CURVES },
+                  masks: edit.masks ?? undefined,
+                  crop: edit.crop ?? undefined,
+                  straighten: edit.straighten ?? 0,
                   brightness: edit.brightness ?? 0,
                   hue: edit.hue ?? 0,
                   blur: edit.blur ?? 0,
                   filters: edit.filters ?? [],
+                  borderWidth: edit.border_width ?? undefined,
+                  borderColor: edit.border_color ?? undefined,
+                  snapshots: edit.snapshots ?? undefined,
                 };
               })
-            : loadedImages;
+            : withCopies;
 
         const loadedFolders = buildFoldersFromSaved(newImages);
 
@@ -1291,40 +1473,38 @@ export function CanvasEditor({
     loadUserPhotos();
   }, [user, photoData, onPhotosLoadStateChange, queryClient]);
 
-  // Filter is show/hide only: which image IDs pass the current filter (labels, date, camera). null = show all.
+  // Active smart collection: evaluated in Postgres, refetched after every save
+  const { data: smartCollections = [] } = useSmartCollections(
+    isSession ? undefined : user?.id,
+  );
+  const activeSmartCollection = isSession
+    ? null
+    : (smartCollections.find((c) => c.id === activeSmartCollectionId) ?? null);
+  const { data: smartCollectionMatches } = useSmartCollectionMatches(
+    user?.id,
+    activeSmartCollection,
+  );
+
+  // Filter is show/hide only: which image IDs pass the current filter (see matchesPhotoFilter)
+  // and the active smart collection. null = show all.
   const visibleImageIds = useMemo(() => {
-    const hasFilter = !!(
-      photoFilter.contentSearch?.trim() ||
-      photoFilter.dateFrom ||
-      photoFilter.dateTo ||
-      photoFilter.cameraMake ||
-      photoFilter.cameraModel
-    );
-    if (!hasFilter) return null;
+    const hasFilter = isPhotoFilterActive(photoFilter);
+    if (!hasFilter && !activeSmartCollection) return null;
+    const collectionKeys = activeSmartCollection
+      ? new Set(smartCollectionMatches ?? [])
+      : null;
     const set = new Set<string>();
-    const term = photoFilter.contentSearch?.trim().toLowerCase();
     for (const img of images) {
-      if (term && !img.labels?.some((l) => l.toLowerCase().includes(term)))
-        continue;
-      if (
-        photoFilter.dateFrom &&
-        img.takenAt &&
-        img.takenAt < photoFilter.dateFrom
-      )
-        continue;
-      if (photoFilter.dateTo && img.takenAt && img.takenAt > photoFilter.dateTo)
-        continue;
-      if (photoFilter.cameraMake && img.cameraMake !== photoFilter.cameraMake)
-        continue;
-      if (
-        photoFilter.cameraModel &&
-        img.cameraModel !== photoFilter.cameraModel
-      )
-        continue;
+      if (hasFilter && !matchesPhotoFilter(img, photoFilter)) continue;
+      if (collectionKeys) {
+        const path = img.storagePath || img.originalStoragePath;
+        if (!path || !collectionKeys.has(getPhotoRowKey(path, img.copyId)))
+          continue;
+      }
       set.add(img.id);
     }
     return set;
-  }, [images, photoFilter]);
+  }, [images, photoFilter, activeSmartCollection, smartCollectionMatches]);
 
   // Viewport culling: only mount ImageNode for images visible on screen + 200px padding
   const viewportVisibleIds = useViewportCulling(
@@ -1460,45 +1640,49 @@ export function CanvasEditor({
     handleFolderFileSelect,
     handleDrop,
     handleDragOver,
+    updateImageLabels,
     pendingFilesRef,
     folderFileInputRef,
     skipNextPhotosLoadRef,
   } = useUpload({ user, saveToHistory, resolveOverlapsAndReflow, sessionId });
 
-  // Undo: only last photo edit (sliders, curves). Does not restore deleted photos or change placement.
+  // Undo: only last photo edit (sliders, curves), or a whole batch (sync settings).
+  // Does not restore deleted photos or change placement.
   const handleUndo = useCallback(() => {
-    if (editHistory.length === 0) return;
-    const entry = editHistory[editHistory.length - 1];
-    const currentImage = images.find((i) => i.id === entry.imageId);
-    if (currentImage) {
-      setEditRedoStack((prev) => [
-        ...prev,
-        { imageId: entry.imageId, snapshot: getEditSnapshot(currentImage) },
-      ]);
-    }
-    setEditHistory((prev) => prev.slice(0, -1));
+    const entries = getTrailingBatch(editHistory);
+    if (entries.length === 0) return;
+    const redoEntries = entries.flatMap((entry) => {
+      const currentImage = images.find((i) => i.id === entry.imageId);
+      return currentImage
+        ? [{ ...entry, snapshot: getEditSnapshot(currentImage) }]
+        : [];
+    });
+    setEditRedoStack((prev) => [...prev, ...redoEntries]);
+    setEditHistory((prev) => prev.slice(0, -entries.length));
+    const snapshots = new Map(entries.map((e) => [e.imageId, e.snapshot]));
     setImages((prev) =>
       prev.map((i) =>
-        i.id === entry.imageId ? { ...i, ...entry.snapshot } : i,
+        snapshots.has(i.id) ? { ...i, ...snapshots.get(i.id) } : i,
       ),
     );
   }, [editHistory, images]);
 
-  // Redo: only last undone photo edit.
+  // Redo: only last undone photo edit (or batch).
   const handleRedo = useCallback(() => {
-    if (editRedoStack.length === 0) return;
-    const entry = editRedoStack[editRedoStack.length - 1];
-    const currentImage = images.find((i) => i.id === entry.imageId);
-    if (currentImage) {
-      setEditHistory((prev) => [
-        ...prev.slice(-49),
-        { imageId: entry.imageId, snapshot: getEditSnapshot(currentImage) },
-      ]);
-    }
-    setEditRedoStack((prev) => prev.slice(0, -1));
+    const entries = getTrailingBatch(editRedoStack);
+    if (entries.length === 0) return;
+    const undoEntries = entries.flatMap((entry) => {
+      const currentImage = images.find((i) => i.id === entry.imageId);
+      return currentImage
+        ? [{ ...entry, snapshot: getEditSnapshot(currentImage) }]
+        : [];
+    });
+    setEditHistory((prev) => appendEditHistory(prev, undoEntries));
+    setEditRedoStack((prev) => prev.slice(0, -entries.length));
+    const snapshots = new Map(entries.map((e) => [e.imageId, e.snapshot]));
     setImages((prev) =>
       prev.map((i) =>
-        i.id === entry.imageId ? { ...i, ...entry.snapshot } : i,
+        snapshots.has(i.id) ? { ...i, ...snapshots.get(i.id) } : i,
       ),
     );
   }, [editRedoStack, images]);
@@ -1533,6 +1717,85 @@ export function CanvasEditor({
     return () => window.removeEventListener("keydown", onKeyDown);
   }, [editHistory.length, editRedoStack.length, handleUndo, handleRedo]);
 
+  // Rating / color label / flag: not an edit (no undo step), saved like other multi-photo changes
+  const handleSetCullMarks = useCallback(
+    (ids: string[], marks: CullMarks) => {
+      if (ids.length === 0 || !canEdit) return;
+      const idSet = new Set(ids);
+      setImages((prev) =>
+        prev.map((img) =>
+          idSet.has(img.id) && canEditPhoto(img.userId)
+            ? { ...img, ...marks }
+            : img,
+        ),
+      );
+      if (multiSelectSaveTimeoutRef.current)
+        clearTimeout(multiSelectSaveTimeoutRef.current);
+      multiSelectSaveTimeoutRef.current = setTimeout(() => {
+        handleSave(true);
+        multiSelectSaveTimeoutRef.current = null;
+      }, 1000);
+    },
+    [setImages, handleSave, canEdit, canEditPhoto],
+  );
+
+  // Single-key shortcuts (not while typing or with a modifier):
+  // J toggles both clipping overlays (on if either is off).
+  // \ toggles the before/after split view on the zoomed photo.
+  // 0-5 rate, P/X/U pick/reject/unflag, 6-9 toggle red..blue label. Applies to the
+  // culled photo, else the zoomed photo, else the selection.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+
+      if (key === "j") {
+        const { clippingWarnings: current, setClippingWarnings } =
+          useEditStore.getState();
+        const on = !(current.shadows && current.highlights);
+        setClippingWarnings({ shadows: on, highlights: on });
+        return;
+      }
+
+      if (key === "\\") {
+        const { zoomedImageId: zoomed, compareSplit: split } =
+          useUIStore.getState();
+        if (!zoomed) return;
+        e.preventDefault();
+        useUIStore.getState().setCompareSplit(split === null ? 0.5 : null);
+        return;
+      }
+
+      const digit = /^[0-9]$/.test(key) ? Number(key) : null;
+      let marks: CullMarks | null = null;
+      if (digit !== null && digit <= 5) marks = { rating: digit };
+      else if (key === "p") marks = { flag: "pick" };
+      else if (key === "x") marks = { flag: "reject" };
+      else if (key === "u") marks = { flag: null };
+      else if (digit === null) return;
+
+      const { culling: cull, zoomedImageId: zoomed } = useUIStore.getState();
+      const ids = cull
+        ? [cull.imageIds[cull.index]]
+        : zoomed
+          ? [zoomed]
+          : useCanvasStore.getState().selectedIds;
+      if (ids.length === 0) return;
+      if (!marks) {
+        const label = COLOR_LABELS[digit! - 6].id;
+        const first = useCanvasStore
+          .getState()
+          .images.find((i) => i.id === ids[0]);
+        marks = { colorLabel: first?.colorLabel === label ? null : label };
+      }
+      e.preventDefault();
+      handleSetCullMarks(ids, marks);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [handleSetCullMarks]);
+
   // Zoom with mouse wheel (only when Ctrl is held)
   const handleWheel = useCallback((e: Konva.KonvaEventObject<WheelEvent>) => {
     // Only zoom if Ctrl (or Cmd on Mac) is pressed
@@ -1690,9 +1953,8 @@ export function CanvasEditor({
       e.cancelBubble = true;
       const id = e.target.id();
 
-      // Non-master collaborators cannot select or interact with others' items
-      const clickedItem = images.find((img) => img.id === id);
-      if (clickedItem && !canManagePhoto(clickedItem.userId)) return;
+      // Collaborators can select (and edit) others' photos; edits are merged field by
+      // field (see collabMerge). Moving and context menus stay with the uploader.
 
       const ctrl = e.evt.ctrlKey || e.evt.metaKey;
       const shift = e.evt.shiftKey;
@@ -1858,6 +2120,22 @@ export function CanvasEditor({
     cancelLongPress();
   }, [cancelLongPress]);
 
+  // Commit an on-canvas edit gesture (mask handle / brush stroke / crop drag) as one undo step
+  const commitCanvasEdit = useCallback(
+    (img: CanvasImage, updates: Partial<CanvasImage>) => {
+      setEditHistory((prev) =>
+        appendEditHistory(prev, [
+          { imageId: img.id, snapshot: getEditSnapshot(img) },
+        ]),
+      );
+      setEditRedoStack([]);
+      setImages((prev) =>
+        prev.map((i) => (i.id === img.id ? { ...i, ...updates } : i)),
+      );
+    },
+    [setEditHistory, setEditRedoStack, setImages],
+  );
+
   const handleCopyEdit = useCallback(() => {
     if (!imageContextMenu) return;
     const img = images.find((i) => i.id === imageContextMenu.imageId);
@@ -1870,6 +2148,197 @@ export function CanvasEditor({
     setImageContextMenu(null);
   }, [imageContextMenu, images]);
 
+  // Virtual copy: same storage object, its own edits + position (saved as its own row).
+  // edits = EDIT_KEYS values to start from (branching from History), else the source's.
+  const createVirtualCopy = useCallback(
+    async (sourceId: string, edits?: Partial<CanvasImage>) => {
+      const source = images.find((i) => i.id === sourceId);
+      if (!source || !(source.storagePath || source.originalStoragePath))
+        return;
+
+      const copy: CanvasImage = {
+        ...source,
+        ...getEditSnapshot(edits ?? source),
+        id: `img-${Date.now()}-${Math.random()}`,
+        // In a session the copy belongs to whoever made it
+        userId: user?.id ?? source.userId,
+        copyId: crypto.randomUUID(),
+        snapshots: undefined,
+        x: source.x + 24,
+        y: source.y + 24,
+      };
+
+      const folder = folders.find((f) => f.id === source.folderId);
+      let nextImages = [...images, copy];
+      let nextFolders = folders;
+      let resizedFolder: PhotoFolder | null = null;
+      if (folder) {
+        const updatedFolder = {
+          ...folder,
+          imageIds: [...folder.imageIds, copy.id],
+        };
+        if (!isSocialLayout(folder)) {
+          const folderImages = getFolderImagesSorted(
+            nextImages,
+            updatedFolder.imageIds,
+          );
+          const minSize = calculateMinimumFolderSize(
+            folderImages.length,
+            folder.width,
+          );
+          const currentHeight =
+            folder.height ??
+            getFolderBorderHeight(folder, folder.imageIds.length);
+          const needsResize =
+            minSize.width > folder.width || minSize.height > currentHeight;
+          if (needsResize) {
+            updatedFolder.width = Math.max(folder.width, minSize.width);
+            updatedFolder.height = Math.max(currentHeight, minSize.height);
+            resizedFolder = updatedFolder;
+          }
+          // Next free cell for the copy; the whole folder reflows only if it grew
+          const reflowed = reflowImagesInFolder(
+            folderImages,
+            updatedFolder.x,
+            updatedFolder.y,
+            updatedFolder.width,
+          );
+          const reflowedMap = new Map(
+            (needsResize ? reflowed : reflowed.slice(-1)).map((r) => [r.id, r]),
+          );
+          nextImages = nextImages.map((img) => reflowedMap.get(img.id) ?? img);
+        }
+        nextFolders = folders.map((f) =>
+          f.id === folder.id ? updatedFolder : f,
+        );
+        const resolved = resolveOverlapsAndReflow(
+          nextFolders,
+          nextImages,
+          folder.id,
+        );
+        nextFolders = resolved.folders;
+        nextImages = resolved.images;
+      }
+
+      setFolders(nextFolders);
+      setImages(nextImages);
+      setSelectedIds([copy.id]);
+      lastSelectedIdRef.current = copy.id;
+      saveToHistory();
+
+      if (user && resizedFolder) {
+        const saved = nextFolders.find((f) => f.id === resizedFolder.id);
+        if (saved) {
+          const query = supabase
+            .from(folderTable)
+            .update({
+              width: Math.round(saved.width),
+              ...(saved.height != null && { height: Math.round(saved.height) }),
+            })
+            .eq("id", saved.id);
+          if (sessionId) query.eq("session_id", sessionId);
+          else query.eq("user_id", user.id);
+          const { error } = await query;
+          if (error) console.error("Failed to resize folder for copy:", error);
+        }
+      }
+      // The copy's row (and any reflowed positions) go out with the next save
+      if (multiSelectSaveTimeoutRef.current)
+        clearTimeout(multiSelectSaveTimeoutRef.current);
+      multiSelectSaveTimeoutRef.current = setTimeout(() => {
+        handleSave(true);
+        multiSelectSaveTimeoutRef.current = null;
+      }, 1000);
+    },
+    [
+      images,
+      folders,
+      user,
+      sessionId,
+      folderTable,
+      resolveOverlapsAndReflow,
+      saveToHistory,
+      handleSave,
+      setFolders,
+      setImages,
+      setSelectedIds,
+    ],
+  );
+
+  const handleCreateVirtualCopy = useCallback(() => {
+    if (!imageContextMenu) return;
+    setImageContextMenu(null);
+    createVirtualCopy(imageContextMenu.imageId);
+  }, [imageContextMenu, createVirtualCopy, setImageContextMenu]);
+
+  // Branch from a History entry: a virtual copy of the selected photo at that point
+  const handleBranchFromHistory = useCallback(
+    (settings: Partial<CanvasImage>) => {
+      if (selectedIds.length !== 1) return;
+      createVirtualCopy(selectedIds[0], settings);
+    },
+    [selectedIds, createVirtualCopy],
+  );
+
+  // Collab comment threads: open threads pinned to a point are drawn on their photo
+  const { data: commentThreads = [] } = useCollabComments(sessionId);
+  const commentPins = useMemo(() => {
+    const threadsByKey = new Map<string, CollabCommentThread[]>();
+    for (const thread of commentThreads) {
+      const key = getPhotoRowKey(thread.storage_path, thread.copy_id);
+      threadsByKey.set(key, [...(threadsByKey.get(key) ?? []), thread]);
+    }
+    const pinsByKey = new Map<string, CommentPin[]>();
+    for (const [key, photoThreads] of threadsByKey) {
+      const numbers = getPinNumbers(photoThreads);
+      const pins = photoThreads
+        .filter(
+          (t) =>
+            t.pin_x != null &&
+            t.pin_y != null &&
+            (!t.resolved_at || t.id === activeCommentThreadId),
+        )
+        .map((t) => ({
+          threadId: t.id,
+          x: t.pin_x!,
+          y: t.pin_y!,
+          label: String(numbers.get(t.id)),
+          active: t.id === activeCommentThreadId,
+        }));
+      if (pins.length > 0) pinsByKey.set(key, pins);
+    }
+    return pinsByKey;
+  }, [commentThreads, activeCommentThreadId]);
+
+  // Clicking a pin selects its photo and opens the thread in the Comments tab
+  const handleCommentPinClick = useCallback(
+    (threadId: string) => {
+      const thread = commentThreads.find((t) => t.id === threadId);
+      if (!thread) return;
+      const key = getPhotoRowKey(thread.storage_path, thread.copy_id);
+      const image = useCanvasStore
+        .getState()
+        .images.find((img) => getImageRowKey(img) === key);
+      if (!image) return;
+      setSelectedIds([image.id]);
+      lastSelectedIdRef.current = image.id;
+      if (isMobile) useUIStore.getState().setMobileEditFullscreen(true);
+      useEditStore.getState().setActiveCommentThreadId(threadId);
+    },
+    [commentThreads, setSelectedIds, isMobile],
+  );
+
+  // Pin placement mode (Comments tab): the clicked point pins the next thread
+  const handlePlaceCommentPin = useCallback(
+    (point: { x: number; y: number }) => {
+      const [imageId] = useCanvasStore.getState().selectedIds;
+      if (imageId) {
+        useEditStore.getState().setCommentPinDraft({ imageId, ...point });
+      }
+    },
+    [],
+  );
+
   const handlePasteEdit = useCallback(async () => {
     if (!imageContextMenu || !copiedEdit) return;
     const idsArr = imageContextMenu.selectedIds;
@@ -1901,6 +2370,215 @@ export function CanvasEditor({
     }
   }, [imageContextMenu, copiedEdit, saveToHistory, handleSave]);
 
+  // Sync settings: copy the picked EDIT_KEY_GROUPS from the source photo to the rest
+  // of the selection, as one undo step
+  const handleSyncSettings = useCallback(async () => {
+    if (!syncSettings) return;
+    const { setSyncSettings, setApplyPresetProgress } = useUIStore.getState();
+    setSyncSettings(null);
+    const source = images.find((img) => img.id === syncSettings.sourceId);
+    const keys = EDIT_KEY_GROUPS.filter((g) =>
+      syncSettingsGroups.includes(g.id),
+    ).flatMap((g) => g.keys);
+    if (!source || keys.length === 0) return;
+    const targetIds = new Set(syncSettings.targetIds);
+    targetIds.delete(source.id);
+    const targets = images.filter((img) => targetIds.has(img.id));
+    const total = targets.length;
+    if (total === 0) return;
+
+    const batchId = crypto.randomUUID();
+    setEditHistory((prev) =>
+      appendEditHistory(
+        prev,
+        targets.map((img) => ({
+          imageId: img.id,
+          snapshot: getEditSnapshot(img),
+          batchId,
+        })),
+      ),
+    );
+    setEditRedoStack([]);
+    const synced = (): Partial<CanvasImage> => {
+      const out: Partial<CanvasImage> = {};
+      for (const key of keys) {
+        (out as Record<string, unknown>)[key] = cloneEditValue(
+          key,
+          source[key],
+        );
+      }
+      return out;
+    };
+    for (let i = 0; i < total; i++) {
+      setApplyPresetProgress({ current: i + 1, total, label: "Syncing" });
+      const id = targets[i].id;
+      setImages((prev) =>
+        prev.map((img) => (img.id === id ? { ...img, ...synced() } : img)),
+      );
+      await new Promise((r) => setTimeout(r, 16));
+    }
+    setTimeout(() => setApplyPresetProgress(null), 400);
+    saveToHistory();
+    if (multiSelectSaveTimeoutRef.current)
+      clearTimeout(multiSelectSaveTimeoutRef.current);
+    multiSelectSaveTimeoutRef.current = setTimeout(() => {
+      handleSave(true);
+      multiSelectSaveTimeoutRef.current = null;
+    }, 1000);
+  }, [
+    syncSettings,
+    syncSettingsGroups,
+    images,
+    setEditHistory,
+    setEditRedoStack,
+    saveToHistory,
+    handleSave,
+  ]);
+
+  // Auto tone a multi-selection: analyzed server-side (Sharp), as one undo step
+  const handleAutoToneSelection = useCallback(async () => {
+    if (!imageContextMenu) return;
+    const ids = new Set(imageContextMenu.selectedIds);
+    setImageContextMenu(null);
+    const targets = images.filter(
+      (img) => ids.has(img.id) && (img.storagePath || img.originalStoragePath),
+    );
+    const total = targets.length;
+    if (total === 0) return;
+
+    const { setApplyPresetProgress } = useUIStore.getState();
+    const batchId = crypto.randomUUID();
+    let failed = 0;
+    try {
+      for (let i = 0; i < total; i += AUTO_TONE_BATCH_SIZE) {
+        const chunk = targets.slice(i, i + AUTO_TONE_BATCH_SIZE);
+        setApplyPresetProgress({ current: i + 1, total, label: "Auto tone" });
+        const res = await fetch("/api/auto-tone", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            // Same bucket mapping as delete: preview in photos, DNG in originals
+            photos: chunk.map((img) => ({
+              id: img.id,
+              ...getDeletePhotoPayload(img),
+            })),
+            sessionId,
+          }),
+        });
+        if (!res.ok) throw new Error(`Auto tone failed: ${res.status}`);
+        const { results } = (await res.json()) as {
+          results: { id: string; values?: AutoToneValues }[];
+        };
+        const values = new Map<string, AutoToneValues>();
+        for (const r of results) if (r.values) values.set(r.id, r.values);
+        failed += chunk.length - values.size;
+
+        // Chunks share batchId, so undo restores the whole selection at once
+        setEditHistory((prev) =>
+          appendEditHistory(
+            prev,
+            chunk
+              .filter((img) => values.has(img.id))
+              .map((img) => ({
+                imageId: img.id,
+                snapshot: getEditSnapshot(img),
+                batchId,
+              })),
+          ),
+        );
+        setEditRedoStack([]);
+        setImages((prev) =>
+          prev.map((img) =>
+            values.has(img.id) ? { ...img, ...values.get(img.id) } : img,
+          ),
+        );
+      }
+    } catch (error) {
+      console.error("Auto tone error:", error);
+      alert("Auto tone failed. Please try again.");
+    } finally {
+      setTimeout(() => setApplyPresetProgress(null), 400);
+    }
+    if (failed > 0) {
+      alert(`Auto tone could not analyze ${failed} of ${total} photos.`);
+    }
+    saveToHistory();
+    if (multiSelectSaveTimeoutRef.current)
+      clearTimeout(multiSelectSaveTimeoutRef.current);
+    multiSelectSaveTimeoutRef.current = setTimeout(() => {
+      handleSave(true);
+      multiSelectSaveTimeoutRef.current = null;
+    }, 1000);
+  }, [
+    imageContextMenu,
+    images,
+    sessionId,
+    setEditHistory,
+    setEditRedoStack,
+    saveToHistory,
+    handleSave,
+  ]);
+
+  // Backfill content labels for the user's unlabeled photos, one server page at a time
+  const handleLabelPhotos = useCallback(async () => {
+    if (!user) return;
+    const { setApplyPresetProgress } = useUIStore.getState();
+    let done = 0;
+    let failed = 0;
+    let cursor: string | null = null;
+    try {
+      do {
+        const res: Response = await fetch("/api/label-photo/batch", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ userId: user.id, sessionId, cursor }),
+        });
+        if (!res.ok) throw new Error(`Labeling failed: ${res.status}`);
+        const page = (await res.json()) as {
+          results: { storagePath: string; labels: string[] }[];
+          failed: number;
+          nextCursor: string | null;
+          remaining: number;
+        };
+        for (const r of page.results) {
+          if (r.labels.length > 0) updateImageLabels(r.storagePath, r.labels);
+        }
+        done += page.results.length + page.failed;
+        failed += page.failed;
+        cursor = page.nextCursor;
+        setApplyPresetProgress({
+          current: done,
+          total: done + page.remaining,
+          label: "Labeling",
+        });
+      } while (cursor);
+    } catch (error) {
+      console.error("Labeling error:", error);
+      alert("Labeling failed. Please try again.");
+    } finally {
+      setTimeout(() => setApplyPresetProgress(null), 400);
+    }
+    if (failed > 0) {
+      alert(`Could not label ${failed} of ${done} photos.`);
+    }
+  }, [user, sessionId, updateImageLabels]);
+
+  // Manual label edits: not an edit (no undo step), saved like culling marks
+  const handleSetImageLabels = useCallback(
+    (id: string, labels: string[]) => {
+      setImages((prev) =>
+        prev.map((img) => (img.id === id ? { ...img, labels } : img)),
+      );
+      if (multiSelectSaveTimeoutRef.current)
+        clearTimeout(multiSelectSaveTimeoutRef.current);
+      multiSelectSaveTimeoutRef.current = setTimeout(() => {
+        handleSave(true);
+        multiSelectSaveTimeoutRef.current = null;
+      }, 1000);
+    },
+    [setImages, handleSave],
+  );
+
   const handleCreatePresetClick = useCallback(() => {
     if (!imageContextMenu) return;
     setCreatePresetFromImageId(imageContextMenu.imageId);
@@ -1960,6 +2638,7 @@ export function CanvasEditor({
         splitToning: undefined,
         colorGrading: undefined,
         colorCalibration: undefined,
+        profile: undefined,
         clarity: 0,
         dehaze: 0,
         vignette: 0,
@@ -2124,12 +2803,14 @@ export function CanvasEditor({
                 .from(photoTable)
                 .update(photoUpdate)
                 .eq("storage_path", path)
+                .eq("copy_id", img.copyId ?? "")
                 .eq("session_id", sessionId);
             } else {
               await supabase
                 .from(photoTable)
                 .update(photoUpdate)
                 .eq("storage_path", path)
+                .eq("copy_id", img.copyId ?? "")
                 .eq("user_id", user.id);
             }
           }
@@ -2165,12 +2846,14 @@ export function CanvasEditor({
                   .from(photoTable)
                   .update({ x: Math.round(img.x), y: Math.round(img.y) })
                   .eq("storage_path", path)
+                  .eq("copy_id", img.copyId ?? "")
                   .eq("session_id", sessionId);
               } else {
                 await supabase
                   .from(photoTable)
                   .update({ x: Math.round(img.x), y: Math.round(img.y) })
                   .eq("storage_path", path)
+                  .eq("copy_id", img.copyId ?? "")
                   .eq("user_id", user.id);
               }
             }
@@ -3117,6 +3800,7 @@ export function CanvasEditor({
                         scale_y: finalImg.scaleY ?? 1,
                       })
                       .eq("storage_path", currentCanonical)
+                      .eq("copy_id", currentImg.copyId ?? "")
                       .eq("session_id", sessionId)
                       .then(({ error }) => {
                         if (error)
@@ -3135,6 +3819,7 @@ export function CanvasEditor({
                         scale_y: finalImg.scaleY ?? 1,
                       })
                       .eq("storage_path", currentCanonical)
+                      .eq("copy_id", currentImg.copyId ?? "")
                       .eq("user_id", user.id)
                       .then(({ error }) => {
                         if (error)
@@ -3319,6 +4004,7 @@ export function CanvasEditor({
                         scale_y: finalImg.scaleY ?? 1,
                       })
                       .eq("storage_path", currentCanonical)
+                      .eq("copy_id", currentImg.copyId ?? "")
                       .eq("session_id", sessionId)
                       .then(({ error }) => {
                         if (error)
@@ -3337,6 +4023,7 @@ export function CanvasEditor({
                         scale_y: finalImg.scaleY ?? 1,
                       })
                       .eq("storage_path", currentCanonical)
+                      .eq("copy_id", currentImg.copyId ?? "")
                       .eq("user_id", user.id)
                       .then(({ error }) => {
                         if (error)
@@ -3360,6 +4047,7 @@ export function CanvasEditor({
                           folder_id: swappedImg.folderId || null,
                         })
                         .eq("storage_path", swappedImg.storagePath)
+                        .eq("copy_id", swappedImg.copyId ?? "")
                         .eq("session_id", sessionId)
                         .then(({ error }) => {
                           if (error)
@@ -3377,6 +4065,7 @@ export function CanvasEditor({
                           folder_id: swappedImg.folderId || null,
                         })
                         .eq("storage_path", swappedImg.storagePath)
+                        .eq("copy_id", swappedImg.copyId ?? "")
                         .eq("user_id", user.id)
                         .then(({ error }) => {
                           if (error)
@@ -3599,6 +4288,7 @@ export function CanvasEditor({
                       folder_id: targetFolderId,
                     })
                     .eq("storage_path", currentCanonical)
+                    .eq("copy_id", currentImg.copyId ?? "")
                     .eq("session_id", sessionId)
                     .then(({ error }) => {
                       if (error)
@@ -3613,6 +4303,7 @@ export function CanvasEditor({
                       folder_id: targetFolderId,
                     })
                     .eq("storage_path", currentCanonical)
+                    .eq("copy_id", currentImg.copyId ?? "")
                     .eq("user_id", user.id)
                     .then(({ error }) => {
                       if (error)
@@ -3650,6 +4341,7 @@ export function CanvasEditor({
                         y: Math.round(swappedY),
                       })
                       .eq("storage_path", swappedCanonical)
+                      .eq("copy_id", swappedImg.copyId ?? "")
                       .eq("session_id", sessionId)
                       .then(({ error }) => {
                         if (error)
@@ -3666,6 +4358,7 @@ export function CanvasEditor({
                         y: Math.round(swappedY),
                       })
                       .eq("storage_path", swappedCanonical)
+                      .eq("copy_id", swappedImg.copyId ?? "")
                       .eq("user_id", user.id)
                       .then(({ error }) => {
                         if (error)
@@ -3710,6 +4403,7 @@ export function CanvasEditor({
               .from(photoTable)
               .update({ x: Math.round(newX), y: Math.round(newY) })
               .eq("storage_path", canonical)
+              .eq("copy_id", currentImg.copyId ?? "")
               .eq("session_id", sessionId)
               .then(({ error }) => {
                 if (error) console.error("Failed to save photo position:", error);
@@ -3719,6 +4413,7 @@ export function CanvasEditor({
               .from(photoTable)
               .update({ x: Math.round(newX), y: Math.round(newY) })
               .eq("storage_path", canonical)
+              .eq("copy_id", currentImg.copyId ?? "")
               .eq("user_id", user.id)
               .then(({ error }) => {
                 if (error) console.error("Failed to save photo position:", error);
@@ -3736,12 +4431,12 @@ export function CanvasEditor({
     [images, user, resolveOverlapsAndReflow, saveToHistory, isSpacePressed],
   );
 
-  // Wrapper: export selection from context menu
+  // Wrapper: export selection from context menu (opens export settings first)
   const handleExportSelection = useCallback(() => {
     if (!imageContextMenu) return;
     setImageContextMenu(null);
-    handleExportSelectionBase(imageContextMenu.selectedIds);
-  }, [imageContextMenu, handleExportSelectionBase]);
+    setExportDialogIds(imageContextMenu.selectedIds);
+  }, [imageContextMenu, setImageContextMenu, setExportDialogIds]);
 
   // Handle folder click to edit
   const handleFolderDoubleClick = useCallback((folder: PhotoFolder) => {
@@ -3910,6 +4605,8 @@ export function CanvasEditor({
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
                   ...payload,
+                  // A virtual copy only drops its own row, not the shared file
+                  copyId: img.copyId,
                   userId: user.id,
                   sessionId,
                 }),
@@ -3926,8 +4623,26 @@ export function CanvasEditor({
             queryKey: ["user-photos", user.id, sessionId],
           });
         }
-        setImages((prev) => prev.filter((img) => !photoIds.includes(img.id)));
-        setSelectedIds((prev) => prev.filter((id) => !photoIds.includes(id)));
+        // Deleting a master removes the file, so its virtual copies go with it
+        const deletedMasterPaths = new Set(
+          images
+            .filter((img) => photoIds.includes(img.id) && !img.copyId)
+            .map((img) => img.storagePath || img.originalStoragePath),
+        );
+        const removedIds = new Set(
+          images
+            .filter(
+              (img) =>
+                photoIds.includes(img.id) ||
+                (img.copyId &&
+                  deletedMasterPaths.has(
+                    img.storagePath || img.originalStoragePath,
+                  )),
+            )
+            .map((img) => img.id),
+        );
+        setImages((prev) => prev.filter((img) => !removedIds.has(img.id)));
+        setSelectedIds((prev) => prev.filter((id) => !removedIds.has(id)));
         saveToHistory();
       } finally {
         setDeletingPhotoId(null);
@@ -4033,6 +4748,7 @@ export function CanvasEditor({
             .from(photoTable)
             .update({ x: Math.round(img.x), y: Math.round(img.y) })
             .eq("storage_path", canonicalPath)
+            .eq("copy_id", img.copyId ?? "")
             .eq("session_id", sessionId)
             .then(({ error }) => {
               if (error) console.error("Failed to update image position:", error);
@@ -4042,6 +4758,7 @@ export function CanvasEditor({
             .from(photoTable)
             .update({ x: Math.round(img.x), y: Math.round(img.y) })
             .eq("storage_path", canonicalPath)
+            .eq("copy_id", img.copyId ?? "")
             .eq("user_id", user.id)
             .then(({ error }) => {
               if (error) console.error("Failed to update image position:", error);
@@ -4125,6 +4842,7 @@ export function CanvasEditor({
             .from(photoTable)
             .update({ x: Math.round(img.x), y: Math.round(img.y) })
             .eq("storage_path", canonicalPath)
+            .eq("copy_id", img.copyId ?? "")
             .eq("session_id", sessionId)
             .then(({ error }) => {
               if (error) console.error(error);
@@ -4134,6 +4852,7 @@ export function CanvasEditor({
             .from(photoTable)
             .update({ x: Math.round(img.x), y: Math.round(img.y) })
             .eq("storage_path", canonicalPath)
+            .eq("copy_id", img.copyId ?? "")
             .eq("user_id", user.id)
             .then(({ error }) => {
               if (error) console.error(error);
@@ -4230,6 +4949,7 @@ export function CanvasEditor({
             .from(photoTable)
             .update({ x: Math.round(img.x), y: Math.round(img.y) })
             .eq("storage_path", canonicalPath)
+            .eq("copy_id", img.copyId ?? "")
             .eq("session_id", sessionId)
             .then(({ error }) => {
               if (error) console.error(error);
@@ -4239,6 +4959,7 @@ export function CanvasEditor({
             .from(photoTable)
             .update({ x: Math.round(img.x), y: Math.round(img.y) })
             .eq("storage_path", canonicalPath)
+            .eq("copy_id", img.copyId ?? "")
             .eq("user_id", user.id)
             .then(({ error }) => {
               if (error) console.error(error);
@@ -4341,6 +5062,50 @@ export function CanvasEditor({
     [],
   );
 
+  // View that fits a photo in the viewport, or in the right half when a reference
+  // photo is pinned beside it
+  const getZoomFit = useCallback(
+    (image: CanvasImage) => {
+      const imgW = image.width * image.scaleX;
+      const imgH = image.height * image.scaleY;
+      const centerX = image.x + imgW / 2;
+      const centerY = image.y + imgH / 2;
+      const sideBySide = !!referenceImageId && referenceImageId !== image.id;
+      const areaX = sideBySide ? dimensions.width / 2 : 0;
+      const areaW = sideBySide ? dimensions.width / 2 : dimensions.width;
+      // Fit image to ~90% of the area with padding
+      const padding = 0.9;
+      const scale = Math.min(
+        (areaW * padding) / imgW,
+        (dimensions.height * padding) / imgH,
+        20,
+      );
+      return {
+        scale,
+        x: areaX + areaW / 2 - centerX * scale,
+        y: dimensions.height / 2 - centerY * scale,
+      };
+    },
+    [referenceImageId, dimensions.width, dimensions.height],
+  );
+
+  // Re-fit the zoomed photo when a reference is pinned / unpinned beside it
+  useEffect(() => {
+    if (!zoomedImageId) return;
+    const image = latestImagesRef.current.find((i) => i.id === zoomedImageId);
+    if (!image) return;
+    const { stageScale: scale, stagePosition: pos } =
+      useCanvasStore.getState();
+    const fit = getZoomFit(image);
+    if (
+      Math.abs(fit.scale - scale) < 1e-4 &&
+      Math.abs(fit.x - pos.x) < 0.5 &&
+      Math.abs(fit.y - pos.y) < 0.5
+    )
+      return;
+    animateView({ scale, x: pos.x, y: pos.y }, fit);
+  }, [zoomedImageId, getZoomFit, animateView]);
+
   const handleImageDoubleClick = useCallback(
     (image: CanvasImage, e?: Konva.KonvaEventObject<MouseEvent>) => {
       if (e != null && e.evt.button !== 0) return;
@@ -4350,20 +5115,13 @@ export function CanvasEditor({
       )
         return;
 
-      // Mobile: open fullscreen edit mode instead of zoom-to-fit (only for own/manageable images)
+      // Mobile: open fullscreen edit mode instead of zoom-to-fit
       if (isMobile) {
-        if (canManagePhoto(image.userId)) {
-          setSelectedIds([image.id]);
-          useUIStore.getState().setMobileEditFullscreen(true);
-          useUIStore.getState().setMobileMenuOpen(false);
-        }
+        setSelectedIds([image.id]);
+        useUIStore.getState().setMobileEditFullscreen(true);
+        useUIStore.getState().setMobileMenuOpen(false);
         return;
       }
-      const imgW = image.width * image.scaleX;
-      const imgH = image.height * image.scaleY;
-      const centerX = image.x + imgW / 2;
-      const centerY = image.y + imgH / 2;
-
       if (zoomedImageId === image.id) {
         // Zoom back out
         const pre = preZoomViewRef.current;
@@ -4379,16 +5137,7 @@ export function CanvasEditor({
         return;
       }
 
-      // Zoom in: fit image to ~90% of viewport with padding
-      const padding = 0.9;
-      const targetScale = Math.min(
-        (dimensions.width * padding) / imgW,
-        (dimensions.height * padding) / imgH,
-        20,
-      );
-      const targetX = dimensions.width / 2 - centerX * targetScale;
-      const targetY = dimensions.height / 2 - centerY * targetScale;
-
+      // Zoom in
       preZoomViewRef.current = {
         scale: stageScale,
         x: stagePosition.x,
@@ -4396,7 +5145,7 @@ export function CanvasEditor({
       };
       animateView(
         { scale: stageScale, x: stagePosition.x, y: stagePosition.y },
-        { scale: targetScale, x: targetX, y: targetY },
+        getZoomFit(image),
         () => setZoomedImageId(image.id),
       );
     },
@@ -4404,8 +5153,7 @@ export function CanvasEditor({
       zoomedImageId,
       stageScale,
       stagePosition,
-      dimensions.width,
-      dimensions.height,
+      getZoomFit,
       animateView,
       isMobile,
     ],
@@ -4427,6 +5175,41 @@ export function CanvasEditor({
     selectedIds.length === 1
       ? ([...images, ...texts].find((obj) => obj.id === selectedIds[0]) ?? null)
       : null;
+  const canEditSelected =
+    selectedObject && "src" in selectedObject
+      ? canEditPhoto(selectedObject.userId)
+      : canEdit;
+
+  // Collab presence: share the visible canvas area, selected photos and the photo open
+  // in EditPanel (others see it outlined / soft locked). Keys are joined so the effects
+  // only fire when they change, not on every edit.
+  const selectedPhotoKeys = images
+    .filter((img) => selectedIds.includes(img.id))
+    .map(getImageRowKey)
+    .filter((key): key is string => !!key)
+    .join("\n");
+  const editingPhotoKey =
+    selectedObject &&
+    "src" in selectedObject &&
+    (!isMobile || mobileEditFullscreen)
+      ? getImageRowKey(selectedObject)
+      : null;
+  useEffect(() => {
+    onPresenceChange?.({
+      selectedKeys: selectedPhotoKeys ? selectedPhotoKeys.split("\n") : [],
+      editingKey: editingPhotoKey,
+    });
+  }, [onPresenceChange, selectedPhotoKeys, editingPhotoKey]);
+  useEffect(() => {
+    onPresenceChange?.({
+      viewport: {
+        x: -stagePosition.x / stageScale,
+        y: -stagePosition.y / stageScale,
+        width: dimensions.width / stageScale,
+        height: dimensions.height / stageScale,
+      },
+    });
+  }, [onPresenceChange, stagePosition, stageScale, dimensions]);
 
   // Clean up long-press timer on unmount
   useEffect(() => {
@@ -4468,12 +5251,14 @@ export function CanvasEditor({
     sliderSettledWhileDragging,
     visibleImageIds,
     viewportVisibleIds,
+    onlineUsers,
   ]);
 
   return (
     <div className="relative h-full w-full bg-[#0d0d0d]">
       <TopBar
         onUpload={handleFileUpload}
+        canUpload={canEdit}
         onUndo={handleUndo}
         onRedo={handleRedo}
         canUndo={editHistory.length > 0}
@@ -4482,6 +5267,7 @@ export function CanvasEditor({
         isMobile={isMobile}
         photoFilter={photoFilter}
         onPhotoFilterChange={setPhotoFilter}
+        filterFolders={folders}
         sessionId={sessionId}
         onToggleSidebar={onToggleSidebar}
         onlineUsers={onlineUsers}
@@ -4527,12 +5313,87 @@ export function CanvasEditor({
         <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-3 bg-[#171717] border border-[#2a2a2a] rounded-xl px-4 py-3 shadow-2xl shadow-black/50">
           <div className="w-5 h-5 border-2 border-[#3ECF8E] border-t-transparent rounded-full animate-spin" />
           <span className="text-white text-sm font-medium">
-            Applying preset {applyPresetProgress.current} of{" "}
-            {applyPresetProgress.total}
+            {applyPresetProgress.label ?? "Applying preset"}{" "}
+            {applyPresetProgress.current} of {applyPresetProgress.total}
           </span>
         </div>
       )}
 
+      <PixelReadout />
+
+      {/* Zoomed photo: before/after split and pinned reference */}
+      {zoomedImageId && !isMobile && (
+        <div className="fixed top-20 right-4 z-30 flex items-center gap-1 bg-[#171717] border border-[#2a2a2a] rounded-xl p-1 shadow-2xl shadow-black/50">
+          <button
+            type="button"
+            onClick={() =>
+              uiActions.setCompareSplit(compareSplit === null ? 0.5 : null)
+            }
+            title="Before / after split view (\)"
+            className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-colors cursor-pointer ${
+              compareSplit !== null
+                ? "bg-[#3ECF8E]/20 text-[#3ECF8E]"
+                : "text-[#888] hover:text-white hover:bg-[#252525]"
+            }`}
+          >
+            Before / After
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              uiActions.setReferenceImageId(
+                referenceImageId === zoomedImageId ? null : zoomedImageId,
+              )
+            }
+            title="Pin this photo as the side-by-side reference for other photos"
+            className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-colors cursor-pointer ${
+              referenceImageId === zoomedImageId
+                ? "bg-[#3ECF8E]/20 text-[#3ECF8E]"
+                : "text-[#888] hover:text-white hover:bg-[#252525]"
+            }`}
+          >
+            {referenceImageId === zoomedImageId
+              ? "Pinned as reference"
+              : "Pin as reference"}
+          </button>
+        </div>
+      )}
+      {zoomedImageId &&
+        !isMobile &&
+        referenceImageId &&
+        referenceImageId !== zoomedImageId &&
+        (() => {
+          const reference = images.find((i) => i.id === referenceImageId);
+          if (!reference) return null;
+          return (
+            <ReferencePanel
+              image={reference}
+              onClose={() => uiActions.setReferenceImageId(null)}
+            />
+          );
+        })()}
+      {culling &&
+        (() => {
+          const image = images.find(
+            (i) => i.id === culling.imageIds[culling.index],
+          );
+          if (!image) return null;
+          return (
+            <CullingView
+              image={image}
+              index={culling.index}
+              total={culling.imageIds.length}
+              onStep={(delta) => {
+                const index = culling.index + delta;
+                if (index < 0 || index >= culling.imageIds.length) return;
+                uiActions.setCulling({ ...culling, index });
+              }}
+              onMarksChange={(marks) => handleSetCullMarks([image.id], marks)}
+              onClose={() => uiActions.setCulling(null)}
+            />
+          );
+        })()}
+
       {/* Folder Name Prompt Modal */}
       {showFolderPrompt && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center">
@@ -5074,7 +5935,7 @@ export function CanvasEditor({
 
       <div
         className={`h-full w-full ${isSpacePressed ? "cursor-grab" : ""} ${isDragging && isSpacePressed ? "cursor-grabbing" : ""}`}
-        onDrop={handleDrop}
+        onDrop={canEdit ? handleDrop : (e) => e.preventDefault()}
         onDragOver={handleDragOver}
       >
         {/* Hidden file input for folder plus button */}
@@ -5105,7 +5966,8 @@ export function CanvasEditor({
                   if (
                     stage &&
                     e.target === stage &&
-                    e.evt.touches.length === 1
+                    e.evt.touches.length === 1 &&
+                    canEdit
                   ) {
                     const touch = e.evt.touches[0];
                     longPressTriggeredRef.current = false;
@@ -5138,21 +6000,19 @@ export function CanvasEditor({
           }}
           onMouseDown={handleStageMouseDownWithZoom}
           onMouseMove={(e) => {
-            // Broadcast cursor position for collaborative sessions
-            if (sessionId) {
-              const stage = e.target.getStage();
-              if (stage) {
-                const pointer = stage.getPointerPosition();
-                if (pointer) {
-                  broadcastCursor(pointer.x, pointer.y);
-                }
+            // Share the cursor (canvas coordinates) in collaborative sessions
+            if (onPresenceChange) {
+              const pointer = e.target.getStage()?.getRelativePointerPosition();
+              if (pointer) {
+                onPresenceChange({ cursor: { x: pointer.x, y: pointer.y } });
               }
             }
           }}
+          onMouseLeave={() => onPresenceChange?.({ cursor: null })}
           onContextMenu={(e) => {
             e.evt.preventDefault();
             const stage = e.target.getStage();
-            if (stage && e.target === stage) {
+            if (stage && e.target === stage && canEdit) {
               setImageContextMenu(null);
               setCanvasContextMenu({ x: e.evt.clientX, y: e.evt.clientY });
             }
@@ -5468,6 +6328,7 @@ export function CanvasEditor({
                                     y: Math.round(img.y),
                                   })
                                   .eq("storage_path", canonicalPath)
+                                  .eq("copy_id", img.copyId ?? "")
                                   .eq("session_id", sessionId)
                                   .then(({ error }) => {
                                     if (error)
@@ -5484,6 +6345,7 @@ export function CanvasEditor({
                                     y: Math.round(img.y),
                                   })
                                   .eq("storage_path", canonicalPath)
+                                  .eq("copy_id", img.copyId ?? "")
                                   .eq("user_id", user.id)
                                   .then(({ error }) => {
                                     if (error)
@@ -6100,6 +6962,7 @@ export function CanvasEditor({
                                       y: Math.round(img.y),
                                     })
                                     .eq("storage_path", canonicalPath)
+                                    .eq("copy_id", img.copyId ?? "")
                                     .eq("session_id", sessionId)
                                     .then(({ error }) => {
                                       if (error)
@@ -6116,6 +6979,7 @@ export function CanvasEditor({
                                       y: Math.round(img.y),
                                     })
                                     .eq("storage_path", canonicalPath)
+                                    .eq("copy_id", img.copyId ?? "")
                                     .eq("user_id", user.id)
                                     .then(({ error }) => {
                                       if (error)
@@ -6160,17 +7024,107 @@ export function CanvasEditor({
                   viewportVisibleIds.has(img.id) ||
                   selectedIds.includes(img.id),
               )
-              .map((img) => (
+              .map((img) => {
+                const activeMask =
+                  activeMaskId && selectedIds.length === 1
+                    ? img.masks?.find((m) => m.id === activeMaskId)
+                    : undefined;
+                const isCroppingImage =
+                  isCropping &&
+                  selectedIds.length === 1 &&
+                  selectedIds[0] === img.id;
+                const isEditingImage =
+                  selectedIds.length === 1 && selectedIds[0] === img.id;
+                const rowKey = getImageRowKey(img);
+                const imagePins = rowKey ? commentPins.get(rowKey) : undefined;
+                return (
                 <ImageNode
                   key={img.id}
                   image={img}
                   bypassedTabs={bypassedTabs}
+                  activeMask={activeMask}
+                  maskBrush={maskBrush}
+                  onMaskChange={
+                    activeMask
+                      ? (mask: LocalMask) =>
+                          commitCanvasEdit(img, {
+                            masks: (img.masks ?? []).map((m) =>
+                              m.id === mask.id ? mask : m,
+                            ),
+                          })
+                      : undefined
+                  }
+                  isCropping={isCroppingImage}
+                  cropAspect={
+                    cropAspect === "original"
+                      ? img.width / img.height
+                      : cropAspect
+                  }
+                  onCropChange={
+                    isCroppingImage
+                      ? (crop) => commitCanvasEdit(img, { crop })
+                      : undefined
+                  }
+                  clippingWarnings={isEditingImage ? clippingWarnings : null}
+                  onPixelHover={
+                    isEditingImage && isInspecting
+                      ? editActions.setPixelReadout
+                      : undefined
+                  }
+                  targetedAdjustment={
+                    isEditingImage ? targetedAdjustment : null
+                  }
+                  compareSplit={
+                    zoomedImageId === img.id ? compareSplit : null
+                  }
+                  onCompareSplitChange={
+                    zoomedImageId === img.id
+                      ? uiActions.setCompareSplit
+                      : undefined
+                  }
+                  onTargetedAdjust={
+                    isEditingImage && targetedAdjustment
+                      ? (updates, isFirst) => {
+                          if (isFirst) {
+                            commitCanvasEdit(img, updates);
+                            return;
+                          }
+                          setImages((prev) =>
+                            prev.map((i) =>
+                              i.id === img.id ? { ...i, ...updates } : i,
+                            ),
+                          );
+                        }
+                      : undefined
+                  }
                   useLowResPreview={
                     isAdjustingSliders &&
                     !sliderSettledWhileDragging &&
                     selectedIds[0] === img.id
                   }
                   isSelected={selectedIds.includes(img.id)}
+                  lockedBy={
+                    rowKey ? photoCollaborators.get(rowKey)?.editingBy : null
+                  }
+                  commentPins={
+                    commentPinDraft?.imageId === img.id
+                      ? [
+                          ...(imagePins ?? []),
+                          {
+                            threadId: null,
+                            x: commentPinDraft.x,
+                            y: commentPinDraft.y,
+                            label: "+",
+                          },
+                        ]
+                      : imagePins
+                  }
+                  onCommentPinClick={handleCommentPinClick}
+                  onPlaceCommentPin={
+                    isEditingImage && isPlacingCommentPin
+                      ? handlePlaceCommentPin
+                      : undefined
+                  }
                   draggable={!isSpacePressed && canManagePhoto(img.userId)}
                   onClick={handleObjectClick}
                   onDblClick={(e) => handleImageDoubleClick(img, e)}
@@ -6192,7 +7146,8 @@ export function CanvasEditor({
                     );
                   }}
                 />
-              ))}
+                );
+              })}
             {/* Selection outlines at parent level so they don't affect image cache/edits */}
             {images
               .filter(
@@ -6207,26 +7162,14 @@ export function CanvasEditor({
                 const strokeColor = folder
                   ? hexToRgba(folder.color, 0.4)
                   : hexToRgba("#3ECF8E", 0.4);
-                // Match fitScale from ImageNode for folder images
-                let displayW = img.width * img.scaleX;
-                let displayH = img.height * img.scaleY;
-                if (img.folderId) {
-                  const { imageMaxSize, imageMaxHeight } = GRID_CONFIG;
-                  const fitScale = Math.min(
-                    imageMaxSize / displayW,
-                    imageMaxHeight / displayH,
-                    1,
-                  );
-                  displayW *= fitScale;
-                  displayH *= fitScale;
-                }
+                const { width, height } = getDisplaySize(img);
                 return (
                   <Rect
                     key={`outline-${img.id}`}
                     x={img.x}
                     y={img.y}
-                    width={displayW}
-                    height={displayH}
+                    width={width}
+                    height={height}
                     rotation={img.rotation}
                     stroke={strokeColor}
                     strokeWidth={2}
@@ -6234,6 +7177,40 @@ export function CanvasEditor({
                   />
                 );
               })}
+            {/* Other members' selections: one outline per member in their color, nested outwards */}
+            {photoCollaborators.size > 0 &&
+              images
+                .filter(
+                  (img) =>
+                    visibleImageIds === null || visibleImageIds.has(img.id),
+                )
+                .flatMap((img) => {
+                  const key = getImageRowKey(img);
+                  const selectedBy = key
+                    ? (photoCollaborators.get(key)?.selectedBy ?? [])
+                    : [];
+                  if (selectedBy.length === 0) return [];
+                  const { width, height } = getDisplaySize(img);
+                  return selectedBy.map((member, i) => {
+                    const inset = (4 * (i + 1)) / stageScale;
+                    return (
+                      <Rect
+                        key={`remote-outline-${img.id}-${i}`}
+                        x={img.x}
+                        y={img.y}
+                        offsetX={inset}
+                        offsetY={inset}
+                        width={width + inset * 2}
+                        height={height + inset * 2}
+                        rotation={img.rotation}
+                        stroke={member.color}
+                        strokeWidth={2}
+                        strokeScaleEnabled={false}
+                        listening={false}
+                      />
+                    );
+                  });
+                })}
             {texts.map((txt) => (
               <TextNode
                 key={txt.id}
@@ -6263,6 +7240,11 @@ export function CanvasEditor({
                 return newBox;
               }}
             /> */}
+
+            {/* Other members' cursors, above everything else */}
+            {remoteUsers.length > 0 && (
+              <CollabCursors users={remoteUsers} stageScale={stageScale} />
+            )}
           </Layer>
         </Stage>
       </div>
@@ -6325,6 +7307,31 @@ export function CanvasEditor({
             </svg>
             Create social media layout
           </button>
+          {user && (
+            <button
+              type="button"
+              onClick={() => {
+                setCanvasContextMenu(null);
+                handleLabelPhotos();
+              }}
+              className="w-full px-4 py-2.5 text-left text-sm text-white hover:bg-[#252525] transition-colors flex items-center gap-2 border-t border-[#2a2a2a]"
+            >
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+                />
+              </svg>
+              Label unlabeled photos
+            </button>
+          )}
         </div>
       )}
 
@@ -6454,7 +7461,7 @@ export function CanvasEditor({
                     type="button"
                     onClick={() => {
                       setFolderContextMenu(null);
-                      handleExportLayout(folder.id);
+                      handleExportLayout(folder.id, exportOptions);
                     }}
                     className="w-full px-4 py-2.5 text-left text-sm text-white hover:bg-[#252525] transition-colors"
                   >
@@ -6463,6 +7470,27 @@ export function CanvasEditor({
                   <div className="my-1 border-t border-[#2a2a2a]" />
                 </>
               )}
+              <button
+                type="button"
+                onClick={() => {
+                  setFolderContextMenu(null);
+                  // Cull in the folder's grid order, skipping photos hidden by the filter
+                  const imageIds = getFolderImagesSorted(
+                    images,
+                    folder.imageIds,
+                  )
+                    .map((img) => img.id)
+                    .filter(
+                      (id) => !visibleImageIds || visibleImageIds.has(id),
+                    );
+                  if (imageIds.length > 0)
+                    uiActions.setCulling({ imageIds, index: 0 });
+                }}
+                disabled={folder.imageIds.length === 0}
+                className="w-full px-4 py-2.5 text-left text-sm text-white hover:bg-[#252525] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Cull photos
+              </button>
               <button
                 type="button"
                 onClick={() => {
@@ -6520,6 +7548,26 @@ export function CanvasEditor({
                   Apply preset… ({imageContextMenu.selectedIds.length} photos)
                 </button>
               )}
+              <button
+                type="button"
+                onClick={() => {
+                  uiActions.setSyncSettings({
+                    sourceId: imageContextMenu.imageId,
+                    targetIds: imageContextMenu.selectedIds,
+                  });
+                  setImageContextMenu(null);
+                }}
+                className="w-full px-4 py-2.5 text-left text-sm text-white hover:bg-[#252525] transition-colors"
+              >
+                Sync settings… ({imageContextMenu.selectedIds.length} photos)
+              </button>
+              <button
+                type="button"
+                onClick={handleAutoToneSelection}
+                className="w-full px-4 py-2.5 text-left text-sm text-white hover:bg-[#252525] transition-colors"
+              >
+                Auto tone ({imageContextMenu.selectedIds.length} photos)
+              </button>
               <button
                 type="button"
                 onClick={handleExportSelection}
@@ -6573,6 +7621,13 @@ export function CanvasEditor({
               >
                 Paste edit
               </button>
+              <button
+                type="button"
+                onClick={handleCreateVirtualCopy}
+                className="w-full px-4 py-2.5 text-left text-sm text-white hover:bg-[#252525] transition-colors"
+              >
+                Create virtual copy
+              </button>
               <div className="my-1 border-t border-[#2a2a2a]" />
               <button
                 type="button"
@@ -6584,6 +7639,34 @@ export function CanvasEditor({
               >
                 Border…
               </button>
+              <button
+                type="button"
+                onClick={() => {
+                  uiActions.setLabelEditorImageId(imageContextMenu.imageId);
+                  setImageContextMenu(null);
+                }}
+                className="w-full px-4 py-2.5 text-left text-sm text-white hover:bg-[#252525] transition-colors"
+              >
+                Edit labels…
+              </button>
+              {!isMobile && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    uiActions.setReferenceImageId(
+                      referenceImageId === imageContextMenu.imageId
+                        ? null
+                        : imageContextMenu.imageId,
+                    );
+                    setImageContextMenu(null);
+                  }}
+                  className="w-full px-4 py-2.5 text-left text-sm text-white hover:bg-[#252525] transition-colors"
+                >
+                  {referenceImageId === imageContextMenu.imageId
+                    ? "Unpin reference"
+                    : "Pin as reference"}
+                </button>
+              )}
               {user && (
                 <>
                   <button
@@ -6705,6 +7788,33 @@ export function CanvasEditor({
           );
         })()}
 
+      {labelEditorImageId &&
+        (() => {
+          const image = images.find((i) => i.id === labelEditorImageId);
+          if (!image) return null;
+          return (
+            <LabelEditor
+              image={image}
+              onChange={(labels) => handleSetImageLabels(image.id, labels)}
+              onClose={() => uiActions.setLabelEditorImageId(null)}
+            />
+          );
+        })()}
+
+      {/* Export settings dialog */}
+      {exportDialogIds && exportDialogIds.length > 0 && (
+        <ExportDialog
+          count={exportDialogIds.length}
+          initialOptions={exportOptions}
+          onExport={(options) => {
+            setExportOptions(options);
+            setExportDialogIds(null);
+            handleExportSelectionBase(exportDialogIds, options);
+          }}
+          onCancel={() => setExportDialogIds(null)}
+        />
+      )}
+
       {/* Create preset modal: name the preset from current image edits */}
       {createPresetFromImageId && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
@@ -6792,6 +7902,67 @@ export function CanvasEditor({
         </div>
       )}
 
+      {/* Sync settings modal: pick which edit groups to copy from the source photo */}
+      {syncSettings && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+          onClick={() => uiActions.setSyncSettings(null)}
+        >
+          <div
+            className="bg-[#171717] border border-[#2a2a2a] rounded-2xl shadow-2xl shadow-black/50 p-6 w-96 max-h-[80vh] overflow-hidden flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-lg font-semibold text-white mb-2">
+              Sync settings
+            </h3>
+            <p className="text-sm text-[#888] mb-4">
+              Copy the checked settings from the photo you right-clicked to the
+              other {syncSettings.targetIds.length - 1} photo
+              {syncSettings.targetIds.length - 1 !== 1 ? "s" : ""}
+            </p>
+            <div className="space-y-1 overflow-y-auto flex-1 min-h-0">
+              {EDIT_KEY_GROUPS.map((group) => (
+                <label
+                  key={group.id}
+                  className="flex items-center gap-3 px-3 py-2 text-sm text-white hover:bg-[#252525] rounded-xl cursor-pointer transition-colors"
+                >
+                  <input
+                    type="checkbox"
+                    checked={syncSettingsGroups.includes(group.id)}
+                    onChange={(e) =>
+                      uiActions.setSyncSettingsGroups(
+                        e.target.checked
+                          ? [...syncSettingsGroups, group.id]
+                          : syncSettingsGroups.filter((g) => g !== group.id),
+                      )
+                    }
+                    className="accent-[#3ECF8E]"
+                  />
+                  {group.label}
+                </label>
+              ))}
+            </div>
+            <div className="mt-4 flex gap-2">
+              <button
+                type="button"
+                onClick={() => uiActions.setSyncSettings(null)}
+                className="flex-1 px-4 py-2.5 text-sm text-[#888] hover:text-white border border-[#333] rounded-xl hover:bg-[#252525] transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSyncSettings}
+                disabled={syncSettingsGroups.length === 0}
+                className="flex-1 px-4 py-2.5 text-sm font-medium text-[#0d0d0d] bg-[#3ECF8E] hover:bg-[#35b87d] disabled:bg-[#333] disabled:text-[#666] disabled:cursor-not-allowed rounded-xl transition-colors cursor-pointer"
+              >
+                Sync
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {selectedObject && (!isMobile || mobileEditFullscreen) && (
         <EditPanel
           object={selectedObject}
@@ -6815,13 +7986,16 @@ export function CanvasEditor({
                   EDIT_HISTORY_DEBOUNCE_MS;
                 if (isBulkUpdate || debounceOk) {
                   lastEditHistoryPushRef.current = now;
-                  setEditHistory((prev) => [
-                    ...prev.slice(-49),
-                    {
-                      imageId,
-                      snapshot: getEditSnapshot(selectedObject as CanvasImage),
-                    },
-                  ]);
+                  setEditHistory((prev) =>
+                    appendEditHistory(prev, [
+                      {
+                        imageId,
+                        snapshot: getEditSnapshot(
+                          selectedObject as CanvasImage,
+                        ),
+                      },
+                    ]),
+                  );
                   setEditRedoStack([]);
                 }
               }
@@ -6841,6 +8015,36 @@ export function CanvasEditor({
               );
             }
           }}
+          onApplyEditStep={(updates) => {
+            const img = selectedObject as CanvasImage;
+            useEditStore.getState().pushSnapshot(img.id, img);
+            setImages((prev) =>
+              prev.map((i) => (i.id === img.id ? { ...i, ...updates } : i)),
+            );
+          }}
+          onSnapshotsChange={(snapshots) => {
+            const imageId = selectedIds[0];
+            setImages((prev) =>
+              prev.map((i) => (i.id === imageId ? { ...i, snapshots } : i)),
+            );
+          }}
+          sessionId={sessionId}
+          authorNames={isSession ? userNameMap : undefined}
+          onBranchFromHistory={
+            canEditSelected ? handleBranchFromHistory : undefined
+          }
+          readOnly={!canEditSelected}
+          canComment={canComment}
+          commentPin={
+            commentPinDraft?.imageId === selectedObject.id
+              ? commentPinDraft
+              : null
+          }
+          isPlacingCommentPin={isPlacingCommentPin}
+          onPlacingCommentPinChange={editActions.setIsPlacingCommentPin}
+          onClearCommentPin={() => editActions.setCommentPinDraft(null)}
+          activeCommentThreadId={activeCommentThreadId}
+          onActiveCommentThreadChange={editActions.setActiveCommentThreadId}
           onDelete={async () => {
             if ("src" in selectedObject) {
               if (
@@ -6868,7 +8072,7 @@ export function CanvasEditor({
             "src" in selectedObject
           }
           onResetToOriginal={
-            "src" in selectedObject
+            "src" in selectedObject && canEditSelected
               ? () => {
                   setEditHistory([]);
                   setEditRedoStack([]);
@@ -6898,6 +8102,7 @@ export function CanvasEditor({
                             splitToning: undefined,
                             colorGrading: undefined,
                             colorCalibration: undefined,
+                            profile: undefined,
                             // Effects
                             clarity: 0,
                             dehaze: 0,
@@ -6907,6 +8112,11 @@ export function CanvasEditor({
                             grainRoughness: 0,
                             // Curves
                             curves: { ...DEFAULT_CURVES },
+                            // Local adjustments
+                            masks: undefined,
+                            // Crop
+                            crop: undefined,
+                            straighten: 0,
                             // Legacy
                             brightness: 0,
                             hue: 0,
@@ -6925,11 +8135,30 @@ export function CanvasEditor({
           onRetrySave={
             "src" in selectedObject ? () => handleSave(false) : undefined
           }
-          onExport={"src" in selectedObject ? handleExport : undefined}
+          onExport={
+            "src" in selectedObject
+              ? () => setExportDialogIds([selectedObject.id])
+              : undefined
+          }
           bypassedTabs={bypassedTabs}
           onToggleBypass={(tab) => {
             useEditStore.getState().toggleBypass(tab);
           }}
+          activeMaskId={activeMaskId}
+          onActiveMaskChange={editActions.setActiveMaskId}
+          maskBrush={maskBrush}
+          onMaskBrushChange={editActions.setMaskBrush}
+          onCroppingChange={editActions.setIsCropping}
+          cropAspect={cropAspect}
+          onCropAspectChange={editActions.setCropAspect}
+          histogram={
+            histogram?.imageId === selectedObject.id ? histogram.data : null
+          }
+          clippingWarnings={clippingWarnings}
+          onToggleClippingWarning={editActions.toggleClippingWarning}
+          onInspectingChange={editActions.setIsInspecting}
+          targetedAdjustment={targetedAdjustment}
+          onTargetedAdjustmentChange={editActions.setTargetedAdjustment}
           onSliderDraggingChange={(dragging) => {
             setIsAdjustingSliders(dragging);
             if (!dragging) setSliderSettledWhileDragging(false);
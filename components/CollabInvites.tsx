@@ -0,0 +1,375 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type {
+  CollabEmailInvite,
+  CollabInvite,
+  CollabRole,
+} from "@/lib/types";
+import { getAuthHeaders } from "@/lib/supabase";
+import { COLLAB_ROLE_LABELS } from "@/lib/utils/collabRoles";
+import {
+  getInviteLink,
+  getInviteStatus,
+  getInvitableRoles,
+} from "@/lib/utils/collabInvites";
+
+interface CollabInvitesProps {
+  sessionId: string;
+  /** Inviter's role: admins can't pre-approve admins */
+  role: CollabRole;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: "1 day", hours: 24 },
+  { label: "7 days", hours: 7 * 24 },
+  { label: "30 days", hours: 30 * 24 },
+  { label: "Never", hours: null },
+];
+
+const MAX_USES_OPTIONS = [null, 1, 5, 10, 25];
+
+const selectClass =
+  "text-xs bg-[#1a1a1a] border border-[#2a2a2a] rounded px-1 py-1 text-gray-300";
+
+/** "Expires in 3d · 2/10 uses", or why the link no longer works */
+function describeInvite(invite: CollabInvite): string {
+  const status = getInviteStatus(invite);
+  if (status === "expired") return "Expired";
+  if (status === "used_up") return `Used up (${invite.use_count} uses)`;
+
+  const parts = [];
+  if (invite.expires_at) {
+    const hours = (new Date(invite.expires_at).getTime() - Date.now()) / 36e5;
+    parts.push(
+      hours >= 24
+        ? `Expires in ${Math.floor(hours / 24)}d`
+        : `Expires in ${Math.max(1, Math.floor(hours))}h`,
+    );
+  } else {
+    parts.push("No expiry");
+  }
+  parts.push(
+    invite.max_uses !== null
+      ? `${invite.use_count}/${invite.max_uses} uses`
+      : `${invite.use_count} uses`,
+  );
+  return parts.join(" · ");
+}
+
+/**
+ * Members panel invites (owner and admins): invite links with an expiry, max uses and
+ * an optional pre-approved role, and email invites that approve that Google account
+ * when it signs in. Links and email invites can be revoked.
+ */
+export function CollabInvites({ sessionId, role }: CollabInvitesProps) {
+  const [invites, setInvites] = useState<CollabInvite[]>([]);
+  const [emailInvites, setEmailInvites] = useState<CollabEmailInvite[]>([]);
+  const [linkRole, setLinkRole] = useState<CollabRole | "">("");
+  const [expiryHours, setExpiryHours] = useState<number | null>(7 * 24);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
+  const [email, setEmail] = useState("");
+  const [emailRole, setEmailRole] = useState<CollabRole>("editor");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const invitableRoles = getInvitableRoles(role);
+
+  const loadInvites = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ sessionId });
+      const response = await fetch(`/api/collab/invites?${params}`, {
+        headers: await getAuthHeaders(),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+      setInvites(result.invites);
+      setEmailInvites(result.emailInvites);
+    } catch (err) {
+      console.error("Error fetching invites:", err);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  // Run an invites API call, then reload the lists
+  const run = async (
+    request: () => Promise<Response>,
+    onSuccess?: (result: Record<string, unknown>) => void | Promise<void>,
+  ) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await request();
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Request failed");
+      await onSuccess?.(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+      loadInvites();
+    }
+  };
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(
+      getInviteLink(window.location.origin, token),
+    );
+    setMessage("Invite link copied!");
+  };
+
+  const createLink = () =>
+    run(
+      async () =>
+        fetch("/api/collab/invites", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(await getAuthHeaders()),
+          },
+          body: JSON.stringify({
+            sessionId,
+            role: linkRole || null,
+            expiresInHours: expiryHours,
+            maxUses,
+          }),
+        }),
+      (result) => copyLink((result.invite as CollabInvite).token),
+    );
+
+  const inviteEmail = () => {
+    if (!email.trim()) return;
+    run(
+      async () =>
+        fetch("/api/collab/invites", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(await getAuthHeaders()),
+          },
+          body: JSON.stringify({
+            sessionId,
+            role: emailRole,
+            email: email.trim(),
+          }),
+        }),
+      (result) => {
+        setEmail("");
+        setMessage(
+          result.claimed
+            ? "They already have an account and were added."
+            : "They'll be added when they sign in with Google.",
+        );
+      },
+    );
+  };
+
+  const revoke = (ids: { inviteId: string } | { memberId: string }) => {
+    const params = new URLSearchParams({ sessionId, ...ids });
+    run(async () =>
+      fetch(`/api/collab/invites?${params}`, {
+        method: "DELETE",
+        headers: await getAuthHeaders(),
+      }),
+    );
+  };
+
+  const revokeButton = (onClick: () => void, title: string) => (
+    <button
+      onClick={onClick}
+      disabled={busy}
+      title={title}
+      className="p-1 text-gray-400 hover:text-red-400 rounded disabled:opacity-50"
+    >
+      <svg
+        className="w-3.5 h-3.5"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M6 18L18 6M6 6l12 12"
+        />
+      </svg>
+    </button>
+  );
+
+  return (
+    <div className="mb-4 p-3 bg-[#0a0a0a] rounded-lg space-y-3">
+      <div>
+        <p className="text-xs text-gray-400 mb-2">Invite links:</p>
+        <div className="grid grid-cols-3 gap-1 mb-2">
+          <select
+            value={linkRole}
+            onChange={(e) => setLinkRole(e.target.value as CollabRole | "")}
+            title="Role"
+            className={selectClass}
+          >
+            <option value="">Needs approval</option>
+            {invitableRoles.map((r) => (
+              <option key={r} value={r}>
+                {COLLAB_ROLE_LABELS[r]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={expiryHours ?? ""}
+            onChange={(e) =>
+              setExpiryHours(e.target.value ? Number(e.target.value) : null)
+            }
+            title="Expires after"
+            className={selectClass}
+          >
+            {EXPIRY_OPTIONS.map((o) => (
+              <option key={o.label} value={o.hours ?? ""}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={maxUses ?? ""}
+            onChange={(e) =>
+              setMaxUses(e.target.value ? Number(e.target.value) : null)
+            }
+            title="Max uses"
+            className={selectClass}
+          >
+            {MAX_USES_OPTIONS.map((n) => (
+              <option key={n ?? "unlimited"} value={n ?? ""}>
+                {n === null ? "Unlimited" : n === 1 ? "1 use" : `${n} uses`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={createLink}
+          disabled={busy}
+          className="w-full py-1 text-xs font-medium bg-[#3ECF8E] text-black rounded hover:bg-[#35b87a] disabled:opacity-50"
+        >
+          Create & copy link
+        </button>
+        {invites.length > 0 && (
+          <div className="mt-2 space-y-1">
+            {invites.map((invite) => {
+              const active = getInviteStatus(invite) === "active";
+              return (
+                <div
+                  key={invite.id}
+                  className={`flex items-center justify-between gap-2 p-1.5 bg-[#1a1a1a] rounded ${
+                    active ? "" : "opacity-50"
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-xs text-gray-300 truncate">
+                      {invite.role
+                        ? `Joins as ${COLLAB_ROLE_LABELS[invite.role]}`
+                        : "Needs approval"}
+                    </p>
+                    <p className="text-[10px] text-gray-500 truncate">
+                      {describeInvite(invite)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {active && (
+                      <button
+                        onClick={() => copyLink(invite.token)}
+                        title="Copy link"
+                        className="p-1 text-gray-400 hover:text-[#3ECF8E] rounded"
+                      >
+                        <svg
+                          className="w-3.5 h-3.5"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                          />
+                        </svg>
+                      </button>
+                    )}
+                    {revokeButton(
+                      () => revoke({ inviteId: invite.id }),
+                      "Revoke link",
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-400 mb-2">Invite by email:</p>
+        <div className="flex items-center gap-1">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") inviteEmail();
+            }}
+            placeholder="name@gmail.com"
+            className="flex-1 min-w-0 text-xs bg-[#1a1a1a] border border-[#2a2a2a] rounded px-2 py-1 text-gray-300"
+          />
+          <select
+            value={emailRole}
+            onChange={(e) => setEmailRole(e.target.value as CollabRole)}
+            title="Role"
+            className={selectClass}
+          >
+            {invitableRoles.map((r) => (
+              <option key={r} value={r}>
+                {COLLAB_ROLE_LABELS[r]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={inviteEmail}
+            disabled={busy || !email.trim()}
+            className="px-2 py-1 text-xs font-medium bg-[#3ECF8E] text-black rounded hover:bg-[#35b87a] disabled:opacity-50"
+          >
+            Invite
+          </button>
+        </div>
+        {emailInvites.length > 0 && (
+          <div className="mt-2 space-y-1">
+            {emailInvites.map((invite) => (
+              <div
+                key={invite.id}
+                className="flex items-center justify-between gap-2 p-1.5 bg-[#1a1a1a] rounded"
+              >
+                <div className="min-w-0">
+                  <p className="text-xs text-gray-300 truncate">
+                    {invite.invited_email}
+                  </p>
+                  <p className="text-[10px] text-gray-500">
+                    {COLLAB_ROLE_LABELS[invite.role]} · waiting for sign-in
+                  </p>
+                </div>
+                {revokeButton(
+                  () => revoke({ memberId: invite.id }),
+                  "Cancel invite",
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {message && <p className="text-xs text-[#3ECF8E]">{message}</p>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
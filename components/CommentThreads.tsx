@@ -0,0 +1,347 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth";
+import type {
+  CanvasImage,
+  CollabComment,
+  CollabCommentThread,
+} from "@/lib/types";
+import { useCollabComments } from "@/lib/hooks/useCollabComments";
+import {
+  addComment,
+  createCommentThread,
+  deleteComment,
+  findMentions,
+  getPhotoThreads,
+  getPinNumbers,
+  setThreadResolved,
+} from "@/lib/utils/collabComments";
+
+interface CommentThreadsProps {
+  image: CanvasImage;
+  sessionId: string;
+  /** userId → display name (comment authors, @mentions) */
+  memberNames: Record<string, string>;
+  /** Pin for the next thread, placed by clicking the photo (null = whole photo) */
+  pin: { x: number; y: number } | null;
+  isPlacingPin: boolean;
+  onPlacingPinChange: (placing: boolean) => void;
+  onClearPin: () => void;
+  /** Thread opened from its pin on canvas */
+  activeThreadId: string | null;
+  onActiveThreadChange: (id: string | null) => void;
+  /** Viewer role: threads are listed, but can't be started, replied to or resolved */
+  readOnly?: boolean;
+}
+
+const inputClass =
+  "w-full px-3 py-2 bg-[#252525] border border-[#333] rounded-lg text-sm text-white placeholder-[#666] focus:outline-none focus:border-[#3ECF8E]";
+
+/** Comment body with @mentions of session members highlighted */
+function CommentBody({
+  body,
+  memberNames,
+}: {
+  body: string;
+  memberNames: Record<string, string>;
+}) {
+  const names = new Set(
+    Object.values(memberNames).map((n) => n.toLowerCase()),
+  );
+  return (
+    <p className="text-sm text-[#ddd] whitespace-pre-wrap break-words">
+      {body.split(/(@[\w.+-]+)/g).map((part, i) =>
+        part.startsWith("@") &&
+        names.has(part.slice(1).replace(/\.+$/, "").toLowerCase()) ? (
+          <span key={i} className="text-[#3ECF8E] font-medium">
+            {part}
+          </span>
+        ) : (
+          part
+        ),
+      )}
+    </p>
+  );
+}
+
+/**
+ * Comment threads on a collab photo (EditPanel Comments tab): start a thread on the
+ * whole photo or pinned to a point, reply, resolve / reopen, and @mention members.
+ */
+export function CommentThreads({
+  image,
+  sessionId,
+  memberNames,
+  pin,
+  isPlacingPin,
+  onPlacingPinChange,
+  onClearPin,
+  activeThreadId,
+  onActiveThreadChange,
+  readOnly = false,
+}: CommentThreadsProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: threads = [], isLoading } = useCollabComments(sessionId);
+  const [draft, setDraft] = useState("");
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [showResolved, setShowResolved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const activeThreadRef = useRef<HTMLDivElement>(null);
+
+  const storagePath = image.storagePath || image.originalStoragePath;
+  const photoThreads = getPhotoThreads(threads, storagePath, image.copyId);
+  const pinNumbers = getPinNumbers(photoThreads);
+  const openThreads = photoThreads.filter((t) => !t.resolved_at);
+  const resolvedThreads = photoThreads.filter((t) => t.resolved_at);
+  const mentionable = Object.entries(memberNames).filter(
+    ([id]) => id !== user?.id,
+  );
+
+  // A pin clicked on canvas may belong to a resolved thread: show those too
+  const activeIsResolved = resolvedThreads.some((t) => t.id === activeThreadId);
+  const resolvedVisible = showResolved || activeIsResolved;
+  useEffect(() => {
+    activeThreadRef.current?.scrollIntoView({ block: "nearest" });
+  }, [activeThreadId, resolvedVisible]);
+
+  // Run a write, then refetch (realtime refetches for everyone else)
+  const run = async (write: () => Promise<void>) => {
+    setError(null);
+    try {
+      await write();
+    } catch (err) {
+      console.error("Error saving comment:", err);
+      setError("Couldn't save. Please try again.");
+    }
+    queryClient.invalidateQueries({ queryKey: ["collab-comments", sessionId] });
+  };
+
+  const handleCreateThread = () => {
+    const body = draft.trim();
+    if (!body || !user || !storagePath) return;
+    setDraft("");
+    onClearPin();
+    run(() =>
+      createCommentThread({
+        sessionId,
+        userId: user.id,
+        storagePath,
+        copyId: image.copyId,
+        pin,
+        body,
+        mentions: findMentions(body, memberNames),
+      }),
+    );
+  };
+
+  const addMention = (name: string) => {
+    setDraft((d) => `${d}${d && !d.endsWith(" ") ? " " : ""}@${name} `);
+  };
+
+  const handleReply = (thread: CollabCommentThread) => {
+    const body = (replyDrafts[thread.id] ?? "").trim();
+    if (!body || !user) return;
+    setReplyDrafts((prev) => ({ ...prev, [thread.id]: "" }));
+    run(() =>
+      addComment({
+        threadId: thread.id,
+        sessionId,
+        userId: user.id,
+        body,
+        mentions: findMentions(body, memberNames),
+      }),
+    );
+  };
+
+  const renderComment = (thread: CollabCommentThread, c: CollabComment) => (
+    <div key={c.id} className="group">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[10px] text-[#666] truncate">
+          {memberNames[c.user_id] ?? "Collaborator"} ·{" "}
+          {new Date(c.created_at).toLocaleString()}
+        </span>
+        {c.user_id === user?.id && !readOnly && (
+          <button
+            onClick={() => run(() => deleteComment(thread, c.id))}
+            className="p-0.5 text-[#666] hover:text-[#f87171] opacity-0 group-hover:opacity-100 transition-all cursor-pointer"
+            title={
+              thread.comments[0]?.id === c.id
+                ? "Delete thread"
+                : "Delete comment"
+            }
+          >
+            <svg
+              className="w-3 h-3"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        )}
+      </div>
+      <CommentBody body={c.body} memberNames={memberNames} />
+    </div>
+  );
+
+  const renderThread = (thread: CollabCommentThread) => {
+    const isActive = thread.id === activeThreadId;
+    const pinNumber = pinNumbers.get(thread.id);
+    return (
+      <div
+        key={thread.id}
+        ref={isActive ? activeThreadRef : undefined}
+        onClick={() => onActiveThreadChange(thread.id)}
+        className={`p-2.5 rounded-lg bg-[#1f1f1f] border space-y-2 ${
+          isActive ? "border-[#F59E0B]/60" : "border-[#2a2a2a]"
+        } ${thread.resolved_at ? "opacity-60" : ""}`}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[10px] font-medium uppercase tracking-wider text-[#888]">
+            {pinNumber ? `Pin ${pinNumber}` : "Photo"}
+          </span>
+          {!readOnly && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                if (user) {
+                  run(() =>
+                    setThreadResolved(thread.id, user.id, !thread.resolved_at),
+                  );
+                }
+              }}
+              className="text-[10px] text-[#888] hover:text-[#3ECF8E] transition-colors cursor-pointer"
+            >
+              {thread.resolved_at ? "Reopen" : "Resolve"}
+            </button>
+          )}
+        </div>
+        {thread.comments.map((c) => renderComment(thread, c))}
+        {!thread.resolved_at && !readOnly && (
+          <input
+            type="text"
+            value={replyDrafts[thread.id] ?? ""}
+            onChange={(e) =>
+              setReplyDrafts((prev) => ({
+                ...prev,
+                [thread.id]: e.target.value,
+              }))
+            }
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleReply(thread);
+            }}
+            placeholder="Reply…"
+            className={inputClass}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {readOnly ? (
+        <p className="text-xs text-[#666]">
+          Your role in this session can view comments only.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                handleCreateThread();
+              }
+            }}
+            rows={2}
+            placeholder="Add a comment… (@name to mention)"
+            className={`${inputClass} resize-none`}
+          />
+          {mentionable.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {mentionable.map(([id, name]) => (
+                <button
+                  key={id}
+                  onClick={() => addMention(name)}
+                  className="px-2 py-0.5 text-[10px] text-[#888] bg-[#252525] hover:text-[#3ECF8E] rounded-full transition-colors cursor-pointer"
+                >
+                  @{name}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            {pin ? (
+              <button
+                onClick={onClearPin}
+                className="flex-1 px-3 py-1.5 text-xs text-[#F59E0B] bg-[#F59E0B]/10 rounded-lg transition-colors cursor-pointer"
+                title="Remove pin"
+              >
+                Pinned to photo ✕
+              </button>
+            ) : (
+              <button
+                onClick={() => onPlacingPinChange(!isPlacingPin)}
+                className={`flex-1 px-3 py-1.5 text-xs rounded-lg transition-colors cursor-pointer ${
+                  isPlacingPin
+                    ? "text-[#F59E0B] bg-[#F59E0B]/10"
+                    : "text-[#999] bg-[#252525] hover:text-white"
+                }`}
+              >
+                {isPlacingPin ? "Click the photo…" : "Pin to a point"}
+              </button>
+            )}
+            <button
+              onClick={handleCreateThread}
+              disabled={!draft.trim()}
+              className="px-3 py-1.5 text-xs font-medium text-[#0d0d0d] bg-[#3ECF8E] hover:bg-[#35b87d] disabled:bg-[#333] disabled:text-[#666] disabled:cursor-not-allowed rounded-lg transition-colors cursor-pointer"
+            >
+              Comment
+            </button>
+          </div>
+          {error && <p className="text-xs text-[#f87171]">{error}</p>}
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {isLoading ? (
+          <p className="text-xs text-[#666] text-center py-2">Loading…</p>
+        ) : openThreads.length === 0 ? (
+          <p className="text-xs text-[#666] text-center py-2">
+            No open comments
+          </p>
+        ) : (
+          openThreads.map(renderThread)
+        )}
+        {resolvedThreads.length > 0 && (
+          <>
+            <button
+              onClick={() => {
+                if (resolvedVisible && activeIsResolved) {
+                  onActiveThreadChange(null);
+                }
+                setShowResolved(!resolvedVisible);
+              }}
+              className="w-full text-left text-[10px] font-medium uppercase tracking-wider text-[#666] hover:text-white transition-colors cursor-pointer"
+            >
+              {resolvedVisible
+                ? "Hide resolved"
+                : `Show resolved (${resolvedThreads.length})`}
+            </button>
+            {resolvedVisible && resolvedThreads.map(renderThread)}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+"use client";
+
+import { useEffect } from "react";
+import { COLOR_LABELS, type CanvasImage, type CullMarks } from "@/lib/types";
+import { useFilteredPreviewUrl } from "@/lib/hooks/useFilteredPreviewUrl";
+
+// Culling shows the full look, never the bypass state of the edit panel
+const NO_BYPASS = new Set<string>();
+
+interface CullingViewProps {
+  image: CanvasImage;
+  index: number;
+  total: number;
+  onStep: (delta: number) => void;
+  onMarksChange: (marks: CullMarks) => void;
+  onClose: () => void;
+}
+
+/**
+ * Fullscreen culling: one photo of a folder at a time, stepped with the arrow keys.
+ * Rating / flag / color label shortcuts (0-5, P/X/U, 6-9) are handled by CanvasEditor.
+ */
+export function CullingView({
+  image,
+  index,
+  total,
+  onStep,
+  onMarksChange,
+  onClose,
+}: CullingViewProps) {
+  const previewUrl = useFilteredPreviewUrl(image, NO_BYPASS, true);
+  const name = image.storagePath?.split("/").pop() ?? "Photo";
+  const rating = image.rating ?? 0;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowRight") onStep(1);
+      else if (e.key === "ArrowLeft") onStep(-1);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onStep, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex flex-col bg-[#0d0d0d]">
+      <div className="flex-shrink-0 flex items-center justify-between px-4 py-3 border-b border-[#2a2a2a] bg-[#171717]">
+        <div className="flex items-center gap-3 min-w-0">
+          <span className="text-[10px] font-medium uppercase tracking-wider text-[#3ECF8E]">
+            Culling
+          </span>
+          <span className="text-xs text-[#888] truncate">{name}</span>
+          <span className="text-xs text-[#666]">
+            {index + 1} / {total}
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          title="Exit culling (Esc)"
+          className="p-1 text-[#888] hover:text-white transition-colors cursor-pointer"
+        >
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center gap-2 p-4">
+        <button
+          onClick={() => onStep(-1)}
+          disabled={index === 0}
+          title="Previous (←)"
+          className="p-2 text-[#888] hover:text-white disabled:text-[#333] disabled:cursor-not-allowed transition-colors cursor-pointer"
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+        </button>
+        <div className="flex-1 h-full min-w-0 flex items-center justify-center">
+          {previewUrl && (
+            <img
+              src={previewUrl}
+              alt={name}
+              className={`max-w-full max-h-full object-contain transition-opacity ${
+                image.flag === "reject" ? "opacity-40" : ""
+              }`}
+            />
+          )}
+        </div>
+        <button
+          onClick={() => onStep(1)}
+          disabled={index === total - 1}
+          title="Next (→)"
+          className="p-2 text-[#888] hover:text-white disabled:text-[#333] disabled:cursor-not-allowed transition-colors cursor-pointer"
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 5l7 7-7 7"
+            />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-shrink-0 flex flex-wrap items-center justify-center gap-6 px-4 py-3 border-t border-[#2a2a2a] bg-[#171717]">
+        <div className="flex items-center gap-1">
+          {[1, 2, 3, 4, 5].map((n) => (
+            <button
+              key={n}
+              onClick={() => onMarksChange({ rating: rating === n ? 0 : n })}
+              title={`${n} star${n > 1 ? "s" : ""} (${n})`}
+              className={`text-xl leading-none transition-colors cursor-pointer ${
+                n <= rating ? "text-[#facc15]" : "text-[#444] hover:text-[#888]"
+              }`}
+            >
+              ★
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() =>
+              onMarksChange({ flag: image.flag === "pick" ? null : "pick" })
+            }
+            title="Pick (P)"
+            className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-colors cursor-pointer ${
+              image.flag === "pick"
+                ? "bg-[#3ECF8E]/20 text-[#3ECF8E]"
+                : "bg-[#252525] text-[#888] hover:text-white"
+            }`}
+          >
+            Pick
+          </button>
+          <button
+            onClick={() =>
+              onMarksChange({
+                flag: image.flag === "reject" ? null : "reject",
+              })
+            }
+            title="Reject (X)"
+            className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-colors cursor-pointer ${
+              image.flag === "reject"
+                ? "bg-[#f87171]/20 text-[#f87171]"
+                : "bg-[#252525] text-[#888] hover:text-white"
+            }`}
+          >
+            Reject
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          {COLOR_LABELS.map((c, i) => (
+            <button
+              key={c.id}
+              onClick={() =>
+                onMarksChange({
+                  colorLabel: image.colorLabel === c.id ? null : c.id,
+                })
+              }
+              title={i < 4 ? `${c.label} (${i + 6})` : c.label}
+              className={`w-5 h-5 rounded-full border-2 transition-colors cursor-pointer ${
+                image.colorLabel === c.id
+                  ? "border-white"
+                  : "border-transparent"
+              }`}
+              style={{ backgroundColor: c.color }}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 "use client";
 
 import React, { useCallback, useRef, useState, useEffect } from "react";
+import type { ClippingWarnings, TargetedAdjustment } from "@/lib/types";
+import type { ImageHistogram } from "@/lib/filters/core";
 
 interface CurvePoint {
   x: number;
@@ -19,6 +21,13 @@ interface CurvesEditorProps {
   onChange: (curves: ChannelCurves) => void;
   onClose: () => void;
   isMobile?: boolean;
+  /** Histogram of the filtered image, drawn behind the curve */
+  histogram?: ImageHistogram | null;
+  clippingWarnings?: ClippingWarnings;
+  onToggleClippingWarning?: (kind: keyof ClippingWarnings) => void;
+  /** Targeted adjustment tool: drag on the photo to move the active channel's curve */
+  targetedAdjustment?: TargetedAdjustment | null;
+  onTargetedAdjustmentChange?: (v: TargetedAdjustment | null) => void;
 }
 
 type Channel = "rgb" | "red" | "green" | "blue";
@@ -37,20 +46,53 @@ const channelBgColors: Record<Channel, string> = {
   blue: "#1a2a4a",
 };
 
+// Histogram layers per tab (RGB overlaps add up towards white)
+const histogramLayers: Record<
+  Channel,
+  { key: "r" | "g" | "b"; color: string }[]
+> = {
+  rgb: [
+    { key: "r", color: "rgba(255,80,80,0.35)" },
+    { key: "g", color: "rgba(80,255,80,0.35)" },
+    { key: "b", color: "rgba(80,130,255,0.35)" },
+  ],
+  red: [{ key: "r", color: "rgba(255,107,107,0.3)" }],
+  green: [{ key: "g", color: "rgba(81,207,102,0.3)" }],
+  blue: [{ key: "b", color: "rgba(116,192,252,0.3)" }],
+};
+
 export function CurvesEditor({
   curves,
   onChange,
   onClose,
   isMobile,
+  histogram,
+  clippingWarnings,
+  onToggleClippingWarning,
+  targetedAdjustment,
+  onTargetedAdjustmentChange,
 }: CurvesEditorProps) {
   const canvasSize = isMobile ? 260 : 200;
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [activeChannel, setActiveChannel] = useState<Channel>("rgb");
   const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
   const [localCurves, setLocalCurves] = useState<ChannelCurves>(curves);
+  const [syncedCurves, setSyncedCurves] = useState(curves);
+
+  // Follow edits made outside the editor (targeted adjustment, undo) unless dragging here
+  if (curves !== syncedCurves && draggingIndex === null) {
+    setSyncedCurves(curves);
+    setLocalCurves(curves);
+  }
 
   const currentPoints = localCurves[activeChannel];
   const curveColor = channelColors[activeChannel];
+  const isTargeting = targetedAdjustment?.kind === "curves";
+
+  const selectChannel = (channel: Channel) => {
+    setActiveChannel(channel);
+    if (isTargeting) onTargetedAdjustmentChange?.({ kind: "curves", channel });
+  };
 
   // Interpolate curve using monotone cubic spline (identity = pass-through when default two points)
   const interpolateCurve = useCallback(
@@ -112,6 +154,25 @@ export function CurvesEditor({
     ctx.fillStyle = channelBgColors[activeChannel];
     ctx.fillRect(0, 0, width, height);
 
+    // Histogram of the filtered output
+    if (histogram) {
+      ctx.globalCompositeOperation = "lighter";
+      for (const layer of histogramLayers[activeChannel]) {
+        const bins = histogram[layer.key];
+        ctx.fillStyle = layer.color;
+        ctx.beginPath();
+        ctx.moveTo(0, height);
+        for (let v = 0; v < 256; v++) {
+          const h = Math.min(1, bins[v] / histogram.peak) * height * 0.9;
+          ctx.lineTo((v / 255) * width, height - h);
+        }
+        ctx.lineTo(width, height);
+        ctx.closePath();
+        ctx.fill();
+      }
+      ctx.globalCompositeOperation = "source-over";
+    }
+
     // Grid
     ctx.strokeStyle =
       activeChannel === "rgb" ? "#3a3a3a" : "rgba(255,255,255,0.1)";
@@ -182,6 +243,7 @@ export function CurvesEditor({
     curveColor,
     draggingIndex,
     interpolateCurve,
+    histogram,
   ]);
 
   useEffect(() => {
@@ -294,6 +356,37 @@ export function CurvesEditor({
         <div className="flex items-center justify-between mb-1.5">
           <h3 className="text-xs font-medium text-white">Curves</h3>
           <div className="flex items-center gap-2">
+            {onTargetedAdjustmentChange && (
+              <button
+                onClick={() =>
+                  onTargetedAdjustmentChange(
+                    isTargeting
+                      ? null
+                      : { kind: "curves", channel: activeChannel },
+                  )
+                }
+                title="Targeted adjustment: drag up or down on the photo"
+                className={`p-1 rounded transition-colors cursor-pointer ${
+                  isTargeting
+                    ? "bg-[#3ECF8E]/20 text-[#3ECF8E]"
+                    : "text-[#888] hover:text-white"
+                }`}
+              >
+                <svg
+                  className="w-3.5 h-3.5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <circle cx="12" cy="12" r="6" strokeWidth={2} />
+                  <path
+                    strokeLinecap="round"
+                    strokeWidth={2}
+                    d="M12 2v4M12 18v4M2 12h4M18 12h4"
+                  />
+                </svg>
+              </button>
+            )}
             <button
               onClick={handleReset}
               className="text-[10px] text-[#888] hover:text-white transition-colors cursor-pointer"
@@ -332,7 +425,7 @@ export function CurvesEditor({
           {(["rgb", "red", "green", "blue"] as Channel[]).map((channel) => (
             <button
               key={channel}
-              onClick={() => setActiveChannel(channel)}
+              onClick={() => selectChannel(channel)}
               className={`${isMobile ? "px-3 py-2 text-xs min-h-[44px]" : "px-1.5 py-0.5 text-[9px]"} font-medium rounded transition-all cursor-pointer ${
                 activeChannel === channel
                   ? channel === "rgb"
@@ -350,6 +443,50 @@ export function CurvesEditor({
           ))}
         </div>
 
+        {/* Clipping warnings (lit when pixels clip, filled when the overlay is on) */}
+        {onToggleClippingWarning && (
+          <div className="flex justify-between mb-1">
+            {(["shadows", "highlights"] as const).map((kind) => {
+              const clipped =
+                (kind === "shadows"
+                  ? histogram?.shadowsClipped
+                  : histogram?.highlightsClipped) ?? 0;
+              const active = clippingWarnings?.[kind] ?? false;
+              return (
+                <button
+                  key={kind}
+                  onClick={() => onToggleClippingWarning(kind)}
+                  title={`${active ? "Hide" : "Show"} clipped ${kind} (J)`}
+                  className={`${isMobile ? "p-2" : "p-0.5"} rounded transition-colors cursor-pointer ${
+                    clipped > 0.001
+                      ? kind === "shadows"
+                        ? "text-[#4d94ff]"
+                        : "text-[#ff6b6b]"
+                      : "text-[#666] hover:text-[#999]"
+                  }`}
+                >
+                  <svg
+                    className="w-3 h-3"
+                    viewBox="0 0 12 12"
+                    fill={active ? "currentColor" : "none"}
+                    stroke="currentColor"
+                    strokeWidth={1.5}
+                  >
+                    <path
+                      strokeLinejoin="round"
+                      d={
+                        kind === "shadows"
+                          ? "M1.5 1.5 L1.5 10.5 L10.5 10.5 Z"
+                          : "M10.5 1.5 L10.5 10.5 L1.5 10.5 Z"
+                      }
+                    />
+                  </svg>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
         {/* Canvas */}
         <canvas
           ref={canvasRef}
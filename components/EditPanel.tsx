@@ -3,6 +3,7 @@
 import { useCallback, useEffect, useState, useRef, useMemo } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { CurvesEditor } from "./CurvesEditor";
+import { CommentThreads } from "./CommentThreads";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/lib/auth";
 import {
@@ -14,13 +15,52 @@ import {
   type ActivePanel,
   type BypassTab,
   type Preset,
+  type LocalMask,
+  type MaskType,
+  type MaskAdjustments,
+  type CreativeProfile,
+  type ClippingWarnings,
+  type TargetedAdjustment,
+  type HSLAdjustments,
+  type NamedSnapshot,
+  type EditHistoryEntry,
+  type StoredEditSettings,
   DEFAULT_CURVES,
+  CROP_ASPECT_PRESETS,
+  EDIT_KEYS,
+  EDIT_KEY_GROUPS,
+  cloneEditValue,
+  getEditValues,
 } from "@/lib/types";
+import {
+  hasCrop,
+  constrainCrop,
+  MAX_STRAIGHTEN,
+  parseCubeLut,
+  createProfileFromLut,
+  pickAutoTone,
+  AUTO_LIGHT_KEYS,
+  AUTO_COLOR_KEYS,
+  type AutoToneValues,
+  type ImageHistogram,
+} from "@/lib/filters/core";
+import { autoToneFromUrl } from "@/lib/filters/clientFilters";
 import { useFilteredPreviewUrl } from "@/lib/hooks/useFilteredPreviewUrl";
+import { useEditHistory } from "@/lib/hooks/useEditHistory";
+import {
+  parseLightroomXmp,
+  serializeLightroomXmp,
+} from "@/lib/utils/lightroomXmp";
+import {
+  fromStoredSettings,
+  toStoredSettings,
+} from "@/lib/utils/profileLuts";
 
 interface EditPanelProps {
   object: CanvasImage | CanvasText;
   onUpdate: (updates: Partial<CanvasImage | CanvasText>) => void;
+  /** Apply updates as a single undo step (Auto tone). Falls back to onUpdate. */
+  onApplyEditStep?: (updates: Partial<CanvasImage>) => void;
   onDelete: () => void;
   onResetToOriginal?: () => void;
   onSave?: () => void;
@@ -47,6 +87,55 @@ interface EditPanelProps {
   onCloseMobileEdit?: () => void;
   /** Image preview URL for the mobile fullscreen edit mode. */
   imagePreviewUrl?: string;
+  /** Mask currently edited on canvas (handles / brush painting). */
+  activeMaskId?: string | null;
+  onActiveMaskChange?: (id: string | null) => void;
+  /** Brush settings for painting brush masks (radius is a fraction of image width). */
+  maskBrush?: { radius: number; erase: boolean };
+  onMaskBrushChange?: (v: Partial<{ radius: number; erase: boolean }>) => void;
+  /** Called when the crop overlay should be shown / hidden on canvas. */
+  onCroppingChange?: (cropping: boolean) => void;
+  /** Locked crop aspect ratio ("original" = photo's own ratio, null = free). */
+  cropAspect?: number | "original" | null;
+  onCropAspectChange?: (aspect: number | "original" | null) => void;
+  /** Histogram of the filtered preview, drawn behind the curve. */
+  histogram?: ImageHistogram | null;
+  /** Clipping overlays on canvas (toggled from the Curves panel). */
+  clippingWarnings?: ClippingWarnings;
+  onToggleClippingWarning?: (kind: keyof ClippingWarnings) => void;
+  /** Called when the before/after pixel readout should be enabled / disabled on canvas. */
+  onInspectingChange?: (inspecting: boolean) => void;
+  /** Targeted adjustment tool (drag on the photo), null = off. */
+  targetedAdjustment?: TargetedAdjustment | null;
+  onTargetedAdjustmentChange?: (v: TargetedAdjustment | null) => void;
+  /** Save / delete named snapshots on the photo (restoring one goes through onApplyEditStep). */
+  onSnapshotsChange?: (snapshots: NamedSnapshot[]) => void;
+  /** Collab session id, so the History tab lists the whole session's edits. */
+  sessionId?: string;
+  /** userId → display name, shown on each History entry in collab. */
+  authorNames?: Record<string, string>;
+  /** Create a virtual copy with the edit values of a History entry. */
+  onBranchFromHistory?: (settings: Partial<CanvasImage>) => void;
+  /** Collab Comments tab: pin for a new thread, placed by clicking the photo on canvas. */
+  commentPin?: { x: number; y: number } | null;
+  isPlacingCommentPin?: boolean;
+  onPlacingCommentPinChange?: (placing: boolean) => void;
+  onClearCommentPin?: () => void;
+  /** Thread opened from its pin on canvas (switches to the Comments tab). */
+  activeCommentThreadId?: string | null;
+  onActiveCommentThreadChange?: (id: string | null) => void;
+  /** Collab role below editor: adjustment panels and delete are disabled (panels stay viewable). */
+  readOnly?: boolean;
+  /** Collab role below commenter: comment threads are read-only too. */
+  canComment?: boolean;
+}
+
+/** History entry summary: the edit groups a save touched ("Tone & color, Curves") */
+function describeHistoryEntry(entry: EditHistoryEntry): string {
+  const labels = EDIT_KEY_GROUPS.filter((group) =>
+    group.keys.some((key) => entry.changed_keys.includes(key)),
+  ).map((group) => group.label);
+  return labels.length > 0 ? labels.join(", ") : entry.changed_keys.join(", ");
 }
 
 // Slider component with debounced onChange (updates after user pauses dragging)
@@ -167,18 +256,357 @@ function Slider({
           className="flex-1 h-2 md:h-1 bg-[#333] rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 md:[&::-webkit-slider-thumb]:w-3 md:[&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-[#3ECF8E] [&::-webkit-slider-thumb]:cursor-pointer [&::-webkit-slider-thumb]:transition-transform [&::-webkit-slider-thumb]:hover:scale-125 [&::-moz-range-thumb]:w-5 [&::-moz-range-thumb]:h-5 md:[&::-moz-range-thumb]:w-3 md:[&::-moz-range-thumb]:h-3 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-[#3ECF8E] [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:cursor-pointer"
         />
         <span className="text-[10px] text-[#666] w-8 text-right tabular-nums">
-          {localValue > 0 ? "+" : ""}
-          {Math.round(localValue * 100)}
+          {(isDragging ? localValue : value) > 0 ? "+" : ""}
+          {Math.round((isDragging ? localValue : value) * 100)}
         </span>
       </div>
     </div>
   );
 }
 
+const MASK_SLIDERS: { key: keyof MaskAdjustments; label: string }[] = [
+  { key: "exposure", label: "Exposure" },
+  { key: "contrast", label: "Contrast" },
+  { key: "highlights", label: "Highlights" },
+  { key: "shadows", label: "Shadows" },
+  { key: "whites", label: "Whites" },
+  { key: "blacks", label: "Blacks" },
+  { key: "temperature", label: "Temp" },
+  { key: "vibrance", label: "Vibrance" },
+  { key: "saturation", label: "Saturation" },
+  { key: "clarity", label: "Clarity" },
+  { key: "dehaze", label: "Dehaze" },
+];
+
+const MASK_TYPE_LABELS: Record<MaskType, string> = {
+  linear: "Linear",
+  radial: "Radial",
+  brush: "Brush",
+};
+
+function createMask(type: MaskType, index: number): LocalMask {
+  const base = {
+    id: `mask-${Date.now()}-${Math.random()}`,
+    name: `${MASK_TYPE_LABELS[type]} ${index}`,
+    type,
+    adjustments: {},
+  };
+  if (type === "linear")
+    return { ...base, linear: { x1: 0.5, y1: 0, x2: 0.5, y2: 0.5 } };
+  if (type === "radial")
+    return {
+      ...base,
+      radial: { cx: 0.5, cy: 0.5, rx: 0.3, ry: 0.3, feather: 0.5 },
+    };
+  return { ...base, brush: { strokes: [], feather: 0.5 } };
+}
+
+// Mask list + per-mask adjustment sliders (geometry is edited on canvas)
+function MaskEditor({
+  masks,
+  activeMaskId,
+  onActiveMaskChange,
+  onChange,
+  brush,
+  onBrushChange,
+  onDragStart,
+  onDragEnd,
+  onSliderSettled,
+  onSliderUnsettled,
+}: {
+  masks: LocalMask[];
+  activeMaskId: string | null;
+  onActiveMaskChange: (id: string | null) => void;
+  onChange: (masks: LocalMask[]) => void;
+  brush: { radius: number; erase: boolean };
+  onBrushChange: (v: Partial<{ radius: number; erase: boolean }>) => void;
+  onDragStart?: () => void;
+  onDragEnd?: () => void;
+  onSliderSettled?: () => void;
+  onSliderUnsettled?: () => void;
+}) {
+  const active = masks.find((m) => m.id === activeMaskId) ?? null;
+
+  const updateActive = (updates: Partial<LocalMask>) => {
+    if (!active) return;
+    onChange(masks.map((m) => (m.id === active.id ? { ...m, ...updates } : m)));
+  };
+
+  const sliderCallbacks = {
+    onDragStart,
+    onDragEnd,
+    onSliderSettled,
+    onSliderUnsettled,
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        {(["linear", "radial", "brush"] as MaskType[]).map((type) => (
+          <button
+            key={type}
+            onClick={() => {
+              const mask = createMask(type, masks.length + 1);
+              onChange([...masks, mask]);
+              onActiveMaskChange(mask.id);
+            }}
+            className="flex-1 px-2 py-1.5 text-xs text-[#999] bg-[#252525] hover:bg-[#333] hover:text-white rounded-lg transition-colors cursor-pointer"
+          >
+            + {MASK_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+
+      {masks.length === 0 ? (
+        <p className="text-xs text-[#666]">
+          Add a mask to adjust part of the photo.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {masks.map((mask) => (
+            <div
+              key={mask.id}
+              onClick={() =>
+                onActiveMaskChange(mask.id === activeMaskId ? null : mask.id)
+              }
+              className={`flex items-center justify-between px-2 py-1.5 rounded-lg text-xs cursor-pointer transition-colors ${
+                mask.id === activeMaskId
+                  ? "bg-[#3ECF8E]/20 text-[#3ECF8E]"
+                  : "bg-[#252525] text-[#999] hover:text-white"
+              }`}
+            >
+              <span>{mask.name}</span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onChange(
+                      masks.map((m) =>
+                        m.id === mask.id ? { ...m, invert: !m.invert } : m,
+                      ),
+                    );
+                  }}
+                  className={`text-[10px] uppercase tracking-wider ${mask.invert ? "text-[#3ECF8E]" : "text-[#666] hover:text-white"}`}
+                  title="Invert mask"
+                >
+                  Inv
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (mask.id === activeMaskId) onActiveMaskChange(null);
+                    onChange(masks.filter((m) => m.id !== mask.id));
+                  }}
+                  className="text-[#666] hover:text-[#ff6b6b]"
+                  title="Delete mask"
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {active && (
+        <div className="space-y-3 pt-2 border-t border-[#2a2a2a]">
+          {active.type === "radial" && active.radial && (
+            <Slider
+              label="Feather"
+              value={active.radial.feather}
+              min={0}
+              max={1}
+              step={0.01}
+              defaultValue={0.5}
+              onChange={(v) =>
+                updateActive({ radial: { ...active.radial!, feather: v } })
+              }
+              {...sliderCallbacks}
+            />
+          )}
+          {active.type === "brush" && active.brush && (
+            <>
+              <div className="flex gap-2">
+                {[false, true].map((erase) => (
+                  <button
+                    key={String(erase)}
+                    onClick={() => onBrushChange({ erase })}
+                    className={`flex-1 px-2 py-1 text-xs rounded-lg transition-colors cursor-pointer ${
+                      brush.erase === erase
+                        ? "bg-[#3ECF8E]/20 text-[#3ECF8E]"
+                        : "bg-[#252525] text-[#999] hover:text-white"
+                    }`}
+                  >
+                    {erase ? "Erase" : "Paint"}
+                  </button>
+                ))}
+              </div>
+              <Slider
+                label="Size"
+                value={brush.radius}
+                min={0.005}
+                max={0.25}
+                step={0.005}
+                defaultValue={0.05}
+                onChange={(v) => onBrushChange({ radius: v })}
+                {...sliderCallbacks}
+              />
+              <Slider
+                label="Feather"
+                value={active.brush.feather}
+                min={0}
+                max={1}
+                step={0.01}
+                defaultValue={0.5}
+                onChange={(v) =>
+                  updateActive({ brush: { ...active.brush!, feather: v } })
+                }
+                {...sliderCallbacks}
+              />
+            </>
+          )}
+          {MASK_SLIDERS.map(({ key, label }) => (
+            <Slider
+              key={key}
+              label={label}
+              value={active.adjustments[key] ?? 0}
+              min={-1}
+              max={1}
+              step={0.01}
+              defaultValue={0}
+              onChange={(v) =>
+                updateActive({
+                  adjustments: { ...active.adjustments, [key]: v },
+                })
+              }
+              {...sliderCallbacks}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Creative profile: a .cube 3D LUT blended by Amount; "Bake" exports the current edits as a .cube
+function ProfileSection({
+  profile,
+  onChange,
+  onBake,
+  onDragStart,
+  onDragEnd,
+  onSliderSettled,
+  onSliderUnsettled,
+}: {
+  profile?: CreativeProfile;
+  onChange: (profile: CreativeProfile | undefined) => void;
+  onBake: () => Promise<void>;
+  onDragStart?: () => void;
+  onDragEnd?: () => void;
+  onSliderSettled?: () => void;
+  onSliderUnsettled?: () => void;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBaking, setIsBaking] = useState(false);
+
+  const handleFile = async (file: File) => {
+    try {
+      const lut = parseCubeLut(await file.text());
+      const name = lut.title || file.name.replace(/\.cube$/i, "");
+      onChange(createProfileFromLut(lut, name, profile?.amount ?? 1));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid .cube file");
+    }
+  };
+
+  const handleBake = async () => {
+    setIsBaking(true);
+    try {
+      await onBake();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to bake LUT");
+    } finally {
+      setIsBaking(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-[#2a2a2a] pt-3 mt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-white">Profile</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="text-xs text-[#888] hover:text-white transition-colors cursor-pointer"
+          >
+            Load .cube
+          </button>
+          <button
+            onClick={handleBake}
+            disabled={isBaking}
+            className="text-xs text-[#888] hover:text-white transition-colors cursor-pointer disabled:opacity-50"
+            title="Export the current color edits as a .cube LUT"
+          >
+            {isBaking ? "Baking..." : "Bake .cube"}
+          </button>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".cube"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {profile ? (
+        <>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-[#3ECF8E] truncate">
+              {profile.name}
+            </span>
+            <button
+              onClick={() => onChange(undefined)}
+              className="text-xs text-[#888] hover:text-[#ff6b6b] transition-colors cursor-pointer"
+            >
+              Remove
+            </button>
+          </div>
+          <Slider
+            label="Amount"
+            value={profile.amount}
+            min={0}
+            max={1}
+            step={0.01}
+            defaultValue={1}
+            onChange={(v) => onChange({ ...profile, amount: v })}
+            onDragStart={onDragStart}
+            onDragEnd={onDragEnd}
+            onSliderSettled={onSliderSettled}
+            onSliderUnsettled={onSliderUnsettled}
+          />
+        </>
+      ) : (
+        <p className="text-xs text-[#666]">
+          Load a 3D LUT (.cube) to use it as a creative look.
+        </p>
+      )}
+      {error && <p className="text-xs text-[#ff6b6b]">{error}</p>}
+    </div>
+  );
+}
+
 export function EditPanel(props: EditPanelProps) {
   const {
     object,
     onUpdate,
+    onApplyEditStep,
     onDelete,
     onResetToOriginal,
     onExport,
@@ -192,6 +620,31 @@ export function EditPanel(props: EditPanelProps) {
     isMobile,
     onCloseMobileEdit,
     imagePreviewUrl,
+    activeMaskId,
+    onActiveMaskChange,
+    maskBrush,
+    onMaskBrushChange,
+    onCroppingChange,
+    cropAspect,
+    onCropAspectChange,
+    histogram,
+    clippingWarnings,
+    onToggleClippingWarning,
+    onInspectingChange,
+    targetedAdjustment,
+    onTargetedAdjustmentChange,
+    onSnapshotsChange,
+    sessionId,
+    authorNames,
+    onBranchFromHistory,
+    commentPin,
+    isPlacingCommentPin,
+    onPlacingCommentPinChange,
+    onClearCommentPin,
+    activeCommentThreadId,
+    onActiveCommentThreadChange,
+    readOnly = false,
+    canComment = true,
   } = props;
   const isImage = "src" in object;
 
@@ -202,10 +655,23 @@ export function EditPanel(props: EditPanelProps) {
     !!(isMobile && isImage),
   );
   const [activePanel, setActivePanel] = useState<ActivePanel>(null);
+  // Saved edit history, fetched while the History tab is open
+  const { data: historyEntries = [], isLoading: isHistoryLoading } =
+    useEditHistory(
+      isImage ? (object as CanvasImage) : null,
+      sessionId,
+      activePanel === "history",
+    );
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [renamingPresetId, setRenamingPresetId] = useState<string | null>(null);
   const [renameValue, setRenameValue] = useState("");
   const [isHSLExpanded, setIsHSLExpanded] = useState(false);
+  const [autoToning, setAutoToning] = useState<"light" | "color" | null>(null);
+  const [snapshotName, setSnapshotName] = useState("");
+  // Last auto tone analysis (Light and Color share it)
+  const autoToneRef = useRef<{ src: string; values: AutoToneValues } | null>(
+    null,
+  );
   const fileInputRef = useRef<HTMLInputElement>(null);
   const sliderDragCountRef = useRef(0);
 
@@ -307,7 +773,10 @@ export function EditPanel(props: EditPanelProps) {
 
   const isColorModified =
     isImage &&
-    (img.temperature !== 0 || img.vibrance !== 0 || img.saturation !== 0);
+    (img.temperature !== 0 ||
+      img.vibrance !== 0 ||
+      img.saturation !== 0 ||
+      !!img.profile);
 
   const isEffectsModified =
     isImage &&
@@ -316,269 +785,370 @@ export function EditPanel(props: EditPanelProps) {
       img.vignette !== 0 ||
       img.grain !== 0);
 
+  const isMasksModified = isImage && (img.masks?.length ?? 0) > 0;
+
+  const isCropModified = isImage && hasCrop(img.crop, img.straighten);
+
   const togglePanel = (panel: ActivePanel) => {
     setActivePanel(activePanel === panel ? null : panel);
   };
 
-  // Parse XMP file (enhanced implementation)
-  const parseXMP = (xmpContent: string): Partial<CanvasImage> => {
-    const settings: Partial<CanvasImage> = {};
-
-    // Extract common adjustment values from XMP
-    const extractValue = (key: string) => {
-      const match = xmpContent.match(new RegExp(`crs:${key}="([^"]+)"`));
-      return match ? parseFloat(match[1]) : null;
-    };
-
-    // Light adjustments
-    const exposure = extractValue("Exposure2012");
-    const contrast = extractValue("Contrast2012");
-    const highlights = extractValue("Highlights2012");
-    const shadows = extractValue("Shadows2012");
-    const whites = extractValue("Whites2012");
-    const blacks = extractValue("Blacks2012");
-    const texture = extractValue("Texture");
-
-    // Color adjustments
-    const temperature = extractValue("Temperature");
-    const vibrance = extractValue("Vibrance");
-    const saturation = extractValue("Saturation");
-    const shadowTint = extractValue("ShadowTint");
-
-    // Effects
-    const clarity = extractValue("Clarity2012");
-    const dehaze = extractValue("Dehaze");
-    const vignette = extractValue("PostCropVignetteAmount");
-    const grain = extractValue("GrainAmount");
-    const grainSize = extractValue("GrainSize");
-    const grainRoughness = extractValue("GrainFrequency");
-
-    // Apply basic adjustments with proper Lightroom-to-app conversion
-    // Lightroom Exposure2012 is in stops (-5 to +5), our filter uses Math.pow(2, exposure)
-    // so we pass through directly (both use stops)
-    if (exposure !== null) settings.exposure = exposure;
-
-    // Lightroom uses -100 to +100, our app uses -1 to +1
-    if (contrast !== null) settings.contrast = contrast / 100;
-    if (highlights !== null) settings.highlights = highlights / 100;
-    if (shadows !== null) settings.shadows = shadows / 100;
-    if (whites !== null) settings.whites = whites / 100;
-    if (blacks !== null) settings.blacks = blacks / 100;
-    if (texture !== null) settings.texture = texture / 100;
-
-    // Temperature: Lightroom uses Kelvin (2000-50000), neutral ~5500
-    // Convert to relative scale where 0 = neutral, negative = cooler, positive = warmer
-    if (temperature !== null) {
-      // Map Kelvin to -1 to +1 range (roughly)
-      // Lower Kelvin = warmer (orange), Higher Kelvin = cooler (blue)
-      // 2000K -> ~+1 (very warm), 5500K -> 0 (neutral), 10000K -> ~-1 (cool)
-      settings.temperature = Math.max(
-        -1,
-        Math.min(1, (5500 - temperature) / 3500),
-      );
-    }
-
-    if (vibrance !== null) settings.vibrance = vibrance / 100;
-    if (saturation !== null) settings.saturation = saturation / 100;
-    if (shadowTint !== null) settings.shadowTint = shadowTint / 100;
-    if (clarity !== null) settings.clarity = clarity / 100;
-    if (dehaze !== null) settings.dehaze = dehaze / 100;
-    if (vignette !== null) settings.vignette = Math.abs(vignette) / 100;
-    if (grain !== null) settings.grain = grain / 100;
-    if (grainSize !== null) settings.grainSize = grainSize / 100;
-    if (grainRoughness !== null) settings.grainRoughness = grainRoughness / 100;
-
-    // Extract HSL adjustments for each color
-    const colors: Array<keyof ColorHSL> = [
-      "red",
-      "orange",
-      "yellow",
-      "green",
-      "aqua",
-      "blue",
-      "purple",
-      "magenta",
-    ];
-    const colorHSL: Partial<ColorHSL> = {};
-    let hasHSL = false;
-
-    for (const color of colors) {
-      const colorCap = color.charAt(0).toUpperCase() + color.slice(1);
-      const hue = extractValue(`HueAdjustment${colorCap}`);
-      const sat = extractValue(`SaturationAdjustment${colorCap}`);
-      const lum = extractValue(`LuminanceAdjustment${colorCap}`);
-
-      if (hue !== null || sat !== null || lum !== null) {
-        hasHSL = true;
-        colorHSL[color] = {
-          hue: hue ?? 0,
-          saturation: sat ?? 0,
-          luminance: lum ?? 0,
-        };
-      }
+  // A comment pin clicked on canvas opens its thread; pins are only placed from Comments
+  useEffect(() => {
+    if (activeCommentThreadId) setActivePanel("comments");
+  }, [activeCommentThreadId]);
+  useEffect(() => {
+    if (activePanel !== "comments" && isPlacingCommentPin) {
+      onPlacingCommentPinChange?.(false);
     }
+  }, [activePanel, isPlacingCommentPin, onPlacingCommentPinChange]);
+  useEffect(
+    () => () => {
+      onPlacingCommentPinChange?.(false);
+      onActiveCommentThreadChange?.(null);
+    },
+    [onPlacingCommentPinChange, onActiveCommentThreadChange],
+  );
 
-    if (hasHSL) {
-      settings.colorHSL = colorHSL as ColorHSL;
-    }
+  // Mask handles are only shown on canvas while the Masks panel is open
+  useEffect(() => {
+    if (activePanel !== "masks" && activeMaskId) onActiveMaskChange?.(null);
+  }, [activePanel, activeMaskId, onActiveMaskChange]);
 
-    // Extract Split Toning
-    const splitShadowHue = extractValue("SplitToningShadowHue");
-    const splitShadowSat = extractValue("SplitToningShadowSaturation");
-    const splitHighlightHue = extractValue("SplitToningHighlightHue");
-    const splitHighlightSat = extractValue("SplitToningHighlightSaturation");
-    const splitBalance = extractValue("SplitToningBalance");
-
-    if (
-      splitShadowHue !== null ||
-      splitShadowSat !== null ||
-      splitHighlightHue !== null ||
-      splitHighlightSat !== null
-    ) {
-      settings.splitToning = {
-        shadowHue: splitShadowHue ?? 0,
-        shadowSaturation: splitShadowSat ?? 0,
-        highlightHue: splitHighlightHue ?? 0,
-        highlightSaturation: splitHighlightSat ?? 0,
-        balance: splitBalance ?? 0,
-      };
-    }
+  // Crop overlay is only shown on canvas while the Crop panel is open
+  useEffect(() => {
+    onCroppingChange?.(activePanel === "crop");
+  }, [activePanel, onCroppingChange]);
+  useEffect(() => () => onCroppingChange?.(false), [onCroppingChange]);
 
-    // Extract Color Grading
-    const colorGradeShadowLum = extractValue("ColorGradeShadowLum");
-    const colorGradeMidtoneLum = extractValue("ColorGradeMidtoneLum");
-    const colorGradeHighlightLum = extractValue("ColorGradeHighlightLum");
-    const colorGradeMidtoneHue = extractValue("ColorGradeMidtoneHue");
-    const colorGradeMidtoneSat = extractValue("ColorGradeMidtoneSat");
-    const colorGradeGlobalHue = extractValue("ColorGradeGlobalHue");
-    const colorGradeGlobalSat = extractValue("ColorGradeGlobalSat");
-    const colorGradeGlobalLum = extractValue("ColorGradeGlobalLum");
-    const colorGradeBlending = extractValue("ColorGradeBlending");
-
-    if (
-      colorGradeShadowLum !== null ||
-      colorGradeMidtoneLum !== null ||
-      colorGradeHighlightLum !== null ||
-      colorGradeMidtoneHue !== null ||
-      colorGradeMidtoneSat !== null ||
-      colorGradeGlobalHue !== null ||
-      colorGradeGlobalSat !== null ||
-      colorGradeGlobalLum !== null ||
-      colorGradeBlending !== null
-    ) {
-      settings.colorGrading = {
-        shadowLum: colorGradeShadowLum ?? 0,
-        midtoneLum: colorGradeMidtoneLum ?? 0,
-        highlightLum: colorGradeHighlightLum ?? 0,
-        midtoneHue: colorGradeMidtoneHue ?? 0,
-        midtoneSat: colorGradeMidtoneSat ?? 0,
-        globalHue: colorGradeGlobalHue ?? 0,
-        globalSat: colorGradeGlobalSat ?? 0,
-        globalLum: colorGradeGlobalLum ?? 0,
-        blending: colorGradeBlending ?? 100,
-      };
-    }
+  // Pixel readout follows the pointer on canvas while the Curves panel is open
+  useEffect(() => {
+    onInspectingChange?.(activePanel === "curves");
+  }, [activePanel, onInspectingChange]);
+  useEffect(() => () => onInspectingChange?.(false), [onInspectingChange]);
 
-    // Extract Color Calibration
-    const redHue = extractValue("RedHue");
-    const redSat = extractValue("RedSaturation");
-    const greenHue = extractValue("GreenHue");
-    const greenSat = extractValue("GreenSaturation");
-    const blueHue = extractValue("BlueHue");
-    const blueSat = extractValue("BlueSaturation");
-
-    if (
-      redHue !== null ||
-      redSat !== null ||
-      greenHue !== null ||
-      greenSat !== null ||
-      blueHue !== null ||
-      blueSat !== null
-    ) {
-      settings.colorCalibration = {
-        redHue: redHue ?? 0,
-        redSaturation: redSat ?? 0,
-        greenHue: greenHue ?? 0,
-        greenSaturation: greenSat ?? 0,
-        blueHue: blueHue ?? 0,
-        blueSaturation: blueSat ?? 0,
-      };
-    }
+  // Targeted adjustment only stays on while its panel (Curves / expanded HSL) is open
+  useEffect(() => {
+    if (!targetedAdjustment) return;
+    const open =
+      targetedAdjustment.kind === "curves"
+        ? activePanel === "curves"
+        : activePanel === "color" && isHSLExpanded;
+    if (!open) onTargetedAdjustmentChange?.(null);
+  }, [
+    activePanel,
+    isHSLExpanded,
+    targetedAdjustment,
+    onTargetedAdjustmentChange,
+  ]);
+  useEffect(
+    () => () => onTargetedAdjustmentChange?.(null),
+    [onTargetedAdjustmentChange],
+  );
 
-    // Detect Adobe Monochrome Look for B&W conversion
-    const isMonochrome = xmpContent.match(/crs:Name="Adobe Monochrome"/);
-    if (isMonochrome) {
-      settings.filters = ["grayscale"];
-      settings.saturation = -1;
-    }
+  const hslTarget =
+    targetedAdjustment?.kind === "hsl" ? targetedAdjustment.property : null;
+  const hslTargetControls = isImage && onTargetedAdjustmentChange && (
+    <div
+      className="flex items-center justify-between mb-3"
+      title="Drag up or down on the photo to adjust the colors under the pointer"
+    >
+      <span className="text-[11px] text-[#888]">Targeted</span>
+      <div className="flex gap-1">
+        {(
+          [
+            ["hue", "Hue"],
+            ["saturation", "Sat"],
+            ["luminance", "Lum"],
+          ] as [keyof HSLAdjustments, string][]
+        ).map(([property, label]) => (
+          <button
+            key={property}
+            onClick={() =>
+              onTargetedAdjustmentChange(
+                hslTarget === property ? null : { kind: "hsl", property },
+              )
+            }
+            className={`px-2 py-1 text-[10px] font-medium rounded transition-colors cursor-pointer ${
+              hslTarget === property
+                ? "bg-[#3ECF8E]/20 text-[#3ECF8E]"
+                : "bg-[#252525] text-[#888] hover:text-white"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
 
-    // Extract tone curves
-    const extractCurve = (channelName: string): CurvePoint[] => {
-      // Match the ToneCurvePV2012 sequence in XMP
-      const tagName = channelName
-        ? `ToneCurvePV2012${channelName}`
-        : "ToneCurvePV2012";
-      const pattern = new RegExp(
-        `<crs:${tagName}>\\s*<rdf:Seq>([\\s\\S]*?)<\\/rdf:Seq>\\s*<\\/crs:${tagName}>`,
-        "i",
+  // Named snapshots: every EDIT_KEYS value, so restoring also clears what was unset then.
+  // The profile is kept by reference so the photo row doesn't carry a LUT per snapshot.
+  const handleSaveSnapshot = useCallback(async () => {
+    const name = snapshotName.trim();
+    if (!name || !onSnapshotsChange) return;
+    const settings: Partial<CanvasImage> = {};
+    for (const key of EDIT_KEYS) {
+      (settings as Record<string, unknown>)[key] = cloneEditValue(
+        key,
+        img[key],
       );
-      const match = xmpContent.match(pattern);
-
-      if (!match) {
-        // Return default linear curve
-        return [
-          { x: 0, y: 0 },
-          { x: 255, y: 255 },
-        ];
+    }
+    try {
+      onSnapshotsChange([
+        ...(img.snapshots ?? []),
+        {
+          id: crypto.randomUUID(),
+          name,
+          createdAt: new Date().toISOString(),
+          settings: await toStoredSettings(settings),
+        },
+      ]);
+      setSnapshotName("");
+    } catch (error) {
+      console.error("Error saving snapshot:", error);
+    }
+  }, [snapshotName, img, onSnapshotsChange]);
+
+  // Restore a snapshot or History entry (all EDIT_KEYS, one undo step)
+  const handleRestoreSettings = useCallback(
+    async (stored: StoredEditSettings) => {
+      try {
+        const settings = await fromStoredSettings(stored);
+        const updates: Partial<CanvasImage> = {};
+        for (const key of EDIT_KEYS) {
+          (updates as Record<string, unknown>)[key] = cloneEditValue(
+            key,
+            settings[key],
+          );
+        }
+        (onApplyEditStep ?? onUpdate)(updates);
+      } catch (error) {
+        console.error("Error restoring settings:", error);
       }
+    },
+    [onApplyEditStep, onUpdate],
+  );
 
-      // Extract all <rdf:li> elements
-      const liMatches = match[1].matchAll(/<rdf:li>([^<]+)<\/rdf:li>/g);
-      const curvePoints: CurvePoint[] = [];
+  const handleBranchFromHistory = useCallback(
+    async (stored: StoredEditSettings) => {
+      try {
+        onBranchFromHistory?.(await fromStoredSettings(stored));
+      } catch (error) {
+        console.error("Error branching from history:", error);
+      }
+    },
+    [onBranchFromHistory],
+  );
 
-      for (const liMatch of liMatches) {
-        const [xStr, yStr] = liMatch[1].split(",").map((s) => s.trim());
-        const x = parseInt(xStr);
-        const y = parseInt(yStr);
+  const snapshotControls = isImage && onSnapshotsChange && (
+    <div className="mt-4 pt-4 border-t border-[#2a2a2a]">
+      <h4 className="text-xs font-medium text-[#888] uppercase tracking-wider mb-2">
+        Snapshots
+      </h4>
+      <div className="flex gap-2 mb-2">
+        <input
+          type="text"
+          value={snapshotName}
+          onChange={(e) => setSnapshotName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleSaveSnapshot();
+          }}
+          placeholder="Name this look"
+          className="flex-1 min-w-0 px-2 py-1.5 text-sm text-white bg-[#252525] border border-[#333] rounded-lg focus:outline-none focus:border-[#3ECF8E]"
+        />
+        <button
+          onClick={handleSaveSnapshot}
+          disabled={!snapshotName.trim()}
+          className="px-3 py-1.5 text-xs font-medium text-[#0d0d0d] bg-[#3ECF8E] hover:bg-[#35b87d] disabled:bg-[#333] disabled:text-[#666] disabled:cursor-not-allowed rounded-lg transition-colors cursor-pointer"
+        >
+          Save
+        </button>
+      </div>
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {(img.snapshots ?? []).length === 0 ? (
+          <p className="text-xs text-[#666] text-center py-2">
+            No snapshots yet
+          </p>
+        ) : (
+          (img.snapshots ?? []).map((snapshot) => (
+            <div
+              key={snapshot.id}
+              className="flex items-center justify-between gap-2 px-2 py-1.5 rounded-lg bg-[#252525] hover:bg-[#2a2a2a]"
+            >
+              <button
+                onClick={() => handleRestoreSettings(snapshot.settings)}
+                className="flex-1 text-left text-sm text-white hover:text-[#3ECF8E] truncate cursor-pointer"
+                title="Restore this snapshot"
+              >
+                {snapshot.name}
+              </button>
+              <button
+                onClick={() =>
+                  onSnapshotsChange(
+                    (img.snapshots ?? []).filter((s) => s.id !== snapshot.id),
+                  )
+                }
+                className="p-1 text-[#888] hover:text-[#f87171] transition-colors cursor-pointer"
+                title="Delete snapshot"
+              >
+                <svg
+                  className="w-3.5 h-3.5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
 
-        if (!isNaN(x) && !isNaN(y)) {
-          curvePoints.push({ x, y });
-        }
-      }
+  const commentThreads = isImage && sessionId && (
+    <CommentThreads
+      image={object as CanvasImage}
+      sessionId={sessionId}
+      memberNames={authorNames ?? {}}
+      pin={commentPin ?? null}
+      isPlacingPin={!!isPlacingCommentPin}
+      onPlacingPinChange={(placing) => onPlacingCommentPinChange?.(placing)}
+      onClearPin={() => onClearCommentPin?.()}
+      activeThreadId={activeCommentThreadId ?? null}
+      readOnly={!canComment}
+      onActiveThreadChange={(id) => onActiveCommentThreadChange?.(id)}
+    />
+  );
 
-      // If we got valid points, return them; otherwise return default
-      return curvePoints.length >= 2
-        ? curvePoints
-        : [
-            { x: 0, y: 0 },
-            { x: 255, y: 255 },
-          ];
-    };
+  const historyList = isImage && (
+    <div className="space-y-1 max-h-80 overflow-y-auto">
+      {isHistoryLoading ? (
+        <p className="text-xs text-[#666] text-center py-2">Loading…</p>
+      ) : historyEntries.length === 0 ? (
+        <p className="text-xs text-[#666] text-center py-2">
+          No saved edits yet
+        </p>
+      ) : (
+        historyEntries.map((entry) => (
+          <div
+            key={entry.id}
+            className="flex items-center justify-between gap-2 px-2 py-1.5 rounded-lg bg-[#252525] hover:bg-[#2a2a2a]"
+          >
+            <button
+              onClick={() => handleRestoreSettings(entry.settings)}
+              className="flex-1 min-w-0 text-left cursor-pointer group"
+              title="Jump to this point"
+            >
+              <span className="block text-sm text-white group-hover:text-[#3ECF8E] truncate">
+                {describeHistoryEntry(entry)}
+              </span>
+              <span className="block text-[10px] text-[#666] truncate">
+                {new Date(entry.created_at).toLocaleString()}
+                {sessionId &&
+                  ` · ${authorNames?.[entry.user_id] ?? "Collaborator"}`}
+              </span>
+            </button>
+            {onBranchFromHistory && (
+              <button
+                onClick={() => handleBranchFromHistory(entry.settings)}
+                className="p-1 text-[#888] hover:text-[#3ECF8E] transition-colors cursor-pointer"
+                title="Branch: create a virtual copy from this point"
+              >
+                <svg
+                  className="w-3.5 h-3.5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                  />
+                </svg>
+              </button>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
 
-    // Extract curves for all channels
-    const rgbCurve = extractCurve("");
-    const redCurve = extractCurve("Red");
-    const greenCurve = extractCurve("Green");
-    const blueCurve = extractCurve("Blue");
-
-    // Only set curves if at least one channel has a non-default curve
-    const hasCustomCurves =
-      rgbCurve.length > 2 ||
-      redCurve.length > 2 ||
-      greenCurve.length > 2 ||
-      blueCurve.length > 2;
-
-    if (hasCustomCurves) {
-      settings.curves = {
-        rgb: rgbCurve,
-        red: redCurve,
-        green: greenCurve,
-        blue: blueCurve,
-      };
-    }
+  const cropEditor = isImage && (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-1.5">
+        {CROP_ASPECT_PRESETS.map((preset) => (
+          <button
+            key={preset.label}
+            onClick={() => {
+              onCropAspectChange?.(preset.ratio);
+              if (preset.ratio === null) return;
+              const ratio =
+                preset.ratio === "original"
+                  ? img.width / img.height
+                  : preset.ratio;
+              onUpdate({
+                crop: constrainCrop(
+                  img.crop ?? { x: 0, y: 0, width: 1, height: 1 },
+                  img.width,
+                  img.height,
+                  ratio,
+                ),
+              });
+            }}
+            className={`px-2 py-1.5 text-xs rounded-lg transition-colors cursor-pointer ${
+              (cropAspect ?? null) === preset.ratio
+                ? "bg-[#3ECF8E]/20 text-[#3ECF8E]"
+                : "bg-[#252525] text-[#999] hover:bg-[#333] hover:text-white"
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      <Slider
+        label="Straighten"
+        value={(img.straighten ?? 0) / MAX_STRAIGHTEN}
+        min={-1}
+        max={1}
+        step={0.005}
+        defaultValue={0}
+        onChange={(v) => onUpdate({ straighten: v * MAX_STRAIGHTEN })}
+        onDragStart={handleSliderDragStart}
+        onDragEnd={handleSliderDragEnd}
+        onSliderSettled={onSliderSettled}
+        onSliderUnsettled={onSliderUnsettled}
+      />
+      <p className="text-[10px] text-[#666]">
+        {(img.straighten ?? 0).toFixed(1)}° · Drag the frame or its corners on
+        the canvas to crop.
+      </p>
+    </div>
+  );
 
-    return settings;
-  };
+  const maskEditor = isImage && (
+    <MaskEditor
+      masks={img.masks ?? []}
+      activeMaskId={activeMaskId ?? null}
+      onActiveMaskChange={(id) => onActiveMaskChange?.(id)}
+      onChange={(masks) => onUpdate({ masks })}
+      brush={maskBrush ?? { radius: 0.05, erase: false }}
+      onBrushChange={(v) => onMaskBrushChange?.(v)}
+      onDragStart={handleSliderDragStart}
+      onDragEnd={handleSliderDragEnd}
+      onSliderSettled={onSliderSettled}
+      onSliderUnsettled={onSliderUnsettled}
+    />
+  );
 
   // Handle preset file upload
   const handlePresetFiles = useCallback(
@@ -587,7 +1157,7 @@ export function EditPanel(props: EditPanelProps) {
 
       for (const file of xmpFiles) {
         const text = await file.text();
-        const settings = parseXMP(text);
+        const settings = parseLightroomXmp(text);
         const name = file.name.replace(".xmp", "");
 
         // Save to database if user is logged in
@@ -686,6 +1256,7 @@ export function EditPanel(props: EditPanelProps) {
         splitToning: undefined,
         colorGrading: undefined,
         colorCalibration: undefined,
+        profile: undefined,
         // Effects
         clarity: 0,
         dehaze: 0,
@@ -736,6 +1307,76 @@ export function EditPanel(props: EditPanelProps) {
     [user, queryClient, updatePresets],
   );
 
+  // Download edits as a Lightroom .xmp (photo sidecar, or a preset when presetName is set)
+  const downloadSidecar = useCallback(
+    (settings: Partial<CanvasImage>, fileName: string, presetName?: string) => {
+      const xmp = serializeLightroomXmp(settings, { presetName });
+      const url = URL.createObjectURL(
+        new Blob([xmp], { type: "application/rdf+xml" }),
+      );
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${fileName}.xmp`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    },
+    [],
+  );
+
+  // Bake the global color/tone edits into a .cube LUT (rendered server-side)
+  const bakeProfileCube = useCallback(async () => {
+    const response = await fetch("/api/export/cube", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        edits: getEditValues(img),
+        title: img.profile?.name ?? "Driftboard look",
+      }),
+    });
+    if (!response.ok) throw new Error("Failed to bake LUT");
+    const url = URL.createObjectURL(await response.blob());
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `driftboard-look-${Date.now()}.cube`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, [img]);
+
+  // Auto tone / auto white balance from the unedited preview, applied as one undo step
+  const handleAutoTone = useCallback(
+    async (scope: "light" | "color") => {
+      setAutoToning(scope);
+      try {
+        let values = autoToneRef.current?.values;
+        if (!values || autoToneRef.current?.src !== img.src) {
+          values = await autoToneFromUrl(img.src);
+          autoToneRef.current = { src: img.src, values };
+        }
+        const updates = pickAutoTone(
+          values,
+          scope === "light" ? AUTO_LIGHT_KEYS : AUTO_COLOR_KEYS,
+        );
+        (onApplyEditStep ?? onUpdate)(updates);
+      } catch (error) {
+        console.error("Auto tone failed:", error);
+      } finally {
+        setAutoToning(null);
+      }
+    },
+    [img.src, onApplyEditStep, onUpdate],
+  );
+
+  // Sidecars are named after the stored file (Lightroom matches them by base name)
+  const downloadPhotoSidecar = useCallback(() => {
+    const path = img.originalStoragePath || img.storagePath || img.id;
+    const base = path.slice(path.lastIndexOf("/") + 1).replace(/\.[^.]+$/, "");
+    downloadSidecar(img, base || img.id);
+  }, [img, downloadSidecar]);
+
   const handlePresetDoubleClick = useCallback((preset: Preset) => {
     setRenamingPresetId(preset.id);
     setRenameValue(preset.name);
@@ -853,11 +1494,22 @@ export function EditPanel(props: EditPanelProps) {
           {tabButton("light", "Light", !!isLightModified, "light")}
           {tabButton("color", "Color", !!isColorModified, "color")}
           {tabButton("effects", "Effects", !!isEffectsModified, "effects")}
+          {tabButton("masks", "Masks", !!isMasksModified, "masks")}
+          {tabButton("crop", "Crop", !!isCropModified)}
           {tabButton("presets", "Presets", false)}
+          {tabButton("history", "History", false)}
+          {sessionId && tabButton("comments", "Comments", false)}
         </div>
 
         {/* Panel Content (scrollable) */}
-        <div className="flex-1 overflow-y-auto p-4 touch-pan-y">
+        <div
+          className="flex-1 overflow-y-auto p-4 touch-pan-y"
+          inert={
+            readOnly &&
+            activePanel !== "history" &&
+            activePanel !== "comments"
+          }
+        >
           {activePanel === null && (
             <div className="flex items-center justify-center h-full text-[#666] text-sm">
               Select a tab above to start editing
@@ -871,6 +1523,11 @@ export function EditPanel(props: EditPanelProps) {
                 curves={img.curves || DEFAULT_CURVES}
                 onChange={handleCurvesChange}
                 onClose={() => setActivePanel(null)}
+                histogram={histogram}
+                clippingWarnings={clippingWarnings}
+                onToggleClippingWarning={onToggleClippingWarning}
+                targetedAdjustment={targetedAdjustment}
+                onTargetedAdjustmentChange={onTargetedAdjustmentChange}
                 isMobile
               />
             </div>
@@ -881,21 +1538,30 @@ export function EditPanel(props: EditPanelProps) {
             <div>
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-sm font-medium text-white">Light</h3>
-                <button
-                  onClick={() =>
-                    onUpdate({
-                      exposure: 0,
-                      contrast: 0,
-                      highlights: 0,
-                      shadows: 0,
-                      whites: 0,
-                      blacks: 0,
-                    })
-                  }
-                  className="text-xs text-[#888] hover:text-white transition-colors"
-                >
-                  Reset
-                </button>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => handleAutoTone("light")}
+                    disabled={autoToning !== null}
+                    className="text-xs text-[#888] hover:text-white transition-colors disabled:opacity-50"
+                  >
+                    {autoToning === "light" ? "Auto..." : "Auto"}
+                  </button>
+                  <button
+                    onClick={() =>
+                      onUpdate({
+                        exposure: 0,
+                        contrast: 0,
+                        highlights: 0,
+                        shadows: 0,
+                        whites: 0,
+                        blacks: 0,
+                      })
+                    }
+                    className="text-xs text-[#888] hover:text-white transition-colors"
+                  >
+                    Reset
+                  </button>
+                </div>
               </div>
               <div className="space-y-4">
                 <Slider
@@ -985,19 +1651,29 @@ export function EditPanel(props: EditPanelProps) {
             <div>
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-sm font-medium text-white">Color</h3>
-                <button
-                  onClick={() =>
-                    onUpdate({
-                      temperature: 0,
-                      vibrance: 0,
-                      saturation: 0,
-                      colorHSL: ColorHSLDefault,
-                    })
-                  }
-                  className="text-xs text-[#888] hover:text-white transition-colors"
-                >
-                  Reset
-                </button>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => handleAutoTone("color")}
+                    disabled={autoToning !== null}
+                    className="text-xs text-[#888] hover:text-white transition-colors disabled:opacity-50"
+                  >
+                    {autoToning === "color" ? "Auto..." : "Auto"}
+                  </button>
+                  <button
+                    onClick={() =>
+                      onUpdate({
+                        temperature: 0,
+                        vibrance: 0,
+                        saturation: 0,
+                        colorHSL: ColorHSLDefault,
+                        profile: undefined,
+                      })
+                    }
+                    className="text-xs text-[#888] hover:text-white transition-colors"
+                  >
+                    Reset
+                  </button>
+                </div>
               </div>
               <div className="space-y-4">
                 {/* Temperature */}
@@ -1054,6 +1730,16 @@ export function EditPanel(props: EditPanelProps) {
                   onSliderUnsettled={onSliderUnsettled}
                 />
 
+                <ProfileSection
+                  profile={img.profile}
+                  onChange={(profile) => onUpdate({ profile })}
+                  onBake={bakeProfileCube}
+                  onDragStart={handleSliderDragStart}
+                  onDragEnd={handleSliderDragEnd}
+                  onSliderSettled={onSliderSettled}
+                  onSliderUnsettled={onSliderUnsettled}
+                />
+
                 {/* HSL */}
                 <div className="border-t border-[#2a2a2a] pt-3 mt-4">
                   <button
@@ -1077,6 +1763,7 @@ export function EditPanel(props: EditPanelProps) {
                   </button>
                   {isHSLExpanded && (
                     <>
+                      {hslTargetControls}
                       {(
                         [
                           "red",
@@ -1267,17 +1954,49 @@ export function EditPanel(props: EditPanelProps) {
             </div>
           )}
 
-          {/* Presets */}
-          {activePanel === "presets" && (
+          {/* Crop */}
+          {activePanel === "crop" && (
             <div>
-              <h3 className="text-sm font-medium text-white mb-4">Presets</h3>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".xmp"
-                multiple
-                onChange={handleFileSelect}
-                className="hidden"
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-medium text-white">Crop</h3>
+                <button
+                  onClick={() => onUpdate({ crop: undefined, straighten: 0 })}
+                  className="text-xs text-[#888] hover:text-white transition-colors"
+                >
+                  Reset
+                </button>
+              </div>
+              {cropEditor}
+            </div>
+          )}
+
+          {/* Masks */}
+          {activePanel === "masks" && (
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-medium text-white">Masks</h3>
+                <button
+                  onClick={() => onUpdate({ masks: undefined })}
+                  className="text-xs text-[#888] hover:text-white transition-colors"
+                >
+                  Reset
+                </button>
+              </div>
+              {maskEditor}
+            </div>
+          )}
+
+          {/* Presets */}
+          {activePanel === "presets" && (
+            <div>
+              <h3 className="text-sm font-medium text-white mb-4">Presets</h3>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".xmp"
+                multiple
+                onChange={handleFileSelect}
+                className="hidden"
               />
               <div
                 onDragOver={handleDragOver}
@@ -1339,6 +2058,31 @@ export function EditPanel(props: EditPanelProps) {
                             {preset.name}
                           </button>
                         )}
+                        <button
+                          onClick={() =>
+                            downloadSidecar(
+                              preset.settings,
+                              preset.name,
+                              preset.name,
+                            )
+                          }
+                          className="p-2 text-[#888] hover:text-white transition-colors flex-shrink-0"
+                          title="Download preset (.xmp)"
+                        >
+                          <svg
+                            className="w-4 h-4"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+                            />
+                          </svg>
+                        </button>
                         <button
                           onClick={() => deletePreset(preset.id)}
                           className="p-2 text-[#888] hover:text-[#f87171] transition-colors flex-shrink-0"
@@ -1361,6 +2105,23 @@ export function EditPanel(props: EditPanelProps) {
                     ))
                 )}
               </div>
+              {snapshotControls}
+            </div>
+          )}
+
+          {/* History */}
+          {activePanel === "history" && (
+            <div>
+              <h3 className="text-sm font-medium text-white mb-4">History</h3>
+              {historyList}
+            </div>
+          )}
+
+          {/* Comments */}
+          {activePanel === "comments" && (
+            <div>
+              <h3 className="text-sm font-medium text-white mb-4">Comments</h3>
+              {commentThreads}
             </div>
           )}
         </div>
@@ -1412,9 +2173,30 @@ export function EditPanel(props: EditPanelProps) {
               <span className="text-[10px]">Export</span>
             </button>
           )}
+          {isImage && (
+            <button
+              onClick={downloadPhotoSidecar}
+              className="flex flex-col items-center gap-1 p-2 min-h-[44px] min-w-[44px] text-[#999] rounded-lg transition-colors"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={1.5}
+                  d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                />
+              </svg>
+              <span className="text-[10px]">Sidecar</span>
+            </button>
+          )}
           <button
             onClick={onDelete}
-            disabled={isDeleting}
+            disabled={isDeleting || readOnly}
             className="flex flex-col items-center gap-1 p-2 min-h-[44px] min-w-[44px] text-[#f87171] disabled:opacity-60 rounded-lg transition-colors"
           >
             {isDeleting ? (
@@ -1462,6 +2244,10 @@ export function EditPanel(props: EditPanelProps) {
   // ─── Desktop Edit Panel ───
   const modalWrapper =
     "absolute bottom-full left-1/2 -translate-x-1/2 mb-2 z-20";
+  // Adjustment panels: shown but not interactive for view / comment-only roles
+  const editModalWrapper = readOnly
+    ? `${modalWrapper} opacity-60`
+    : modalWrapper;
 
   return (
     <>
@@ -1511,11 +2297,18 @@ export function EditPanel(props: EditPanelProps) {
                       </span>
                     </button>
                     {activePanel === "curves" && isImage && (
-                      <div className={modalWrapper}>
+                      <div className={editModalWrapper} inert={readOnly}>
                         <CurvesEditor
                           curves={img.curves || DEFAULT_CURVES}
                           onChange={handleCurvesChange}
                           onClose={() => setActivePanel(null)}
+                          histogram={histogram}
+                          clippingWarnings={clippingWarnings}
+                          onToggleClippingWarning={onToggleClippingWarning}
+                          targetedAdjustment={targetedAdjustment}
+                          onTargetedAdjustmentChange={
+                            onTargetedAdjustmentChange
+                          }
                         />
                       </div>
                     )}
@@ -1560,13 +2353,20 @@ export function EditPanel(props: EditPanelProps) {
                       </span>
                     </button>
                     {activePanel === "light" && isImage && (
-                      <div className={modalWrapper}>
+                      <div className={editModalWrapper} inert={readOnly}>
                         <div className="bg-[#171717] border border-[#2a2a2a] rounded-xl shadow-2xl shadow-black/50 p-4 w-72">
                           <div className="flex items-center justify-between mb-4">
                             <h3 className="text-sm font-medium text-white">
                               Light
                             </h3>
                             <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => handleAutoTone("light")}
+                                disabled={autoToning !== null}
+                                className="text-xs text-[#888] hover:text-white transition-colors cursor-pointer disabled:opacity-50"
+                              >
+                                {autoToning === "light" ? "Auto..." : "Auto"}
+                              </button>
                               <button
                                 onClick={() =>
                                   onUpdate({
@@ -1726,13 +2526,20 @@ export function EditPanel(props: EditPanelProps) {
                       </span>
                     </button>
                     {activePanel === "color" && isImage && (
-                      <div className={modalWrapper}>
+                      <div className={editModalWrapper} inert={readOnly}>
                         <div className="bg-[#171717] border border-[#2a2a2a] rounded-xl shadow-2xl shadow-black/50 p-4 w-80">
                           <div className="flex items-center justify-between mb-4">
                             <h3 className="text-sm font-medium text-white">
                               Color
                             </h3>
                             <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => handleAutoTone("color")}
+                                disabled={autoToning !== null}
+                                className="text-xs text-[#888] hover:text-white transition-colors cursor-pointer disabled:opacity-50"
+                              >
+                                {autoToning === "color" ? "Auto..." : "Auto"}
+                              </button>
                               <button
                                 onClick={() => {
                                   const d: ColorHSL = {
@@ -1782,6 +2589,7 @@ export function EditPanel(props: EditPanelProps) {
                                     vibrance: 0,
                                     saturation: 0,
                                     colorHSL: d,
+                                    profile: undefined,
                                   });
                                 }}
                                 className="text-xs text-[#888] hover:text-white transition-colors cursor-pointer"
@@ -1872,6 +2680,15 @@ export function EditPanel(props: EditPanelProps) {
                               onSliderSettled={onSliderSettled}
                               onSliderUnsettled={onSliderUnsettled}
                             />
+                            <ProfileSection
+                              profile={img.profile}
+                              onChange={(profile) => onUpdate({ profile })}
+                              onBake={bakeProfileCube}
+                              onDragStart={handleSliderDragStart}
+                              onDragEnd={handleSliderDragEnd}
+                              onSliderSettled={onSliderSettled}
+                              onSliderUnsettled={onSliderUnsettled}
+                            />
                             <div className="border-t border-[#2a2a2a] pt-3 mt-4">
                               <button
                                 onClick={() => setIsHSLExpanded(!isHSLExpanded)}
@@ -1892,6 +2709,7 @@ export function EditPanel(props: EditPanelProps) {
                                   />
                                 </svg>
                               </button>
+                              {isHSLExpanded && hslTargetControls}
                               {isHSLExpanded &&
                                 (
                                   [
@@ -2064,7 +2882,7 @@ export function EditPanel(props: EditPanelProps) {
                       </span>
                     </button>
                     {activePanel === "effects" && isImage && (
-                      <div className={modalWrapper}>
+                      <div className={editModalWrapper} inert={readOnly}>
                         <div className="bg-[#171717] border border-[#2a2a2a] rounded-xl shadow-2xl shadow-black/50 p-4 w-72">
                           <div className="flex items-center justify-between mb-4">
                             <h3 className="text-sm font-medium text-white">
@@ -2163,6 +2981,155 @@ export function EditPanel(props: EditPanelProps) {
                     )}
                   </div>
 
+                  {/* Crop */}
+                  <div className="relative">
+                    <button
+                      onClick={() => togglePanel("crop")}
+                      className={`flex flex-col items-center gap-1 px-3 py-2 rounded-lg transition-all duration-150 cursor-pointer ${
+                        activePanel === "crop" || isCropModified
+                          ? "bg-[#3ECF8E]/20 text-[#3ECF8E]"
+                          : "bg-[#252525] text-[#999] hover:bg-[#333] hover:text-white"
+                      }`}
+                    >
+                      <svg
+                        className="w-5 h-5"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={1.5}
+                          d="M6 2v14a2 2 0 002 2h14M2 6h14a2 2 0 012 2v14"
+                        />
+                      </svg>
+                      <span className="text-[10px] font-medium uppercase tracking-wider">
+                        Crop
+                      </span>
+                    </button>
+                    {activePanel === "crop" && isImage && (
+                      <div className={editModalWrapper} inert={readOnly}>
+                        <div className="bg-[#171717] border border-[#2a2a2a] rounded-xl shadow-2xl shadow-black/50 p-4 w-72">
+                          <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-sm font-medium text-white">
+                              Crop
+                            </h3>
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={() =>
+                                  onUpdate({ crop: undefined, straighten: 0 })
+                                }
+                                className="text-xs text-[#888] hover:text-white transition-colors cursor-pointer"
+                              >
+                                Reset
+                              </button>
+                              <button
+                                onClick={() => setActivePanel(null)}
+                                className="p-1 text-[#888] hover:text-white transition-colors cursor-pointer"
+                              >
+                                <svg
+                                  className="w-4 h-4"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  viewBox="0 0 24 24"
+                                >
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M6 18L18 6M6 6l12 12"
+                                  />
+                                </svg>
+                              </button>
+                            </div>
+                          </div>
+                          {cropEditor}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Masks */}
+                  <div className="relative">
+                    <button
+                      onClick={(e) => {
+                        if (e.ctrlKey || e.metaKey) {
+                          onToggleBypass?.("masks");
+                        } else {
+                          togglePanel("masks");
+                        }
+                      }}
+                      className={`flex flex-col items-center gap-1 px-3 py-2 rounded-lg transition-all duration-150 cursor-pointer ${
+                        bypassedTabs?.has("masks")
+                          ? "bg-[#ff6b6b]/20 text-[#ff6b6b] opacity-50"
+                          : activePanel === "masks" || isMasksModified
+                            ? "bg-[#3ECF8E]/20 text-[#3ECF8E]"
+                            : "bg-[#252525] text-[#999] hover:bg-[#333] hover:text-white"
+                      }`}
+                      title="Click to edit, Ctrl+click to bypass"
+                    >
+                      <svg
+                        className="w-5 h-5"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <circle
+                          cx="12"
+                          cy="12"
+                          r="8"
+                          strokeWidth={1.5}
+                          strokeDasharray="3 2"
+                        />
+                        <circle cx="12" cy="12" r="3" strokeWidth={1.5} />
+                      </svg>
+                      <span
+                        className={`text-[10px] font-medium uppercase tracking-wider ${bypassedTabs?.has("masks") ? "line-through" : ""}`}
+                      >
+                        Masks
+                      </span>
+                    </button>
+                    {activePanel === "masks" && isImage && (
+                      <div className={editModalWrapper} inert={readOnly}>
+                        <div className="bg-[#171717] border border-[#2a2a2a] rounded-xl shadow-2xl shadow-black/50 p-4 w-72 max-h-[70vh] overflow-y-auto">
+                          <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-sm font-medium text-white">
+                              Masks
+                            </h3>
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => onUpdate({ masks: undefined })}
+                                className="text-xs text-[#888] hover:text-white transition-colors cursor-pointer"
+                              >
+                                Reset
+                              </button>
+                              <button
+                                onClick={() => setActivePanel(null)}
+                                className="p-1 text-[#888] hover:text-white transition-colors cursor-pointer"
+                              >
+                                <svg
+                                  className="w-4 h-4"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  viewBox="0 0 24 24"
+                                >
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M6 18L18 6M6 6l12 12"
+                                  />
+                                </svg>
+                              </button>
+                            </div>
+                          </div>
+                          {maskEditor}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
                   {/* Presets */}
                   <div className="relative">
                     <button
@@ -2191,7 +3158,7 @@ export function EditPanel(props: EditPanelProps) {
                       </span>
                     </button>
                     {activePanel === "presets" && isImage && (
-                      <div className={modalWrapper}>
+                      <div className={editModalWrapper} inert={readOnly}>
                         <div className="bg-[#171717] border border-[#2a2a2a] rounded-xl shadow-2xl shadow-black/50 p-4 w-80">
                           <div className="flex items-center justify-between mb-4">
                             <h3 className="text-sm font-medium text-white">
@@ -2290,6 +3257,31 @@ export function EditPanel(props: EditPanelProps) {
                                         {preset.name}
                                       </button>
                                     )}
+                                    <button
+                                      onClick={() =>
+                                        downloadSidecar(
+                                          preset.settings,
+                                          preset.name,
+                                          preset.name,
+                                        )
+                                      }
+                                      className="p-1 text-[#888] hover:text-white transition-colors"
+                                      title="Download preset (.xmp)"
+                                    >
+                                      <svg
+                                        className="w-4 h-4"
+                                        fill="none"
+                                        stroke="currentColor"
+                                        viewBox="0 0 24 24"
+                                      >
+                                        <path
+                                          strokeLinecap="round"
+                                          strokeLinejoin="round"
+                                          strokeWidth={2}
+                                          d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+                                        />
+                                      </svg>
+                                    </button>
                                     <button
                                       onClick={() => deletePreset(preset.id)}
                                       className="p-1 text-[#888] hover:text-[#f87171] transition-colors"
@@ -2313,11 +3305,132 @@ export function EditPanel(props: EditPanelProps) {
                                 ))
                             )}
                           </div>
+                          {snapshotControls}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* History */}
+                  <div className="relative">
+                    <button
+                      onClick={() => togglePanel("history")}
+                      className={`flex flex-col items-center gap-1 px-3 py-2 rounded-lg transition-all duration-150 cursor-pointer ${
+                        activePanel === "history"
+                          ? "bg-[#3ECF8E]/20 text-[#3ECF8E]"
+                          : "bg-[#252525] text-[#999] hover:bg-[#333] hover:text-white"
+                      }`}
+                    >
+                      <svg
+                        className="w-5 h-5"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={1.5}
+                          d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                        />
+                      </svg>
+                      <span className="text-[10px] font-medium uppercase tracking-wider">
+                        History
+                      </span>
+                    </button>
+                    {activePanel === "history" && isImage && (
+                      <div className={modalWrapper}>
+                        <div className="bg-[#171717] border border-[#2a2a2a] rounded-xl shadow-2xl shadow-black/50 p-4 w-80">
+                          <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-sm font-medium text-white">
+                              History
+                            </h3>
+                            <button
+                              onClick={() => setActivePanel(null)}
+                              className="p-1 text-[#888] hover:text-white transition-colors cursor-pointer"
+                            >
+                              <svg
+                                className="w-4 h-4"
+                                fill="none"
+                                stroke="currentColor"
+                                viewBox="0 0 24 24"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M6 18L18 6M6 6l12 12"
+                                />
+                              </svg>
+                            </button>
+                          </div>
+                          {historyList}
                         </div>
                       </div>
                     )}
                   </div>
 
+                  {/* Comments (collab sessions) */}
+                  {sessionId && (
+                    <div className="relative">
+                      <button
+                        onClick={() => togglePanel("comments")}
+                        className={`flex flex-col items-center gap-1 px-3 py-2 rounded-lg transition-all duration-150 cursor-pointer ${
+                          activePanel === "comments"
+                            ? "bg-[#3ECF8E]/20 text-[#3ECF8E]"
+                            : "bg-[#252525] text-[#999] hover:bg-[#333] hover:text-white"
+                        }`}
+                      >
+                        <svg
+                          className="w-5 h-5"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={1.5}
+                            d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"
+                          />
+                        </svg>
+                        <span className="text-[10px] font-medium uppercase tracking-wider">
+                          Comments
+                        </span>
+                      </button>
+                      {activePanel === "comments" && isImage && (
+                        <div className={modalWrapper}>
+                          <div className="bg-[#171717] border border-[#2a2a2a] rounded-xl shadow-2xl shadow-black/50 p-4 w-80">
+                            <div className="flex items-center justify-between mb-4">
+                              <h3 className="text-sm font-medium text-white">
+                                Comments
+                              </h3>
+                              <button
+                                onClick={() => setActivePanel(null)}
+                                className="p-1 text-[#888] hover:text-white transition-colors cursor-pointer"
+                              >
+                                <svg
+                                  className="w-4 h-4"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  viewBox="0 0 24 24"
+                                >
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M6 18L18 6M6 6l12 12"
+                                  />
+                                </svg>
+                              </button>
+                            </div>
+                            {commentThreads}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Divider */}
                   <div className="w-px h-10 bg-[#333] mx-1" />
 
@@ -2367,10 +3480,33 @@ export function EditPanel(props: EditPanelProps) {
                     </button>
                   )}
 
+                  {/* Download Lightroom sidecar */}
+                  {isImage && (
+                    <button
+                      onClick={downloadPhotoSidecar}
+                      className="p-2 rounded-lg bg-[#252525] text-[#999] hover:bg-[#333] hover:text-white transition-colors cursor-pointer"
+                      title="Download sidecar (.xmp)"
+                    >
+                      <svg
+                        className="w-5 h-5"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={1.5}
+                          d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                        />
+                      </svg>
+                    </button>
+                  )}
+
                   {/* Delete */}
                   <button
                     onClick={onDelete}
-                    disabled={isDeleting}
+                    disabled={isDeleting || readOnly}
                     className="p-2 rounded-lg bg-[#252525] text-[#f87171] hover:bg-[#3a2020] disabled:opacity-60 disabled:cursor-not-allowed transition-colors cursor-pointer flex items-center justify-center min-w-[2.5rem] min-h-[2.5rem]"
                     title="Delete"
                   >
@@ -0,0 +1,291 @@
+"use client";
+
+import { useState } from "react";
+import {
+  EXPORT_FORMATS,
+  EXPORT_LONG_EDGE_PRESETS,
+  type ExportFormat,
+  type ExportMetadataMode,
+  type ExportOptions,
+  type OutputColorSpace,
+  type OutputSharpening,
+  type ProcessingPrecision,
+} from "@/lib/types";
+
+interface ExportDialogProps {
+  /** Number of photos that will be exported */
+  count: number;
+  /** Last used options (dialog starts from these) */
+  initialOptions: ExportOptions;
+  onExport: (options: ExportOptions) => void;
+  onCancel: () => void;
+}
+
+const SHARPENING_LABELS: { value: OutputSharpening; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "low", label: "Low" },
+  { value: "standard", label: "Standard" },
+  { value: "high", label: "High" },
+];
+
+const METADATA_LABELS: { value: ExportMetadataMode; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "noLocation", label: "No location" },
+  { value: "none", label: "None" },
+];
+
+const PRECISION_LABELS: { value: ProcessingPrecision; label: string }[] = [
+  { value: "standard", label: "Standard" },
+  { value: "high", label: "High precision" },
+];
+
+const COLOR_SPACE_LABELS: { value: OutputColorSpace; label: string }[] = [
+  { value: "srgb", label: "sRGB" },
+  { value: "p3", label: "Display P3" },
+];
+
+const segmentClass = (active: boolean) =>
+  `flex-1 px-2 py-1.5 text-xs rounded-lg transition-colors ${
+    active
+      ? "bg-[#3ECF8E] text-[#0d0d0d] font-medium"
+      : "bg-[#252525] text-[#888] hover:text-white"
+  }`;
+
+// Export settings: format, quality, bit depth, processing, color space, long-edge resize,
+// output sharpening and metadata
+export function ExportDialog({
+  count,
+  initialOptions,
+  onExport,
+  onCancel,
+}: ExportDialogProps) {
+  const [options, setOptions] = useState<ExportOptions>(initialOptions);
+  const info = EXPORT_FORMATS[options.format];
+
+  const update = (updates: Partial<ExportOptions>) =>
+    setOptions((prev) => ({ ...prev, ...updates }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div
+        className="bg-[#171717] border border-[#2a2a2a] rounded-2xl shadow-2xl shadow-black/50 p-6 w-96"
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onCancel();
+        }}
+      >
+        <h3 className="text-lg font-semibold text-white mb-4">
+          Export {count} photo{count === 1 ? "" : "s"}
+        </h3>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm text-[#888] mb-2">Format</label>
+            <div className="flex gap-1">
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+                <button
+                  key={f}
+                  type="button"
+                  onClick={() =>
+                    update({
+                      format: f,
+                      bitDepth: EXPORT_FORMATS[f].supports16Bit
+                        ? options.bitDepth
+                        : 8,
+                    })
+                  }
+                  className={segmentClass(options.format === f)}
+                >
+                  {EXPORT_FORMATS[f].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {info.lossy && (
+            <div>
+              <label className="block text-sm text-[#888] mb-2">
+                Quality: {options.quality}
+              </label>
+              <input
+                type="range"
+                min="1"
+                max="100"
+                value={options.quality}
+                onChange={(e) =>
+                  update({ quality: parseInt(e.target.value, 10) })
+                }
+                className="w-full h-2 bg-[#252525] rounded-lg appearance-none cursor-pointer accent-[#3ECF8E]"
+              />
+            </div>
+          )}
+
+          {info.supports16Bit && (
+            <div>
+              <label className="block text-sm text-[#888] mb-2">
+                Bit depth
+              </label>
+              <div className="flex gap-1">
+                {([8, 16] as const).map((depth) => (
+                  <button
+                    key={depth}
+                    type="button"
+                    onClick={() => update({ bitDepth: depth })}
+                    className={segmentClass(options.bitDepth === depth)}
+                  >
+                    {depth}-bit
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm text-[#888] mb-2">Processing</label>
+            <div className="flex gap-1 mb-2">
+              {PRECISION_LABELS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => update({ precision: value })}
+                  className={segmentClass(options.precision === value)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <label className="block text-sm text-[#888] mb-2">
+              Color space
+            </label>
+            <div className="flex gap-1 mb-2">
+              {COLOR_SPACE_LABELS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => update({ colorSpace: value })}
+                  className={segmentClass(options.colorSpace === value)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {(options.precision === "high" || options.colorSpace === "p3") && (
+              <p className="text-xs text-[#666]">
+                Rendered on the server from the original file
+                {options.precision === "high"
+                  ? " in 16-bit float, with exposure in linear light"
+                  : ""}
+                {options.colorSpace === "p3"
+                  ? ". Wide-gamut colors are kept and the file is tagged Display P3"
+                  : ""}
+                .
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm text-[#888] mb-2">
+              Resize long edge
+            </label>
+            <div className="flex gap-1 mb-2">
+              <button
+                type="button"
+                onClick={() => update({ longEdge: null })}
+                className={segmentClass(options.longEdge === null)}
+              >
+                Full
+              </button>
+              {EXPORT_LONG_EDGE_PRESETS.map((px) => (
+                <button
+                  key={px}
+                  type="button"
+                  onClick={() => update({ longEdge: px })}
+                  className={segmentClass(options.longEdge === px)}
+                >
+                  {px}
+                </button>
+              ))}
+            </div>
+            <input
+              type="number"
+              min="1"
+              value={options.longEdge ?? ""}
+              onChange={(e) => {
+                const v = parseInt(e.target.value, 10);
+                update({ longEdge: Number.isFinite(v) && v > 0 ? v : null });
+              }}
+              placeholder="Custom (px)"
+              className="w-full px-4 py-2 bg-[#252525] border border-[#333] rounded-xl text-white placeholder-[#666] focus:outline-none focus:border-[#3ECF8E] focus:ring-1 focus:ring-[#3ECF8E]/20"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-[#888] mb-2">
+              Output sharpening
+            </label>
+            <div className="flex gap-1">
+              {SHARPENING_LABELS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => update({ sharpening: value })}
+                  className={segmentClass(options.sharpening === value)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-[#888] mb-2">Metadata</label>
+            <div className="flex gap-1 mb-2">
+              {METADATA_LABELS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => update({ metadata: value })}
+                  className={segmentClass(options.metadata === value)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-[#666] mb-2">
+              {options.metadata === "none"
+                ? "Camera info, date, location and keywords are stripped."
+                : options.metadata === "noLocation"
+                  ? "Keeps camera info, date and keywords; GPS location is removed."
+                  : "Keeps camera info, date, location and labels as keywords."}
+            </p>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.embedEdits}
+                onChange={(e) => update({ embedEdits: e.target.checked })}
+                className="rounded border-[#333] bg-[#252525] text-[#3ECF8E] focus:ring-[#3ECF8E]/20"
+              />
+              <span className="text-sm text-[#888]">
+                Embed edit settings (XMP)
+              </span>
+            </label>
+          </div>
+        </div>
+        <div className="flex gap-2 justify-end mt-6">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2.5 text-sm text-[#888] hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onExport(options)}
+            className="px-4 py-2.5 text-sm font-medium text-[#0d0d0d] bg-[#3ECF8E] hover:bg-[#35b87d] rounded-xl transition-colors"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { buildExportFilterList } from "@/lib/filters/clientFilters";
+import { getPixiFilterEngine } from "@/lib/filters/pixiFilterEngine";
+import {
+  DEFAULT_PARITY_THRESHOLD,
+  runParity,
+  summarizeParity,
+  type ParityFixture,
+  type ParityRenderer,
+  type ParityResult,
+} from "@/lib/filters/parity";
+
+const renderCpu: ParityRenderer = (fixture, image) => {
+  const imageData = new ImageData(
+    new Uint8ClampedArray(fixture.data),
+    fixture.width,
+    fixture.height,
+  );
+  for (const filter of buildExportFilterList(image)) filter(imageData);
+  return imageData.data;
+};
+
+function fixtureToImage(fixture: ParityFixture): Promise<HTMLImageElement> {
+  const canvas = document.createElement("canvas");
+  canvas.width = fixture.width;
+  canvas.height = fixture.height;
+  canvas
+    .getContext("2d")!
+    .putImageData(
+      new ImageData(
+        new Uint8ClampedArray(fixture.data),
+        fixture.width,
+        fixture.height,
+      ),
+      0,
+      0,
+    );
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load ${fixture.name}`));
+    img.src = canvas.toDataURL("image/png");
+  });
+}
+
+const renderGpu: ParityRenderer = async (fixture, image) => {
+  const img = await fixtureToImage(fixture);
+  const canvas = await getPixiFilterEngine().renderImage(
+    img,
+    image,
+    new Set(),
+    fixture.width,
+    fixture.height,
+  );
+  if (!canvas) throw new Error("WebGL is not available");
+  return canvas
+    .getContext("2d")!
+    .getImageData(0, 0, fixture.width, fixture.height).data;
+};
+
+// GPU (GLSL) vs CPU parity report; the CPU vs Sharp half runs headless via `npm run parity`
+export function FilterParityPanel() {
+  const [threshold, setThreshold] = useState(DEFAULT_PARITY_THRESHOLD);
+  const [results, setResults] = useState<ParityResult[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      setResults(await runParity(renderCpu, renderGpu, { threshold }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Parity run failed");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const summary = results ? summarizeParity(results) : [];
+
+  return (
+    <div className="min-h-screen bg-[#0d0d0d] text-white p-8">
+      <h1 className="text-lg font-semibold mb-1">Filter parity: GPU vs CPU</h1>
+      <p className="text-sm text-[#888] mb-6">
+        Renders generated fixtures through the Pixi engine and clientFilters
+        and reports the worst p99 per-channel delta per adjustment.
+      </p>
+      <div className="flex items-center gap-3 mb-6">
+        <label className="text-sm text-[#888]">Threshold</label>
+        <input
+          type="number"
+          min={0}
+          max={255}
+          value={threshold}
+          onChange={(e) => setThreshold(Number(e.target.value) || 0)}
+          className="w-20 px-3 py-1.5 bg-[#252525] border border-[#333] rounded-lg text-sm text-white focus:outline-none focus:border-[#3ECF8E]"
+        />
+        <button
+          onClick={run}
+          disabled={running}
+          className="px-4 py-2 text-sm font-medium text-[#0d0d0d] bg-[#3ECF8E] hover:bg-[#35b87d] rounded-xl transition-colors disabled:opacity-50"
+        >
+          {running ? "Running..." : "Run"}
+        </button>
+      </div>
+      {error && <p className="text-sm text-[#ff6b6b] mb-4">{error}</p>}
+      {summary.length > 0 && (
+        <table className="text-sm font-mono">
+          <thead>
+            <tr className="text-left text-[#888]">
+              <th className="pr-6 pb-2">Adjustment</th>
+              <th className="pr-6 pb-2">p99</th>
+              <th className="pr-6 pb-2">max</th>
+              <th className="pr-6 pb-2">mean</th>
+              <th className="pb-2">Worst case</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.map((r) => (
+              <tr
+                key={r.adjustment}
+                className={r.pass ? "text-[#ccc]" : "text-[#ff6b6b]"}
+              >
+                <td className="pr-6 py-0.5">{r.adjustment}</td>
+                <td className="pr-6">{r.p99Delta}</td>
+                <td className="pr-6">{r.maxDelta}</td>
+                <td className="pr-6">{r.meanDelta.toFixed(2)}</td>
+                <td className="text-[#666]">
+                  {r.case} on {r.fixture}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
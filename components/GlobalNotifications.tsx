@@ -3,17 +3,33 @@
 import { useEffect, useRef, useState } from "react";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/lib/auth";
+import { useUIStore } from "@/lib/stores/uiStore";
+import type { CollabComment, ExportJob } from "@/lib/types";
+
+interface Toast {
+  title: string;
+  message: string;
+  /** Optional link (export job ZIP, session with a new comment) */
+  href?: string;
+  hrefLabel?: string;
+  /** Failures get a red icon */
+  variant?: "success" | "error";
+}
 
 /**
  * Global notification component that shows toast when:
  * - User's join request is approved
+ * - A background export job finishes or fails (progress is mirrored into uiStore.exportJobs for TopBar)
+ * - Someone @mentions the user in a collab comment or replies to a thread they started
  * Works on ALL pages of the app
  */
 export function GlobalNotifications({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
-  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const [toast, setToast] = useState<Toast | null>(null);
   const [showToast, setShowToast] = useState(false);
   const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const exportChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const commentChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
 
   useEffect(() => {
     if (!user) return;
@@ -32,7 +48,7 @@ export function GlobalNotifications({ children }: { children: React.ReactNode })
         (payload: { new?: { status?: string }; old?: { status?: string } }) => {
           // Check if status changed to approved
           if (payload.new?.status === "approved" && payload.old?.status !== "approved") {
-            setToastMessage("Your join request was approved!");
+            setToast({ title: "Approved!", message: "Your join request was approved!" });
             setShowToast(true);
             setTimeout(() => setShowToast(false), 5000);
           }
@@ -49,22 +65,152 @@ export function GlobalNotifications({ children }: { children: React.ReactNode })
     };
   }, [user]);
 
+  useEffect(() => {
+    if (!user) return;
+    const { upsertExportJob } = useUIStore.getState();
+
+    // Pick up jobs that were still running when the page was (re)loaded,
+    // after failing the ones whose server task died (they'd never finish)
+    supabase
+      .rpc("fail_stale_export_jobs")
+      .then(() =>
+        supabase
+          .from("export_jobs")
+          .select("*")
+          .eq("user_id", user.id)
+          .in("status", ["pending", "processing"])
+          .order("created_at", { ascending: true })
+      )
+      .then(({ data }) => {
+        (data as ExportJob[] | null)?.forEach(upsertExportJob);
+      });
+
+    // Realtime listener for export job progress
+    const channel = supabase
+      .channel("global-export-jobs")
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "export_jobs",
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload: { new?: Partial<ExportJob>; old?: Partial<ExportJob> }) => {
+          const job = payload.new as ExportJob | undefined;
+          if (!job?.id) return;
+          upsertExportJob(job);
+          if (job.status === "completed" && payload.old?.status !== "completed") {
+            setToast({
+              title: "Export ready",
+              message: `${job.completed} photo${job.completed === 1 ? "" : "s"} exported${job.failed ? `, ${job.failed} failed` : ""}`,
+              href: job.download_url ?? undefined,
+              hrefLabel: "Download ZIP",
+            });
+            setShowToast(true);
+            setTimeout(() => setShowToast(false), 10000);
+          } else if (job.status === "failed" && payload.old?.status !== "failed") {
+            setToast({
+              title: "Export failed",
+              message: job.error ?? "The export could not be completed",
+              variant: "error",
+            });
+            setShowToast(true);
+            setTimeout(() => setShowToast(false), 10000);
+          }
+        }
+      )
+      .subscribe();
+
+    exportChannelRef.current = channel;
+
+    return () => {
+      if (exportChannelRef.current) {
+        supabase.removeChannel(exportChannelRef.current);
+      }
+    };
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Realtime listener for new collab comments (RLS only delivers the user's sessions)
+    const channel = supabase
+      .channel("global-comment-notifications")
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "collab_comments",
+        },
+        async (payload: { new?: Partial<CollabComment> }) => {
+          const comment = payload.new as CollabComment | undefined;
+          if (!comment?.id || comment.user_id === user.id) return;
+
+          let title: string | null = null;
+          if (comment.mentions?.includes(user.id)) {
+            title = "You were mentioned";
+          } else {
+            const { data: thread } = await supabase
+              .from("collab_comment_threads")
+              .select("user_id")
+              .eq("id", comment.thread_id)
+              .maybeSingle();
+            if (thread?.user_id === user.id) title = "New reply";
+          }
+          if (!title) return;
+
+          setToast({
+            title,
+            message: comment.body.length > 80 ? `${comment.body.slice(0, 80)}…` : comment.body,
+            href: `/community/${comment.session_id}`,
+            hrefLabel: "Open session",
+          });
+          setShowToast(true);
+          setTimeout(() => setShowToast(false), 8000);
+        }
+      )
+      .subscribe();
+
+    commentChannelRef.current = channel;
+
+    return () => {
+      if (commentChannelRef.current) {
+        supabase.removeChannel(commentChannelRef.current);
+      }
+    };
+  }, [user]);
+
   return (
     <>
       {children}
       
       {/* Global Toast Notification */}
-      {showToast && (
+      {showToast && toast && (
         <div className="fixed top-4 right-4 z-[9999] animate-slide-down">
-          <div className="bg-[#171717] border border-[#3ECF8E]/30 rounded-lg px-4 py-3 shadow-lg shadow-black/50 flex items-center gap-3">
-            <div className="w-8 h-8 rounded-full bg-[#3ECF8E]/20 flex items-center justify-center">
-              <svg className="w-4 h-4 text-[#3ECF8E]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-              </svg>
-            </div>
+          <div className={`bg-[#171717] border rounded-lg px-4 py-3 shadow-lg shadow-black/50 flex items-center gap-3 ${toast.variant === "error" ? "border-red-500/30" : "border-[#3ECF8E]/30"}`}>
+            {toast.variant === "error" ? (
+              <div className="w-8 h-8 rounded-full bg-red-500/20 flex items-center justify-center">
+                <svg className="w-4 h-4 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </div>
+            ) : (
+              <div className="w-8 h-8 rounded-full bg-[#3ECF8E]/20 flex items-center justify-center">
+                <svg className="w-4 h-4 text-[#3ECF8E]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                </svg>
+              </div>
+            )}
             <div>
-              <p className="text-white text-sm font-medium">Approved!</p>
-              <p className="text-gray-400 text-xs">{toastMessage}</p>
+              <p className="text-white text-sm font-medium">{toast.title}</p>
+              <p className="text-gray-400 text-xs">{toast.message}</p>
+              {toast.href && (
+                <a href={toast.href} className="text-[#3ECF8E] text-xs hover:underline">
+                  {toast.hrefLabel ?? "Open"}
+                </a>
+              )}
             </div>
             <button
               onClick={() => setShowToast(false)}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { CanvasImage } from "@/lib/types";
+
+interface LabelEditorProps {
+  image: CanvasImage;
+  onChange: (labels: string[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Edit a photo's content labels by hand: fix or remove what the classifier got wrong
+ * and add your own tags (searchable like generated ones, exported as IPTC keywords).
+ */
+export function LabelEditor({ image, onChange, onClose }: LabelEditorProps) {
+  const [draft, setDraft] = useState("");
+  const labels = image.labels ?? [];
+  const name = image.storagePath?.split("/").pop() ?? "Photo";
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  // "beach, Sunset" adds two labels; stored lowercase like generated ones
+  const addDraft = () => {
+    const added = draft
+      .split(",")
+      .map((l) => l.trim().toLowerCase())
+      .filter((l) => l && !labels.includes(l));
+    setDraft("");
+    if (added.length > 0) onChange([...labels, ...new Set(added)]);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-[#171717] border border-[#2a2a2a] rounded-2xl shadow-2xl shadow-black/50 p-6 w-96">
+        <h3 className="text-lg font-semibold text-white mb-1">Labels</h3>
+        <p className="text-sm text-[#888] mb-4 truncate">{name}</p>
+        <div className="flex flex-wrap gap-1.5 mb-4 min-h-[2rem]">
+          {labels.length === 0 ? (
+            <p className="text-xs text-[#666] py-2">No labels yet</p>
+          ) : (
+            labels.map((label) => (
+              <span
+                key={label}
+                className="flex items-center gap-1 pl-2.5 pr-1 py-1 text-xs text-white bg-[#252525] border border-[#333] rounded-full"
+              >
+                {label}
+                <button
+                  type="button"
+                  onClick={() => onChange(labels.filter((l) => l !== label))}
+                  title={`Remove "${label}"`}
+                  className="p-0.5 text-[#888] hover:text-[#f87171] transition-colors cursor-pointer"
+                >
+                  <svg
+                    className="w-3 h-3"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+              </span>
+            ))
+          )}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addDraft();
+            }}
+            placeholder="Add labels, comma separated"
+            autoFocus
+            className="flex-1 min-w-0 px-4 py-2 bg-[#252525] border border-[#333] rounded-xl text-white placeholder-[#666] focus:outline-none focus:border-[#3ECF8E] focus:ring-1 focus:ring-[#3ECF8E]/20"
+          />
+          <button
+            type="button"
+            onClick={addDraft}
+            disabled={!draft.trim()}
+            className="px-4 py-2 text-sm font-medium text-[#0d0d0d] bg-[#3ECF8E] hover:bg-[#35b87d] disabled:bg-[#333] disabled:text-[#666] disabled:cursor-not-allowed rounded-xl transition-colors cursor-pointer"
+          >
+            Add
+          </button>
+        </div>
+        <div className="flex justify-end mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2.5 text-sm text-[#888] hover:text-white transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
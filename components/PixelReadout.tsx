@@ -0,0 +1,32 @@
+"use client";
+
+import { useEditStore } from "@/lib/stores/editStore";
+
+function formatRgb([r, g, b]: [number, number, number]) {
+  return `${r} ${g} ${b}`;
+}
+
+/**
+ * Before/after RGB under the pointer, following it over the selected photo.
+ * Subscribes to the edit store itself so pointer moves don't re-render the canvas.
+ */
+export function PixelReadout() {
+  const readout = useEditStore((s) => s.pixelReadout);
+  if (!readout) return null;
+
+  return (
+    <div
+      className="fixed z-[60] pointer-events-none bg-[#171717]/95 border border-[#2a2a2a] rounded-lg px-2 py-1.5 shadow-2xl shadow-black/50 font-mono text-[10px] leading-4"
+      style={{ left: readout.clientX + 16, top: readout.clientY + 16 }}
+    >
+      <div className="flex gap-2">
+        <span className="text-[#666] w-10">Before</span>
+        <span className="text-[#ccc]">{formatRgb(readout.before)}</span>
+      </div>
+      <div className="flex gap-2">
+        <span className="text-[#666] w-10">After</span>
+        <span className="text-white">{formatRgb(readout.after)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import type { CanvasImage } from "@/lib/types";
+import { useFilteredPreviewUrl } from "@/lib/hooks/useFilteredPreviewUrl";
+
+// Reference shows the full look, never the bypass state of the photo being edited
+const NO_BYPASS = new Set<string>();
+
+interface ReferencePanelProps {
+  image: CanvasImage;
+  onClose: () => void;
+}
+
+/**
+ * Pinned reference photo, shown side by side with the zoomed photo so a look can be
+ * matched across a set. Renders the reference with its own edits.
+ */
+export function ReferencePanel({ image, onClose }: ReferencePanelProps) {
+  const previewUrl = useFilteredPreviewUrl(image, NO_BYPASS, true);
+  const name = image.storagePath?.split("/").pop() ?? "Reference";
+
+  return (
+    <div className="fixed left-4 top-20 bottom-28 w-[calc(50%-2rem)] z-30 flex flex-col bg-[#171717] border border-[#2a2a2a] rounded-xl shadow-2xl shadow-black/50 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-[#2a2a2a]">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-[10px] font-medium uppercase tracking-wider text-[#3ECF8E]">
+            Reference
+          </span>
+          <span className="text-xs text-[#888] truncate">{name}</span>
+        </div>
+        <button
+          onClick={onClose}
+          title="Unpin reference"
+          className="p-1 text-[#888] hover:text-white transition-colors cursor-pointer"
+        >
+          <svg
+            className="w-3.5 h-3.5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+      <div className="flex-1 min-h-0 flex items-center justify-center p-3">
+        {previewUrl && (
+          <img
+            src={previewUrl}
+            alt={name}
+            className="max-w-full max-h-full object-contain"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
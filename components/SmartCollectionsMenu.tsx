@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth";
+import { supabase } from "@/lib/supabase";
+import { useUIStore } from "@/lib/stores/uiStore";
+import type { SmartCollection, SmartCollectionQuery } from "@/lib/types";
+import {
+  useSmartCollections,
+  useSmartCollectionMatches,
+} from "@/lib/hooks/useSmartCollections";
+import { isPhotoFilterActive } from "@/lib/utils/smartCollections";
+
+function SmartCollectionRow({
+  collection,
+  userId,
+  active,
+  onSelect,
+  onDelete,
+}: {
+  collection: SmartCollection;
+  userId: string;
+  active: boolean;
+  onSelect: () => void;
+  onDelete: () => void;
+}) {
+  const { data: matches } = useSmartCollectionMatches(userId, collection);
+  return (
+    <div
+      className={`flex items-center justify-between gap-2 px-2 py-1.5 rounded-lg ${
+        active ? "bg-[#3ECF8E]/20" : "bg-[#252525] hover:bg-[#2a2a2a]"
+      }`}
+    >
+      <button
+        type="button"
+        onClick={onSelect}
+        className={`flex-1 min-w-0 text-left text-sm truncate cursor-pointer ${
+          active ? "text-[#3ECF8E]" : "text-white hover:text-[#3ECF8E]"
+        }`}
+      >
+        {collection.name}
+      </button>
+      <span className="text-xs text-[#666]">{matches?.length ?? "…"}</span>
+      <button
+        type="button"
+        onClick={onDelete}
+        className="p-1 text-[#888] hover:text-[#f87171] transition-colors cursor-pointer"
+        title="Delete smart collection"
+      >
+        <svg
+          className="w-3.5 h-3.5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M6 18L18 6M6 6l12 12"
+          />
+        </svg>
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Smart collections: the current photo filter saved under a name, shown as a virtual
+ * folder (selecting one shows only its photos). Personal canvas only.
+ */
+export function SmartCollectionsMenu({
+  photoFilter,
+}: {
+  photoFilter: SmartCollectionQuery;
+}) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const activeId = useUIStore((s) => s.activeSmartCollectionId);
+  const setActiveId = useUIStore((s) => s.setActiveSmartCollectionId);
+  const { data: collections = [] } = useSmartCollections(user?.id);
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node))
+        setOpen(false);
+    };
+    window.addEventListener("click", close, true);
+    return () => window.removeEventListener("click", close, true);
+  }, [open]);
+
+  if (!user) return null;
+
+  const active = collections.find((c) => c.id === activeId);
+  const canSave = !!name.trim() && isPhotoFilterActive(photoFilter);
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    const { data, error } = await supabase
+      .from("smart_collections")
+      .insert({ user_id: user.id, name: name.trim(), query: photoFilter })
+      .select("*")
+      .single();
+    if (error) {
+      console.error("Error saving smart collection:", error);
+      alert(`Failed to save smart collection: ${error.message}`);
+      return;
+    }
+    setName("");
+    queryClient.invalidateQueries({
+      queryKey: ["smart-collections", user.id],
+    });
+    setActiveId(data.id);
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase
+      .from("smart_collections")
+      .delete()
+      .eq("id", id);
+    if (error) {
+      console.error("Error deleting smart collection:", error);
+      return;
+    }
+    if (activeId === id) setActiveId(null);
+    queryClient.invalidateQueries({
+      queryKey: ["smart-collections", user.id],
+    });
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        className={`flex items-center gap-1.5 p-2 rounded-lg transition-colors cursor-pointer ${
+          active
+            ? "text-[#3ECF8E] bg-[#3ECF8E]/10"
+            : "text-[#888] hover:text-white hover:bg-[#252525]"
+        }`}
+        title="Smart collections"
+        aria-expanded={open}
+      >
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z"
+          />
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 10l.9 1.8 2 .3-1.45 1.4.35 2-1.8-.95-1.8.95.35-2-1.45-1.4 2-.3z"
+          />
+        </svg>
+        {active && (
+          <span className="max-w-[8rem] text-xs font-medium truncate">
+            {active.name}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div className="absolute left-0 top-full mt-2 w-72 bg-[#171717] border border-[#2a2a2a] rounded-xl shadow-2xl shadow-black/50 z-50 p-3 space-y-3">
+          <h3 className="text-xs font-medium text-[#888] uppercase tracking-wider">
+            Smart collections
+          </h3>
+          <div className="space-y-1 max-h-60 overflow-y-auto">
+            {collections.length === 0 ? (
+              <p className="text-xs text-[#666] text-center py-2">
+                No smart collections yet
+              </p>
+            ) : (
+              collections.map((collection) => (
+                <SmartCollectionRow
+                  key={collection.id}
+                  collection={collection}
+                  userId={user.id}
+                  active={collection.id === activeId}
+                  onSelect={() =>
+                    setActiveId(
+                      collection.id === activeId ? null : collection.id,
+                    )
+                  }
+                  onDelete={() => handleDelete(collection.id)}
+                />
+              ))
+            )}
+          </div>
+          <div className="pt-3 border-t border-[#2a2a2a]">
+            <label className="block text-xs text-[#888] mb-1">
+              Save current filter as
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleSave();
+                }}
+                placeholder="e.g. 5★ picks"
+                className="flex-1 min-w-0 h-8 px-2 text-sm bg-[#252525] border border-[#333] rounded text-white placeholder:text-[#666] focus:outline-none focus:ring-1 focus:ring-[#3ECF8E]"
+              />
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!canSave}
+                className="px-3 h-8 text-xs font-medium text-[#0d0d0d] bg-[#3ECF8E] hover:bg-[#35b87d] disabled:bg-[#333] disabled:text-[#666] disabled:cursor-not-allowed rounded-lg transition-colors cursor-pointer"
+              >
+                Save
+              </button>
+            </div>
+            {!isPhotoFilterActive(photoFilter) && (
+              <p className="mt-1 text-[10px] text-[#666]">
+                Set a filter first (search or filter menu)
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
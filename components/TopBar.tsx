@@ -2,16 +2,12 @@
 
 import { useRef, useState, useEffect } from "react";
 import { useAuth } from "@/lib/auth";
-import { useUIStore } from "@/lib/stores/uiStore";
+import { useUIStore, selectExportJobs } from "@/lib/stores/uiStore";
 import { useRouter } from "next/navigation";
+import { COLOR_LABELS, type SmartCollectionQuery } from "@/lib/types";
+import { SmartCollectionsMenu } from "./SmartCollectionsMenu";
 
-export interface PhotoFilterState {
-  dateFrom?: string;
-  dateTo?: string;
-  cameraMake?: string;
-  cameraModel?: string;
-  contentSearch?: string;
-}
+export type PhotoFilterState = SmartCollectionQuery;
 
 function SearchFilterInput({
   initialValue,
@@ -48,6 +44,66 @@ function SearchFilterInput({
   );
 }
 
+// Background export jobs (kept up to date by GlobalNotifications)
+function ExportJobsIndicator() {
+  const exportJobs = useUIStore(selectExportJobs);
+  const dismissExportJob = useUIStore((s) => s.dismissExportJob);
+  if (exportJobs.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {exportJobs.map((job) => {
+        const done = job.completed + job.failed;
+        const pct = job.total > 0 ? Math.round((done / job.total) * 100) : 0;
+        const running = job.status === "pending" || job.status === "processing";
+        return (
+          <div
+            key={job.id}
+            className="flex items-center gap-2 h-8 px-2.5 text-xs bg-[#252525] border border-[#333] rounded-lg text-[#ccc]"
+          >
+            {running && (
+              <>
+                <div className="w-16 h-1.5 bg-[#333] rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-[#3ECF8E] transition-all"
+                    style={{ width: `${pct}%` }}
+                  />
+                </div>
+                <span>
+                  Exporting {done}/{job.total}
+                </span>
+              </>
+            )}
+            {job.status === "completed" && job.download_url && (
+              <a
+                href={job.download_url}
+                className="text-[#3ECF8E] hover:underline"
+              >
+                Download ZIP ({job.completed})
+              </a>
+            )}
+            {job.status === "failed" && (
+              <span className="text-red-400" title={job.error ?? undefined}>
+                Export failed
+              </span>
+            )}
+            {!running && (
+              <button
+                type="button"
+                onClick={() => dismissExportJob(job.id)}
+                className="text-[#666] hover:text-white"
+                aria-label="Dismiss"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 interface OnlineUser {
   id: string;
   email: string;
@@ -65,6 +121,8 @@ interface TopBarProps {
   isMobile?: boolean;
   photoFilter?: PhotoFilterState;
   onPhotoFilterChange?: (filter: PhotoFilterState) => void;
+  /** Folders offered by the folder filter */
+  filterFolders?: { id: string; name: string }[];
   onToggleSidebar?: () => void;
   sessionId?: string;
   onlineUsers?: OnlineUser[];
@@ -72,6 +130,8 @@ interface TopBarProps {
   approvedCount?: number;
   maxCollaborators?: number;
   isOwner?: boolean;
+  /** False for collab roles that can't add photos (viewer, commenter) */
+  canUpload?: boolean;
 }
 
 export function TopBar({
@@ -83,6 +143,7 @@ export function TopBar({
   visible,
   photoFilter = {},
   onPhotoFilterChange,
+  filterFolders = [],
   onToggleSidebar,
   sessionId,
   onlineUsers = [],
@@ -90,6 +151,7 @@ export function TopBar({
   approvedCount = 0,
   maxCollaborators = 0,
   isOwner = false,
+  canUpload = true,
 }: TopBarProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const helpRef = useRef<HTMLDivElement>(null);
@@ -240,7 +302,7 @@ export function TopBar({
               type="button"
               onClick={() => setFilterOpen((o) => !o)}
               className="p-2 text-[#888] hover:text-white hover:bg-[#252525] rounded-lg transition-colors cursor-pointer"
-              title="Date & camera filters"
+              title="Photo filters"
               aria-expanded={filterOpen}
             >
               <svg
@@ -325,6 +387,148 @@ export function TopBar({
                     className="w-full h-8 px-2 text-sm bg-[#252525] border border-[#333] rounded text-white placeholder:text-[#666] focus:outline-none focus:ring-1 focus:ring-[#3ECF8E]"
                   />
                 </div>
+                <div>
+                  <label className="block text-xs text-[#888] mb-1">
+                    Rating
+                  </label>
+                  <select
+                    value={photoFilter.minRating ?? 0}
+                    onChange={(e) =>
+                      onPhotoFilterChange({
+                        ...photoFilter,
+                        minRating: Number(e.target.value) || undefined,
+                      })
+                    }
+                    className="w-full h-8 px-2 text-sm bg-[#252525] border border-[#333] rounded text-white focus:outline-none focus:ring-1 focus:ring-[#3ECF8E]"
+                  >
+                    <option value={0}>Any</option>
+                    {[1, 2, 3, 4, 5].map((n) => (
+                      <option key={n} value={n}>
+                        {"★".repeat(n)}
+                        {n < 5 ? " and up" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-[#888] mb-1">
+                    Flag
+                  </label>
+                  <select
+                    value={photoFilter.flag ?? ""}
+                    onChange={(e) =>
+                      onPhotoFilterChange({
+                        ...photoFilter,
+                        flag:
+                          (e.target.value as PhotoFilterState["flag"]) ||
+                          undefined,
+                      })
+                    }
+                    className="w-full h-8 px-2 text-sm bg-[#252525] border border-[#333] rounded text-white focus:outline-none focus:ring-1 focus:ring-[#3ECF8E]"
+                  >
+                    <option value="">Any</option>
+                    <option value="pick">Picks</option>
+                    <option value="reject">Rejects</option>
+                    <option value="unflagged">Unflagged</option>
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-[#888] mb-1">
+                      File type
+                    </label>
+                    <select
+                      value={photoFilter.fileType ?? ""}
+                      onChange={(e) =>
+                        onPhotoFilterChange({
+                          ...photoFilter,
+                          fileType:
+                            (e.target.value as PhotoFilterState["fileType"]) ||
+                            undefined,
+                        })
+                      }
+                      className="w-full h-8 px-2 text-sm bg-[#252525] border border-[#333] rounded text-white focus:outline-none focus:ring-1 focus:ring-[#3ECF8E]"
+                    >
+                      <option value="">Any</option>
+                      <option value="raw">RAW</option>
+                      <option value="jpeg">JPEG</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-[#888] mb-1">
+                      Edits
+                    </label>
+                    <select
+                      value={photoFilter.edited ?? ""}
+                      onChange={(e) =>
+                        onPhotoFilterChange({
+                          ...photoFilter,
+                          edited:
+                            (e.target.value as PhotoFilterState["edited"]) ||
+                            undefined,
+                        })
+                      }
+                      className="w-full h-8 px-2 text-sm bg-[#252525] border border-[#333] rounded text-white focus:outline-none focus:ring-1 focus:ring-[#3ECF8E]"
+                    >
+                      <option value="">Any</option>
+                      <option value="edited">Edited</option>
+                      <option value="unedited">Unedited</option>
+                    </select>
+                  </div>
+                </div>
+                {filterFolders.length > 0 && (
+                  <div>
+                    <label className="block text-xs text-[#888] mb-1">
+                      Folder
+                    </label>
+                    <select
+                      value={photoFilter.folderId ?? ""}
+                      onChange={(e) =>
+                        onPhotoFilterChange({
+                          ...photoFilter,
+                          folderId: e.target.value || undefined,
+                        })
+                      }
+                      className="w-full h-8 px-2 text-sm bg-[#252525] border border-[#333] rounded text-white focus:outline-none focus:ring-1 focus:ring-[#3ECF8E]"
+                    >
+                      <option value="">Any</option>
+                      {filterFolders.map((f) => (
+                        <option key={f.id} value={f.id}>
+                          {f.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-xs text-[#888] mb-1">
+                    Color label
+                  </label>
+                  <div className="flex gap-2">
+                    {COLOR_LABELS.map((c) => (
+                      <button
+                        key={c.id}
+                        type="button"
+                        title={c.label}
+                        onClick={() =>
+                          onPhotoFilterChange({
+                            ...photoFilter,
+                            colorLabel:
+                              photoFilter.colorLabel === c.id
+                                ? undefined
+                                : c.id,
+                          })
+                        }
+                        className={`w-6 h-6 rounded-full border-2 transition-colors cursor-pointer ${
+                          photoFilter.colorLabel === c.id
+                            ? "border-white"
+                            : "border-transparent"
+                        }`}
+                        style={{ backgroundColor: c.color }}
+                      />
+                    ))}
+                  </div>
+                </div>
                 <button
                   type="button"
                   onClick={() => onPhotoFilterChange({})}
@@ -335,6 +539,7 @@ export function TopBar({
               </div>
             )}
           </div>
+          {!sessionId && <SmartCollectionsMenu photoFilter={photoFilter} />}
         </div>
       )}
 
@@ -345,7 +550,9 @@ export function TopBar({
       <div className="flex items-center gap-2">
         <button
           onClick={() => fileInputRef.current?.click()}
-          className="flex items-center gap-2 px-3 py-1.5 min-h-[44px] md:min-h-0 text-sm font-medium text-white bg-[#3ECF8E] hover:bg-[#35b87d] rounded-lg transition-colors cursor-pointer"
+          disabled={!canUpload}
+          title={canUpload ? undefined : "Your role can't upload photos"}
+          className="flex items-center gap-2 px-3 py-1.5 min-h-[44px] md:min-h-0 text-sm font-medium text-white bg-[#3ECF8E] hover:bg-[#35b87d] disabled:bg-[#333] disabled:text-[#666] disabled:cursor-not-allowed rounded-lg transition-colors cursor-pointer"
         >
           <svg
             className="w-4 h-4"
@@ -374,6 +581,7 @@ export function TopBar({
 
       {/* Right side */}
       <div className="ml-auto flex items-center gap-2">
+        <ExportJobsIndicator />
         {/* Desktop: Help / Shortcuts dropdown */}
         <div className="hidden md:block relative" ref={helpRef}>
           <button
@@ -429,6 +637,18 @@ export function TopBar({
                     <kbd className="kbd shrink-0">Ctrl + Shift + Z</kbd>redo
                     photo edit
                   </li>
+                  <li className="flex gap-2 items-center">
+                    <kbd className="kbd shrink-0">0 – 5</kbd>rate selected
+                    photos
+                  </li>
+                  <li className="flex gap-2 items-center">
+                    <kbd className="kbd shrink-0">P / X / U</kbd>pick, reject,
+                    unflag
+                  </li>
+                  <li className="flex gap-2 items-center">
+                    <kbd className="kbd shrink-0">6 – 9</kbd>red, yellow,
+                    green, blue label
+                  </li>
                   <li className="flex gap-2 items-center">
                     <kbd className="kbd shrink-0">2× click + photo</kbd>
                     fullscreen
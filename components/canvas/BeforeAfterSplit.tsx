@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { Group, Image as KonvaImage, Line, Circle, Text } from "react-konva";
+import Konva from "konva";
+import { useCanvasStore, selectStageScale } from "@/lib/stores/canvasStore";
+
+export interface BeforeAfterSplitProps {
+  /** Unedited source image, drawn left of the divider */
+  before: HTMLImageElement;
+  /** Image size in node-local units (same as ImageNode's KonvaImage) */
+  width: number;
+  height: number;
+  /** Visible (cropped) area the divider spans, in node-local units */
+  clip: { x: number; y: number; width: number; height: number };
+  /** Straighten transform, so the before image lines up with the edited one */
+  straighten: number;
+  straightenScale: number;
+  /** Image group scale, combined with stage zoom to keep the handle a constant on-screen size */
+  nodeScale: number;
+  /** Divider position, 0-1 across the visible area */
+  split: number;
+  /** Called once per gesture (drag end) with the new position */
+  onChange: (split: number) => void;
+}
+
+const HANDLE_COLOR = "#3ECF8E";
+
+// Before/after comparison: the original photo is drawn over the edited one up to a
+// draggable vertical divider. Works on a local draft while dragging.
+export function BeforeAfterSplit({
+  before,
+  width,
+  height,
+  clip,
+  straighten,
+  straightenScale,
+  nodeScale,
+  split,
+  onChange,
+}: BeforeAfterSplitProps) {
+  const stageScale = useCanvasStore(selectStageScale);
+  const scale = stageScale * nodeScale;
+  const [draft, setDraft] = useState<number | null>(null);
+
+  const dividerX = clip.x + (draft ?? split) * clip.width;
+  const centerY = clip.y + clip.height / 2;
+  const fontSize = 12 / scale;
+  const labelPad = 8 / scale;
+
+  const stop = (e: Konva.KonvaEventObject<Event>) => {
+    e.cancelBubble = true;
+  };
+
+  const toSplit = (x: number) =>
+    Math.max(0, Math.min(1, (x - clip.x) / clip.width));
+
+  return (
+    <Group>
+      <Group
+        clipX={clip.x}
+        clipY={clip.y}
+        clipWidth={dividerX - clip.x}
+        clipHeight={clip.height}
+        listening={false}
+      >
+        <Group
+          x={width / 2}
+          y={height / 2}
+          offsetX={width / 2}
+          offsetY={height / 2}
+          rotation={straighten}
+          scaleX={straightenScale}
+          scaleY={straightenScale}
+        >
+          <KonvaImage
+            image={before}
+            width={width}
+            height={height}
+            perfectDrawEnabled={false}
+          />
+        </Group>
+      </Group>
+
+      <Text
+        x={clip.x + labelPad}
+        y={clip.y + labelPad}
+        text="Before"
+        fontSize={fontSize}
+        fill="#ffffff"
+        shadowColor="#000000"
+        shadowBlur={4 / scale}
+        listening={false}
+      />
+      <Text
+        x={clip.x + clip.width - labelPad - fontSize * 2.4}
+        y={clip.y + labelPad}
+        text="After"
+        fontSize={fontSize}
+        fill="#ffffff"
+        shadowColor="#000000"
+        shadowBlur={4 / scale}
+        listening={false}
+      />
+
+      <Line
+        points={[dividerX, clip.y, dividerX, clip.y + clip.height]}
+        stroke="#ffffff"
+        strokeWidth={2 / scale}
+        listening={false}
+      />
+      <Circle
+        x={dividerX}
+        y={centerY}
+        radius={9 / scale}
+        fill={HANDLE_COLOR}
+        stroke="#0d0d0d"
+        strokeWidth={1.5 / scale}
+        draggable
+        onMouseDown={stop}
+        onTouchStart={stop}
+        onDragStart={stop}
+        onDragMove={(e) => {
+          stop(e);
+          const next = toSplit(e.target.x());
+          e.target.position({ x: clip.x + next * clip.width, y: centerY });
+          setDraft(next);
+        }}
+        onDragEnd={(e) => {
+          stop(e);
+          if (draft !== null) onChange(draft);
+          setDraft(null);
+        }}
+        onMouseEnter={(e) => {
+          const container = e.target.getStage()?.container();
+          if (container) container.style.cursor = "ew-resize";
+        }}
+        onMouseLeave={(e) => {
+          const container = e.target.getStage()?.container();
+          if (container) container.style.cursor = "default";
+        }}
+      />
+    </Group>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import React from "react";
+import { Group, Label, Path, Rect, Tag, Text } from "react-konva";
+import type { CollabOnlineUser } from "@/lib/types";
+
+export interface CollabCursorsProps {
+  /** Other online members (not the current user) */
+  users: CollabOnlineUser[];
+  /** Stage zoom: cursors and name tags keep a constant on-screen size */
+  stageScale: number;
+}
+
+const CURSOR_PATH =
+  "M0 0 L0 17 L4.5 12.5 L7.5 19.5 L10.5 18.2 L7.5 11.3 L13 11.3 Z";
+const LABEL_FONT_SIZE = 11;
+
+// Other members' pointers (colored arrow + name tag) and the canvas area each one is viewing.
+export function CollabCursors({ users, stageScale }: CollabCursorsProps) {
+  const inv = 1 / stageScale;
+
+  return (
+    <Group listening={false}>
+      {users.map(
+        (u) =>
+          u.viewport && (
+            <Rect
+              key={`viewport-${u.id}`}
+              x={u.viewport.x}
+              y={u.viewport.y}
+              width={u.viewport.width}
+              height={u.viewport.height}
+              stroke={u.color}
+              strokeWidth={1}
+              strokeScaleEnabled={false}
+              dash={[6 * inv, 4 * inv]}
+              opacity={0.4}
+            />
+          ),
+      )}
+      {users.map((u) => {
+        if (!u.cursor) return null;
+        return (
+          <Group
+            key={`cursor-${u.id}`}
+            x={u.cursor.x}
+            y={u.cursor.y}
+            scaleX={inv}
+            scaleY={inv}
+          >
+            <Path
+              data={CURSOR_PATH}
+              fill={u.color}
+              stroke="#0d0d0d"
+              strokeWidth={1}
+            />
+            <Label x={12} y={18}>
+              <Tag fill={u.color} cornerRadius={4} />
+              <Text
+                text={u.name || u.email.split("@")[0]}
+                fontSize={LABEL_FONT_SIZE}
+                fontStyle="bold"
+                fill="#0d0d0d"
+                padding={4}
+              />
+            </Label>
+          </Group>
+        );
+      })}
+    </Group>
+  );
+}
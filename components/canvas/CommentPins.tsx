@@ -0,0 +1,84 @@
+"use client";
+
+import React from "react";
+import Konva from "konva";
+import { Group, Circle, Text } from "react-konva";
+
+/** Comment pin on a photo; threadId null = pin for a thread not posted yet */
+export interface CommentPin {
+  threadId: string | null;
+  /** Normalized 0-1 coords of the uncropped photo */
+  x: number;
+  y: number;
+  label: string;
+  active?: boolean;
+}
+
+export interface CommentPinsProps {
+  pins: CommentPin[];
+  width: number;
+  height: number;
+  /** Straighten scale of the parent group: pins keep their size */
+  scale: number;
+  onPinClick?: (threadId: string) => void;
+}
+
+const PIN_COLOR = "#3ECF8E";
+const ACTIVE_PIN_COLOR = "#F59E0B";
+
+// Numbered comment markers, sized to the photo; clicking one opens its thread.
+export function CommentPins({
+  pins,
+  width,
+  height,
+  scale,
+  onPinClick,
+}: CommentPinsProps) {
+  const radius = (Math.min(width, height) * 0.025) / scale;
+
+  const setCursor = (e: Konva.KonvaEventObject<MouseEvent>, v: string) => {
+    const container = e.target.getStage()?.container();
+    if (container) container.style.cursor = v;
+  };
+
+  return (
+    <Group>
+      {pins.map((pin) => {
+        const { threadId } = pin;
+        return (
+          <Group
+            key={threadId ?? "draft"}
+            x={pin.x * width}
+            y={pin.y * height}
+            listening={!!threadId && !!onPinClick}
+            onClick={(e) => {
+              e.cancelBubble = true;
+              if (threadId) onPinClick?.(threadId);
+            }}
+            onMouseEnter={(e) => setCursor(e, "pointer")}
+            onMouseLeave={(e) => setCursor(e, "default")}
+          >
+            <Circle
+              radius={radius}
+              fill={pin.active || !threadId ? ACTIVE_PIN_COLOR : PIN_COLOR}
+              stroke="#0d0d0d"
+              strokeWidth={radius * 0.15}
+            />
+            <Text
+              x={-radius}
+              y={-radius}
+              width={radius * 2}
+              height={radius * 2}
+              text={pin.label}
+              fontSize={radius}
+              fontStyle="bold"
+              fill="#0d0d0d"
+              align="center"
+              verticalAlign="middle"
+            />
+          </Group>
+        );
+      })}
+    </Group>
+  );
+}
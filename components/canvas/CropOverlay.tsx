@@ -0,0 +1,202 @@
+"use client";
+
+import React, { useState } from "react";
+import { Group, Rect, Circle, Line } from "react-konva";
+import Konva from "konva";
+import type { CropRect } from "@/lib/types";
+import { useCanvasStore, selectStageScale } from "@/lib/stores/canvasStore";
+
+export interface CropOverlayProps {
+  crop: CropRect;
+  /** Image size in node-local units (same as ImageNode's KonvaImage) */
+  width: number;
+  height: number;
+  /** Image group scale, combined with stage zoom to keep handles a constant on-screen size */
+  nodeScale: number;
+  /** Locked aspect ratio (width / height in pixels), null for free */
+  aspect: number | null;
+  /** Called once per gesture (drag end) with the updated crop */
+  onChange: (crop: CropRect) => void;
+}
+
+const HANDLE_COLOR = "#3ECF8E";
+const MIN_CROP = 0.02;
+
+const CORNERS = [
+  { cx: 0, cy: 0 },
+  { cx: 1, cy: 0 },
+  { cx: 0, cy: 1 },
+  { cx: 1, cy: 1 },
+];
+
+// Interactive crop rectangle: drag inside to move, drag corners to resize.
+// Works on a local draft while dragging and commits once on drag end.
+export function CropOverlay({
+  crop,
+  width,
+  height,
+  nodeScale,
+  aspect,
+  onChange,
+}: CropOverlayProps) {
+  const stageScale = useCanvasStore(selectStageScale);
+  const scale = stageScale * nodeScale;
+  const [draft, setDraft] = useState<CropRect | null>(null);
+
+  const c = draft ?? crop;
+  const px = c.x * width;
+  const py = c.y * height;
+  const pw = c.width * width;
+  const ph = c.height * height;
+
+  const handleRadius = 7 / scale;
+  const strokeWidth = 1.5 / scale;
+
+  const stop = (e: Konva.KonvaEventObject<Event>) => {
+    e.cancelBubble = true;
+  };
+
+  const commit = () => {
+    if (draft) onChange(draft);
+    setDraft(null);
+  };
+
+  // Resize from a corner while the opposite corner stays fixed
+  const resizeFromCorner = (
+    corner: { cx: number; cy: number },
+    pos: { x: number; y: number },
+  ) => {
+    const anchorX = corner.cx === 0 ? px + pw : px;
+    const anchorY = corner.cy === 0 ? py + ph : py;
+    const maxW = corner.cx === 0 ? anchorX : width - anchorX;
+    const maxH = corner.cy === 0 ? anchorY : height - anchorY;
+    let w = Math.min(maxW, Math.max(MIN_CROP * width, Math.abs(anchorX - pos.x)));
+    let h = Math.min(
+      maxH,
+      Math.max(MIN_CROP * height, Math.abs(anchorY - pos.y)),
+    );
+    if (aspect) {
+      if (w / h > aspect) w = h * aspect;
+      else h = w / aspect;
+      if (w > maxW) {
+        w = maxW;
+        h = w / aspect;
+      }
+      if (h > maxH) {
+        h = maxH;
+        w = h * aspect;
+      }
+    }
+    const x = corner.cx === 0 ? anchorX - w : anchorX;
+    const y = corner.cy === 0 ? anchorY - h : anchorY;
+    setDraft({
+      x: x / width,
+      y: y / height,
+      width: w / width,
+      height: h / height,
+    });
+  };
+
+  const dim = "rgba(0, 0, 0, 0.6)";
+
+  return (
+    <Group>
+      {/* Dim everything outside the crop */}
+      <Rect x={0} y={0} width={width} height={py} fill={dim} listening={false} />
+      <Rect
+        x={0}
+        y={py + ph}
+        width={width}
+        height={height - py - ph}
+        fill={dim}
+        listening={false}
+      />
+      <Rect x={0} y={py} width={px} height={ph} fill={dim} listening={false} />
+      <Rect
+        x={px + pw}
+        y={py}
+        width={width - px - pw}
+        height={ph}
+        fill={dim}
+        listening={false}
+      />
+
+      {/* Rule of thirds */}
+      {[1, 2].map((i) => (
+        <React.Fragment key={i}>
+          <Line
+            points={[px + (pw * i) / 3, py, px + (pw * i) / 3, py + ph]}
+            stroke="rgba(255, 255, 255, 0.4)"
+            strokeWidth={strokeWidth / 1.5}
+            listening={false}
+          />
+          <Line
+            points={[px, py + (ph * i) / 3, px + pw, py + (ph * i) / 3]}
+            stroke="rgba(255, 255, 255, 0.4)"
+            strokeWidth={strokeWidth / 1.5}
+            listening={false}
+          />
+        </React.Fragment>
+      ))}
+
+      {/* Crop body (drag to move) */}
+      <Rect
+        x={px}
+        y={py}
+        width={pw}
+        height={ph}
+        stroke={HANDLE_COLOR}
+        strokeWidth={strokeWidth}
+        fill="transparent"
+        draggable
+        onMouseDown={stop}
+        onTouchStart={stop}
+        onDragStart={stop}
+        onDragMove={(e) => {
+          stop(e);
+          const x = Math.max(0, Math.min(width - pw, e.target.x()));
+          const y = Math.max(0, Math.min(height - ph, e.target.y()));
+          e.target.position({ x, y });
+          setDraft({ ...c, x: x / width, y: y / height });
+        }}
+        onDragEnd={(e) => {
+          stop(e);
+          commit();
+        }}
+        onMouseEnter={(e) => {
+          const container = e.target.getStage()?.container();
+          if (container) container.style.cursor = "move";
+        }}
+        onMouseLeave={(e) => {
+          const container = e.target.getStage()?.container();
+          if (container) container.style.cursor = "default";
+        }}
+      />
+
+      {/* Corner handles (drag to resize) */}
+      {CORNERS.map((corner) => (
+        <Circle
+          key={`${corner.cx}-${corner.cy}`}
+          x={px + corner.cx * pw}
+          y={py + corner.cy * ph}
+          radius={handleRadius}
+          fill={HANDLE_COLOR}
+          stroke="#0d0d0d"
+          strokeWidth={strokeWidth}
+          draggable
+          onMouseDown={stop}
+          onTouchStart={stop}
+          onDragStart={stop}
+          onDragMove={(e) => {
+            stop(e);
+            resizeFromCorner(corner, { x: e.target.x(), y: e.target.y() });
+          }}
+          onDragEnd={(e) => {
+            stop(e);
+            commit();
+          }}
+        />
+      ))}
+    </Group>
+  );
+}
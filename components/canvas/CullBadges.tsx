@@ -0,0 +1,93 @@
+"use client";
+
+import React from "react";
+import { Group, Rect, Circle, Text } from "react-konva";
+import { COLOR_LABELS, type CullMarks } from "@/lib/types";
+
+export interface CullBadgesProps {
+  marks: CullMarks;
+  /** Visible (cropped) area of the photo in node-local units */
+  clip: { x: number; y: number; width: number; height: number };
+}
+
+const STAR_COLOR = "#facc15";
+const PICK_COLOR = "#3ECF8E";
+const REJECT_COLOR = "#f87171";
+
+// Rating / color label / flag pill in the photo's bottom-left corner, sized to the photo.
+// Rejected photos are dimmed, like in a culling grid.
+export function CullBadges({ marks, clip }: CullBadgesProps) {
+  const rating = marks.rating ?? 0;
+  const label = COLOR_LABELS.find((c) => c.id === marks.colorLabel);
+  const flag = marks.flag ?? null;
+  if (rating === 0 && !label && !flag) return null;
+
+  const size = Math.min(clip.width, clip.height) * 0.08;
+  const pad = size * 0.3;
+  let cursor = pad;
+
+  const starsX = cursor;
+  if (rating > 0) cursor += rating * size + pad;
+  const labelX = cursor;
+  if (label) cursor += size * 0.8 + pad;
+  const flagX = cursor;
+  if (flag) cursor += size + pad;
+
+  const top = clip.y + clip.height - size - pad * 3;
+
+  return (
+    <Group listening={false}>
+      {flag === "reject" && (
+        <Rect
+          x={clip.x}
+          y={clip.y}
+          width={clip.width}
+          height={clip.height}
+          fill="rgba(0, 0, 0, 0.5)"
+        />
+      )}
+      <Group x={clip.x + pad} y={top}>
+        <Rect
+          width={cursor}
+          height={size + pad * 2}
+          cornerRadius={size * 0.3}
+          fill="rgba(0, 0, 0, 0.6)"
+        />
+        {rating > 0 && (
+          <Text
+            x={starsX}
+            y={pad}
+            width={rating * size}
+            height={size}
+            text={"★".repeat(rating)}
+            fontSize={size}
+            fill={STAR_COLOR}
+            verticalAlign="middle"
+          />
+        )}
+        {label && (
+          <Circle
+            x={labelX + size * 0.4}
+            y={pad + size / 2}
+            radius={size * 0.4}
+            fill={label.color}
+          />
+        )}
+        {flag && (
+          <Text
+            x={flagX}
+            y={pad}
+            width={size}
+            height={size}
+            text={flag === "pick" ? "⚑" : "✕"}
+            fontSize={size}
+            fontStyle="bold"
+            fill={flag === "pick" ? PICK_COLOR : REJECT_COLOR}
+            align="center"
+            verticalAlign="middle"
+          />
+        )}
+      </Group>
+    </Group>
+  );
+}
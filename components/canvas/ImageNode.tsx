@@ -1,12 +1,36 @@
 "use client";
 
-import React, { useRef, useEffect } from "react";
+import React, { useRef, useEffect, useMemo } from "react";
 import { Image as KonvaImage, Group, Rect } from "react-konva";
 import useImage from "use-image";
 import Konva from "konva";
-import type { CanvasImage } from "@/lib/types";
+import type {
+  CanvasImage,
+  ClippingWarnings,
+  CollabMember,
+  CropRect,
+  LocalMask,
+  PixelReadout,
+  TargetedAdjustment,
+} from "@/lib/types";
+import { DEFAULT_CURVES } from "@/lib/types";
 import { usePixiFilters } from "@/lib/hooks/usePixiFilters";
+import { getPixiFilterEngine } from "@/lib/filters/pixiFilterEngine";
 import { GRID_CONFIG } from "@/lib/folders/folderLayout";
+import {
+  getStraightenScale,
+  TARGETED_DRAG_SCALE,
+  getCurveInput,
+  adjustCurveAt,
+  getHslBandWeights,
+  adjustHslBands,
+} from "@/lib/filters/core";
+import { MaskOverlay } from "./MaskOverlay";
+import { CropOverlay } from "./CropOverlay";
+import { BeforeAfterSplit } from "./BeforeAfterSplit";
+import { CullBadges } from "./CullBadges";
+import { SoftLockBadge } from "./SoftLockBadge";
+import { CommentPins, type CommentPin } from "./CommentPins";
 
 export interface ImageNodeProps {
   image: CanvasImage;
@@ -28,10 +52,49 @@ export interface ImageNodeProps {
     imageId: string,
   ) => void;
   onUpdate: (updates: Partial<CanvasImage>) => void;
-  bypassedTabs?: Set<"curves" | "light" | "color" | "effects">;
+  bypassedTabs?: Set<"curves" | "light" | "color" | "effects" | "masks">;
   useLowResPreview?: boolean;
   isSelected?: boolean;
   draggable?: boolean;
+  /** Local adjustment mask being edited (shows handles / brush painting) */
+  activeMask?: LocalMask | null;
+  maskBrush?: { radius: number; erase: boolean };
+  onMaskChange?: (mask: LocalMask) => void;
+  /** Crop editing: show the full straightened frame with the crop overlay */
+  isCropping?: boolean;
+  cropAspect?: number | null;
+  onCropChange?: (crop: CropRect) => void;
+  /** Clipped highlights / shadows drawn over the photo */
+  clippingWarnings?: ClippingWarnings | null;
+  /** Before/after RGB under the pointer (null when it leaves the photo) */
+  onPixelHover?: (readout: PixelReadout | null) => void;
+  /** Targeted adjustment tool: vertical drag on the photo edits a curve / HSL bands */
+  targetedAdjustment?: TargetedAdjustment | null;
+  /** Live edits while dragging; isFirst marks the start of the drag (one undo step) */
+  onTargetedAdjust?: (updates: Partial<CanvasImage>, isFirst: boolean) => void;
+  /** Before/after divider position (0-1), null = no split view */
+  compareSplit?: number | null;
+  onCompareSplitChange?: (split: number) => void;
+  /** Another session member has this photo open in EditPanel (soft lock badge) */
+  lockedBy?: CollabMember | null;
+  /** Collab comment pins on the photo */
+  commentPins?: CommentPin[];
+  onCommentPinClick?: (threadId: string) => void;
+  /** Pin placement mode: clicking the photo reports the point instead of selecting */
+  onPlaceCommentPin?: (point: { x: number; y: number }) => void;
+}
+
+// RGB at a normalized (0-1) position of the original image or a filtered canvas
+function samplePixelAt(
+  source: HTMLCanvasElement | HTMLImageElement,
+  u: number,
+  v: number,
+) {
+  const w =
+    source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const h =
+    source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  return getPixiFilterEngine().samplePixel(source, u * w, v * h);
 }
 
 // Image node component - memoized to prevent unnecessary re-renders
@@ -51,6 +114,22 @@ export const ImageNode = React.memo(
     bypassedTabs,
     isSelected,
     draggable = true,
+    activeMask,
+    maskBrush,
+    onMaskChange,
+    isCropping,
+    cropAspect,
+    onCropChange,
+    clippingWarnings,
+    onPixelHover,
+    targetedAdjustment,
+    onTargetedAdjust,
+    compareSplit,
+    onCompareSplitChange,
+    lockedBy,
+    commentPins,
+    onCommentPinClick,
+    onPlaceCommentPin,
   }: ImageNodeProps) {
     const [img, imgStatus] = useImage(image.src, "anonymous");
     const imageRef = useRef<Konva.Image>(null);
@@ -97,6 +176,36 @@ export const ImageNode = React.memo(
       node.getLayer()?.batchDraw();
     }, [filteredCanvas, hasActiveFilters]);
 
+    // Clipping overlay from the displayed pixels (downsampled, scaled up over the photo)
+    const clippingOverlay = useMemo(() => {
+      if (!img || !clippingWarnings) return null;
+      const { shadows, highlights } = clippingWarnings;
+      if (!shadows && !highlights) return null;
+      return getPixiFilterEngine().renderClippingOverlay(
+        filteredCanvas ?? img,
+        clippingWarnings,
+      );
+    }, [img, filteredCanvas, clippingWarnings]);
+
+    // Konva auto-draw is off: repaint when an overlay or badge appears, changes or goes away
+    useEffect(() => {
+      imageRef.current?.getLayer()?.batchDraw();
+    }, [
+      clippingOverlay,
+      compareSplit,
+      image.rating,
+      image.colorLabel,
+      image.flag,
+      lockedBy,
+      commentPins,
+    ]);
+
+    // Drop the readout when hovering stops being tracked (deselect, panel closed)
+    useEffect(() => {
+      if (!onPixelHover) return;
+      return () => onPixelHover(null);
+    }, [onPixelHover]);
+
     if (!img || imgStatus === "loading") {
       return null;
     }
@@ -124,6 +233,125 @@ export const ImageNode = React.memo(
       groupScaleY = image.scaleY * fitScale;
     }
 
+    // Pointer position on the photo, normalized to 0-1 (null outside it)
+    const getPointerUV = () => {
+      const pos = imageRef.current?.getRelativePointerPosition();
+      if (!pos) return null;
+      const u = pos.x / image.width;
+      const v = pos.y / image.height;
+      return u >= 0 && u < 1 && v >= 0 && v < 1 ? { u, v } : null;
+    };
+
+    const handlePixelHover = (e: Konva.KonvaEventObject<MouseEvent>) => {
+      if (!onPixelHover) return;
+      const uv = getPointerUV();
+      if (!uv) {
+        onPixelHover(null);
+        return;
+      }
+      const before = samplePixelAt(img, uv.u, uv.v);
+      const after = filteredCanvas
+        ? samplePixelAt(filteredCanvas, uv.u, uv.v)
+        : before;
+      if (!before || !after) return;
+      onPixelHover({
+        imageId: image.id,
+        clientX: e.evt.clientX,
+        clientY: e.evt.clientY,
+        before,
+        after,
+      });
+    };
+
+    // Targeted adjustment: the pressed pixel picks the curve point (original pixel, curves
+    // run first) or HSL bands (displayed pixel); dragging up raises it, down lowers it
+    const isTargeting = !!(
+      isSelected &&
+      targetedAdjustment &&
+      onTargetedAdjust
+    );
+    const handleTargetedDragStart = (e: Konva.KonvaEventObject<MouseEvent>) => {
+      if (!targetedAdjustment || !onTargetedAdjust || e.evt.button !== 0) {
+        return;
+      }
+      const uv = getPointerUV();
+      if (!uv) return;
+
+      let apply: (delta: number) => Partial<CanvasImage>;
+      if (targetedAdjustment.kind === "curves") {
+        const rgb = samplePixelAt(img, uv.u, uv.v);
+        if (!rgb) return;
+        const { channel } = targetedAdjustment;
+        const x = getCurveInput(rgb, channel);
+        const curves = image.curves ?? DEFAULT_CURVES;
+        apply = (delta) => ({
+          curves: {
+            ...curves,
+            [channel]: adjustCurveAt(curves[channel], x, delta),
+          },
+        });
+      } else {
+        const rgb = samplePixelAt(filteredCanvas ?? img, uv.u, uv.v);
+        if (!rgb) return;
+        const weights = getHslBandWeights(rgb);
+        if (Object.keys(weights).length === 0) return;
+        const { property } = targetedAdjustment;
+        const colorHSL = image.colorHSL;
+        apply = (delta) => ({
+          colorHSL: adjustHslBands(colorHSL, weights, property, delta),
+        });
+      }
+
+      e.cancelBubble = true;
+      const startY = e.evt.clientY;
+      let lastY = startY;
+      let isFirst = true;
+      let frame = 0;
+      const flush = () => {
+        frame = 0;
+        const delta = (startY - lastY) * TARGETED_DRAG_SCALE;
+        onTargetedAdjust(apply(delta), isFirst);
+        isFirst = false;
+      };
+      // One update per frame: each one re-renders the photo through the GPU pipeline
+      const onMove = (ev: MouseEvent) => {
+        lastY = ev.clientY;
+        if (!frame) frame = requestAnimationFrame(flush);
+      };
+      const onUp = () => {
+        window.removeEventListener("mousemove", onMove);
+        window.removeEventListener("mouseup", onUp);
+        if (frame) {
+          cancelAnimationFrame(frame);
+          flush();
+        }
+      };
+      window.addEventListener("mousemove", onMove);
+      window.addEventListener("mouseup", onUp);
+    };
+
+    // Mask / crop editing takes over pointer input, so the image can't be dragged meanwhile
+    const isEditingMask = !!(isSelected && activeMask && onMaskChange);
+    const isEditingCrop = !!(isSelected && isCropping && onCropChange);
+
+    // Straighten rotates the photo around its center, scaled to cover the frame;
+    // the crop then clips it in place (layout box stays image.width x image.height)
+    const straighten = image.straighten ?? 0;
+    const straightenScale = getStraightenScale(
+      image.width,
+      image.height,
+      straighten,
+    );
+    const crop = image.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+    const clip = isEditingCrop
+      ? { x: 0, y: 0, width: image.width, height: image.height }
+      : {
+          x: crop.x * image.width,
+          y: crop.y * image.height,
+          width: crop.width * image.width,
+          height: crop.height * image.height,
+        };
+
     return (
       <Group
         ref={groupRef}
@@ -133,9 +361,19 @@ export const ImageNode = React.memo(
         rotation={image.rotation}
         scaleX={groupScaleX}
         scaleY={groupScaleY}
-        draggable={draggable}
+        draggable={
+          draggable && !isEditingMask && !isEditingCrop && !isTargeting
+        }
         listening={true}
-        onClick={onClick}
+        onClick={(e) => {
+          if (!onPlaceCommentPin) {
+            onClick(e);
+            return;
+          }
+          e.cancelBubble = true;
+          const uv = getPointerUV();
+          if (uv) onPlaceCommentPin({ x: uv.u, y: uv.v });
+        }}
         onDblClick={(e) => {
           e.cancelBubble = true;
           onDblClick?.(e);
@@ -157,7 +395,10 @@ export const ImageNode = React.memo(
         onTouchMove={(e) => onTouchMove?.(e, image.id)}
         onMouseEnter={(e) => {
           const container = e.target.getStage()?.container();
-          if (container && draggable) container.style.cursor = "pointer";
+          if (container && isTargeting) container.style.cursor = "ns-resize";
+          else if (container && onPlaceCommentPin)
+            container.style.cursor = "crosshair";
+          else if (container && draggable) container.style.cursor = "pointer";
         }}
         onMouseLeave={(e) => {
           const container = e.target.getStage()?.container();
@@ -183,36 +424,121 @@ export const ImageNode = React.memo(
       >
         {hasBorder && (
           <Rect
-            x={-borderWidth}
-            y={-borderWidth}
-            width={image.width + borderWidth * 2}
-            height={image.height + borderWidth * 2}
+            x={clip.x - borderWidth}
+            y={clip.y - borderWidth}
+            width={clip.width + borderWidth * 2}
+            height={clip.height + borderWidth * 2}
             fill={borderColor}
             listening={false}
           />
         )}
-        <KonvaImage
-          ref={imageRef}
-          id={image.id}
-          image={displayImage}
-          x={0}
-          y={0}
-          width={image.width}
-          height={image.height}
-          perfectDrawEnabled={false}
-          onTransformEnd={() => {
-            const node = imageRef.current;
-            if (!node) return;
-            const group = node.getParent();
-            if (group) {
-              onUpdate({
-                scaleX: group.scaleX(),
-                scaleY: group.scaleY(),
-                rotation: group.rotation(),
-              });
-            }
-          }}
-        />
+        <Group
+          clipX={clip.x}
+          clipY={clip.y}
+          clipWidth={clip.width}
+          clipHeight={clip.height}
+        >
+          <Group
+            x={image.width / 2}
+            y={image.height / 2}
+            offsetX={image.width / 2}
+            offsetY={image.height / 2}
+            rotation={straighten}
+            scaleX={straightenScale}
+            scaleY={straightenScale}
+          >
+            <KonvaImage
+              ref={imageRef}
+              id={image.id}
+              image={displayImage}
+              x={0}
+              y={0}
+              width={image.width}
+              height={image.height}
+              perfectDrawEnabled={false}
+              onMouseDown={isTargeting ? handleTargetedDragStart : undefined}
+              onMouseMove={onPixelHover ? handlePixelHover : undefined}
+              onMouseLeave={onPixelHover ? () => onPixelHover(null) : undefined}
+              onTransformEnd={() => {
+                const group = groupRef.current;
+                if (group) {
+                  onUpdate({
+                    scaleX: group.scaleX(),
+                    scaleY: group.scaleY(),
+                    rotation: group.rotation(),
+                  });
+                }
+              }}
+            />
+            {clippingOverlay && (
+              <KonvaImage
+                image={clippingOverlay}
+                width={image.width}
+                height={image.height}
+                listening={false}
+                perfectDrawEnabled={false}
+              />
+            )}
+            {isEditingMask && (
+              <MaskOverlay
+                mask={activeMask!}
+                width={image.width}
+                height={image.height}
+                nodeScale={groupScaleX * straightenScale}
+                brush={maskBrush ?? { radius: 0.05, erase: false }}
+                onChange={onMaskChange!}
+              />
+            )}
+            {commentPins &&
+              commentPins.length > 0 &&
+              !isEditingMask &&
+              !isEditingCrop && (
+                <CommentPins
+                  pins={commentPins}
+                  width={image.width}
+                  height={image.height}
+                  scale={straightenScale}
+                  onPinClick={onCommentPinClick}
+                />
+              )}
+          </Group>
+        </Group>
+        {!isEditingCrop && (
+          <CullBadges
+            marks={{
+              rating: image.rating,
+              colorLabel: image.colorLabel,
+              flag: image.flag,
+            }}
+            clip={clip}
+          />
+        )}
+        {lockedBy && !isEditingCrop && (
+          <SoftLockBadge member={lockedBy} clip={clip} />
+        )}
+        {compareSplit != null && onCompareSplitChange && !isEditingCrop && (
+          <BeforeAfterSplit
+            before={img}
+            width={image.width}
+            height={image.height}
+            clip={clip}
+            straighten={straighten}
+            straightenScale={straightenScale}
+            nodeScale={groupScaleX}
+            split={compareSplit}
+            onChange={onCompareSplitChange}
+          />
+        )}
+        {isEditingCrop && (
+          <CropOverlay
+            crop={crop}
+            width={image.width}
+            height={image.height}
+            nodeScale={groupScaleX}
+            aspect={cropAspect ?? null}
+            onChange={onCropChange!}
+          />
+        )}
       </Group>
     );
   },
@@ -240,6 +566,14 @@ export const ImageNode = React.memo(
     )
       return false;
 
+    // Culling badges
+    if (
+      prev.rating !== next.rating ||
+      prev.colorLabel !== next.colorLabel ||
+      prev.flag !== next.flag
+    )
+      return false;
+
     // Light adjustments
     if (
       prev.exposure !== next.exposure ||
@@ -281,11 +615,18 @@ export const ImageNode = React.memo(
       prev.splitToning !== next.splitToning ||
       prev.colorGrading !== next.colorGrading ||
       prev.colorCalibration !== next.colorCalibration ||
-      prev.shadowTint !== next.shadowTint
+      prev.shadowTint !== next.shadowTint ||
+      prev.masks !== next.masks ||
+      prev.profile !== next.profile
     ) {
       return false;
     }
 
+    // Crop & straighten
+    if (prev.crop !== next.crop || prev.straighten !== next.straighten) {
+      return false;
+    }
+
     // Filters array
     if (
       prev.filters.length !== next.filters.length ||
@@ -307,6 +648,54 @@ export const ImageNode = React.memo(
     // Selection state changed
     if (prevProps.isSelected !== nextProps.isSelected) return false;
 
+    // Mask editing state changed
+    if (
+      prevProps.activeMask !== nextProps.activeMask ||
+      prevProps.maskBrush !== nextProps.maskBrush ||
+      prevProps.onMaskChange !== nextProps.onMaskChange
+    )
+      return false;
+
+    // Crop editing state changed
+    if (
+      prevProps.isCropping !== nextProps.isCropping ||
+      prevProps.cropAspect !== nextProps.cropAspect ||
+      prevProps.onCropChange !== nextProps.onCropChange
+    )
+      return false;
+
+    // Clipping overlay / pixel readout state changed
+    if (
+      prevProps.clippingWarnings !== nextProps.clippingWarnings ||
+      prevProps.onPixelHover !== nextProps.onPixelHover
+    )
+      return false;
+
+    // Targeted adjustment tool changed
+    if (
+      prevProps.targetedAdjustment !== nextProps.targetedAdjustment ||
+      prevProps.onTargetedAdjust !== nextProps.onTargetedAdjust
+    )
+      return false;
+
+    // Before/after split changed
+    if (
+      prevProps.compareSplit !== nextProps.compareSplit ||
+      prevProps.onCompareSplitChange !== nextProps.onCompareSplitChange
+    )
+      return false;
+
+    // Soft lock by another member changed
+    if (prevProps.lockedBy !== nextProps.lockedBy) return false;
+
+    // Comment pins / pin placement changed
+    if (
+      prevProps.commentPins !== nextProps.commentPins ||
+      prevProps.onCommentPinClick !== nextProps.onCommentPinClick ||
+      prevProps.onPlaceCommentPin !== nextProps.onPlaceCommentPin
+    )
+      return false;
+
     return true;
   },
 );
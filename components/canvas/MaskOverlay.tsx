@@ -0,0 +1,254 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Group, Rect, Circle, Ellipse, Line } from "react-konva";
+import Konva from "konva";
+import type { LocalMask, BrushStroke } from "@/lib/types";
+import { useCanvasStore, selectStageScale } from "@/lib/stores/canvasStore";
+
+export interface MaskOverlayProps {
+  mask: LocalMask;
+  /** Image size in node-local units (same as ImageNode's KonvaImage) */
+  width: number;
+  height: number;
+  /** Image group scale, combined with stage zoom to keep handles a constant on-screen size */
+  nodeScale: number;
+  brush: { radius: number; erase: boolean };
+  /** Called once per gesture (handle drag end / stroke end) with the updated mask */
+  onChange: (mask: LocalMask) => void;
+}
+
+const HANDLE_COLOR = "#3ECF8E";
+
+// On-canvas editor for the active local adjustment mask.
+// Geometry is stored normalized (0-1), so everything here converts to/from node-local pixels.
+export function MaskOverlay({
+  mask,
+  width,
+  height,
+  nodeScale,
+  brush,
+  onChange,
+}: MaskOverlayProps) {
+  const stageScale = useCanvasStore(selectStageScale);
+  const scale = stageScale * nodeScale;
+  const [liveStroke, setLiveStroke] = useState<BrushStroke | null>(null);
+  const paintingRef = useRef(false);
+
+  const handleRadius = 6 / scale;
+  const strokeWidth = 1.5 / scale;
+
+  const toLocal = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
+    const pos = e.target.getRelativePointerPosition();
+    if (!pos) return null;
+    return {
+      x: Math.max(0, Math.min(1, pos.x / width)),
+      y: Math.max(0, Math.min(1, pos.y / height)),
+    };
+  };
+
+  // Handles stop propagation so the image group doesn't start dragging/selecting
+  const handleProps = {
+    radius: handleRadius,
+    fill: HANDLE_COLOR,
+    stroke: "#0d0d0d",
+    strokeWidth,
+    draggable: true,
+    onMouseDown: (e: Konva.KonvaEventObject<MouseEvent>) => {
+      e.cancelBubble = true;
+    },
+    onTouchStart: (e: Konva.KonvaEventObject<TouchEvent>) => {
+      e.cancelBubble = true;
+    },
+    onDragStart: (e: Konva.KonvaEventObject<DragEvent>) => {
+      e.cancelBubble = true;
+    },
+    onDragMove: (e: Konva.KonvaEventObject<DragEvent>) => {
+      e.cancelBubble = true;
+    },
+  };
+
+  if (mask.type === "radial" && mask.radial) {
+    const { cx, cy, rx, ry, feather } = mask.radial;
+    const px = cx * width;
+    const py = cy * height;
+    const prx = rx * width;
+    const pry = ry * height;
+    const commit = (updates: Partial<typeof mask.radial>) =>
+      onChange({ ...mask, radial: { ...mask.radial!, ...updates } });
+
+    return (
+      <Group>
+        <Ellipse
+          x={px}
+          y={py}
+          radiusX={prx}
+          radiusY={pry}
+          stroke={HANDLE_COLOR}
+          strokeWidth={strokeWidth}
+          listening={false}
+        />
+        <Ellipse
+          x={px}
+          y={py}
+          radiusX={prx * (1 - feather)}
+          radiusY={pry * (1 - feather)}
+          stroke={HANDLE_COLOR}
+          strokeWidth={strokeWidth}
+          dash={[4 / scale, 4 / scale]}
+          listening={false}
+        />
+        <Circle
+          {...handleProps}
+          x={px}
+          y={py}
+          onDragEnd={(e) => {
+            e.cancelBubble = true;
+            commit({ cx: e.target.x() / width, cy: e.target.y() / height });
+          }}
+        />
+        <Circle
+          {...handleProps}
+          x={px + prx}
+          y={py}
+          dragBoundFunc={function (this: Konva.Node, pos) {
+            return { x: pos.x, y: this.absolutePosition().y };
+          }}
+          onDragEnd={(e) => {
+            e.cancelBubble = true;
+            commit({ rx: Math.max(0.01, (e.target.x() - px) / width) });
+          }}
+        />
+        <Circle
+          {...handleProps}
+          x={px}
+          y={py + pry}
+          dragBoundFunc={function (this: Konva.Node, pos) {
+            return { x: this.absolutePosition().x, y: pos.y };
+          }}
+          onDragEnd={(e) => {
+            e.cancelBubble = true;
+            commit({ ry: Math.max(0.01, (e.target.y() - py) / height) });
+          }}
+        />
+      </Group>
+    );
+  }
+
+  if (mask.type === "linear" && mask.linear) {
+    const { x1, y1, x2, y2 } = mask.linear;
+    const commit = (updates: Partial<typeof mask.linear>) =>
+      onChange({ ...mask, linear: { ...mask.linear!, ...updates } });
+
+    return (
+      <Group>
+        <Line
+          points={[x1 * width, y1 * height, x2 * width, y2 * height]}
+          stroke={HANDLE_COLOR}
+          strokeWidth={strokeWidth}
+          dash={[4 / scale, 4 / scale]}
+          listening={false}
+        />
+        <Circle
+          {...handleProps}
+          x={x1 * width}
+          y={y1 * height}
+          onDragEnd={(e) => {
+            e.cancelBubble = true;
+            commit({ x1: e.target.x() / width, y1: e.target.y() / height });
+          }}
+        />
+        <Circle
+          {...handleProps}
+          fill="#0d0d0d"
+          stroke={HANDLE_COLOR}
+          x={x2 * width}
+          y={y2 * height}
+          onDragEnd={(e) => {
+            e.cancelBubble = true;
+            commit({ x2: e.target.x() / width, y2: e.target.y() / height });
+          }}
+        />
+      </Group>
+    );
+  }
+
+  if (mask.type === "brush" && mask.brush) {
+    const startStroke = (
+      e: Konva.KonvaEventObject<MouseEvent | TouchEvent>,
+    ) => {
+      e.cancelBubble = true;
+      const p = toLocal(e);
+      if (!p) return;
+      paintingRef.current = true;
+      setLiveStroke({
+        points: [p.x, p.y],
+        radius: brush.radius,
+        erase: brush.erase || undefined,
+      });
+    };
+    const extendStroke = (
+      e: Konva.KonvaEventObject<MouseEvent | TouchEvent>,
+    ) => {
+      if (!paintingRef.current) return;
+      e.cancelBubble = true;
+      const p = toLocal(e);
+      if (!p) return;
+      setLiveStroke((prev) =>
+        prev ? { ...prev, points: [...prev.points, p.x, p.y] } : prev,
+      );
+    };
+    const endStroke = () => {
+      if (!paintingRef.current) return;
+      paintingRef.current = false;
+      if (liveStroke) {
+        onChange({
+          ...mask,
+          brush: {
+            ...mask.brush!,
+            strokes: [...mask.brush!.strokes, liveStroke],
+          },
+        });
+      }
+      setLiveStroke(null);
+    };
+
+    return (
+      <Group>
+        {liveStroke && (
+          <Line
+            points={liveStroke.points.map((v, i) =>
+              i % 2 === 0 ? v * width : v * height,
+            )}
+            stroke={liveStroke.erase ? "#ff6b6b" : HANDLE_COLOR}
+            strokeWidth={liveStroke.radius * width * 2}
+            opacity={0.35}
+            lineCap="round"
+            lineJoin="round"
+            listening={false}
+          />
+        )}
+        <Rect
+          x={0}
+          y={0}
+          width={width}
+          height={height}
+          fill="transparent"
+          onMouseDown={startStroke}
+          onTouchStart={startStroke}
+          onMouseMove={extendStroke}
+          onTouchMove={extendStroke}
+          onMouseUp={endStroke}
+          onTouchEnd={endStroke}
+          onMouseLeave={endStroke}
+          onMouseEnter={(e) => {
+            const container = e.target.getStage()?.container();
+            if (container) container.style.cursor = "crosshair";
+          }}
+        />
+      </Group>
+    );
+  }
+
+  return null;
+}
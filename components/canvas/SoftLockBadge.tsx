@@ -0,0 +1,30 @@
+"use client";
+
+import React from "react";
+import { Label, Tag, Text } from "react-konva";
+import type { CollabMember } from "@/lib/types";
+
+export interface SoftLockBadgeProps {
+  member: CollabMember;
+  /** Visible (cropped) area of the photo in node-local units */
+  clip: { x: number; y: number; width: number; height: number };
+}
+
+// "name is editing" pill in the photo's top-left corner, sized to the photo, while another
+// member has it open in EditPanel. Nothing is blocked: edits still merge field by field.
+export function SoftLockBadge({ member, clip }: SoftLockBadgeProps) {
+  const size = Math.min(clip.width, clip.height) * 0.06;
+
+  return (
+    <Label x={clip.x + size * 0.3} y={clip.y + size * 0.3} listening={false}>
+      <Tag fill={member.color} cornerRadius={size * 0.3} />
+      <Text
+        text={`✎ ${member.name} is editing`}
+        fontSize={size}
+        fontStyle="bold"
+        fill="#0d0d0d"
+        padding={size * 0.35}
+      />
+    </Label>
+  );
+}
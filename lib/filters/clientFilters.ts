@@ -12,9 +12,23 @@ import type {
   SplitToning,
   ColorGrading,
   ColorCalibration,
+  CreativeProfile,
   CanvasImage,
+  LocalMask,
+  MaskAdjustments,
 } from "@/lib/types";
-import { buildLUT } from "./core";
+import {
+  buildLUT,
+  computeMaskWeights,
+  blendByMask,
+  hasMaskAdjustments,
+  isProfileActive,
+  applyProfileLut,
+  analyzeAutoTone,
+  getExportDimensions,
+  AUTO_TONE_SIZE,
+  type AutoToneValues,
+} from "./core";
 
 // Custom brightness filter that multiplies instead of adds (prevents black screens)
 // Uses pre-computed LUT for maximum performance
@@ -448,6 +462,11 @@ export function buildExportFilterList(
     list.push(createColorGradingFilter(image.colorGrading));
   if (image.colorCalibration)
     list.push(createColorCalibrationFilter(image.colorCalibration));
+  if (isProfileActive(image.profile))
+    list.push(createProfileFilter(image.profile));
+  for (const mask of image.masks ?? []) {
+    if (hasMaskAdjustments(mask)) list.push(createMaskFilter(mask));
+  }
   if (image.dehaze !== 0) list.push(createDehazeFilter(image.dehaze));
   if (image.vignette !== 0) list.push(createVignetteFilter(image.vignette));
   if (image.grain !== 0) list.push(createGrainFilter(image.grain));
@@ -479,7 +498,52 @@ export function buildExportFilterList(
   return list;
 }
 
-// Export using the same filter pipeline as the canvas (WYSIWYG). Load image from URL, apply filters, return JPEG blob.
+// Mask adjustment list - same creators and order as buildExportFilterList, limited to mask-capable adjustments
+function buildMaskAdjustmentFilterList(
+  adj: MaskAdjustments,
+): ((imageData: ImageData) => void)[] {
+  const list: ((imageData: ImageData) => void)[] = [];
+  if (adj.exposure) list.push(createExposureFilter(adj.exposure));
+  if (adj.highlights || adj.shadows || adj.whites || adj.blacks)
+    list.push(
+      createTonalFilter(
+        adj.highlights ?? 0,
+        adj.shadows ?? 0,
+        adj.whites ?? 0,
+        adj.blacks ?? 0,
+      ),
+    );
+  if (adj.clarity) list.push(createClarityFilter(adj.clarity));
+  if (adj.contrast) list.push(createContrastFilterParam(adj.contrast * 25));
+  if (adj.temperature) list.push(createTemperatureFilter(adj.temperature));
+  if (adj.saturation) list.push(createHSVFilterParam(adj.saturation * 2, 0));
+  if (adj.vibrance) list.push(createVibranceFilter(adj.vibrance));
+  if (adj.dehaze) list.push(createDehazeFilter(adj.dehaze));
+  return list;
+}
+
+// Creative profile filter - 3D LUT with trilinear interpolation, blended by amount
+export const createProfileFilter = (profile: CreativeProfile) => {
+  return function (imageData: ImageData) {
+    const { data, width, height } = imageData;
+    applyProfileLut(data, width * height, 4, profile);
+  };
+};
+
+// Local adjustment mask filter - runs the mask's adjustments on a copy and blends back by mask coverage
+export const createMaskFilter = (mask: LocalMask) => {
+  const adjustments = buildMaskAdjustmentFilterList(mask.adjustments);
+
+  return function (imageData: ImageData) {
+    const { width, height, data } = imageData;
+    const adjusted = new ImageData(new Uint8ClampedArray(data), width, height);
+    for (const f of adjustments) f(adjusted);
+    const weights = computeMaskWeights(mask, width, height);
+    blendByMask(data, adjusted.data, weights, 4);
+  };
+};
+
+// Export using the same filter pipeline as the canvas (WYSIWYG). Load image from URL, apply filters, return lossless PNG blob.
 export async function exportWithCanvasFilters(
   image: CanvasImage,
   imageUrl: string,
@@ -506,12 +570,38 @@ export async function exportWithCanvasFilters(
   return new Promise((resolve, reject) => {
     canvas.toBlob(
       (blob) => (blob ? resolve(blob) : reject(new Error("toBlob failed"))),
-      "image/jpeg",
-      0.95,
+      "image/png",
     );
   });
 }
 
+/** Auto tone proposal for an (unedited) image, analyzed on a downscaled canvas copy */
+export async function autoToneFromUrl(
+  imageUrl: string,
+): Promise<AutoToneValues> {
+  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const el = new Image();
+    el.crossOrigin = "anonymous";
+    el.onload = () => resolve(el);
+    el.onerror = () => reject(new Error("Failed to load image"));
+    el.src = imageUrl;
+  });
+  const { width, height } = getExportDimensions(
+    img.naturalWidth || img.width,
+    img.naturalHeight || img.height,
+    AUTO_TONE_SIZE,
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D not available");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  return analyzeAutoTone(data, width * height, 4);
+}
+
 // HSL color adjustment filter - applies hue/sat/lum shifts with smooth color blending like Lightroom
 // Optimized with pre-computed lookup tables for all 360 hue values
 export const createHSLColorFilter = (colorHSL: ColorHSL) => {
@@ -0,0 +1,168 @@
+/**
+ * Auto tone / auto white balance.
+ * Reads luminance percentiles, near-neutral color balance and mean saturation from a
+ * (downscaled) unedited image and proposes Light + Color slider values. Pure pixel math,
+ * shared by the client (preview canvas) and the server (Sharp raw RGB for batches).
+ */
+
+import type { CanvasImage } from "@/lib/types";
+
+export const AUTO_LIGHT_KEYS = [
+  "exposure",
+  "contrast",
+  "highlights",
+  "shadows",
+  "whites",
+  "blacks",
+] as const;
+
+export const AUTO_COLOR_KEYS = ["temperature", "vibrance"] as const;
+
+export type AutoToneKey =
+  | (typeof AUTO_LIGHT_KEYS)[number]
+  | (typeof AUTO_COLOR_KEYS)[number];
+
+export type AutoToneValues = Pick<CanvasImage, AutoToneKey>;
+
+/** Long edge the image is reduced to before analysis (client canvas and Sharp) */
+export const AUTO_TONE_SIZE = 512;
+
+export interface ToneStats {
+  /** Luminance percentiles (0-255) */
+  p1: number;
+  p5: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  /** Mean RGB of near-neutral midtone pixels, null when there are too few to trust */
+  neutral: [number, number, number] | null;
+  /** Mean HSV saturation (0-1) */
+  meanSaturation: number;
+}
+
+/**
+ * Histogram + color statistics for an image.
+ * @param channels - 3 for raw RGB (server), 4 for RGBA ImageData (client)
+ */
+export function computeToneStats(
+  data: ArrayLike<number>,
+  pixelCount: number,
+  channels: 3 | 4,
+): ToneStats {
+  const histogram = new Uint32Array(256);
+  let satSum = 0;
+  let neutralCount = 0;
+  let nr = 0;
+  let ng = 0;
+  let nb = 0;
+
+  for (let p = 0; p < pixelCount; p++) {
+    const i = p * channels;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const lum = 0.299 * r + 0.587 * g + 0.114 * b;
+    histogram[Math.min(255, Math.round(lum))]++;
+    const max = Math.max(r, g, b);
+    const s = max > 0 ? (max - Math.min(r, g, b)) / max : 0;
+    satSum += s;
+    // Gray-world on pixels that are probably neutral surfaces (not sky, skin or foliage)
+    if (s < 0.25 && lum > 40 && lum < 220) {
+      nr += r;
+      ng += g;
+      nb += b;
+      neutralCount++;
+    }
+  }
+
+  const percentile = (q: number) => {
+    const target = pixelCount * q;
+    let seen = 0;
+    for (let v = 0; v < 256; v++) {
+      seen += histogram[v];
+      if (seen >= target) return v;
+    }
+    return 255;
+  };
+
+  return {
+    p1: percentile(0.01),
+    p5: percentile(0.05),
+    p50: percentile(0.5),
+    p95: percentile(0.95),
+    p99: percentile(0.99),
+    neutral:
+      neutralCount >= pixelCount * 0.02
+        ? [nr / neutralCount, ng / neutralCount, nb / neutralCount]
+        : null,
+    meanSaturation: pixelCount ? satSum / pixelCount : 0,
+  };
+}
+
+const clampRange = (v: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, v));
+
+/** Slider precision (0.01) without negative zero */
+const toSlider = (v: number) => Math.round(v * 100) / 100 || 0;
+
+/**
+ * Slider values for the given statistics. Deliberately conservative: it aims for a
+ * mid-gray median, a full but unclipped range and neutral grays, not a finished look.
+ */
+export function proposeAutoTone(stats: ToneStats): AutoToneValues {
+  // Exposure: bring the median towards middle gray (slider is 2^exposure, -1..1)
+  const exposure = clampRange(
+    Math.log2(110 / Math.max(stats.p50, 4)) * 0.7,
+    -1,
+    1,
+  );
+  // Percentiles as they'll be after exposure, so the other sliders don't over-correct
+  const scale = Math.pow(2, exposure);
+  const after = (v: number) => Math.min(255, v * scale);
+  const p1 = after(stats.p1);
+  const p5 = after(stats.p5);
+  const p95 = after(stats.p95);
+  const p99 = after(stats.p99);
+
+  const contrast = clampRange(((190 - (p95 - p5)) / 190) * 0.6, -0.3, 0.4);
+  const highlights = -clampRange((p99 - 230) / 25, 0, 1) * 0.6;
+  const whites = clampRange((230 - p99) / 60, 0, 1) * 0.5;
+  const shadows = clampRange((40 - p5) / 40, 0, 1) * 0.5;
+  const blacks = -clampRange((p1 - 8) / 40, 0, 1) * 0.5;
+
+  // Temperature shifts R up and B down by temperature * 30; split the R/B gap evenly
+  const temperature = stats.neutral
+    ? clampRange((stats.neutral[2] - stats.neutral[0]) / 60, -0.6, 0.6)
+    : 0;
+  const vibrance = clampRange((0.3 - stats.meanSaturation) * 1.2, -0.2, 0.4);
+
+  return {
+    exposure: toSlider(exposure),
+    contrast: toSlider(contrast),
+    highlights: toSlider(highlights),
+    shadows: toSlider(shadows),
+    whites: toSlider(whites),
+    blacks: toSlider(blacks),
+    temperature: toSlider(temperature),
+    vibrance: toSlider(vibrance),
+  };
+}
+
+/** computeToneStats + proposeAutoTone */
+export function analyzeAutoTone(
+  data: ArrayLike<number>,
+  pixelCount: number,
+  channels: 3 | 4,
+): AutoToneValues {
+  return proposeAutoTone(computeToneStats(data, pixelCount, channels));
+}
+
+/** Only the Light or only the Color part of a proposal */
+export function pickAutoTone(
+  values: AutoToneValues,
+  keys: readonly AutoToneKey[],
+): Partial<AutoToneValues> {
+  const out: Partial<AutoToneValues> = {};
+  for (const key of keys) out[key] = values[key];
+  return out;
+}
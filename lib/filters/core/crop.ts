@@ -0,0 +1,172 @@
+/**
+ * Shared crop / straighten geometry.
+ * Used by the canvas overlay, client-side export (canvas 2D) and server-side export (raw buffers)
+ * so every path frames the photo identically.
+ *
+ * Model: the photo is rotated by `straighten` degrees around its center and scaled up just enough
+ * to cover its original frame (no empty corners), then `crop` (normalized 0-1 of that frame) is cut out.
+ */
+
+import type { CropRect } from "@/lib/types";
+
+/** Straighten range in degrees (either direction) */
+export const MAX_STRAIGHTEN = 45;
+
+/** Check if crop / straighten changes the output */
+export function hasCrop(
+  crop: CropRect | null | undefined,
+  straighten: number | null | undefined,
+): boolean {
+  if (straighten) return true;
+  if (!crop) return false;
+  return crop.x !== 0 || crop.y !== 0 || crop.width !== 1 || crop.height !== 1;
+}
+
+/**
+ * Scale needed so a width x height image rotated by `degrees` still covers its own frame.
+ */
+export function getStraightenScale(
+  width: number,
+  height: number,
+  degrees: number,
+): number {
+  const a = Math.abs((degrees * Math.PI) / 180);
+  const cos = Math.cos(a);
+  const sin = Math.sin(a);
+  return Math.max(
+    (width * cos + height * sin) / width,
+    (width * sin + height * cos) / height,
+  );
+}
+
+/** Crop rectangle in whole pixels (clamped to the frame, at least 1x1) */
+export function getCropPixelRect(
+  crop: CropRect | null | undefined,
+  width: number,
+  height: number,
+): { left: number; top: number; width: number; height: number } {
+  const c = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const left = Math.max(0, Math.min(width - 1, Math.round(c.x * width)));
+  const top = Math.max(0, Math.min(height - 1, Math.round(c.y * height)));
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(width - left, Math.round(c.width * width))),
+    height: Math.max(1, Math.min(height - top, Math.round(c.height * height))),
+  };
+}
+
+/**
+ * Clamp a crop rectangle to the frame, optionally forcing an aspect ratio (width / height in pixels).
+ * Keeps the rectangle's center where possible.
+ */
+export function constrainCrop(
+  crop: CropRect,
+  imageWidth: number,
+  imageHeight: number,
+  aspect?: number | null,
+): CropRect {
+  let w = Math.max(0.02, Math.min(1, crop.width));
+  let h = Math.max(0.02, Math.min(1, crop.height));
+  if (aspect && aspect > 0) {
+    // Normalized aspect = pixel aspect corrected for the frame's own aspect
+    const normAspect = aspect * (imageHeight / imageWidth);
+    if (w / h > normAspect) w = h * normAspect;
+    else h = w / normAspect;
+    if (w > 1) {
+      w = 1;
+      h = w / normAspect;
+    }
+    if (h > 1) {
+      h = 1;
+      w = h * normAspect;
+    }
+  }
+  const cx = crop.x + crop.width / 2;
+  const cy = crop.y + crop.height / 2;
+  const x = Math.max(0, Math.min(1 - w, cx - w / 2));
+  const y = Math.max(0, Math.min(1 - h, cy - h / 2));
+  return { x, y, width: w, height: h };
+}
+
+/**
+ * Straighten + crop a raw pixel buffer (bilinear resampling).
+ *
+ * @param data - Pixel buffer (Buffer / Uint8Array / Uint8ClampedArray, or Float32Array in
+ * the high-precision pipeline, which is resampled without rounding)
+ * @param width - Source width
+ * @param height - Source height
+ * @param channels - Bytes per pixel (3 for Sharp raw RGB, 4 for ImageData RGBA)
+ * @returns New buffer with the cropped size
+ */
+export function cropAndStraighten(
+  data: Float32Array,
+  width: number,
+  height: number,
+  channels: number,
+  crop: CropRect | null | undefined,
+  straighten: number | null | undefined,
+): { data: Float32Array; width: number; height: number };
+export function cropAndStraighten(
+  data: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  channels: number,
+  crop: CropRect | null | undefined,
+  straighten: number | null | undefined,
+): { data: Uint8ClampedArray; width: number; height: number };
+export function cropAndStraighten(
+  data: Uint8Array | Uint8ClampedArray | Float32Array,
+  width: number,
+  height: number,
+  channels: number,
+  crop: CropRect | null | undefined,
+  straighten: number | null | undefined,
+): { data: Uint8ClampedArray | Float32Array; width: number; height: number } {
+  const rect = getCropPixelRect(crop, width, height);
+  const angle = ((straighten ?? 0) * Math.PI) / 180;
+  const scale = getStraightenScale(width, height, straighten ?? 0);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const cx = width / 2;
+  const cy = height / 2;
+
+  const precise = data instanceof Float32Array;
+  const size = rect.width * rect.height * channels;
+  const out = precise ? new Float32Array(size) : new Uint8ClampedArray(size);
+
+  for (let oy = 0; oy < rect.height; oy++) {
+    const dy = rect.top + oy + 0.5 - cy;
+    for (let ox = 0; ox < rect.width; ox++) {
+      const dx = rect.left + ox + 0.5 - cx;
+      // Inverse rotate + scale back into source pixel space
+      const sx = Math.max(
+        0,
+        Math.min(width - 1, (dx * cos + dy * sin) / scale + cx - 0.5),
+      );
+      const sy = Math.max(
+        0,
+        Math.min(height - 1, (-dx * sin + dy * cos) / scale + cy - 0.5),
+      );
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(width - 1, x0 + 1);
+      const y1 = Math.min(height - 1, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const i00 = (y0 * width + x0) * channels;
+      const i10 = (y0 * width + x1) * channels;
+      const i01 = (y1 * width + x0) * channels;
+      const i11 = (y1 * width + x1) * channels;
+      const o = (oy * rect.width + ox) * channels;
+      for (let c = 0; c < channels; c++) {
+        const top = data[i00 + c] + (data[i10 + c] - data[i00 + c]) * fx;
+        const bottom = data[i01 + c] + (data[i11 + c] - data[i01 + c]) * fx;
+        const v = top + (bottom - top) * fy;
+        out[o + c] = precise ? v : Math.round(v);
+      }
+    }
+  }
+
+  return { data: out, width: rect.width, height: rect.height };
+}
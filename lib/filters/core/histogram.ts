@@ -0,0 +1,108 @@
+/**
+ * Histogram + clipping analysis of rendered (filtered) pixels.
+ * Callers read back a downsampled copy of the preview; everything here is plain
+ * pixel math on RGBA data.
+ */
+
+import type { ClippingWarnings } from "@/lib/types";
+
+/** Long edge of the readback the histogram is computed from */
+export const HISTOGRAM_SIZE = 256;
+
+/** Long edge of the clipping overlay (displayed scaled up over the photo) */
+export const CLIPPING_OVERLAY_SIZE = 1024;
+
+export interface ImageHistogram {
+  /** 256 bins per channel */
+  r: Uint32Array;
+  g: Uint32Array;
+  b: Uint32Array;
+  lum: Uint32Array;
+  /** Highest bin count across r/g/b/lum (for scaling the plot) */
+  peak: number;
+  /** Fraction of pixels with any channel at 0 / 255 */
+  shadowsClipped: number;
+  highlightsClipped: number;
+}
+
+const isShadowClipped = (r: number, g: number, b: number) =>
+  r <= 0 || g <= 0 || b <= 0;
+
+const isHighlightClipped = (r: number, g: number, b: number) =>
+  r >= 255 || g >= 255 || b >= 255;
+
+/**
+ * RGB + luminance histogram.
+ * @param channels - 3 for raw RGB, 4 for RGBA ImageData
+ */
+export function computeHistogram(
+  data: ArrayLike<number>,
+  pixelCount: number,
+  channels: 3 | 4,
+): ImageHistogram {
+  const r = new Uint32Array(256);
+  const g = new Uint32Array(256);
+  const b = new Uint32Array(256);
+  const lum = new Uint32Array(256);
+  let shadows = 0;
+  let highlights = 0;
+
+  for (let p = 0; p < pixelCount; p++) {
+    const i = p * channels;
+    const rv = data[i];
+    const gv = data[i + 1];
+    const bv = data[i + 2];
+    r[rv]++;
+    g[gv]++;
+    b[bv]++;
+    lum[Math.min(255, Math.round(0.299 * rv + 0.587 * gv + 0.114 * bv))]++;
+    if (isShadowClipped(rv, gv, bv)) shadows++;
+    if (isHighlightClipped(rv, gv, bv)) highlights++;
+  }
+
+  // Ignore the end bins for the peak: a clipped spike would flatten everything else
+  let peak = 1;
+  for (let v = 1; v < 255; v++) {
+    peak = Math.max(peak, r[v], g[v], b[v], lum[v]);
+  }
+
+  return {
+    r,
+    g,
+    b,
+    lum,
+    peak,
+    shadowsClipped: pixelCount ? shadows / pixelCount : 0,
+    highlightsClipped: pixelCount ? highlights / pixelCount : 0,
+  };
+}
+
+/**
+ * Turn RGBA pixels into a clipping overlay (in place): clipped highlights red,
+ * clipped shadows blue, everything else transparent.
+ */
+export function paintClippingOverlay(
+  data: Uint8ClampedArray,
+  pixelCount: number,
+  warnings: ClippingWarnings,
+): void {
+  for (let p = 0; p < pixelCount; p++) {
+    const i = p * 4;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    if (warnings.highlights && isHighlightClipped(r, g, b)) {
+      data[i] = 255;
+      data[i + 1] = 0;
+      data[i + 2] = 0;
+      data[i + 3] = 255;
+    } else if (warnings.shadows && isShadowClipped(r, g, b)) {
+      data[i] = 0;
+      data[i + 1] = 96;
+      data[i + 2] = 255;
+      data[i + 3] = 255;
+    } else {
+      data[i + 3] = 0;
+    }
+  }
+}
@@ -4,4 +4,68 @@
  */
 
 export { buildLUT, isCurvesModified } from "./lut";
+export {
+  MAX_PROFILE_LUT_SIZE,
+  BAKE_LUT_SIZE,
+  parseCubeLut,
+  resampleLut3D,
+  createProfileFromLut,
+  decodeProfileLut,
+  isProfileActive,
+  applyProfileLut,
+  buildIdentityLutImage,
+  serializeCubeLut,
+  type Lut3D,
+} from "./lut3d";
 export { hslToRgb, rgbToHsl, rgbToHsv, hsvToRgb, clamp8, lerp } from "./color";
+export {
+  srgbToLinear,
+  linearToSrgb,
+  toFloatPixels,
+  toUint16Pixels,
+  applyLinearExposure,
+  sampleLut,
+} from "./linear";
+export {
+  AUTO_LIGHT_KEYS,
+  AUTO_COLOR_KEYS,
+  AUTO_TONE_SIZE,
+  computeToneStats,
+  proposeAutoTone,
+  analyzeAutoTone,
+  pickAutoTone,
+  type AutoToneKey,
+  type AutoToneValues,
+  type ToneStats,
+} from "./autoTone";
+export {
+  HISTOGRAM_SIZE,
+  CLIPPING_OVERLAY_SIZE,
+  computeHistogram,
+  paintClippingOverlay,
+  type ImageHistogram,
+} from "./histogram";
+export {
+  TARGETED_DRAG_SCALE,
+  getCurveInput,
+  adjustCurveAt,
+  getHslBandWeights,
+  adjustHslBands,
+  type HslBandWeights,
+} from "./targeted";
+export {
+  computeMaskWeights,
+  blendByMask,
+  hasMaskAdjustments,
+  hasActiveMasks,
+  getMaskAdjustments,
+} from "./mask";
+export {
+  MAX_STRAIGHTEN,
+  hasCrop,
+  getStraightenScale,
+  getCropPixelRect,
+  constrainCrop,
+  cropAndStraighten,
+} from "./crop";
+export { getExportDimensions, applyOutputSharpening } from "./output";
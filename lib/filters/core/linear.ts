@@ -0,0 +1,62 @@
+/**
+ * High-precision (float) pipeline helpers.
+ * Pixels are kept as transfer-encoded floats on the 0-255 scale between stages, so every
+ * slider keeps the look it has in the 8-bit pipeline; stages defined in linear light
+ * (exposure) convert on the fly. Nothing is quantized until the final 16-bit encode.
+ */
+
+/** sRGB / Display P3 transfer curve (both use the sRGB curve), 0-1 in and out */
+export function srgbToLinear(v: number): number {
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+export function linearToSrgb(v: number): number {
+  return v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+}
+
+/** 8-bit (Buffer) or 16-bit (Uint16Array) RGB samples to 0-255 scale floats */
+export function toFloatPixels(data: Uint8Array | Uint16Array): Float32Array {
+  const out = new Float32Array(data.length);
+  const scale = data instanceof Uint16Array ? 255 / 65535 : 1;
+  for (let i = 0; i < data.length; i++) out[i] = data[i] * scale;
+  return out;
+}
+
+/** 0-255 scale floats to 16-bit samples (the only quantization step) */
+export function toUint16Pixels(data: Float32Array): Uint16Array {
+  const out = new Uint16Array(data.length);
+  const scale = 65535 / 255;
+  for (let i = 0; i < data.length; i++) {
+    const v = data[i] * scale;
+    out[i] = v <= 0 ? 0 : v >= 65535 ? 65535 : Math.round(v);
+  }
+  return out;
+}
+
+/**
+ * Exposure in linear light: decode, scale by 2^ev, re-encode (in place).
+ * @param channels - 3 for raw RGB, 4 for RGBA (alpha untouched)
+ */
+export function applyLinearExposure(
+  data: Float32Array,
+  pixelCount: number,
+  channels: 3 | 4,
+  exposure: number,
+): void {
+  const factor = Math.pow(2, exposure);
+  for (let p = 0; p < pixelCount; p++) {
+    const i = p * channels;
+    for (let c = 0; c < 3; c++) {
+      const v = linearToSrgb(srgbToLinear(data[i + c] / 255) * factor) * 255;
+      data[i + c] = v < 0 ? 0 : v > 255 ? 255 : v;
+    }
+  }
+}
+
+/** Sample a 256-entry LUT at a fractional 0-255 position (linear interpolation) */
+export function sampleLut(lut: ArrayLike<number>, v: number): number {
+  if (v <= 0) return lut[0];
+  if (v >= 255) return lut[255];
+  const i = v | 0;
+  return lut[i] + (lut[i + 1] - lut[i]) * (v - i);
+}
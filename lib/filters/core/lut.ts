@@ -10,10 +10,16 @@ import type { CurvePoint } from "@/lib/types";
  * Uses Catmull-Rom spline interpolation for smooth curves.
  *
  * @param points - Array of curve control points (x: input, y: output)
- * @returns Uint8Array with 256 entries mapping input values to output values
+ * @param precise - Return unrounded Float32Array values (high-precision pipeline)
+ * @returns 256 entries mapping input values to output values
  */
-export function buildLUT(points: CurvePoint[]): Uint8Array {
-  const lut = new Uint8Array(256);
+export function buildLUT(points: CurvePoint[]): Uint8Array;
+export function buildLUT(points: CurvePoint[], precise: true): Float32Array;
+export function buildLUT(
+  points: CurvePoint[],
+  precise = false,
+): Uint8Array | Float32Array {
+  const lut = precise ? new Float32Array(256) : new Uint8Array(256);
 
   // Fast path for identity curve (no modification)
   if (points.length === 2) {
@@ -61,7 +67,8 @@ export function buildLUT(points: CurvePoint[]): Uint8Array {
         (2 * p0.y - 5 * p1.y + 4 * p2.y - p3.y) * t2 +
         (-p0.y + 3 * p1.y - 3 * p2.y + p3.y) * t3);
 
-    return Math.max(0, Math.min(255, Math.round(y)));
+    const clamped = Math.max(0, Math.min(255, y));
+    return precise ? clamped : Math.round(clamped);
   };
 
   for (let i = 0; i < 256; i++) {
@@ -0,0 +1,290 @@
+/**
+ * 3D LUT (.cube) utilities for creative profiles.
+ * Used by the GPU (tiled LUT texture), CPU (Konva) and server (Sharp) pipelines,
+ * which all sample the same 8-bit RGB grid with trilinear interpolation.
+ */
+
+import type { CreativeProfile } from "@/lib/types";
+
+/** Largest grid stored on a photo; bigger .cube grids (e.g. 65) are resampled to this */
+export const MAX_PROFILE_LUT_SIZE = 33;
+/** Grid size used when baking the edit stack to a .cube file */
+export const BAKE_LUT_SIZE = 33;
+
+export interface Lut3D {
+  title: string;
+  size: number;
+  /** size^3 RGB triplets in 0-1, red varies fastest (.cube order) */
+  data: Float32Array;
+}
+
+/**
+ * Parse an Adobe / Resolve .cube file. Throws with a readable message on invalid input.
+ */
+export function parseCubeLut(text: string): Lut3D {
+  let title = "";
+  let size = 0;
+  const domainMin = [0, 0, 0];
+  const domainMax = [1, 1, 1];
+  const values: number[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    const [keyword, ...rest] = line.split(/\s+/);
+    if (keyword === "TITLE") {
+      title = line.slice(5).trim().replace(/^"|"$/g, "");
+    } else if (keyword === "LUT_3D_SIZE") {
+      size = parseInt(rest[0], 10);
+    } else if (keyword === "LUT_1D_SIZE") {
+      throw new Error("1D LUTs are not supported (use a 3D .cube file)");
+    } else if (keyword === "DOMAIN_MIN") {
+      rest.slice(0, 3).forEach((v, i) => (domainMin[i] = parseFloat(v)));
+    } else if (keyword === "DOMAIN_MAX") {
+      rest.slice(0, 3).forEach((v, i) => (domainMax[i] = parseFloat(v)));
+    } else if (/^[-+.\d]/.test(keyword)) {
+      values.push(
+        parseFloat(keyword),
+        parseFloat(rest[0]),
+        parseFloat(rest[1]),
+      );
+    }
+    // Other keywords (LUT_3D_INPUT_RANGE, LUT_IN_VIDEO_RANGE, ...) are ignored
+  }
+
+  if (!size || size < 2 || size > 256) {
+    throw new Error("Missing or invalid LUT_3D_SIZE");
+  }
+  if (values.length !== size * size * size * 3) {
+    const expected = size * size * size;
+    throw new Error(
+      `Expected ${expected} entries for a ${size}-point LUT, found ${values.length / 3}`,
+    );
+  }
+  if (values.some((v) => !Number.isFinite(v))) {
+    throw new Error("LUT contains invalid numbers");
+  }
+
+  const data = new Float32Array(values.length);
+  for (let i = 0; i < values.length; i++) {
+    const c = i % 3;
+    const range = domainMax[c] - domainMin[c] || 1;
+    data[i] = (values[i] - domainMin[c]) / range;
+  }
+  return { title, size, data };
+}
+
+/** Trilinear sample of a float LUT at normalized r, g, b (0-1) into out */
+function sampleFloatLut(
+  lut: Lut3D,
+  r: number,
+  g: number,
+  b: number,
+  out: number[],
+): void {
+  const n = lut.size;
+  const fr = r * (n - 1);
+  const fg = g * (n - 1);
+  const fb = b * (n - 1);
+  const r0 = Math.floor(fr);
+  const g0 = Math.floor(fg);
+  const b0 = Math.floor(fb);
+  const r1 = Math.min(r0 + 1, n - 1);
+  const g1 = Math.min(g0 + 1, n - 1);
+  const b1 = Math.min(b0 + 1, n - 1);
+  const tr = fr - r0;
+  const tg = fg - g0;
+  const tb = fb - b0;
+  const d = lut.data;
+  const at = (ri: number, gi: number, bi: number, c: number) =>
+    d[(ri + gi * n + bi * n * n) * 3 + c];
+  for (let c = 0; c < 3; c++) {
+    const c00 = at(r0, g0, b0, c) * (1 - tr) + at(r1, g0, b0, c) * tr;
+    const c10 = at(r0, g1, b0, c) * (1 - tr) + at(r1, g1, b0, c) * tr;
+    const c01 = at(r0, g0, b1, c) * (1 - tr) + at(r1, g0, b1, c) * tr;
+    const c11 = at(r0, g1, b1, c) * (1 - tr) + at(r1, g1, b1, c) * tr;
+    const c0 = c00 * (1 - tg) + c10 * tg;
+    const c1 = c01 * (1 - tg) + c11 * tg;
+    out[c] = c0 * (1 - tb) + c1 * tb;
+  }
+}
+
+/** Resample a LUT to a different grid size (trilinear) */
+export function resampleLut3D(lut: Lut3D, size: number): Lut3D {
+  if (lut.size === size) return lut;
+  const data = new Float32Array(size * size * size * 3);
+  const out = [0, 0, 0];
+  const step = 1 / (size - 1);
+  let o = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        sampleFloatLut(lut, r * step, g * step, b * step, out);
+        data[o++] = out[0];
+        data[o++] = out[1];
+        data[o++] = out[2];
+      }
+    }
+  }
+  return { title: lut.title, size, data };
+}
+
+/**
+ * Build a creative profile from a parsed .cube LUT: resampled to at most
+ * MAX_PROFILE_LUT_SIZE and quantized to 8-bit RGB (base64) so it fits in an edit row.
+ */
+export function createProfileFromLut(
+  lut: Lut3D,
+  name: string,
+  amount = 1,
+): CreativeProfile {
+  const sized =
+    lut.size > MAX_PROFILE_LUT_SIZE
+      ? resampleLut3D(lut, MAX_PROFILE_LUT_SIZE)
+      : lut;
+  const bytes = new Uint8Array(sized.data.length);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Math.max(0, Math.min(255, Math.round(sized.data[i] * 255)));
+  }
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return { name, size: sized.size, data: btoa(binary), amount };
+}
+
+// Decoded grids are cached by their base64 string (profiles are immutable; edits replace them)
+let lastEncoded = "";
+let lastDecoded: Uint8Array | null = null;
+
+/** Decode a profile's LUT to size^3 * 3 bytes (red fastest) */
+export function decodeProfileLut(profile: CreativeProfile): Uint8Array {
+  if (profile.data === lastEncoded && lastDecoded) return lastDecoded;
+  const binary = atob(profile.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  if (bytes.length !== profile.size * profile.size * profile.size * 3) {
+    throw new Error("Profile LUT data does not match its size");
+  }
+  lastEncoded = profile.data;
+  lastDecoded = bytes;
+  return bytes;
+}
+
+/** True when the profile would change pixels */
+export function isProfileActive(
+  profile: CreativeProfile | null | undefined,
+): profile is CreativeProfile {
+  return !!profile && profile.amount > 0 && !!profile.data;
+}
+
+/**
+ * Apply a profile LUT in place (trilinear interpolation, blended by profile.amount).
+ * @param data - 8-bit pixels, or 0-255 floats in the high-precision pipeline
+ * @param channels - 3 for raw RGB (server), 4 for RGBA ImageData (client)
+ */
+export function applyProfileLut(
+  data: Uint8Array | Uint8ClampedArray | Float32Array,
+  pixelCount: number,
+  channels: 3 | 4,
+  profile: CreativeProfile,
+): void {
+  const lut = decodeProfileLut(profile);
+  const n = profile.size;
+  const scale = (n - 1) / 255;
+  const amount = Math.max(0, Math.min(1, profile.amount));
+  const n2 = n * n;
+  const precise = data instanceof Float32Array;
+
+  for (let p = 0; p < pixelCount; p++) {
+    const i = p * channels;
+    const fr = data[i] * scale;
+    const fg = data[i + 1] * scale;
+    const fb = data[i + 2] * scale;
+    const r0 = Math.floor(fr);
+    const g0 = Math.floor(fg);
+    const b0 = Math.floor(fb);
+    const r1 = r0 < n - 1 ? 1 : 0;
+    const g1 = g0 < n - 1 ? n : 0;
+    const b1 = b0 < n - 1 ? n2 : 0;
+    const tr = fr - r0;
+    const tg = fg - g0;
+    const tb = fb - b0;
+    const base = r0 + g0 * n + b0 * n2;
+
+    for (let c = 0; c < 3; c++) {
+      const v000 = lut[base * 3 + c];
+      const v100 = lut[(base + r1) * 3 + c];
+      const v010 = lut[(base + g1) * 3 + c];
+      const v110 = lut[(base + r1 + g1) * 3 + c];
+      const v001 = lut[(base + b1) * 3 + c];
+      const v101 = lut[(base + r1 + b1) * 3 + c];
+      const v011 = lut[(base + g1 + b1) * 3 + c];
+      const v111 = lut[(base + r1 + g1 + b1) * 3 + c];
+      const c00 = v000 + (v100 - v000) * tr;
+      const c10 = v010 + (v110 - v010) * tr;
+      const c01 = v001 + (v101 - v001) * tr;
+      const c11 = v011 + (v111 - v011) * tr;
+      const c0 = c00 + (c10 - c00) * tg;
+      const c1 = c01 + (c11 - c01) * tg;
+      const v = c0 + (c1 - c0) * tb;
+      const out = data[i + c] + (v - data[i + c]) * amount;
+      data[i + c] =
+        out < 0 ? 0 : out > 255 ? 255 : precise ? out : Math.round(out);
+    }
+  }
+}
+
+/**
+ * Identity grid as raw RGB pixels (size*size wide, size high; blue picks the tile).
+ * Run it through an edit pipeline and pass the result to serializeCubeLut to bake a LUT.
+ */
+export function buildIdentityLutImage(size: number): {
+  data: Uint8Array;
+  width: number;
+  height: number;
+} {
+  const width = size * size;
+  const data = new Uint8Array(width * size * 3);
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const i = (g * width + b * size + r) * 3;
+        data[i] = Math.round((r / (size - 1)) * 255);
+        data[i + 1] = Math.round((g / (size - 1)) * 255);
+        data[i + 2] = Math.round((b / (size - 1)) * 255);
+      }
+    }
+  }
+  return { data, width, height: size };
+}
+
+/** Serialize an edited identity grid (see buildIdentityLutImage) as a .cube file */
+export function serializeCubeLut(
+  image: Uint8Array | Uint8ClampedArray,
+  size: number,
+  title: string,
+): string {
+  const width = size * size;
+  const lines = [
+    `TITLE "${title.replace(/"/g, "'")}"`,
+    "# Created by Driftboard",
+    `LUT_3D_SIZE ${size}`,
+    "DOMAIN_MIN 0.0 0.0 0.0",
+    "DOMAIN_MAX 1.0 1.0 1.0",
+    "",
+  ];
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const i = (g * width + b * size + r) * 3;
+        lines.push(
+          [image[i], image[i + 1], image[i + 2]]
+            .map((v) => (v / 255).toFixed(6))
+            .join(" "),
+        );
+      }
+    }
+  }
+  return lines.join("\n") + "\n";
+}
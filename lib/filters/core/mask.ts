@@ -0,0 +1,146 @@
+/**
+ * Shared local adjustment mask utilities.
+ * Used by the GPU (PixiJS), client-side (Konva) and server-side (Sharp) filter pipelines
+ * so every pipeline evaluates mask coverage identically.
+ */
+
+import {
+  MASK_ADJUSTMENT_KEYS,
+  type LocalMask,
+  type MaskAdjustments,
+} from "@/lib/types";
+
+/** Hermite smoothstep, matches GLSL smoothstep() */
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  if (edge1 <= edge0) return x < edge0 ? 0 : 1;
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Check if a mask changes anything (has at least one non-zero adjustment).
+ * Masks without adjustments are skipped by every pipeline.
+ */
+export function hasMaskAdjustments(mask: LocalMask): boolean {
+  if (!mask.adjustments) return false;
+  return MASK_ADJUSTMENT_KEYS.some((k) => (mask.adjustments[k] ?? 0) !== 0);
+}
+
+/** Check if any mask in the list is active */
+export function hasActiveMasks(masks: LocalMask[] | null | undefined): boolean {
+  return !!masks && masks.some(hasMaskAdjustments);
+}
+
+/** Return only the non-zero adjustments of a mask */
+export function getMaskAdjustments(mask: LocalMask): MaskAdjustments {
+  const out: MaskAdjustments = {};
+  for (const k of MASK_ADJUSTMENT_KEYS) {
+    const v = mask.adjustments?.[k];
+    if (v !== undefined && v !== 0) out[k] = v;
+  }
+  return out;
+}
+
+/**
+ * Compute per-pixel mask coverage (0 = untouched, 1 = full adjustment).
+ *
+ * @param mask - Mask with geometry in normalized 0-1 image coordinates
+ * @param width - Output width in pixels
+ * @param height - Output height in pixels
+ * @returns Float32Array of width * height weights
+ */
+export function computeMaskWeights(
+  mask: LocalMask,
+  width: number,
+  height: number,
+): Float32Array {
+  const weights = new Float32Array(width * height);
+
+  if (mask.type === "linear" && mask.linear) {
+    const { x1, y1, x2, y2 } = mask.linear;
+    // Work in pixel space so the gradient direction is not skewed by aspect ratio
+    const ax = x1 * width;
+    const ay = y1 * height;
+    const dx = (x2 - x1) * width;
+    const dy = (y2 - y1) * height;
+    const lenSq = dx * dx + dy * dy || 1;
+    for (let y = 0; y < height; y++) {
+      const py = y + 0.5 - ay;
+      for (let x = 0; x < width; x++) {
+        const px = x + 0.5 - ax;
+        const t = (px * dx + py * dy) / lenSq;
+        weights[y * width + x] = 1 - smoothstep(0, 1, t);
+      }
+    }
+  } else if (mask.type === "radial" && mask.radial) {
+    const { cx, cy, rx, ry, feather } = mask.radial;
+    const inner = Math.max(0, Math.min(1, 1 - feather));
+    const invRx = 1 / Math.max(1e-4, rx);
+    const invRy = 1 / Math.max(1e-4, ry);
+    for (let y = 0; y < height; y++) {
+      const ny = ((y + 0.5) / height - cy) * invRy;
+      for (let x = 0; x < width; x++) {
+        const nx = ((x + 0.5) / width - cx) * invRx;
+        const d = Math.sqrt(nx * nx + ny * ny);
+        weights[y * width + x] = 1 - smoothstep(inner, 1, d);
+      }
+    }
+  } else if (mask.type === "brush" && mask.brush) {
+    const inner = Math.max(0, Math.min(1, 1 - mask.brush.feather));
+    for (const stroke of mask.brush.strokes) {
+      const r = Math.max(0.5, stroke.radius * width);
+      for (let i = 0; i + 1 < stroke.points.length; i += 2) {
+        const sx = stroke.points[i] * width;
+        const sy = stroke.points[i + 1] * height;
+        const minX = Math.max(0, Math.floor(sx - r));
+        const maxX = Math.min(width - 1, Math.ceil(sx + r));
+        const minY = Math.max(0, Math.floor(sy - r));
+        const maxY = Math.min(height - 1, Math.ceil(sy + r));
+        for (let y = minY; y <= maxY; y++) {
+          const dy = y + 0.5 - sy;
+          for (let x = minX; x <= maxX; x++) {
+            const dx = x + 0.5 - sx;
+            const d = Math.sqrt(dx * dx + dy * dy) / r;
+            if (d >= 1) continue;
+            const dab = 1 - smoothstep(inner, 1, d);
+            const idx = y * width + x;
+            weights[idx] = stroke.erase
+              ? Math.min(weights[idx], 1 - dab)
+              : Math.max(weights[idx], dab);
+          }
+        }
+      }
+    }
+  }
+
+  if (mask.invert) {
+    for (let i = 0; i < weights.length; i++) weights[i] = 1 - weights[i];
+  }
+
+  return weights;
+}
+
+/**
+ * Blend an adjusted pixel buffer into a base buffer by mask coverage (in place on base).
+ *
+ * @param base - Original pixels (modified in place; Float32Array for the high-precision pipeline)
+ * @param adjusted - Pixels with the mask's adjustments applied
+ * @param weights - Per-pixel coverage from computeMaskWeights
+ * @param channels - Bytes per pixel (3 for Sharp raw RGB, 4 for ImageData RGBA)
+ */
+export function blendByMask(
+  base: Uint8Array | Uint8ClampedArray | Float32Array,
+  adjusted: Uint8Array | Uint8ClampedArray | Float32Array,
+  weights: Float32Array,
+  channels: number,
+): void {
+  const round = base instanceof Float32Array ? (v: number) => v : Math.round;
+  for (let p = 0; p < weights.length; p++) {
+    const w = weights[p];
+    if (w <= 0) continue;
+    const i = p * channels;
+    base[i] = round(base[i] + (adjusted[i] - base[i]) * w);
+    base[i + 1] = round(base[i + 1] + (adjusted[i + 1] - base[i + 1]) * w);
+    base[i + 2] = round(base[i + 2] + (adjusted[i + 2] - base[i + 2]) * w);
+  }
+}
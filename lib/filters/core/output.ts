@@ -0,0 +1,87 @@
+/**
+ * Shared export output utilities (long-edge resize + output sharpening).
+ * Used by client-side export (canvas 2D) and server-side export (raw buffers)
+ * so both paths size and sharpen the final image identically.
+ */
+
+import type { OutputSharpening } from "@/lib/types";
+
+/** Unsharp mask amount per sharpening level */
+const SHARPENING_AMOUNTS: Record<OutputSharpening, number> = {
+  none: 0,
+  low: 0.35,
+  standard: 0.7,
+  high: 1.2,
+};
+
+/**
+ * Output size after fitting the longest edge (never upscales).
+ */
+export function getExportDimensions(
+  width: number,
+  height: number,
+  longEdge: number | null | undefined,
+): { width: number; height: number } {
+  const longest = Math.max(width, height);
+  if (!longEdge || longEdge <= 0 || longest <= longEdge) {
+    return { width, height };
+  }
+  const scale = longEdge / longest;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Unsharp mask with a 3x3 gaussian blur (in place). Alpha (4th channel) is left untouched.
+ *
+ * @param data - Pixel buffer (Buffer / Uint8Array / Uint8ClampedArray, or Uint16Array for
+ * 16-bit high-precision exports)
+ * @param channels - Bytes per pixel (3 for Sharp raw RGB, 4 for ImageData RGBA)
+ */
+export function applyOutputSharpening(
+  data: Uint8Array | Uint8ClampedArray | Uint16Array,
+  width: number,
+  height: number,
+  channels: number,
+  level: OutputSharpening | null | undefined,
+): void {
+  const amount = SHARPENING_AMOUNTS[level ?? "none"] ?? 0;
+  if (amount <= 0 || width < 3 || height < 3) return;
+
+  const colorChannels = Math.min(3, channels);
+  const max = data instanceof Uint16Array ? 65535 : 255;
+  const src =
+    data instanceof Uint16Array
+      ? new Uint16Array(data)
+      : new Uint8ClampedArray(data);
+  const rowStride = width * channels;
+
+  for (let y = 0; y < height; y++) {
+    const ym = y > 0 ? -rowStride : 0;
+    const yp = y < height - 1 ? rowStride : 0;
+    for (let x = 0; x < width; x++) {
+      const xm = x > 0 ? -channels : 0;
+      const xp = x < width - 1 ? channels : 0;
+      const i = y * rowStride + x * channels;
+      for (let c = 0; c < colorChannels; c++) {
+        const p = i + c;
+        // [1 2 1] x [1 2 1] / 16
+        const blur =
+          (src[p + ym + xm] +
+            2 * src[p + ym] +
+            src[p + ym + xp] +
+            2 * src[p + xm] +
+            4 * src[p] +
+            2 * src[p + xp] +
+            src[p + yp + xm] +
+            2 * src[p + yp] +
+            src[p + yp + xp]) /
+          16;
+        const v = src[p] + (src[p] - blur) * amount;
+        data[p] = v < 0 ? 0 : v > max ? max : Math.round(v);
+      }
+    }
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Targeted adjustment tool math.
+ * Turns a sampled pixel + vertical drag distance into a curve point or HSL band change.
+ * Results are always computed from the values at drag start, so a drag is one smooth edit.
+ */
+
+import type {
+  ChannelCurves,
+  ColorHSL,
+  CurvePoint,
+  HSLAdjustments,
+} from "@/lib/types";
+import { buildLUT } from "./lut";
+import { rgbToHsl } from "./color";
+
+/** Curve units (0-255) / HSL slider units (-100..100) per screen pixel dragged */
+export const TARGETED_DRAG_SCALE = 0.5;
+
+/** Existing curve points within this input distance are moved instead of adding a point */
+const CURVE_POINT_SNAP = 8;
+
+/** Below this HSL saturation a pixel has no meaningful hue, so no band is targeted */
+const MIN_TARGET_SATURATION = 0.08;
+
+/** Band centers (degrees), same as the HSL filters */
+const HSL_BAND_CENTERS: { name: keyof ColorHSL; center: number }[] = [
+  { name: "red", center: 0 },
+  { name: "orange", center: 30 },
+  { name: "yellow", center: 60 },
+  { name: "green", center: 120 },
+  { name: "aqua", center: 180 },
+  { name: "blue", center: 225 },
+  { name: "purple", center: 270 },
+  { name: "magenta", center: 315 },
+];
+
+export type HslBandWeights = Partial<Record<keyof ColorHSL, number>>;
+
+/**
+ * Curve input for a pixel. Curves are the first stage of every pipeline, so this is
+ * the original (unedited) pixel: its channel value, or luminance for the master curve.
+ */
+export function getCurveInput(
+  rgb: [number, number, number],
+  channel: keyof ChannelCurves,
+): number {
+  const [r, g, b] = rgb;
+  if (channel === "red") return r;
+  if (channel === "green") return g;
+  if (channel === "blue") return b;
+  return Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+}
+
+/**
+ * Raise / lower the curve at input x by delta: moves a nearby point, or adds one on
+ * the current curve. Endpoints keep their x.
+ */
+export function adjustCurveAt(
+  points: CurvePoint[],
+  x: number,
+  delta: number,
+): CurvePoint[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+  let index = -1;
+  let nearest = CURVE_POINT_SNAP + 1;
+  sorted.forEach((p, i) => {
+    const d = Math.abs(p.x - x);
+    if (d < nearest) {
+      nearest = d;
+      index = i;
+    }
+  });
+
+  if (index === -1) {
+    const y = buildLUT(sorted, true)[Math.round(x)];
+    sorted.push({ x, y });
+    sorted.sort((a, b) => a.x - b.x);
+    index = sorted.findIndex((p) => p.x === x);
+  }
+
+  const point = sorted[index];
+  sorted[index] = {
+    x: point.x,
+    y: Math.max(0, Math.min(255, point.y + delta)),
+  };
+  return sorted;
+}
+
+/**
+ * HSL bands affected by a pixel's hue, weighted like the HSL filters (full within 15°,
+ * fading out at 45°) and normalized so the closest band gets 1. Empty for near-grays.
+ */
+export function getHslBandWeights(
+  rgb: [number, number, number],
+): HslBandWeights {
+  const { h, s } = rgbToHsl(rgb[0], rgb[1], rgb[2]);
+  if (s < MIN_TARGET_SATURATION) return {};
+
+  const weights: HslBandWeights = {};
+  let max = 0;
+  for (const { name, center } of HSL_BAND_CENTERS) {
+    let diff = Math.abs(h - center);
+    if (diff > 180) diff = 360 - diff;
+    const weight = diff <= 15 ? 1 : diff >= 45 ? 0 : 1 - (diff - 15) / 30;
+    if (weight > 0) {
+      weights[name] = weight;
+      max = Math.max(max, weight);
+    }
+  }
+  for (const name of Object.keys(weights) as (keyof ColorHSL)[]) {
+    weights[name] = weights[name]! / max;
+  }
+  return weights;
+}
+
+/** Shift one HSL property of the weighted bands by delta (clamped to -100..100) */
+export function adjustHslBands(
+  colorHSL: ColorHSL | undefined,
+  weights: HslBandWeights,
+  property: keyof HSLAdjustments,
+  delta: number,
+): ColorHSL {
+  const next = {} as ColorHSL;
+  for (const { name } of HSL_BAND_CENTERS) {
+    const band = colorHSL?.[name];
+    next[name] = {
+      hue: band?.hue ?? 0,
+      saturation: band?.saturation ?? 0,
+      luminance: band?.luminance ?? 0,
+    };
+    const weight = weights[name];
+    if (weight) {
+      const value = next[name][property] + delta * weight;
+      next[name][property] = Math.round(Math.max(-100, Math.min(100, value)));
+    }
+  }
+  return next;
+}
@@ -0,0 +1,19 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatParityReport,
+  runParity,
+  summarizeParity,
+} from "@/lib/filters/parity";
+import { renderCpu, renderServer } from "@/lib/filters/parityRenderers";
+
+test("server filters match the CPU pipeline within the threshold", async () => {
+  const results = await runParity(renderCpu, renderServer);
+  const failing = summarizeParity(results).filter((r) => !r.pass);
+
+  assert.deepEqual(
+    failing.map((r) => r.adjustment),
+    [],
+    formatParityReport(results, { reference: "cpu", candidate: "server" }),
+  );
+});
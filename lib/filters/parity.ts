@@ -0,0 +1,383 @@
+/**
+ * Filter pipeline parity harness.
+ * Renders generated fixtures through two pipelines for a matrix of edits and reports
+ * per-pixel deltas, so drift between the GPU (pixiFilterEngine), CPU (clientFilters)
+ * and server (serverFilters) implementations of the same adjustment shows up by name.
+ * Renderers are injected: parity.test.ts and scripts/filter-parity.ts run CPU vs Sharp
+ * headless in Node (parityRenderers.ts), /dev/parity runs GPU vs CPU in the browser.
+ */
+
+import { DEFAULT_CURVES, type CanvasImage } from "@/lib/types";
+import { hslToRgb } from "./core";
+
+/** RGBA test image (alpha is always 255) */
+export interface ParityFixture {
+  name: string;
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface ParityCase {
+  /** Unique case name, e.g. "exposure+1" */
+  name: string;
+  /** Adjustment under test (cases are grouped by it in the summary) */
+  adjustment: string;
+  edits: Partial<CanvasImage>;
+}
+
+/** Renders a fixture with the given image edits; returns RGBA pixels of the same size */
+export type ParityRenderer = (
+  fixture: ParityFixture,
+  image: CanvasImage,
+) => Uint8ClampedArray | Promise<Uint8ClampedArray>;
+
+export interface ParityStats {
+  /** Largest per-channel difference (0-255) */
+  maxDelta: number;
+  /** Mean per-channel difference */
+  meanDelta: number;
+  /** 99th percentile per-channel difference (ignores a few outliers at hue seams) */
+  p99Delta: number;
+}
+
+export interface ParityResult extends ParityStats {
+  case: string;
+  adjustment: string;
+  fixture: string;
+  pass: boolean;
+}
+
+export interface ParityOptions {
+  /** Fails a case when its p99 delta exceeds this (default 6) */
+  threshold?: number;
+  /** Only run cases whose adjustment or name contains this string */
+  only?: string;
+}
+
+export const DEFAULT_PARITY_THRESHOLD = 6;
+
+/** Neutral photo: every adjustment at its default */
+export function createParityImage(
+  width: number,
+  height: number,
+  edits: Partial<CanvasImage> = {},
+): CanvasImage {
+  return {
+    id: "parity",
+    x: 0,
+    y: 0,
+    width,
+    height,
+    src: "",
+    rotation: 0,
+    scaleX: 1,
+    scaleY: 1,
+    exposure: 0,
+    contrast: 0,
+    highlights: 0,
+    shadows: 0,
+    whites: 0,
+    blacks: 0,
+    temperature: 0,
+    vibrance: 0,
+    saturation: 0,
+    clarity: 0,
+    dehaze: 0,
+    vignette: 0,
+    grain: 0,
+    curves: structuredClone(DEFAULT_CURVES),
+    brightness: 0,
+    hue: 0,
+    blur: 0,
+    filters: [],
+    ...edits,
+  };
+}
+
+function createFixture(
+  name: string,
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => [number, number, number],
+): ParityFixture {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = pixel(x, y);
+      const i = (y * width + x) * 4;
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+      data[i + 3] = 255;
+    }
+  }
+  return { name, width, height, data };
+}
+
+/** Generated fixtures: a neutral ramp and hue sweeps across lightness and saturation */
+export function createParityFixtures(): ParityFixture[] {
+  return [
+    createFixture("gray-ramp", 256, 8, (x) => [x, x, x]),
+    createFixture("hue-lightness", 96, 32, (x, y) =>
+      hslToRgb(x / 96, 0.8, 0.1 + (y / 31) * 0.8),
+    ),
+    createFixture("hue-saturation", 96, 32, (x, y) =>
+      hslToRgb(x / 96, y / 31, 0.5),
+    ),
+  ];
+}
+
+const curve = (points: [number, number][]) =>
+  points.map(([x, y]) => ({ x, y }));
+
+/** One case per adjustment at representative values, plus a stacked "look" */
+export const PARITY_CASES: ParityCase[] = [
+  { name: "identity", adjustment: "identity", edits: {} },
+  ...(
+    [
+      ["exposure", [-1, 1]],
+      ["contrast", [-0.5, 0.5]],
+      ["highlights", [-0.8, 0.8]],
+      ["shadows", [-0.8, 0.8]],
+      ["whites", [-0.8, 0.8]],
+      ["blacks", [-0.8, 0.8]],
+      ["temperature", [-0.6, 0.6]],
+      ["vibrance", [-0.6, 0.6]],
+      ["saturation", [-0.6, 0.6]],
+      ["clarity", [-0.6, 0.6]],
+      ["dehaze", [-0.6, 0.6]],
+      ["vignette", [-0.6, 0.6]],
+      ["shadowTint", [-0.5, 0.5]],
+    ] as [keyof CanvasImage, number[]][]
+  ).flatMap(([key, values]) =>
+    values.map((v) => ({
+      name: `${key}${v > 0 ? "+" : ""}${v}`,
+      adjustment: key,
+      edits: { [key]: v },
+    })),
+  ),
+  {
+    name: "curves-s",
+    adjustment: "curves",
+    edits: {
+      curves: {
+        ...DEFAULT_CURVES,
+        rgb: curve([
+          [0, 0],
+          [64, 48],
+          [192, 208],
+          [255, 255],
+        ]),
+      },
+    },
+  },
+  {
+    name: "curves-red",
+    adjustment: "curves",
+    edits: {
+      curves: {
+        ...DEFAULT_CURVES,
+        red: curve([
+          [0, 0],
+          [128, 160],
+          [255, 255],
+        ]),
+      },
+    },
+  },
+  {
+    name: "hsl-orange",
+    adjustment: "colorHSL",
+    edits: {
+      colorHSL: {
+        red: { hue: 0, saturation: 0, luminance: 0 },
+        orange: { hue: 20, saturation: -40, luminance: 30 },
+        yellow: { hue: 0, saturation: 0, luminance: 0 },
+        green: { hue: 0, saturation: 0, luminance: 0 },
+        aqua: { hue: 0, saturation: 0, luminance: 0 },
+        blue: { hue: -30, saturation: 50, luminance: -20 },
+        purple: { hue: 0, saturation: 0, luminance: 0 },
+        magenta: { hue: 0, saturation: 0, luminance: 0 },
+      },
+    },
+  },
+  {
+    name: "split-toning",
+    adjustment: "splitToning",
+    edits: {
+      splitToning: {
+        shadowHue: 200,
+        shadowSaturation: 40,
+        highlightHue: 40,
+        highlightSaturation: 40,
+        balance: 0,
+      },
+    },
+  },
+  {
+    name: "color-grading",
+    adjustment: "colorGrading",
+    edits: {
+      colorGrading: {
+        shadowLum: -20,
+        midtoneLum: 10,
+        highlightLum: 20,
+        midtoneHue: 30,
+        midtoneSat: 30,
+        globalHue: 210,
+        globalSat: 15,
+        globalLum: 0,
+        blending: 50,
+      },
+    },
+  },
+  {
+    name: "calibration",
+    adjustment: "colorCalibration",
+    edits: {
+      colorCalibration: {
+        redHue: 20,
+        redSaturation: 30,
+        greenHue: -20,
+        greenSaturation: 0,
+        blueHue: 30,
+        blueSaturation: -30,
+      },
+    },
+  },
+  {
+    name: "mask-linear-exposure",
+    adjustment: "masks",
+    edits: {
+      masks: [
+        {
+          id: "mask-parity",
+          name: "Linear 1",
+          type: "linear",
+          linear: { x1: 0.5, y1: 0, x2: 0.5, y2: 1 },
+          adjustments: { exposure: 1, saturation: -0.5 },
+        },
+      ],
+    },
+  },
+  {
+    name: "look",
+    adjustment: "combined",
+    edits: {
+      exposure: 0.3,
+      contrast: 0.3,
+      highlights: -0.5,
+      shadows: 0.4,
+      temperature: 0.2,
+      vibrance: 0.3,
+      clarity: 0.2,
+      vignette: -0.3,
+    },
+  },
+];
+
+/** Per-channel RGB deltas between two RGBA buffers of the same size (alpha ignored) */
+export function compareRgba(
+  a: Uint8ClampedArray,
+  b: Uint8ClampedArray,
+): ParityStats {
+  if (a.length !== b.length) {
+    throw new Error(`Size mismatch: ${a.length} vs ${b.length} bytes`);
+  }
+  const histogram = new Uint32Array(256);
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const d = Math.abs(a[i + c] - b[i + c]);
+      histogram[d]++;
+      sum += d;
+      count++;
+    }
+  }
+  let maxDelta = 0;
+  let p99Delta = 0;
+  let seen = 0;
+  for (let d = 0; d < 256; d++) {
+    if (!histogram[d]) continue;
+    maxDelta = d;
+    seen += histogram[d];
+    if (!p99Delta && seen >= count * 0.99) p99Delta = d;
+  }
+  return { maxDelta, meanDelta: count ? sum / count : 0, p99Delta };
+}
+
+/**
+ * Render every case on every fixture with both pipelines and compare.
+ * Grain is excluded from the matrix: it's random per pipeline by design.
+ */
+export async function runParity(
+  reference: ParityRenderer,
+  candidate: ParityRenderer,
+  options: ParityOptions = {},
+): Promise<ParityResult[]> {
+  const threshold = options.threshold ?? DEFAULT_PARITY_THRESHOLD;
+  const only = options.only?.toLowerCase();
+  const cases = only
+    ? PARITY_CASES.filter(
+        (c) =>
+          c.adjustment.toLowerCase().includes(only) ||
+          c.name.toLowerCase().includes(only),
+      )
+    : PARITY_CASES;
+  const results: ParityResult[] = [];
+
+  for (const fixture of createParityFixtures()) {
+    for (const parityCase of cases) {
+      const image = createParityImage(
+        fixture.width,
+        fixture.height,
+        parityCase.edits,
+      );
+      const expected = await reference(fixture, image);
+      const actual = await candidate(fixture, image);
+      const stats = compareRgba(expected, actual);
+      results.push({
+        case: parityCase.name,
+        adjustment: parityCase.adjustment,
+        fixture: fixture.name,
+        ...stats,
+        pass: stats.p99Delta <= threshold,
+      });
+    }
+  }
+  return results;
+}
+
+/** Worst result per adjustment, failing adjustments first */
+export function summarizeParity(results: ParityResult[]): ParityResult[] {
+  const worst = new Map<string, ParityResult>();
+  for (const r of results) {
+    const prev = worst.get(r.adjustment);
+    if (!prev || r.p99Delta > prev.p99Delta) worst.set(r.adjustment, r);
+  }
+  return Array.from(worst.values()).sort(
+    (a, b) => Number(a.pass) - Number(b.pass) || b.p99Delta - a.p99Delta,
+  );
+}
+
+/** Plain-text table of summarizeParity output */
+export function formatParityReport(
+  results: ParityResult[],
+  labels: { reference: string; candidate: string },
+): string {
+  const summary = summarizeParity(results);
+  const failed = summary.filter((r) => !r.pass).length;
+  const rows = summary.map(
+    (r) =>
+      `${r.pass ? "ok  " : "FAIL"}  ${r.adjustment.padEnd(18)}` +
+      `p99 ${String(r.p99Delta).padStart(3)}  max ${String(r.maxDelta).padStart(3)}  ` +
+      `mean ${r.meanDelta.toFixed(2).padStart(6)}  (${r.case} on ${r.fixture})`,
+  );
+  return [
+    `Parity ${labels.reference} vs ${labels.candidate}: ` +
+      `${summary.length - failed}/${summary.length} adjustments within threshold`,
+    ...rows,
+  ].join("\n");
+}
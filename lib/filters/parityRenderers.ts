@@ -0,0 +1,54 @@
+/**
+ * Headless parity renderers for Node: the CPU pipeline (clientFilters) and the server
+ * pipeline (serverFilters) on the same fixture. Used by scripts/filter-parity.ts and
+ * lib/filters/parity.test.ts.
+ */
+
+import { buildExportFilterList } from "@/lib/filters/clientFilters";
+import { applyEdits } from "@/lib/serverFilters";
+import { getEditValues } from "@/lib/types";
+import type { ParityRenderer } from "@/lib/filters/parity";
+
+// Node has no DOM; clientFilters only needs ImageData as a { data, width, height } holder
+class NodeImageData {
+  constructor(
+    public data: Uint8ClampedArray,
+    public width: number,
+    public height: number,
+  ) {}
+}
+globalThis.ImageData ??= NodeImageData as unknown as typeof ImageData;
+
+export const renderCpu: ParityRenderer = (fixture, image) => {
+  const imageData = new ImageData(
+    new Uint8ClampedArray(fixture.data),
+    fixture.width,
+    fixture.height,
+  );
+  for (const filter of buildExportFilterList(image)) filter(imageData);
+  return imageData.data;
+};
+
+export const renderServer: ParityRenderer = (fixture, image) => {
+  const pixelCount = fixture.width * fixture.height;
+  const rgb = Buffer.alloc(pixelCount * 3);
+  for (let p = 0; p < pixelCount; p++) {
+    rgb[p * 3] = fixture.data[p * 4];
+    rgb[p * 3 + 1] = fixture.data[p * 4 + 1];
+    rgb[p * 3 + 2] = fixture.data[p * 4 + 2];
+  }
+  const out = applyEdits(
+    rgb,
+    fixture.width,
+    fixture.height,
+    getEditValues(image),
+  );
+  const rgba = new Uint8ClampedArray(pixelCount * 4);
+  for (let p = 0; p < pixelCount; p++) {
+    rgba[p * 4] = out[p * 3];
+    rgba[p * 4 + 1] = out[p * 3 + 1];
+    rgba[p * 4 + 2] = out[p * 3 + 2];
+    rgba[p * 4 + 3] = 255;
+  }
+  return rgba;
+};
@@ -7,6 +7,8 @@
  * - Output is copied to a 2D canvas via drawImage (fast GPU-GPU copy)
  * - That canvas is passed to Konva's <Image> for display
  * - Filter instances are REUSED across renders; only uniforms change
+ * - High-precision mode renders filter passes into half-float targets, applies exposure in
+ *   linear light and, on wide-gamut displays, outputs Display P3
  */
 
 import {
@@ -17,9 +19,30 @@ import {
   GlProgram,
   ColorMatrixFilter,
   BlurFilter,
+  TexturePool,
+  type WebGLRenderer,
 } from "pixi.js";
-import type { CanvasImage, ChannelCurves, ColorHSL } from "@/lib/types";
+import type {
+  CanvasImage,
+  ChannelCurves,
+  ColorHSL,
+  ClippingWarnings,
+  CreativeProfile,
+  ExportOptions,
+  LocalMask,
+} from "@/lib/types";
 import { buildLUT } from "@/lib/filters/clientFilters";
+import {
+  computeMaskWeights,
+  hasMaskAdjustments,
+  isProfileActive,
+  decodeProfileLut,
+  computeHistogram,
+  paintClippingOverlay,
+  HISTOGRAM_SIZE,
+  CLIPPING_OVERLAY_SIZE,
+  type ImageHistogram,
+} from "@/lib/filters/core";
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -57,6 +80,14 @@ interface AdvancedColorUniforms {
   };
 }
 
+/** One GPU pass per local adjustment mask (filter + coverage texture) */
+interface MaskPass {
+  filter: Filter;
+  canvas: HTMLCanvasElement;
+  texture: Texture;
+  sig: string;
+}
+
 // ============================================================================
 // GLSL SHADERS
 // ============================================================================
@@ -80,6 +111,24 @@ void main() {
 }
 `;
 
+/** sRGB transfer curve (Display P3 uses the same one), for linear-light exposure */
+const SRGB_TRANSFER_GLSL = /* glsl */ `
+vec3 srgbToLinear(vec3 c) {
+  return mix(c / 12.92, pow((c + 0.055) / 1.055, vec3(2.4)), step(0.04045, c));
+}
+
+vec3 linearToSrgb(vec3 c) {
+  return mix(c * 12.92, 1.055 * pow(c, vec3(1.0 / 2.4)) - 0.055, step(0.0031308, c));
+}
+
+vec3 applyExposure(vec3 c, float ev, float linearLight) {
+  if (linearLight > 0.5) {
+    return linearToSrgb(clamp(srgbToLinear(c) * pow(2.0, ev), 0.0, 1.0));
+  }
+  return c * pow(2.0, ev);
+}
+`;
+
 /** Light adjustments: brightness, exposure, tonal, clarity, contrast */
 const LIGHT_FRAG = /* glsl */ `
 precision highp float;
@@ -96,7 +145,8 @@ uniform float uWhites;
 uniform float uBlacks;
 uniform float uClarity;
 uniform float uContrast;
-
+uniform float uLinearLight;
+${SRGB_TRANSFER_GLSL}
 float processTonal(float val) {
   // Blacks: 0-25%
   if (val < 0.25) {
@@ -123,8 +173,8 @@ void main() {
   // Brightness (multiply, matches CPU)
   color.rgb *= (1.0 + uBrightness);
 
-  // Exposure (power curve, matches CPU: factor = 2^exposure)
-  color.rgb *= pow(2.0, uExposure);
+  // Exposure (power curve, matches CPU: factor = 2^exposure; linear light in high precision)
+  color.rgb = applyExposure(color.rgb, uExposure, uLinearLight);
 
   // Tonal (per-channel, matches CPU LUT approach)
   color.r = processTonal(color.r);
@@ -484,6 +534,90 @@ void main() {
 }
 `;
 
+/** Local adjustment mask: light + basic color + dehaze on a copy, mixed back by mask coverage */
+const MASK_FRAG = /* glsl */ `
+precision highp float;
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uTexture;
+uniform sampler2D uMaskTex;
+
+uniform float uExposure;
+uniform float uHighlights;
+uniform float uShadows;
+uniform float uWhites;
+uniform float uBlacks;
+uniform float uClarity;
+uniform float uContrast;
+uniform float uTempFactor;
+uniform float uVibrance;
+uniform mat3 uHSVMatrix;
+uniform float uHasHSV;
+uniform float uDehaze;
+uniform float uLinearLight;
+${SRGB_TRANSFER_GLSL}
+float processTonal(float val) {
+  if (val < 0.25) {
+    val += uBlacks * 0.3 * (1.0 - val / 0.25);
+  }
+  if (val < 0.5) {
+    val += uShadows * 0.12 * sin(val * 3.14159265);
+  }
+  if (val > 0.5) {
+    val += uHighlights * 0.3 * sin((val - 0.5) * 3.14159265);
+  }
+  if (val > 0.75) {
+    val += uWhites * 0.3 * ((val - 0.75) / 0.25);
+  }
+  return clamp(val, 0.0, 1.0);
+}
+
+void main() {
+  vec4 base = texture2D(uTexture, vTextureCoord);
+  vec4 color = base;
+
+  // Light (same formulas as LIGHT_FRAG)
+  color.rgb = applyExposure(color.rgb, uExposure, uLinearLight);
+  color.r = processTonal(color.r);
+  color.g = processTonal(color.g);
+  color.b = processTonal(color.b);
+  float factor = 1.0 + uClarity * 0.5;
+  vec3 diff = color.rgb - 0.5;
+  vec3 weight = max(vec3(0.0), 1.0 - abs(diff) * 1.5);
+  color.rgb = clamp(vec3(0.5) + diff * (1.0 + (factor - 1.0) * weight), 0.0, 1.0);
+  float adjust = pow((uContrast * 25.0 + 100.0) / 100.0, 2.0);
+  color.rgb = clamp((color.rgb - 0.5) * adjust + 0.5, 0.0, 1.0);
+
+  // Basic color (same formulas as BASIC_COLOR_FRAG)
+  color.r = clamp(color.r + uTempFactor / 255.0, 0.0, 1.0);
+  color.b = clamp(color.b - uTempFactor / 255.0, 0.0, 1.0);
+  if (uHasHSV > 0.5) {
+    color.rgb = clamp(uHSVMatrix * color.rgb, 0.0, 1.0);
+  }
+  if (abs(uVibrance) > 0.001) {
+    float mx = max(max(color.r, color.g), color.b);
+    float mn = min(min(color.r, color.g), color.b);
+    if (mx > 0.0) {
+      float sat = (mx - mn) / mx;
+      float f = 1.0 + uVibrance * 1.5 * (1.0 - sat);
+      float gray = 0.299 * color.r + 0.587 * color.g + 0.114 * color.b;
+      color.rgb = clamp(vec3(gray) + (color.rgb - vec3(gray)) * f, 0.0, 1.0);
+    }
+  }
+
+  // Dehaze (same formula as EFFECTS_FRAG)
+  if (abs(uDehaze) > 0.001) {
+    color.rgb = vec3(128.0/255.0) + (color.rgb - vec3(128.0/255.0)) * (1.0 + uDehaze * 0.5);
+    float gray = 0.299 * color.r + 0.587 * color.g + 0.114 * color.b;
+    color.rgb = clamp(vec3(gray) + (color.rgb - vec3(gray)) * (1.0 + uDehaze * 0.3), 0.0, 1.0);
+  }
+
+  float coverage = texture2D(uMaskTex, vTextureCoord).r;
+  gl_FragColor = vec4(mix(base.rgb, color.rgb, coverage), base.a);
+}
+`;
+
 /** Curves: LUT texture based */
 const CURVES_FRAG = /* glsl */ `
 precision highp float;
@@ -508,6 +642,43 @@ void main() {
 }
 `;
 
+/**
+ * Creative profile: 3D LUT stored as a 2D texture (size*size wide, size high; blue selects
+ * the tile). Red/green use hardware bilinear filtering, blue is interpolated between tiles.
+ */
+const PROFILE_FRAG = /* glsl */ `
+precision highp float;
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uTexture;
+uniform sampler2D uProfileLut;
+uniform float uLutSize;
+uniform float uProfileAmount;
+
+vec3 sampleLut(vec3 c) {
+  float n = uLutSize;
+  vec3 cc = clamp(c, 0.0, 1.0);
+  float b = cc.b * (n - 1.0);
+  float b0 = floor(b);
+  float b1 = min(b0 + 1.0, n - 1.0);
+  // Texel centers within one tile
+  vec2 uv = vec2(
+    (cc.r * (n - 1.0) + 0.5) / (n * n),
+    (cc.g * (n - 1.0) + 0.5) / n
+  );
+  vec3 s0 = texture2D(uProfileLut, uv + vec2(b0 / n, 0.0)).rgb;
+  vec3 s1 = texture2D(uProfileLut, uv + vec2(b1 / n, 0.0)).rgb;
+  return mix(s0, s1, b - b0);
+}
+
+void main() {
+  vec4 color = texture2D(uTexture, vTextureCoord);
+  color.rgb = mix(color.rgb, sampleLut(color.rgb), uProfileAmount);
+  gl_FragColor = color;
+}
+`;
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -612,15 +783,19 @@ function computeHSVMatrix(saturation: number, hue: number): Float32Array {
   ]);
 }
 
-/** Create a canvas-based texture from raw pixel data */
+/**
+ * Create a canvas-based texture from raw pixel data. The canvas must share the renderer's
+ * unpack color space, otherwise the data is color-converted on upload.
+ */
 function createLutTexture(
   data: Uint8ClampedArray,
   width: number,
+  colorSpace: PredefinedColorSpace,
 ): { canvas: HTMLCanvasElement; texture: Texture } {
   const canvas = document.createElement("canvas");
   canvas.width = width;
   canvas.height = 1;
-  const ctx = canvas.getContext("2d")!;
+  const ctx = canvas.getContext("2d", { colorSpace })!;
   const imageData = ctx.createImageData(width, 1);
   imageData.data.set(data);
   ctx.putImageData(imageData, 0, 0);
@@ -634,6 +809,18 @@ function createLutTexture(
 
 const CURVES_STRENGTH = 0.6;
 
+/** Long edge of mask coverage textures (upsampled with linear filtering) */
+const MASK_TEXTURE_SIZE = 512;
+
+type ProcessingMode = Pick<ExportOptions, "precision" | "colorSpace">;
+
+function supportsDisplayP3(gl: WebGLRenderingContextBase): boolean {
+  return (
+    "drawingBufferColorSpace" in gl &&
+    window.matchMedia("(color-gamut: p3)").matches
+  );
+}
+
 export class PixiFilterEngine {
   private app: Application | null = null;
   private sprite: Sprite | null = null;
@@ -663,6 +850,24 @@ export class PixiFilterEngine {
   private hslLutCanvas: HTMLCanvasElement | null = null;
   private hslLutTexture: Texture | null = null;
   private lastHSLSig = "";
+  private profileFilter: Filter | null = null;
+  private profileLutCanvas: HTMLCanvasElement | null = null;
+  private profileLutTexture: Texture | null = null;
+  private lastProfileData = "";
+
+  // Local adjustment mask passes (one per active mask, reused by index)
+  private maskPasses: MaskPass[] = [];
+
+  // Processing mode: requested by the app, applied as far as the GPU / display allow
+  private requestedMode: ProcessingMode = {
+    precision: "standard",
+    colorSpace: "srgb",
+  };
+  private highPrecision = false;
+  private colorSpace: PredefinedColorSpace = "srgb";
+
+  // 1x1 canvas for pixel readout (recreated when the color space changes)
+  private sampleCtx: CanvasRenderingContext2D | null = null;
 
   /** Initialize the PixiJS application and create filters. Returns false if GPU unavailable. */
   async init(width: number, height: number): Promise<boolean> {
@@ -699,12 +904,9 @@ export class PixiFilterEngine {
       this.app.ticker.stop();
 
       // Create output canvas for Konva — match actual renderer canvas size (1:1 copy)
-      this.outputCanvas = document.createElement("canvas");
       const cw = this.app.canvas.width;
       const ch = this.app.canvas.height;
-      this.outputCanvas.width = cw;
-      this.outputCanvas.height = ch;
-      this.outputCtx = this.outputCanvas.getContext("2d");
+      this.createOutputCanvas(cw, ch);
 
       // Create sprite (placeholder, will be updated with actual image)
       this.sprite = new Sprite();
@@ -716,6 +918,7 @@ export class PixiFilterEngine {
       this.currentWidth = cw;
       this.currentHeight = ch;
       this.initialized = true;
+      this.applyProcessingMode();
       return true;
     } catch (e) {
       console.error("[PixiFilterEngine] Initialization failed:", e);
@@ -724,6 +927,86 @@ export class PixiFilterEngine {
     }
   }
 
+  /** 2D canvas the WebGL output is copied into (recreated when the color space changes) */
+  private createOutputCanvas(width: number, height: number): void {
+    this.outputCanvas = document.createElement("canvas");
+    this.outputCanvas.width = width;
+    this.outputCanvas.height = height;
+    this.outputCtx = this.outputCanvas.getContext("2d", {
+      colorSpace: this.colorSpace,
+    });
+  }
+
+  /**
+   * Request standard or high-precision processing and the output color space.
+   * High precision needs WebGL2 + EXT_color_buffer_float, Display P3 a wide-gamut display;
+   * whatever isn't supported falls back to the standard (8-bit sRGB) pipeline.
+   */
+  setProcessingMode(mode: ProcessingMode): void {
+    this.requestedMode = mode;
+    if (this.initialized) this.applyProcessingMode();
+  }
+
+  private applyProcessingMode(): void {
+    if (!this.app) return;
+    const renderer = this.app.renderer as WebGLRenderer;
+    const { gl } = renderer;
+    const highPrecision =
+      this.requestedMode.precision === "high" &&
+      renderer.context.webGLVersion === 2 &&
+      !!renderer.context.extensions.colorBufferFloat;
+    const colorSpace: PredefinedColorSpace =
+      this.requestedMode.colorSpace === "p3" && supportsDisplayP3(gl)
+        ? "display-p3"
+        : "srgb";
+
+    if (highPrecision !== this.highPrecision) {
+      // Filter passes render into pooled textures; switch their format and drop old ones
+      TexturePool.textureOptions.format = highPrecision
+        ? "rgba16float"
+        : "rgba8unorm";
+      TexturePool.clear(true);
+      this.highPrecision = highPrecision;
+    }
+
+    if (colorSpace !== this.colorSpace) {
+      const gl2 = gl as WebGL2RenderingContext;
+      gl2.drawingBufferColorSpace = colorSpace;
+      gl2.unpackColorSpace = colorSpace;
+      this.colorSpace = colorSpace;
+      this.createOutputCanvas(this.app.canvas.width, this.app.canvas.height);
+      this.resetDataTextures();
+      this.sampleCtx = null;
+    }
+  }
+
+  /** Drop LUT / mask textures so they're rebuilt from canvases in the current color space */
+  private resetDataTextures(): void {
+    this.curvesFilter?.destroy();
+    this.curvesLutTexture?.destroy();
+    this.advancedColorFilter?.destroy();
+    this.hslLutTexture?.destroy();
+    this.profileFilter?.destroy();
+    this.profileLutTexture?.destroy();
+    for (const pass of this.maskPasses) {
+      pass.filter.destroy();
+      pass.texture.destroy();
+    }
+    this.curvesFilter = null;
+    this.curvesLutCanvas = null;
+    this.curvesLutTexture = null;
+    this.lastCurvesSig = "";
+    this.advancedColorFilter = null;
+    this.hslLutCanvas = null;
+    this.hslLutTexture = null;
+    this.lastHSLSig = "";
+    this.profileFilter = null;
+    this.profileLutCanvas = null;
+    this.profileLutTexture = null;
+    this.lastProfileData = "";
+    this.maskPasses = [];
+  }
+
   /** Create all filter instances (done once, reused across renders) */
   private createFilters(): void {
     // Light filter
@@ -742,6 +1025,7 @@ export class PixiFilterEngine {
           uBlacks: { value: 0, type: "f32" },
           uClarity: { value: 0, type: "f32" },
           uContrast: { value: 0, type: "f32" },
+          uLinearLight: { value: 0, type: "f32" },
         },
       },
     });
@@ -809,7 +1093,7 @@ export class PixiFilterEngine {
       }
     } else {
       // Create new
-      const result = createLutTexture(lutData, 256);
+      const result = createLutTexture(lutData, 256, this.colorSpace);
       this.curvesLutCanvas = result.canvas;
       this.curvesLutTexture = result.texture;
     }
@@ -849,12 +1133,84 @@ export class PixiFilterEngine {
         this.hslLutTexture.source.update();
       }
     } else {
-      const result = createLutTexture(lutData, 360);
+      const result = createLutTexture(lutData, 360, this.colorSpace);
       this.hslLutCanvas = result.canvas;
       this.hslLutTexture = result.texture;
     }
   }
 
+  /** Create or update the creative profile pass (LUT texture is rebuilt only when the LUT changes) */
+  private updateProfileFilter(profile: CreativeProfile): Filter {
+    const n = profile.size;
+
+    // Texture size is fixed at creation, so a new grid size needs a new filter
+    if (this.profileLutCanvas && this.profileLutCanvas.height !== n) {
+      this.profileFilter?.destroy();
+      this.profileLutTexture?.destroy();
+      this.profileFilter = null;
+      this.profileLutCanvas = null;
+      this.profileLutTexture = null;
+      this.lastProfileData = "";
+    }
+
+    if (!this.profileLutCanvas) {
+      this.profileLutCanvas = document.createElement("canvas");
+      this.profileLutCanvas.width = n * n;
+      this.profileLutCanvas.height = n;
+      this.profileLutTexture = Texture.from({
+        resource: this.profileLutCanvas,
+        antialias: false,
+      });
+    }
+
+    if (profile.data !== this.lastProfileData) {
+      this.lastProfileData = profile.data;
+      const lut = decodeProfileLut(profile);
+      const ctx = this.profileLutCanvas.getContext("2d", {
+        colorSpace: this.colorSpace,
+      })!;
+      const imageData = ctx.createImageData(n * n, n);
+      // .cube order (red fastest, then green, then blue) -> tile b, column r, row g
+      for (let b = 0; b < n; b++) {
+        for (let g = 0; g < n; g++) {
+          for (let r = 0; r < n; r++) {
+            const src = (r + g * n + b * n * n) * 3;
+            const dst = (g * n * n + b * n + r) * 4;
+            imageData.data[dst] = lut[src];
+            imageData.data[dst + 1] = lut[src + 1];
+            imageData.data[dst + 2] = lut[src + 2];
+            imageData.data[dst + 3] = 255;
+          }
+        }
+      }
+      ctx.putImageData(imageData, 0, 0);
+      this.profileLutTexture!.source.update();
+    }
+
+    if (!this.profileFilter) {
+      this.profileFilter = new Filter({
+        glProgram: new GlProgram({
+          vertex: DEFAULT_VERTEX,
+          fragment: PROFILE_FRAG,
+        }),
+        resources: {
+          uProfileLut: this.profileLutTexture!.source,
+          profileUniforms: {
+            uLutSize: { value: n, type: "f32" },
+            uProfileAmount: { value: 1, type: "f32" },
+          },
+        },
+      });
+    }
+
+    const u = this.profileFilter.resources.profileUniforms as {
+      uniforms: Record<string, number>;
+    };
+    u.uniforms.uLutSize = n;
+    u.uniforms.uProfileAmount = Math.max(0, Math.min(1, profile.amount));
+    return this.profileFilter;
+  }
+
   /** Ensure advanced color filter exists with current HSL LUT */
   private ensureAdvancedColorFilter(): void {
     if (this.advancedColorFilter) return;
@@ -864,6 +1220,7 @@ export class PixiFilterEngine {
       const result = createLutTexture(
         new Uint8ClampedArray([128, 128, 128, 255]),
         1,
+        this.colorSpace,
       );
       this.hslLutCanvas = result.canvas;
       this.hslLutTexture = result.texture;
@@ -910,6 +1267,116 @@ export class PixiFilterEngine {
     });
   }
 
+  /** Create or update the GPU pass for the mask at the given index */
+  private updateMaskPass(
+    index: number,
+    mask: LocalMask,
+    displayWidth: number,
+    displayHeight: number,
+  ): Filter {
+    const scale = Math.min(
+      1,
+      MASK_TEXTURE_SIZE / Math.max(displayWidth, displayHeight),
+    );
+    const tw = Math.max(1, Math.round(displayWidth * scale));
+    const th = Math.max(1, Math.round(displayHeight * scale));
+    let pass: MaskPass | undefined = this.maskPasses[index];
+
+    // Texture size is fixed at creation, so a new aspect ratio needs a new pass
+    if (pass && (pass.canvas.width !== tw || pass.canvas.height !== th)) {
+      pass.filter.destroy();
+      pass.texture.destroy();
+      pass = undefined;
+    }
+
+    if (!pass) {
+      const canvas = document.createElement("canvas");
+      canvas.width = tw;
+      canvas.height = th;
+      const texture = Texture.from({ resource: canvas, antialias: false });
+      const filter = new Filter({
+        glProgram: new GlProgram({
+          vertex: DEFAULT_VERTEX,
+          fragment: MASK_FRAG,
+        }),
+        resources: {
+          uMaskTex: texture.source,
+          maskUniforms: {
+            uExposure: { value: 0, type: "f32" },
+            uHighlights: { value: 0, type: "f32" },
+            uShadows: { value: 0, type: "f32" },
+            uWhites: { value: 0, type: "f32" },
+            uBlacks: { value: 0, type: "f32" },
+            uClarity: { value: 0, type: "f32" },
+            uContrast: { value: 0, type: "f32" },
+            uTempFactor: { value: 0, type: "f32" },
+            uVibrance: { value: 0, type: "f32" },
+            uHSVMatrix: {
+              value: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]),
+              type: "mat3x3<f32>",
+            },
+            uHasHSV: { value: 0, type: "f32" },
+            uDehaze: { value: 0, type: "f32" },
+            uLinearLight: { value: 0, type: "f32" },
+          },
+        },
+      });
+      pass = { filter, canvas, texture, sig: "" };
+      this.maskPasses[index] = pass;
+    }
+
+    // Coverage texture only changes with geometry
+    const sig = JSON.stringify([
+      mask.type,
+      mask.invert,
+      mask.linear,
+      mask.radial,
+      mask.brush,
+    ]);
+    if (sig !== pass.sig) {
+      pass.sig = sig;
+      const weights = computeMaskWeights(mask, tw, th);
+      const ctx = pass.canvas.getContext("2d", {
+        colorSpace: this.colorSpace,
+      })!;
+      const imageData = ctx.createImageData(tw, th);
+      for (let p = 0; p < weights.length; p++) {
+        const v = Math.round(weights[p] * 255);
+        const i = p * 4;
+        imageData.data[i] = v;
+        imageData.data[i + 1] = v;
+        imageData.data[i + 2] = v;
+        imageData.data[i + 3] = 255;
+      }
+      ctx.putImageData(imageData, 0, 0);
+      pass.texture.source.update();
+    }
+
+    const a = mask.adjustments;
+    const u = pass.filter.resources.maskUniforms as {
+      uniforms: Record<string, number | Float32Array>;
+    };
+    u.uniforms.uExposure = a.exposure ?? 0;
+    u.uniforms.uHighlights = a.highlights ?? 0;
+    u.uniforms.uShadows = a.shadows ?? 0;
+    u.uniforms.uWhites = a.whites ?? 0;
+    u.uniforms.uBlacks = a.blacks ?? 0;
+    u.uniforms.uClarity = a.clarity ?? 0;
+    u.uniforms.uContrast = a.contrast ?? 0;
+    u.uniforms.uTempFactor = (a.temperature ?? 0) * 30;
+    u.uniforms.uVibrance = a.vibrance ?? 0;
+    u.uniforms.uDehaze = a.dehaze ?? 0;
+    u.uniforms.uLinearLight = this.highPrecision ? 1 : 0;
+    if (a.saturation) {
+      u.uniforms.uHSVMatrix = computeHSVMatrix(a.saturation, 0);
+      u.uniforms.uHasHSV = 1;
+    } else {
+      u.uniforms.uHasHSV = 0;
+    }
+
+    return pass.filter;
+  }
+
   /** Resize the renderer and output canvas. Sync output to actual renderer canvas size (1:1 copy). */
   private resize(width: number, height: number): void {
     if (!this.app || !this.outputCanvas) return;
@@ -972,7 +1439,7 @@ export class PixiFilterEngine {
       const cloned = document.createElement("canvas");
       cloned.width = canvas.width;
       cloned.height = canvas.height;
-      const ctx = cloned.getContext("2d");
+      const ctx = cloned.getContext("2d", { colorSpace: this.colorSpace });
       if (!ctx) return null;
       ctx.drawImage(canvas, 0, 0);
       return cloned;
@@ -1007,6 +1474,7 @@ export class PixiFilterEngine {
     const bypassLight = bypassedTabs.has("light");
     const bypassColor = bypassedTabs.has("color");
     const bypassEffects = bypassedTabs.has("effects");
+    const bypassMasks = bypassedTabs.has("masks");
 
     // Build filter array (only include active filters)
     const filters: Filter[] = [];
@@ -1036,6 +1504,21 @@ export class PixiFilterEngine {
       filters.push(this.advancedColorFilter!);
     }
 
+    // --- Creative profile (3D LUT) ---
+    if (!bypassColor && isProfileActive(image.profile)) {
+      filters.push(this.updateProfileFilter(image.profile));
+    }
+
+    // --- Local adjustment masks ---
+    if (!bypassMasks && image.masks) {
+      const active = image.masks.filter(hasMaskAdjustments);
+      active.forEach((mask, i) =>
+        filters.push(
+          this.updateMaskPass(i, mask, displayWidth, displayHeight),
+        ),
+      );
+    }
+
     // --- Effects ---
     if (!bypassEffects && this.isEffectsActive(image)) {
       this.updateEffectsUniforms(image);
@@ -1108,12 +1591,11 @@ export class PixiFilterEngine {
       const emptyBypass = new Set<string>();
       this.updateAndRender(image, emptyBypass, w, h);
 
-      // Get blob from output canvas
+      // Get blob from output canvas (lossless; the final format is encoded by the export step)
       const blob = await new Promise<Blob>((resolve, reject) => {
         this.outputCanvas!.toBlob(
           (b) => (b ? resolve(b) : reject(new Error("toBlob failed"))),
-          "image/jpeg",
-          0.95,
+          "image/png",
         );
       });
 
@@ -1123,6 +1605,89 @@ export class PixiFilterEngine {
     }
   }
 
+  // ---- Readback (histogram, clipping overlay, pixel readout) ----
+  // Sources are rendered canvases from renderImage() or the original image; pixels are
+  // read in the engine color space so values match what the preview shows.
+
+  /** Downsampled 2D copy of a source (long edge <= maxEdge) */
+  private readBack(
+    source: HTMLCanvasElement | HTMLImageElement,
+    maxEdge: number,
+  ): { ctx: CanvasRenderingContext2D; imageData: ImageData } | null {
+    const srcW =
+      source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+    const srcH =
+      source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+    if (!srcW || !srcH) return null;
+
+    const scale = Math.min(1, maxEdge / Math.max(srcW, srcH));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(srcW * scale));
+    canvas.height = Math.max(1, Math.round(srcH * scale));
+    const ctx = canvas.getContext("2d", {
+      colorSpace: this.colorSpace,
+      willReadFrequently: true,
+    });
+    if (!ctx) return null;
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height, {
+      colorSpace: this.colorSpace,
+    });
+    return { ctx, imageData };
+  }
+
+  /** RGB + luminance histogram of a source (downsampled readback) */
+  readHistogram(
+    source: HTMLCanvasElement | HTMLImageElement,
+  ): ImageHistogram | null {
+    const result = this.readBack(source, HISTOGRAM_SIZE);
+    if (!result) return null;
+    const { data, width, height } = result.imageData;
+    return computeHistogram(data, width * height, 4);
+  }
+
+  /** Canvas marking clipped highlights (red) / shadows (blue), transparent elsewhere */
+  renderClippingOverlay(
+    source: HTMLCanvasElement | HTMLImageElement,
+    warnings: ClippingWarnings,
+  ): HTMLCanvasElement | null {
+    const result = this.readBack(source, CLIPPING_OVERLAY_SIZE);
+    if (!result) return null;
+    const { ctx, imageData } = result;
+    paintClippingOverlay(
+      imageData.data,
+      imageData.width * imageData.height,
+      warnings,
+    );
+    ctx.putImageData(imageData, 0, 0);
+    return ctx.canvas;
+  }
+
+  /** RGB at a source pixel (x/y in source pixels) */
+  samplePixel(
+    source: HTMLCanvasElement | HTMLImageElement,
+    x: number,
+    y: number,
+  ): [number, number, number] | null {
+    if (!this.sampleCtx) {
+      const canvas = document.createElement("canvas");
+      canvas.width = 1;
+      canvas.height = 1;
+      this.sampleCtx = canvas.getContext("2d", {
+        colorSpace: this.colorSpace,
+        willReadFrequently: true,
+      });
+      if (!this.sampleCtx) return null;
+    }
+    const ctx = this.sampleCtx;
+    ctx.clearRect(0, 0, 1, 1);
+    ctx.drawImage(source, Math.floor(x), Math.floor(y), 1, 1, 0, 0, 1, 1);
+    const { data } = ctx.getImageData(0, 0, 1, 1, {
+      colorSpace: this.colorSpace,
+    });
+    return [data[0], data[1], data[2]];
+  }
+
   // ---- Uniform Update Methods ----
 
   private updateLightUniforms(image: CanvasImage): void {
@@ -1137,6 +1702,7 @@ export class PixiFilterEngine {
     u.uniforms.uBlacks = image.blacks;
     u.uniforms.uClarity = image.clarity;
     u.uniforms.uContrast = image.contrast;
+    u.uniforms.uLinearLight = this.highPrecision ? 1 : 0;
   }
 
   private updateBasicColorUniforms(image: CanvasImage): void {
@@ -1301,6 +1867,10 @@ export class PixiFilterEngine {
     return image.dehaze !== 0 || image.vignette !== 0 || image.grain !== 0;
   }
 
+  private isMasksActive(image: CanvasImage): boolean {
+    return !!image.masks && image.masks.some(hasMaskAdjustments);
+  }
+
   private isLegacyActive(image: CanvasImage): boolean {
     return (
       image.filters?.includes("grayscale") ||
@@ -1318,6 +1888,8 @@ export class PixiFilterEngine {
       this.isAdvancedColorActive(image) ||
       this.isEffectsActive(image) ||
       this.isCurvesActive(image) ||
+      this.isMasksActive(image) ||
+      isProfileActive(image.profile) ||
       image.blur > 0 ||
       this.isLegacyActive(image)
     );
@@ -1332,8 +1904,15 @@ export class PixiFilterEngine {
     this.advancedColorFilter?.destroy();
     this.effectsFilter?.destroy();
     this.curvesFilter?.destroy();
+    this.profileFilter?.destroy();
+    this.profileLutTexture?.destroy();
     this.blurFilter?.destroy();
     this.legacyFilter?.destroy();
+    for (const pass of this.maskPasses) {
+      pass.filter.destroy();
+      pass.texture.destroy();
+    }
+    this.maskPasses = [];
     this.sprite?.destroy();
     this.app?.destroy(true);
     this.app = null;
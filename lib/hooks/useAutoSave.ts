@@ -1,6 +1,19 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { CanvasImage } from "@/lib/types";
-import { supabase } from "@/lib/supabase";
+import { useQueryClient } from "@tanstack/react-query";
+import { EDIT_KEYS, type CanvasImage } from "@/lib/types";
+import { getAuthHeaders, supabase } from "@/lib/supabase";
+import { useCanvasStore } from "@/lib/stores/canvasStore";
+import {
+  OWNER_ONLY_PHOTO_COLUMNS,
+  PHOTO_COLUMN_FIELDS,
+  isSameValue,
+  mergeRemoteColumns,
+  parsePhotoRecordFields,
+  type EditRow,
+  type FieldClock,
+  type PhotoColumn,
+} from "@/lib/utils/collabMerge";
+import { toStoredSettings } from "@/lib/utils/profileLuts";
 
 type SaveStatus = "idle" | "saving" | "saved" | "error";
 
@@ -10,17 +23,67 @@ interface UseAutoSaveOptions {
   selectedIds: string[];
   debounceMs?: number;
   sessionId?: string;
+  /** Collab admin / master: layout columns of anyone's photo are merged too */
+  canManageAllPhotos?: boolean;
+  /** Collab "all photos" editor and up: edit columns of other users' photos are saved */
+  canEditAllPhotos?: boolean;
+  /** Collab viewer / commenter: nothing is saved (the server would reject it) */
+  readOnly?: boolean;
 }
 
 interface UseAutoSaveReturn {
   saveStatus: SaveStatus;
   setSaveStatus: (status: SaveStatus) => void;
   handleSave: (silent?: boolean) => Promise<void>;
+  mergeRemotePhoto: (
+    img: CanvasImage,
+    remote: Partial<CanvasImage>,
+    clock: FieldClock,
+  ) => Partial<CanvasImage>;
 }
 
-/** Edit signature for dirty tracking — matches fields we upsert to photo_edits or collab_photos */
-function getEditSignature(img: CanvasImage): string {
-  return JSON.stringify({
+/** Dirty-tracking key: one row per storage path per virtual copy */
+function getRowKey(img: CanvasImage): string | null {
+  const path = img.storagePath || img.originalStoragePath;
+  return path ? `${path}#${img.copyId ?? ""}` : null;
+}
+
+/** EDIT_KEYS values recorded in photo_edit_history */
+function getHistorySettings(img: CanvasImage): Partial<CanvasImage> {
+  const settings: Partial<CanvasImage> = {};
+  for (const key of EDIT_KEYS) {
+    (settings as Record<string, unknown>)[key] = img[key];
+  }
+  return settings;
+}
+
+/** A recorded state with the EDIT_KEYS among fields taken from img */
+function withHistoryFields(
+  prev: Partial<CanvasImage>,
+  img: Partial<CanvasImage>,
+  fields: readonly (keyof CanvasImage)[],
+): Partial<CanvasImage> {
+  const settings: Partial<CanvasImage> = { ...prev };
+  for (const field of fields) {
+    if (EDIT_KEYS.includes(field))
+      (settings as Record<string, unknown>)[field] = img[field];
+  }
+  return settings;
+}
+
+/** EDIT_KEYS that differ between two recorded states */
+function getChangedKeys(
+  prev: Partial<CanvasImage>,
+  next: Partial<CanvasImage>,
+): string[] {
+  return EDIT_KEYS.filter(
+    (key) => JSON.stringify(prev[key]) !== JSON.stringify(next[key]),
+  );
+}
+
+/** Saved columns of a photo — matches fields we upsert to photo_edits or collab_photos */
+function getEditRow(img: CanvasImage): EditRow {
+  return {
     folder_id: img.folderId || null,
     x: Math.round(img.x),
     y: Math.round(img.y),
@@ -44,6 +107,7 @@ function getEditSignature(img: CanvasImage): string {
     split_toning: img.splitToning ?? null,
     color_grading: img.colorGrading ?? null,
     color_calibration: img.colorCalibration ?? null,
+    profile: img.profile ?? null,
     clarity: img.clarity,
     dehaze: img.dehaze,
     vignette: img.vignette,
@@ -51,12 +115,16 @@ function getEditSignature(img: CanvasImage): string {
     grain_size: img.grainSize ?? 0,
     grain_roughness: img.grainRoughness ?? 0,
     curves: img.curves,
+    masks: img.masks ?? null,
+    crop: img.crop ?? null,
+    straighten: img.straighten ?? 0,
     brightness: img.brightness,
     hue: img.hue,
     blur: img.blur,
     filters: img.filters,
     border_width: img.borderWidth,
     border_color: img.borderColor,
+    snapshots: img.snapshots ?? null,
     original_storage_path: img.originalStoragePath ?? null,
     is_raw: img.isRaw ?? false,
     original_width: img.originalWidth ?? null,
@@ -65,7 +133,18 @@ function getEditSignature(img: CanvasImage): string {
     camera_make: img.cameraMake ?? null,
     camera_model: img.cameraModel ?? null,
     labels: img.labels || [],
-  });
+    rating: img.rating ?? 0,
+    color_label: img.colorLabel ?? null,
+    flag: img.flag ?? null,
+  };
+}
+
+/** Saves of one photo within this window update its latest history entry */
+const HISTORY_COALESCE_MS = 30_000;
+
+/** Edit signature for dirty tracking */
+function getEditSignature(img: CanvasImage): string {
+  return JSON.stringify(getEditRow(img));
 }
 
 export function useAutoSave({
@@ -74,13 +153,28 @@ export function useAutoSave({
   selectedIds,
   debounceMs = 800,
   sessionId,
+  canManageAllPhotos = false,
+  canEditAllPhotos = false,
+  readOnly = false,
 }: UseAutoSaveOptions): UseAutoSaveReturn {
+  const queryClient = useQueryClient();
   const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
   const saveStatusTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(
     null,
   );
   const autoSaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastSavedRef = useRef<Map<string, string>>(new Map());
+  // Last saved edit values per row, to record which keys each save changed
+  const lastSavedEditsRef = useRef<Map<string, Partial<CanvasImage>>>(
+    new Map(),
+  );
+  // Collab: last server state per row and its per-column write times (see collabMerge)
+  const lastSavedRowsRef = useRef<Map<string, EditRow>>(new Map());
+  const fieldClocksRef = useRef<Map<string, FieldClock>>(new Map());
+  // Latest history entry this user recorded per row, while saves still coalesce into it
+  const lastHistoryRef = useRef<
+    Map<string, { id: string; at: number; changedKeys: string[] }>
+  >(new Map());
   const imagesRef = useRef<CanvasImage[]>(images);
 
   // Keep imagesRef in sync with the latest images
@@ -88,6 +182,96 @@ export function useAutoSave({
     imagesRef.current = images;
   }, [images]);
 
+  // Collab: send a row's changed columns to the server merge. Another user's photo
+  // only takes edit columns, and only from an all-photos editor (an admin's moves
+  // too); whatever it doesn't take stays local. Returns the fields it wrote.
+  const mergePhotoRow = useCallback(
+    async (
+      img: CanvasImage,
+      userId: string,
+    ): Promise<(keyof CanvasImage)[]> => {
+      const key = getRowKey(img)!;
+      const baseline = { ...lastSavedRowsRef.current.get(key)! };
+      const row = getEditRow(img);
+      const ownPhoto =
+        !img.userId || img.userId === userId || canManageAllPhotos;
+      const updates: Partial<EditRow> = {};
+      for (const column of Object.keys(row) as PhotoColumn[]) {
+        if (isSameValue(row[column], baseline[column])) continue;
+        if (
+          !ownPhoto &&
+          (!canEditAllPhotos || OWNER_ONLY_PHOTO_COLUMNS.has(column))
+        ) {
+          baseline[column] = row[column];
+        } else {
+          updates[column] = row[column];
+        }
+      }
+
+      const columns = Object.keys(updates) as PhotoColumn[];
+      let written: PhotoColumn[] = [];
+      if (columns.length > 0) {
+        const now = Date.now();
+        const response = await fetch("/api/collab/photos", {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            ...(await getAuthHeaders()),
+          },
+          body: JSON.stringify({
+            sessionId,
+            storagePath: img.storagePath || img.originalStoragePath,
+            copyId: img.copyId ?? "",
+            updates,
+            clock: Object.fromEntries(columns.map((c) => [c, now])),
+            sentAt: Date.now(),
+          }),
+        });
+        if (!response.ok) {
+          const { error } = await response.json().catch(() => ({}));
+          throw new Error(error || `Merge failed: ${response.status}`);
+        }
+        const { photo, rejected } = (await response.json()) as {
+          photo: Record<string, unknown>;
+          rejected: PhotoColumn[];
+        };
+        for (const column of columns) baseline[column] = updates[column];
+
+        // A newer write from someone else won these columns: adopt it
+        if (rejected.length > 0) {
+          const remote = parsePhotoRecordFields(photo);
+          const remoteRow = getEditRow({ ...img, ...remote });
+          const adopted: Partial<CanvasImage> = {};
+          for (const column of rejected) {
+            const field = PHOTO_COLUMN_FIELDS[column];
+            baseline[column] = remoteRow[column];
+            (adopted as Record<string, unknown>)[field] = remote[field];
+          }
+          useCanvasStore.getState().updateImage(img.id, adopted);
+          const history = lastSavedEditsRef.current.get(key);
+          if (history) {
+            lastSavedEditsRef.current.set(
+              key,
+              withHistoryFields(
+                history,
+                adopted,
+                Object.keys(adopted) as (keyof CanvasImage)[],
+              ),
+            );
+          }
+        }
+        written = columns.filter((column) => !rejected.includes(column));
+        fieldClocksRef.current.set(
+          key,
+          (photo.field_clock as FieldClock) ?? {},
+        );
+      }
+      lastSavedRowsRef.current.set(key, baseline);
+      return written.map((column) => PHOTO_COLUMN_FIELDS[column]);
+    },
+    [sessionId, canManageAllPhotos, canEditAllPhotos],
+  );
+
   // Save edits to Supabase database. silent = true for auto-save (no alerts, use saveStatus).
   // Dirty tracking: only upsert images whose edits differ from last save.
   const handleSave = useCallback(
@@ -97,17 +281,23 @@ export function useAutoSave({
         if (!silent) alert("Please sign in to save your edits");
         return;
       }
+      if (readOnly) return;
 
       setSaveStatus("saving");
 
       // Always operate on latest images state
-      // In collab sessions, only save the current user's own photos —
-      // attempting to upsert another user's photo would violate RLS and fail the entire batch.
-      const imagesToSave = imagesRef.current.filter(
-        (img) =>
-          (img.storagePath || img.originalStoragePath) &&
-          (!sessionId || !img.userId || img.userId === user.id),
-      );
+      // In collab sessions another user's photo is only merged (mergePhotoRow), never
+      // upserted — that would violate RLS and fail the entire batch.
+      const imagesToSave = imagesRef.current.filter((img) => {
+        const key = getRowKey(img);
+        if (!key) return false;
+        return (
+          !sessionId ||
+          !img.userId ||
+          img.userId === user.id ||
+          lastSavedRowsRef.current.has(key)
+        );
+      });
       if (imagesToSave.length === 0) {
         setSaveStatus("idle");
         if (!silent) alert("No photos to save. Upload some photos first!");
@@ -116,10 +306,10 @@ export function useAutoSave({
 
       // Only save images that have changed since last save (dirty tracking)
       const dirtyImages = imagesToSave.filter((img) => {
-        const path = img.storagePath || img.originalStoragePath;
-        if (!path) return false;
+        const key = getRowKey(img);
+        if (!key) return false;
         const sig = getEditSignature(img);
-        return lastSavedRef.current.get(path) !== sig;
+        return lastSavedRef.current.get(key) !== sig;
       });
 
       if (dirtyImages.length === 0) {
@@ -127,70 +317,33 @@ export function useAutoSave({
         return;
       }
 
+      // Collab rows already on the server are merged field by field, so
+      // collaborators editing the same photo don't overwrite each other
+      const mergeImages = sessionId
+        ? dirtyImages.filter((img) =>
+            lastSavedRowsRef.current.has(getRowKey(img)!),
+          )
+        : [];
+      const upsertImages = dirtyImages.filter(
+        (img) => !mergeImages.includes(img),
+      );
+
       try {
         // Canonical key: prefer photos path, else originals path (for DNG-only)
-        const editsToSave = dirtyImages.map((img) => ({
+        const editsToSave = upsertImages.map((img) => ({
           storage_path: img.storagePath || img.originalStoragePath!,
+          copy_id: img.copyId ?? "",
           user_id: user.id,
           ...(sessionId ? { session_id: sessionId } : {}),
-          folder_id: img.folderId || null,
-          x: Math.round(img.x),
-          y: Math.round(img.y),
-          width: Math.round(img.width),
-          height: Math.round(img.height),
-          rotation: img.rotation,
-          scale_x: img.scaleX,
-          scale_y: img.scaleY,
-          // Light
-          exposure: img.exposure,
-          contrast: img.contrast,
-          highlights: img.highlights,
-          shadows: img.shadows,
-          whites: img.whites,
-          blacks: img.blacks,
-          texture: img.texture ?? 0,
-          // Color
-          temperature: img.temperature,
-          vibrance: img.vibrance,
-          saturation: img.saturation,
-          shadow_tint: img.shadowTint ?? 0,
-          color_hsl: img.colorHSL ?? null,
-          split_toning: img.splitToning ?? null,
-          color_grading: img.colorGrading ?? null,
-          color_calibration: img.colorCalibration ?? null,
-          // Effects
-          clarity: img.clarity,
-          dehaze: img.dehaze,
-          vignette: img.vignette,
-          grain: img.grain,
-          grain_size: img.grainSize ?? 0,
-          grain_roughness: img.grainRoughness ?? 0,
-          // Curves
-          curves: img.curves,
-          // Legacy
-          brightness: img.brightness,
-          hue: img.hue,
-          blur: img.blur,
-          filters: img.filters,
-          // DNG/RAW support
-          original_storage_path: img.originalStoragePath ?? null,
-          is_raw: img.isRaw ?? false,
-          original_width: img.originalWidth ?? null,
-          original_height: img.originalHeight ?? null,
-          taken_at: img.takenAt ?? null,
-          camera_make: img.cameraMake ?? null,
-          camera_model: img.cameraModel ?? null,
-          labels: img.labels || [],
-          border_width: img.borderWidth,
-          border_color: img.borderColor,
+          ...getEditRow(img),
         }));
 
         // Deduplicate by conflict key to avoid "ON CONFLICT DO UPDATE cannot affect row a second time"
         const uniqueEditsMap = new Map<string, typeof editsToSave[0]>();
         for (const edit of editsToSave) {
           const key = sessionId 
-            ? `${edit.storage_path}-${edit.session_id}` 
-            : `${edit.storage_path}-${edit.user_id}`;
+            ? `${edit.storage_path}-${edit.session_id}-${edit.copy_id}`
+            : `${edit.storage_path}-${edit.user_id}-${edit.copy_id}`;
           // Keep the last occurrence (most recent edit)
           uniqueEditsMap.set(key, edit);
         }
@@ -198,13 +351,16 @@ export function useAutoSave({
 
         const tableName = sessionId ? "collab_photos" : "photo_edits";
         const conflictOn = sessionId
-          ? "storage_path,session_id"
-          : "storage_path,user_id";
+          ? "storage_path,session_id,copy_id"
+          : "storage_path,user_id,copy_id";
 
         // Upsert edits (insert or update)
-        const { error } = await supabase.from(tableName).upsert(uniqueEdits, {
-          onConflict: conflictOn,
-        });
+        const { error } =
+          uniqueEdits.length > 0
+            ? await supabase.from(tableName).upsert(uniqueEdits, {
+                onConflict: conflictOn,
+              })
+            : { error: null };
 
         if (error) {
           console.error("Save error:", error);
@@ -212,12 +368,122 @@ export function useAutoSave({
           if (!silent) alert(`Failed to save edits: ${error.message}`);
           return;
         }
+        for (const img of upsertImages) {
+          lastSavedRowsRef.current.set(getRowKey(img)!, getEditRow(img));
+        }
+        const mergedFields = await Promise.all(
+          mergeImages.map((img) => mergePhotoRow(img, user.id)),
+        );
+
+        // Smart collections are evaluated on the saved rows
+        queryClient.invalidateQueries({
+          queryKey: ["smart-collection-matches"],
+        });
 
         // Update last-saved state for dirty tracking
         for (const img of dirtyImages) {
-          const path = img.storagePath || img.originalStoragePath;
-          if (!path) continue;
-          lastSavedRef.current.set(path, getEditSignature(img));
+          const key = getRowKey(img)!;
+          lastSavedRef.current.set(
+            key,
+            JSON.stringify(lastSavedRowsRef.current.get(key)),
+          );
+        }
+
+        // Record history for the edit values this save wrote: all of an
+        // upserted row, only the applied columns of a merged one
+        const written: [CanvasImage, (keyof CanvasImage)[]][] = [
+          ...upsertImages.map(
+            (img): [CanvasImage, (keyof CanvasImage)[]] => [img, EDIT_KEYS],
+          ),
+          ...mergeImages.map(
+            (img, i): [CanvasImage, (keyof CanvasImage)[]] => [
+              img,
+              mergedFields[i],
+            ],
+          ),
+        ];
+        const historyRows = new Map<
+          string,
+          {
+            user_id: string;
+            session_id?: string;
+            storage_path: string;
+            copy_id: string;
+            changed_keys: string[];
+            settings: Partial<CanvasImage>;
+          }
+        >();
+        for (const [img, fields] of written) {
+          const key = getRowKey(img)!;
+          const prev = lastSavedEditsRef.current.get(key);
+          if (!prev) continue;
+          const settings = withHistoryFields(prev, img, fields);
+          const changedKeys = getChangedKeys(prev, settings);
+          if (changedKeys.length === 0) continue;
+          lastSavedEditsRef.current.set(key, settings);
+          historyRows.set(key, {
+            user_id: user.id,
+            ...(sessionId ? { session_id: sessionId } : {}),
+            storage_path: img.storagePath || img.originalStoragePath!,
+            copy_id: img.copyId ?? "",
+            changed_keys: changedKeys,
+            settings,
+          });
+        }
+
+        if (historyRows.size > 0) {
+          try {
+            const now = Date.now();
+            const inserts: string[] = [];
+            for (const [key, row] of historyRows) {
+              // Autosave runs after every pause: saves in quick succession
+              // extend the entry they started instead of adding one each
+              const last = lastHistoryRef.current.get(key);
+              if (!last || now - last.at >= HISTORY_COALESCE_MS) {
+                inserts.push(key);
+                continue;
+              }
+              const changedKeys = Array.from(
+                new Set([...last.changedKeys, ...row.changed_keys]),
+              );
+              const { error: historyError } = await supabase
+                .from("photo_edit_history")
+                .update({
+                  changed_keys: changedKeys,
+                  settings: await toStoredSettings(row.settings),
+                })
+                .eq("id", last.id);
+              if (historyError) throw historyError;
+              last.changedKeys = changedKeys;
+            }
+            if (inserts.length > 0) {
+              // The profile's LUT is stored once and referenced by hash
+              const rows = await Promise.all(
+                inserts.map(async (key) => {
+                  const row = historyRows.get(key)!;
+                  return {
+                    ...row,
+                    settings: await toStoredSettings(row.settings),
+                  };
+                }),
+              );
+              const { data, error: historyError } = await supabase
+                .from("photo_edit_history")
+                .insert(rows)
+                .select("id");
+              if (historyError) throw historyError;
+              inserts.forEach((key, i) => {
+                lastHistoryRef.current.set(key, {
+                  id: data[i].id,
+                  at: now,
+                  changedKeys: rows[i].changed_keys,
+                });
+              });
+            }
+            queryClient.invalidateQueries({ queryKey: ["edit-history"] });
+          } catch (historyError) {
+            console.error("Edit history error:", historyError);
+          }
         }
 
         setSaveStatus("saved");
@@ -239,21 +505,78 @@ export function useAutoSave({
         if (!silent) alert("Failed to save edits");
       }
     },
-    [user, sessionId], // FIX: Include sessionId for correct memoization
+    // FIX: Include sessionId for correct memoization
+    [user, sessionId, readOnly, queryClient, mergePhotoRow],
+  );
+
+  // Realtime: the remote columns to apply to a local photo. A column is skipped if
+  // it's older than what we have, or edited here and not saved yet (our save carries
+  // a newer write time). Remote values count as saved for dirty tracking.
+  const mergeRemotePhoto = useCallback(
+    (
+      img: CanvasImage,
+      remote: Partial<CanvasImage>,
+      clock: FieldClock,
+    ): Partial<CanvasImage> => {
+      const key = getRowKey(img);
+      if (!key) return remote;
+      const local = getEditRow(img);
+      const incoming = getEditRow({ ...img, ...remote });
+      const baseline = lastSavedRowsRef.current.get(key);
+      const merged = mergeRemoteColumns(
+        local,
+        incoming,
+        baseline,
+        fieldClocksRef.current.get(key) ?? {},
+        clock,
+      );
+      const updates: Partial<CanvasImage> = {};
+      for (const column of merged.columns) {
+        const field = PHOTO_COLUMN_FIELDS[column];
+        if (field in remote)
+          (updates as Record<string, unknown>)[field] = remote[field];
+      }
+      lastSavedRowsRef.current.set(key, merged.baseline);
+      fieldClocksRef.current.set(key, merged.known);
+      lastSavedRef.current.set(key, JSON.stringify(merged.baseline));
+      const fields = Object.keys(updates) as (keyof CanvasImage)[];
+      lastSavedEditsRef.current.set(
+        key,
+        withHistoryFields(
+          lastSavedEditsRef.current.get(key) ?? getHistorySettings(img),
+          updates,
+          fields,
+        ),
+      );
+      // Someone else's edit comes between: our next save starts a new entry
+      if (fields.some((field) => EDIT_KEYS.includes(field)))
+        lastHistoryRef.current.delete(key);
+      return updates;
+    },
+    [],
   );
 
   // Clear lastSavedRef when user changes (e.g. logout or switch account)
   useEffect(() => {
     lastSavedRef.current.clear();
+    lastSavedEditsRef.current.clear();
+    lastHistoryRef.current.clear();
+    lastSavedRowsRef.current.clear();
+    fieldClocksRef.current.clear();
   }, [user?.id]);
 
-  // Seed lastSavedRef when images first load from DB (so we don't save unchanged images on first edit)
+  // Seed lastSavedRef when images first load from DB (so we don't save unchanged images on first edit).
+  // History diffs start from the state a photo loads or is added with.
   useEffect(() => {
-    if (images.length > 0 && lastSavedRef.current.size === 0) {
-      for (const img of images) {
-        const path = img.storagePath || img.originalStoragePath;
-        if (path) lastSavedRef.current.set(path, getEditSignature(img));
-      }
+    const seedRows = lastSavedRef.current.size === 0;
+    for (const img of images) {
+      const key = getRowKey(img);
+      if (!key) continue;
+      if (!lastSavedEditsRef.current.has(key))
+        lastSavedEditsRef.current.set(key, getHistorySettings(img));
+      if (!seedRows) continue;
+      lastSavedRef.current.set(key, getEditSignature(img));
+      lastSavedRowsRef.current.set(key, getEditRow(img));
     }
   }, [images]);
 
@@ -267,44 +590,7 @@ export function useAutoSave({
       !(img.storagePath || img.originalStoragePath)
     )
       return null;
-    return JSON.stringify({
-      folder_id: img.folderId || null,
-      x: Math.round(img.x),
-      y: Math.round(img.y),
-      width: Math.round(img.width),
-      height: Math.round(img.height),
-      rotation: img.rotation,
-      scale_x: img.scaleX,
-      scale_y: img.scaleY,
-      exposure: img.exposure,
-      contrast: img.contrast,
-      highlights: img.highlights,
-      shadows: img.shadows,
-      whites: img.whites,
-      blacks: img.blacks,
-      texture: img.texture ?? 0,
-      temperature: img.temperature,
-      vibrance: img.vibrance,
-      saturation: img.saturation,
-      shadow_tint: img.shadowTint ?? 0,
-      color_hsl: img.colorHSL ?? null,
-      split_toning: img.splitToning ?? null,
-      color_grading: img.colorGrading ?? null,
-      color_calibration: img.colorCalibration ?? null,
-      clarity: img.clarity,
-      dehaze: img.dehaze,
-      vignette: img.vignette,
-      grain: img.grain,
-      grain_size: img.grainSize ?? 0,
-      grain_roughness: img.grainRoughness ?? 0,
-      curves: img.curves,
-      brightness: img.brightness,
-      hue: img.hue,
-      blur: img.blur,
-      filters: img.filters,
-      borderWidth: img.borderWidth,
-      borderColor: img.borderColor,
-    });
+    return getEditSignature(img);
   }, [images, selectedIds]);
 
   useEffect(() => {
@@ -322,5 +608,5 @@ export function useAutoSave({
     };
   }, [selectedImageEditSignature, user, handleSave, debounceMs]);
 
-  return { saveStatus, setSaveStatus, handleSave };
+  return { saveStatus, setSaveStatus, handleSave, mergeRemotePhoto };
 }
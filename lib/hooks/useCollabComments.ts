@@ -0,0 +1,36 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { CollabCommentThread } from "@/lib/types";
+import { supabase } from "@/lib/supabase";
+
+/**
+ * All comment threads of a collab session (with their comments), oldest first.
+ * Kept live by useCollabRealtime, which invalidates "collab-comments" on every change.
+ */
+export function useCollabComments(sessionId: string | undefined) {
+  return useQuery({
+    queryKey: ["collab-comments", sessionId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("collab_comment_threads")
+        .select("*, comments:collab_comments(*)")
+        .eq("session_id", sessionId!)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        console.error("Error loading comments:", error);
+        return [];
+      }
+      const threads = data as CollabCommentThread[];
+      for (const thread of threads) {
+        thread.comments.sort((a, b) =>
+          a.created_at.localeCompare(b.created_at),
+        );
+      }
+      return threads;
+    },
+    enabled: !!sessionId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -2,25 +2,34 @@ import { useEffect, useRef, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useCanvasStore } from '@/lib/stores/canvasStore';
 import { useQueryClient } from '@tanstack/react-query';
-import type { CanvasImage, PhotoFolder } from '@/lib/types';
+import type { CanvasImage, CollabCommentThread, PhotoFolder } from '@/lib/types';
 import { DEFAULT_CURVES } from '@/lib/types';
 import { getCachedImage } from '@/lib/imageCache';
 import { getThumbStoragePath } from '@/lib/utils/imageUtils';
+import { parsePhotoRecordFields, type FieldClock } from '@/lib/utils/collabMerge';
 
 /**
  * Hook for handling real-time collaboration on the canvas
- * Listens for database changes from other collaborators and broadcasts cursor positions
+ * Listens for database changes from other collaborators (photos, folders, comments).
+ * Cursors and selections go over the session presence channel, see
+ * app/community/[sessionId]/page.tsx.
+ * Photo updates go through mergeRemotePhoto (useAutoSave) so local unsaved edits survive.
  */
 export function useCollabRealtime({
   sessionId,
   userId,
+  mergeRemotePhoto,
 }: {
   sessionId: string;
   userId?: string;
+  mergeRemotePhoto: (
+    img: CanvasImage,
+    remote: Partial<CanvasImage>,
+    clock: FieldClock,
+  ) => Partial<CanvasImage>;
 }) {
   const queryClient = useQueryClient();
   const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
-  const subscribedRef = useRef(false);
   
   const images = useCanvasStore((s) => s.images);
   const setImages = useCanvasStore((s) => s.setImages);
@@ -76,6 +85,7 @@ export function useCollabRealtime({
       userId: record.user_id as string,
       src,
       storagePath: record.storage_path as string,
+      copyId: (record.copy_id as string) || undefined,
       thumbnailPath: record.thumbnail_path as string,
       folderId: record.folder_id as string | undefined,
       x: record.x as number,
@@ -102,6 +112,7 @@ export function useCollabRealtime({
       splitToning: record.split_toning as CanvasImage['splitToning'],
       colorGrading: record.color_grading as CanvasImage['colorGrading'],
       colorCalibration: record.color_calibration as CanvasImage['colorCalibration'],
+      profile: (record.profile as CanvasImage['profile']) ?? undefined,
       // Effects
       clarity: record.clarity as number,
       dehaze: record.dehaze as number,
@@ -116,6 +127,11 @@ export function useCollabRealtime({
         green: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
         blue: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
       },
+      // Local adjustments
+      masks: (record.masks as CanvasImage['masks']) ?? undefined,
+      // Crop
+      crop: (record.crop as CanvasImage['crop']) ?? undefined,
+      straighten: (record.straighten as number) ?? 0,
       // Legacy
       brightness: record.brightness as number,
       hue: record.hue as number,
@@ -131,9 +147,15 @@ export function useCollabRealtime({
       cameraMake: record.camera_make as string | undefined,
       cameraModel: record.camera_model as string | undefined,
       labels: (record.labels as string[]) || [],
+      // Culling
+      rating: (record.rating as number) ?? 0,
+      colorLabel: (record.color_label as CanvasImage['colorLabel']) ?? null,
+      flag: (record.flag as CanvasImage['flag']) ?? null,
       // Border
       borderWidth: record.border_width as number | undefined,
       borderColor: record.border_color as string | undefined,
+      // Named snapshots
+      snapshots: (record.snapshots as CanvasImage['snapshots']) ?? undefined,
     };
   }, [sessionId, setImages]);
 
@@ -229,11 +251,14 @@ export function useCollabRealtime({
             // (uploader's local state has the image before the DB insert fires realtime)
             const record = newRecord as Record<string, unknown>;
             const recordStoragePath = record.storage_path as string;
+            const recordCopyId = (record.copy_id as string) || '';
             const recordId = record.id as string;
             const currentImages = useCanvasStore.getState().images;
             if (currentImages.some((img) =>
               img.id === recordId ||
-              (img.storagePath && img.storagePath === recordStoragePath)
+              (img.storagePath &&
+                img.storagePath === recordStoragePath &&
+                (img.copyId ?? '') === recordCopyId)
             )) {
               break;
             }
@@ -242,10 +267,17 @@ export function useCollabRealtime({
             parseDbPhotoToCanvasImage(record).then((newImage) => {
               let wasAdded = false;
               setImages((prev) => {
-                if (prev.some((img) => img.id === newImage.id || (img.storagePath && img.storagePath === newImage.storagePath))) return prev;
+                if (prev.some((img) =>
+                  img.id === newImage.id ||
+                  (img.storagePath &&
+                    img.storagePath === newImage.storagePath &&
+                    img.copyId === newImage.copyId)
+                )) return prev;
                 wasAdded = true;
                 return [...prev, newImage];
               });
+              // Start field-level merge tracking from the inserted row
+              if (wasAdded) mergeRemotePhoto(newImage, {}, (record.field_clock as FieldClock) ?? {});
               // Update folder's imageIds so the image renders inside the folder
               if (wasAdded && newImage.folderId) {
                 setFolders((prev) =>
@@ -264,56 +296,24 @@ export function useCollabRealtime({
             const updateRecord = newRecord as Record<string, unknown>;
             const dbId = updateRecord.id as string;
             const dbStoragePath = updateRecord.storage_path as string;
-            // Uploader has a local ID (img-xxx), not the DB UUID — fall back to storagePath match
+            const dbCopyId = (updateRecord.copy_id as string) || '';
+            // Uploader has a local ID (img-xxx), not the DB UUID — fall back to storagePath (+ copy) match
             const currentImages = useCanvasStore.getState().images;
             const targetImage =
               currentImages.find((img) => img.id === dbId) ||
-              currentImages.find((img) => img.storagePath === dbStoragePath);
+              currentImages.find(
+                (img) =>
+                  img.storagePath === dbStoragePath &&
+                  (img.copyId ?? '') === dbCopyId,
+              );
             if (!targetImage) break;
-            updateImage(targetImage.id, {
-              x: updateRecord.x as number,
-              y: updateRecord.y as number,
-              width: updateRecord.width as number,
-              height: updateRecord.height as number,
-              rotation: updateRecord.rotation as number,
-              scaleX: updateRecord.scale_x as number,
-              scaleY: updateRecord.scale_y as number,
-              folderId: updateRecord.folder_id as string | undefined,
-              // Light adjustments
-              exposure: updateRecord.exposure as number,
-              contrast: updateRecord.contrast as number,
-              highlights: updateRecord.highlights as number,
-              shadows: updateRecord.shadows as number,
-              whites: updateRecord.whites as number,
-              blacks: updateRecord.blacks as number,
-              texture: updateRecord.texture as number,
-              // Color adjustments
-              temperature: updateRecord.temperature as number,
-              vibrance: updateRecord.vibrance as number,
-              saturation: updateRecord.saturation as number,
-              shadowTint: updateRecord.shadow_tint as number,
-              colorHSL: updateRecord.color_hsl as CanvasImage['colorHSL'],
-              splitToning: updateRecord.split_toning as CanvasImage['splitToning'],
-              colorGrading: updateRecord.color_grading as CanvasImage['colorGrading'],
-              colorCalibration: updateRecord.color_calibration as CanvasImage['colorCalibration'],
-              // Effects
-              clarity: updateRecord.clarity as number,
-              dehaze: updateRecord.dehaze as number,
-              vignette: updateRecord.vignette as number,
-              grain: updateRecord.grain as number,
-              grainSize: updateRecord.grain_size as number,
-              grainRoughness: updateRecord.grain_roughness as number,
-              // Curves
-              curves: updateRecord.curves as CanvasImage['curves'],
-              // Legacy
-              brightness: updateRecord.brightness as number,
-              hue: updateRecord.hue as number,
-              blur: updateRecord.blur as number,
-              filters: updateRecord.filters as string[],
-              // Border
-              borderWidth: updateRecord.border_width as number | undefined,
-              borderColor: updateRecord.border_color as string | undefined,
-            });
+            // Field-level merge: only newer columns not being edited here
+            const updates = mergeRemotePhoto(
+              targetImage,
+              parsePhotoRecordFields(updateRecord),
+              (updateRecord.field_clock as FieldClock) ?? {},
+            );
+            if (Object.keys(updates).length > 0) updateImage(targetImage.id, updates);
             break;
           }
             
@@ -334,11 +334,36 @@ export function useCollabRealtime({
       }
     );
 
-    channel.subscribe((status) => {
-      if (status === 'SUBSCRIBED') {
-        subscribedRef.current = true;
-      }
-    });
+    // Comment threads and comments: refetch the session's comments (useCollabComments).
+    // Realtime can't filter DELETE events, and with RLS on their old record only has
+    // the id: a delete refetches only if the id is one of this session's threads or comments.
+    const refetchComments = () => {
+      queryClient.invalidateQueries({ queryKey: ['collab-comments', sessionId] });
+    };
+    const isSessionComment = (id: unknown) =>
+      !!queryClient
+        .getQueryData<CollabCommentThread[]>(['collab-comments', sessionId])
+        ?.some(
+          (thread) =>
+            thread.id === id || thread.comments.some((comment) => comment.id === id)
+        );
+    for (const table of ['collab_comment_threads', 'collab_comments']) {
+      channel.on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table, filter: `session_id=eq.${sessionId}` },
+        refetchComments
+      );
+      channel.on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table, filter: `session_id=eq.${sessionId}` },
+        refetchComments
+      );
+      channel.on('postgres_changes', { event: 'DELETE', schema: 'public', table }, (payload) => {
+        if (isSessionComment(payload.old.id)) refetchComments();
+      });
+    }
+
+    channel.subscribe();
 
     channelRef.current = channel;
   }, [
@@ -351,6 +376,7 @@ export function useCollabRealtime({
     updateFolder,
     parseDbPhotoToCanvasImage,
     parseDbFolderToPhotoFolder,
+    mergeRemotePhoto,
   ]);
 
   /**
@@ -360,30 +386,12 @@ export function useCollabRealtime({
     if (channelRef.current) {
       supabase.removeChannel(channelRef.current);
       channelRef.current = null;
-      subscribedRef.current = false;
     }
   }, []);
 
-  /**
-   * Broadcast cursor position to other collaborators
-   */
-  const broadcastCursor = useCallback((x: number, y: number) => {
-    if (channelRef.current && userId && subscribedRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'cursor',
-        payload: { userId, x, y },
-      });
-    }
-  }, [userId]);
-
   // Set up and clean up subscriptions
   useEffect(() => {
     setupRealtime();
     return cleanup;
   }, [setupRealtime, cleanup]);
-
-  return {
-    broadcastCursor,
-  };
 }
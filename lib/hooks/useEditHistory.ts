@@ -0,0 +1,46 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { CanvasImage, EditHistoryEntry } from "@/lib/types";
+import { supabase } from "@/lib/supabase";
+
+const HISTORY_LIMIT = 100;
+
+/**
+ * Saved edit history of one photo (or virtual copy), newest first.
+ * Personal canvas reads the user's own rows; collab reads the whole session's rows.
+ */
+export function useEditHistory(
+  image: CanvasImage | null,
+  sessionId: string | undefined,
+  enabled: boolean,
+) {
+  const storagePath = image?.storagePath || image?.originalStoragePath;
+  const copyId = image?.copyId ?? "";
+
+  return useQuery({
+    queryKey: ["edit-history", storagePath, copyId, sessionId ?? null],
+    queryFn: async () => {
+      let query = supabase
+        .from("photo_edit_history")
+        .select("*")
+        .eq("storage_path", storagePath!)
+        .eq("copy_id", copyId);
+      query = sessionId
+        ? query.eq("session_id", sessionId)
+        : query.is("session_id", null);
+
+      const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) {
+        console.error("Error loading edit history:", error);
+        return [];
+      }
+      return data as EditHistoryEntry[];
+    },
+    enabled: enabled && !!storagePath,
+    staleTime: 0,
+  });
+}
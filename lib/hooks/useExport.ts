@@ -1,7 +1,34 @@
 import { useCallback, useState } from "react";
-import type { CanvasImage, PhotoFolder } from "@/lib/types";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMATS,
+  getEditValues,
+  type CanvasImage,
+  type ExportJob,
+  type EditValues,
+  type ExportOptions,
+  type ExportPhotoMetadata,
+  type PhotoFolder,
+} from "@/lib/types";
 import { exportWithCanvasFilters } from "@/lib/filters/clientFilters";
 import { getPixiFilterEngine } from "@/lib/filters/pixiFilterEngine";
+import {
+  hasCrop,
+  getCropPixelRect,
+  getStraightenScale,
+  getExportDimensions,
+  applyOutputSharpening,
+} from "@/lib/filters/core";
+import { useUIStore } from "@/lib/stores/uiStore";
+import { getAuthHeaders } from "@/lib/supabase";
+import {
+  getPhotoMetadata,
+  applyMetadataMode,
+  buildXmpPacket,
+  buildExifTiff,
+  embedJpegMetadata,
+  embedPngMetadata,
+} from "@/lib/utils/exportMetadata";
 import {
   SOCIAL_LAYOUT_PAGE_WIDTH,
   SOCIAL_LAYOUT_ASPECT,
@@ -18,7 +45,10 @@ interface UseExportOptions {
     buffer: ArrayBuffer,
     forPreview?: boolean,
   ) => Promise<{ dataUrl: string; width: number; height: number }>;
+  userId?: string;
   sessionId?: string;
+  /** Save pending edits (export jobs render the saved rows) */
+  saveEdits?: (silent?: boolean) => Promise<void>;
 }
 
 interface UseExportReturn {
@@ -27,10 +57,14 @@ interface UseExportReturn {
   exportImageToDownload: (
     image: CanvasImage,
     silent?: boolean,
+    options?: ExportOptions,
   ) => Promise<boolean>;
-  handleExport: () => void;
-  handleExportSelection: (contextMenuSelectedIds: string[]) => void;
-  handleExportLayout: (folderId: string) => void;
+  handleExport: (options?: ExportOptions) => void;
+  handleExportSelection: (
+    contextMenuSelectedIds: string[],
+    options?: ExportOptions,
+  ) => void;
+  handleExportLayout: (folderId: string, options?: ExportOptions) => void;
 }
 
 export function useExport({
@@ -38,7 +72,9 @@ export function useExport({
   selectedIds,
   folders,
   decodeDNG,
+  userId,
   sessionId,
+  saveEdits,
 }: UseExportOptions): UseExportReturn {
   const [exportProgress, setExportProgress] = useState<{
     current: number;
@@ -47,11 +83,24 @@ export function useExport({
 
   // Export a single image with edits (DNG full-res or server). silent = true for multi-export (no per-image alerts).
   const exportImageToDownload = useCallback(
-    async (image: CanvasImage, silent = false): Promise<boolean> => {
+    async (
+      image: CanvasImage,
+      silent = false,
+      options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+    ): Promise<boolean> => {
       const hasCloudPath = image.storagePath || image.originalStoragePath;
       if (!hasCloudPath) return false;
 
       try {
+        if (needsServerRender(options)) {
+          const blob = await renderExportOnServer(image, options, sessionId);
+          downloadBlob(
+            blob,
+            `${image.id || "export"}-${Date.now()}.${EXPORT_FORMATS[options.format].extension}`,
+          );
+          return true;
+        }
+
         const pathIsDng = (p: string | undefined) =>
           p?.toLowerCase().endsWith(".dng") ?? false;
         const isDngSource =
@@ -87,19 +136,26 @@ export function useExport({
               const arrayBuffer = await dngBlob.arrayBuffer();
               const decoded = await decodeDNG(arrayBuffer, false);
               // Use GPU filter pipeline for fast full-res export (WYSIWYG)
-              const blob = await exportImageWithFilters(image, decoded.dataUrl);
-              const url = URL.createObjectURL(blob);
-              const a = document.createElement("a");
-              a.href = url;
-              a.download = `${image.id || "export"}-fullres-${Date.now()}.jpg`;
-              document.body.appendChild(a);
-              a.click();
-              document.body.removeChild(a);
-              URL.revokeObjectURL(url);
-              if (!silent)
-                alert(
-                  `Exported at full resolution: ${decoded.width}x${decoded.height}px`,
+              const blob = await encodeExportBlob(
+                await exportImageWithFilters(image, decoded.dataUrl),
+                options,
+                {
+                  metadata: getPhotoMetadata(image),
+                  edits: getEditValues(image),
+                },
+              );
+              downloadBlob(
+                blob,
+                `${image.id || "export"}-fullres-${Date.now()}.${EXPORT_FORMATS[options.format].extension}`,
+              );
+              if (!silent) {
+                const size = getExportDimensions(
+                  decoded.width,
+                  decoded.height,
+                  options.longEdge,
                 );
+                alert(`Exported at ${size.width}x${size.height}px`);
+              }
               return true;
             }
           } catch (dngError) {
@@ -131,15 +187,15 @@ export function useExport({
           throw new Error(err.error || "Failed to get image URL");
         }
         const { signedUrl } = await signedRes.json();
-        const blob = await exportImageWithFilters(image, signedUrl);
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = `${image.id || "export"}-${Date.now()}.jpg`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        const blob = await encodeExportBlob(
+          await exportImageWithFilters(image, signedUrl),
+          options,
+          { metadata: getPhotoMetadata(image), edits: getEditValues(image) },
+        );
+        downloadBlob(
+          blob,
+          `${image.id || "export"}-${Date.now()}.${EXPORT_FORMATS[options.format].extension}`,
+        );
         return true;
       } catch (error) {
         console.error("Export error:", error);
@@ -154,27 +210,35 @@ export function useExport({
   ); // Added sessionId dependency
 
   // Handle export with edits applied (single selected image). Runs in background with progress overlay.
-  const handleExport = useCallback(() => {
-    const singleId = selectedIds.length === 1 ? selectedIds[0] : null;
-    if (!singleId) return;
-    const image = images.find((img) => img.id === singleId);
-    if (!image || !(image.storagePath || image.originalStoragePath)) {
-      alert("Cannot export: Image not saved to cloud");
-      return;
-    }
-    setExportProgress({ current: 1, total: 1 });
-    (async () => {
-      try {
-        await exportImageToDownload(image, false);
-      } finally {
-        setExportProgress(null);
+  const handleExport = useCallback(
+    (options: ExportOptions = DEFAULT_EXPORT_OPTIONS) => {
+      const singleId = selectedIds.length === 1 ? selectedIds[0] : null;
+      if (!singleId) return;
+      const image = images.find((img) => img.id === singleId);
+      if (!image || !(image.storagePath || image.originalStoragePath)) {
+        alert("Cannot export: Image not saved to cloud");
+        return;
       }
-    })();
-  }, [selectedIds, images, exportImageToDownload]);
+      setExportProgress({ current: 1, total: 1 });
+      (async () => {
+        try {
+          await exportImageToDownload(image, false, options);
+        } finally {
+          setExportProgress(null);
+        }
+      })();
+    },
+    [selectedIds, images, exportImageToDownload],
+  );
 
-  // Export multiple selected photos with edits (context menu). Runs in background with "Exporting 1 of N" overlay.
+  // Export selected photos with edits (context menu / export dialog).
+  // One photo exports in the browser (WYSIWYG); several start a server-side export job
+  // that renders them into a single ZIP, so the batch survives the tab closing.
   const handleExportSelection = useCallback(
-    (contextMenuSelectedIds: string[]) => {
+    (
+      contextMenuSelectedIds: string[],
+      options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+    ) => {
       const toExport = contextMenuSelectedIds
         .map((id) => images.find((img) => img.id === id))
         .filter(
@@ -187,37 +251,63 @@ export function useExport({
         alert("No photos to export. Selected items must be saved to cloud.");
         return;
       }
-      const total = toExport.length;
-      setExportProgress({ current: 1, total });
+
+      if (toExport.length === 1) {
+        setExportProgress({ current: 1, total: 1 });
+        (async () => {
+          try {
+            await exportImageToDownload(toExport[0], false, options);
+          } finally {
+            setExportProgress(null);
+          }
+        })();
+        return;
+      }
+
+      if (!userId) {
+        alert("Sign in to export multiple photos.");
+        return;
+      }
       (async () => {
-        const delayMs = 400;
-        let ok = 0;
-        let fail = 0;
-        for (let i = 0; i < toExport.length; i++) {
-          const success = await exportImageToDownload(toExport[i], true);
-          if (success) ok++;
-          else fail++;
-          if (i < toExport.length - 1) {
-            setExportProgress({ current: i + 2, total });
-            await new Promise((r) => setTimeout(r, delayMs));
+        try {
+          // The job renders the saved edits: flush pending ones first
+          await saveEdits?.(true);
+          const res = await fetch("/api/export-jobs", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...(await getAuthHeaders()),
+            },
+            body: JSON.stringify({
+              sessionId,
+              options,
+              photos: toExport.map((img) => ({
+                storagePath: img.storagePath || img.originalStoragePath,
+                copyId: img.copyId ?? "",
+              })),
+            }),
+          });
+          if (!res.ok) {
+            const err = await res.json().catch(() => ({}));
+            throw new Error(err.error || "Failed to start export");
           }
-        }
-        setExportProgress(null);
-        if (total > 1 && (ok > 0 || fail > 0)) {
-          if (fail === 0) alert(`Exported ${ok} photo${ok === 1 ? "" : "s"}.`);
-          else
-            alert(
-              `Exported ${ok} photo${ok === 1 ? "" : "s"}. ${fail} failed.`,
-            );
+          const { job } = (await res.json()) as { job: ExportJob };
+          // Progress updates arrive over Realtime (GlobalNotifications)
+          useUIStore.getState().upsertExportJob(job);
+        } catch (error) {
+          console.error("Export job error:", error);
+          alert(
+            `Export failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          );
         }
       })();
     },
-    [images, exportImageToDownload],
+    [images, exportImageToDownload, userId, sessionId, saveEdits],
   );
 
   // Export a social layout (one image per page)
   const handleExportLayout = useCallback(
-    (folderId: string) => {
+    (folderId: string, options: ExportOptions = DEFAULT_EXPORT_OPTIONS) => {
       const folder = folders.find((f) => f.id === folderId);
       if (!folder || !isSocialLayout(folder)) return;
 
@@ -235,7 +325,13 @@ export function useExport({
         try {
           for (let page = 0; page < pageCount; page++) {
             setExportProgress({ current: page + 1, total: pageCount });
-            await exportSocialLayoutPage(folder, folderImages, page, decodeDNG);
+            await exportSocialLayoutPage(
+              folder,
+              folderImages,
+              page,
+              decodeDNG,
+              options,
+            );
             if (page < pageCount - 1) {
               await new Promise((r) => setTimeout(r, 400));
             }
@@ -263,6 +359,54 @@ export function useExport({
   };
 }
 
+/** Straighten and crop a filtered image blob if the image has a crop */
+async function applyCropToBlob(
+  blob: Blob,
+  image: CanvasImage,
+): Promise<Blob> {
+  if (!hasCrop(image.crop, image.straighten)) return blob;
+
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const el = new Image();
+      el.onload = () => resolve(el);
+      el.onerror = () =>
+        reject(new Error("Failed to load filtered image for crop"));
+      el.src = url;
+    });
+
+    const w = img.naturalWidth || img.width;
+    const h = img.naturalHeight || img.height;
+    const straighten = image.straighten ?? 0;
+    const rect = getCropPixelRect(image.crop, w, h);
+    const scale = getStraightenScale(w, h, straighten);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = rect.width;
+    canvas.height = rect.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return blob;
+
+    // Rotate + scale around the frame center, then shift the crop origin to 0,0
+    ctx.imageSmoothingQuality = "high";
+    ctx.translate(-rect.left, -rect.top);
+    ctx.translate(w / 2, h / 2);
+    ctx.rotate((straighten * Math.PI) / 180);
+    ctx.scale(scale, scale);
+    ctx.drawImage(img, -w / 2, -h / 2, w, h);
+
+    return new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (b) => (b ? resolve(b) : reject(new Error("toBlob failed"))),
+        "image/png",
+      );
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
 /** Add border around a filtered image blob if the image has a border */
 async function applyBorderToBlob(
   blob: Blob,
@@ -290,7 +434,8 @@ async function applyBorderToBlob(
     // Scale border relative to image size (borderWidth is in canvas display units,
     // but the exported image may be at full source resolution)
     // The border on canvas is relative to image.width (display size), so scale proportionally
-    const scale = imgW / image.width;
+    // (a cropped blob only covers the crop's share of the display width)
+    const scale = imgW / (image.width * (image.crop?.width ?? 1));
     const scaledBorder = Math.round(borderWidth * scale);
 
     const canvas = document.createElement("canvas");
@@ -309,8 +454,7 @@ async function applyBorderToBlob(
     return new Promise<Blob>((resolve, reject) => {
       canvas.toBlob(
         (b) => (b ? resolve(b) : reject(new Error("toBlob failed"))),
-        "image/jpeg",
-        0.95,
+        "image/png",
       );
     });
   } finally {
@@ -318,7 +462,7 @@ async function applyBorderToBlob(
   }
 }
 
-/** Export image with GPU filters (fallback to CPU if GPU unavailable), then apply border */
+/** Export image with GPU filters (fallback to CPU if GPU unavailable), then apply crop and border */
 async function exportImageWithFilters(
   image: CanvasImage,
   imageUrl: string,
@@ -347,7 +491,7 @@ async function exportImageWithFilters(
       if (ok) {
         // GPU export (fast!)
         blob = await engine.exportFiltered(image, img);
-        return applyBorderToBlob(blob, image);
+        return applyBorderToBlob(await applyCropToBlob(blob, image), image);
       }
     }
   } catch (e) {
@@ -356,7 +500,7 @@ async function exportImageWithFilters(
 
   // Fallback: CPU pipeline
   blob = await exportWithCanvasFilters(image, imageUrl);
-  return applyBorderToBlob(blob, image);
+  return applyBorderToBlob(await applyCropToBlob(blob, image), image);
 }
 
 /** Get a signed URL for an image's cloud storage path */
@@ -385,6 +529,7 @@ async function exportSocialLayoutPage(
     buffer: ArrayBuffer,
     forPreview?: boolean,
   ) => Promise<{ dataUrl: string; width: number; height: number }>,
+  options: ExportOptions,
 ): Promise<void> {
   const pageWidth = SOCIAL_LAYOUT_PAGE_WIDTH;
   const pageHeight =
@@ -483,11 +628,14 @@ async function exportSocialLayoutPage(
       continue;
     }
 
-    // Calculate position relative to this page, then scale to export resolution
-    const relX = (imgLeft - pageLeft) * exportScale;
-    const relY = (imgTop - pageTop) * exportScale;
-    const drawW = imgW * exportScale;
-    const drawH = imgH * exportScale;
+    // Calculate position relative to this page, then scale to export resolution.
+    // A cropped photo stays in place on the canvas (only the crop region is visible),
+    // so the cropped blob is drawn over that region of the image box.
+    const crop = image.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+    const relX = (imgLeft - pageLeft + crop.x * imgW) * exportScale;
+    const relY = (imgTop - pageTop + crop.y * imgH) * exportScale;
+    const drawW = imgW * crop.width * exportScale;
+    const drawH = imgH * crop.height * exportScale;
 
     // The filtered image blob already includes the border (from applyBorderToBlob),
     // so we need to account for the border in the draw position
@@ -511,18 +659,173 @@ async function exportSocialLayoutPage(
   }
 
   // Download the page
-  const blob = await new Promise<Blob>((resolve, reject) => {
+  const blob = await encodeExportBlob(await canvasToBlob(canvas), options);
+  downloadBlob(
+    blob,
+    `${folder.name}-page${pageIndex + 1}-${Date.now()}.${EXPORT_FORMATS[options.format].extension}`,
+  );
+}
+
+/** The browser pipeline is 8-bit sRGB; high precision and P3 render from the source on the server */
+function needsServerRender(options: ExportOptions): boolean {
+  return options.precision === "high" || options.colorSpace === "p3";
+}
+
+/** Render + encode one photo with /api/export (same pipeline as background export jobs) */
+async function renderExportOnServer(
+  image: CanvasImage,
+  options: ExportOptions,
+  sessionId?: string,
+): Promise<Blob> {
+  const response = await fetch("/api/export", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      storagePath: image.storagePath,
+      originalStoragePath: image.originalStoragePath,
+      edits: getEditValues(image),
+      options,
+      metadata: getPhotoMetadata(image),
+      sessionId,
+    }),
+  });
+  if (!response.ok) {
+    const err = await response.json().catch(() => null);
+    throw new Error(err?.error || "Server export failed");
+  }
+  return response.blob();
+}
+
+/** Canvas to blob (lossless PNG unless another type is given) */
+function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  type = "image/png",
+  quality?: number,
+): Promise<Blob> {
+  return new Promise<Blob>((resolve, reject) => {
     canvas.toBlob(
       (b) => (b ? resolve(b) : reject(new Error("toBlob failed"))),
-      "image/jpeg",
-      0.95,
+      type,
+      quality,
     );
   });
+}
+
+/**
+ * Final export step: long-edge resize, output sharpening, then encode in the chosen format.
+ * Formats the browser can't encode (TIFF, AVIF) are handed to /api/export/encode, which uses
+ * the same Sharp encoder as the server export route. JPEG / PNG metadata is written here;
+ * WebP with metadata also goes to the server (canvas.toBlob drops it).
+ */
+async function encodeExportBlob(
+  blob: Blob,
+  options: ExportOptions,
+  embed?: { metadata?: ExportPhotoMetadata; edits?: EditValues },
+): Promise<Blob> {
+  const url = URL.createObjectURL(blob);
+  let canvas: HTMLCanvasElement;
+  try {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const el = new Image();
+      el.onload = () => resolve(el);
+      el.onerror = () =>
+        reject(new Error("Failed to load filtered image for encoding"));
+      el.src = url;
+    });
+
+    let srcW = img.naturalWidth || img.width;
+    let srcH = img.naturalHeight || img.height;
+    const size = getExportDimensions(srcW, srcH, options.longEdge);
+    let source: CanvasImageSource = img;
+
+    // Halve in steps for large downscales so the result isn't aliased
+    while (srcW / 2 >= size.width && srcH / 2 >= size.height) {
+      const step = document.createElement("canvas");
+      step.width = Math.round(srcW / 2);
+      step.height = Math.round(srcH / 2);
+      const stepCtx = step.getContext("2d");
+      if (!stepCtx) break;
+      stepCtx.imageSmoothingQuality = "high";
+      stepCtx.drawImage(source, 0, 0, step.width, step.height);
+      source = step;
+      srcW = step.width;
+      srcH = step.height;
+    }
+
+    canvas = document.createElement("canvas");
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas 2D not available");
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(source, 0, 0, size.width, size.height);
+
+    if (options.sharpening !== "none") {
+      const imageData = ctx.getImageData(0, 0, size.width, size.height);
+      applyOutputSharpening(
+        imageData.data,
+        size.width,
+        size.height,
+        4,
+        options.sharpening,
+      );
+      ctx.putImageData(imageData, 0, 0);
+    }
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  const info = EXPORT_FORMATS[options.format];
+  const metadata = applyMetadataMode(embed?.metadata, options.metadata);
+  const xmp = buildXmpPacket(
+    metadata,
+    options.embedEdits ? (embed?.edits ?? null) : null,
+  );
+  const exif = buildExifTiff(metadata);
+  const needsEmbed = !!(xmp || exif);
+
+  if (info.browserEncodable && !(options.format === "webp" && needsEmbed)) {
+    const encoded = await canvasToBlob(
+      canvas,
+      info.mimeType,
+      info.lossy ? options.quality / 100 : undefined,
+    );
+    // Some browsers silently fall back to PNG for unsupported types (e.g. WebP on older Safari)
+    if (encoded.type === info.mimeType) {
+      if (!needsEmbed) return encoded;
+      const bytes = new Uint8Array(await encoded.arrayBuffer());
+      const out =
+        options.format === "png"
+          ? embedPngMetadata(bytes, exif, xmp)
+          : embedJpegMetadata(bytes, exif, xmp);
+      return new Blob([out as BlobPart], { type: info.mimeType });
+    }
+  }
+
+  const formData = new FormData();
+  formData.append("file", await canvasToBlob(canvas));
+  formData.append("options", JSON.stringify(options));
+  if (embed?.metadata) {
+    formData.append("metadata", JSON.stringify(embed.metadata));
+  }
+  if (embed?.edits) formData.append("edits", JSON.stringify(embed.edits));
+  const res = await fetch("/api/export/encode", {
+    method: "POST",
+    body: formData,
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Failed to encode ${info.label}`);
+  }
+  return res.blob();
+}
 
+/** Trigger a browser download for a blob */
+function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
-  a.download = `${folder.name}-page${pageIndex + 1}-${Date.now()}.jpg`;
+  a.download = filename;
   document.body.appendChild(a);
   a.click();
   document.body.removeChild(a);
@@ -45,7 +45,9 @@ export function useFilteredPreviewUrl(
       st: image.splitToning,
       cg: image.colorGrading,
       cc: image.colorCalibration,
+      prof: image.profile,
       stint: image.shadowTint,
+      masks: image.masks,
       filt: image.filters,
       bypass: Array.from(bypassedTabs).sort().join(","),
     });
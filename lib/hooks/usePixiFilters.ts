@@ -8,6 +8,8 @@
  * 3. Returns a cloned canvas at SOURCE resolution (not display size)
  * 4. Konva downscales it for display (preserving quality)
  * 5. Falls back to null (CPU pipeline) if GPU init fails
+ * 6. Follows the export precision / color space so the preview matches high-precision exports
+ * 7. While selected, publishes the histogram of what's displayed to the edit store
  */
 
 "use client";
@@ -15,6 +17,9 @@
 import { useRef, useEffect, useState, useMemo } from "react";
 import Konva from "konva";
 import type { CanvasImage } from "@/lib/types";
+import { useUIStore } from "@/lib/stores/uiStore";
+import { useEditStore } from "@/lib/stores/editStore";
+import { hasActiveMasks, isProfileActive } from "@/lib/filters/core";
 import {
   getPixiFilterEngine,
   PixiFilterEngine,
@@ -41,6 +46,7 @@ export function usePixiFilters({
   image,
   imgElement,
   bypassedTabs,
+  isSelected,
   konvaImageRef,
 }: UsePixiFiltersOptions): UsePixiFiltersResult {
   const engineRef = useRef<PixiFilterEngine | null>(null);
@@ -48,6 +54,8 @@ export function usePixiFilters({
   const [filteredCanvas, setFilteredCanvas] =
     useState<HTMLCanvasElement | null>(null);
   const renderIdRef = useRef(0); // Monotonic counter to discard stale renders
+  const precision = useUIStore((s) => s.exportOptions.precision);
+  const colorSpace = useUIStore((s) => s.exportOptions.colorSpace);
 
   // Refs so the render effect can read latest values without re-triggering on x/y changes
   const imageRef = useRef(image);
@@ -84,7 +92,9 @@ export function usePixiFilters({
       st: image.splitToning,
       cg: image.colorGrading,
       cc: image.colorCalibration,
+      prof: image.profile,
       stint: image.shadowTint,
+      masks: image.masks,
       filt: image.filters,
       w: image.width,
       h: image.height,
@@ -113,7 +123,9 @@ export function usePixiFilters({
     image.splitToning,
     image.colorGrading,
     image.colorCalibration,
+    image.profile,
     image.shadowTint,
+    image.masks,
     image.filters,
     image.width,
     image.height,
@@ -147,6 +159,8 @@ export function usePixiFilters({
       image.colorGrading !== undefined ||
       image.colorCalibration !== undefined ||
       (image.shadowTint !== undefined && image.shadowTint !== 0) ||
+      hasActiveMasks(image.masks) ||
+      isProfileActive(image.profile) ||
       (image.curves &&
         JSON.stringify(image.curves) !==
           JSON.stringify({
@@ -191,7 +205,9 @@ export function usePixiFilters({
     image.splitToning,
     image.colorGrading,
     image.colorCalibration,
+    image.profile,
     image.shadowTint,
+    image.masks,
     image.filters,
     image.blur,
   ]);
@@ -215,6 +231,7 @@ export function usePixiFilters({
 
     const engine = getPixiFilterEngine();
     engineRef.current = engine;
+    engine.setProcessingMode({ precision, colorSpace });
 
     // Read from refs — these always have the latest value without being deps
     const currentImage = imageRef.current;
@@ -243,9 +260,17 @@ export function usePixiFilters({
         console.warn("[usePixiFilters] GPU render failed:", e);
       });
     // Only re-run when filter params actually change (filterSignature),
-    // image source changes (imgElement), or filter active state changes
+    // image source changes (imgElement), filter active state or processing mode changes
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filterSignature, imgElement, hasActiveFilters]);
+  }, [filterSignature, imgElement, hasActiveFilters, precision, colorSpace]);
+
+  // Histogram of the displayed pixels (filtered canvas, or the original when unedited)
+  const displayed = hasActiveFilters ? filteredCanvas : imgElement;
+  useEffect(() => {
+    if (!isSelected || !displayed) return;
+    const data = getPixiFilterEngine().readHistogram(displayed);
+    if (data) useEditStore.getState().setHistogram({ imageId: image.id, data });
+  }, [isSelected, displayed, image.id]);
 
   // Cleanup on unmount
   useEffect(() => {
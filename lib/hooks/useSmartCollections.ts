@@ -0,0 +1,50 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { SmartCollection } from "@/lib/types";
+import { supabase } from "@/lib/supabase";
+import { fetchSmartCollectionMatches } from "@/lib/utils/smartCollections";
+
+/** The user's saved smart collections, oldest first */
+export function useSmartCollections(userId: string | undefined) {
+  return useQuery({
+    queryKey: ["smart-collections", userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("smart_collections")
+        .select("*")
+        .eq("user_id", userId!)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        console.error("Error loading smart collections:", error);
+        return [];
+      }
+      return data as SmartCollection[];
+    },
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Photos in a smart collection (row keys, see getPhotoRowKey). Refetched after every
+ * save (useAutoSave invalidates "smart-collection-matches"), so collections stay live.
+ */
+export function useSmartCollectionMatches(
+  userId: string | undefined,
+  collection: SmartCollection | null,
+) {
+  return useQuery({
+    queryKey: ["smart-collection-matches", collection?.id, collection?.query],
+    queryFn: async () => {
+      try {
+        return await fetchSmartCollectionMatches(userId!, collection!.query);
+      } catch (error) {
+        console.error("Error evaluating smart collection:", error);
+        return [];
+      }
+    },
+    enabled: !!userId && !!collection,
+  });
+}
@@ -70,6 +70,28 @@ export function useUpload({
     [],
   );
 
+  // Label new photos in the background, one request at a time (the classifier runs on the server)
+  const labelNewPhotos = useCallback(
+    async (storagePaths: string[], userId: string) => {
+      for (const storagePath of storagePaths) {
+        try {
+          const response = await fetch("/api/label-photo", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ storagePath, userId, sessionId }),
+          });
+          if (!response.ok) continue;
+          const { labels } = await response.json();
+          if (Array.isArray(labels) && labels.length > 0)
+            updateImageLabels(storagePath, labels);
+        } catch (error) {
+          console.error("Error labeling photo:", error);
+        }
+      }
+    },
+    [sessionId, updateImageLabels],
+  );
+
   // Handle file upload - uploads to Supabase Storage
   // Show folder name prompt when uploading
   const handleFileUpload = useCallback((files: FileList | null) => {
@@ -721,6 +743,7 @@ export function useUpload({
               split_toning: img.splitToning ?? null,
               color_grading: img.colorGrading ?? null,
               color_calibration: img.colorCalibration ?? null,
+              profile: img.profile ?? null,
               clarity: img.clarity,
               dehaze: img.dehaze,
               vignette: img.vignette,
@@ -728,6 +751,9 @@ export function useUpload({
               grain_size: img.grainSize ?? 0,
               grain_roughness: img.grainRoughness ?? 0,
               curves: img.curves,
+              masks: img.masks ?? null,
+              crop: img.crop ?? null,
+              straighten: img.straighten ?? 0,
               brightness: img.brightness,
               hue: img.hue,
               blur: img.blur,
@@ -749,13 +775,18 @@ export function useUpload({
             }));
             const photoTable = sessionId ? "collab_photos" : "photo_edits";
             const conflictOn = sessionId
-              ? "storage_path,session_id"
-              : "storage_path,user_id";
+              ? "storage_path,session_id,copy_id"
+              : "storage_path,user_id,copy_id";
             const { error: editsError } = await supabase
               .from(photoTable)
               .upsert(editsToSave, { onConflict: conflictOn });
             if (editsError)
               console.error("Error saving photo edits:", editsError);
+            else
+              labelNewPhotos(
+                editsToSave.map((edit) => edit.storage_path),
+                user.id,
+              );
           }
         }
 
@@ -827,6 +858,7 @@ export function useUpload({
                   split_toning: img.splitToning ?? null,
                   color_grading: img.colorGrading ?? null,
                   color_calibration: img.colorCalibration ?? null,
+                  profile: img.profile ?? null,
                   clarity: img.clarity,
                   dehaze: img.dehaze,
                   vignette: img.vignette,
@@ -834,6 +866,9 @@ export function useUpload({
                   grain_size: img.grainSize ?? 0,
                   grain_roughness: img.grainRoughness ?? 0,
                   curves: img.curves,
+                  masks: img.masks ?? null,
+                  crop: img.crop ?? null,
+                  straighten: img.straighten ?? 0,
                   brightness: img.brightness,
                   hue: img.hue,
                   blur: img.blur,
@@ -872,7 +907,7 @@ export function useUpload({
       saveToHistory,
       resolveOverlapsAndReflow,
       queryClient,
-      updateImageLabels,
+      labelNewPhotos,
       sessionId,
     ],
   );
@@ -1275,6 +1310,7 @@ export function useUpload({
               split_toning: img.splitToning ?? null,
               color_grading: img.colorGrading ?? null,
               color_calibration: img.colorCalibration ?? null,
+              profile: img.profile ?? null,
               // Effects
               clarity: img.clarity,
               dehaze: img.dehaze,
@@ -1284,6 +1320,9 @@ export function useUpload({
               grain_roughness: img.grainRoughness ?? 0,
               // Curves
               curves: img.curves,
+              masks: img.masks ?? null,
+              crop: img.crop ?? null,
+              straighten: img.straighten ?? 0,
               // Legacy
               brightness: img.brightness,
               hue: img.hue,
@@ -1309,13 +1348,18 @@ export function useUpload({
 
             const photoTable = sessionId ? "collab_photos" : "photo_edits";
             const conflictOn = sessionId
-              ? "storage_path,session_id"
-              : "storage_path,user_id";
+              ? "storage_path,session_id,copy_id"
+              : "storage_path,user_id,copy_id";
             const { error: editsError } = await supabase
               .from(photoTable)
               .upsert(editsToSave, { onConflict: conflictOn });
             if (editsError)
               console.error("Error saving photo edits:", editsError);
+            else
+              labelNewPhotos(
+                editsToSave.map((edit) => edit.storage_path),
+                user.id,
+              );
           }
 
           // Update folder dimensions if they changed
@@ -1358,7 +1402,8 @@ export function useUpload({
               const query = supabase
                 .from(photoTable)
                 .update({ x: Math.round(img.x), y: Math.round(img.y) })
-                .eq("storage_path", canonicalPath);
+                .eq("storage_path", canonicalPath)
+                .eq("copy_id", img.copyId ?? "");
 
               if (sessionId) query.eq("session_id", sessionId);
               else query.eq("user_id", user.id);
@@ -1419,6 +1464,7 @@ export function useUpload({
                   split_toning: img.splitToning ?? null,
                   color_grading: img.colorGrading ?? null,
                   color_calibration: img.colorCalibration ?? null,
+                  profile: img.profile ?? null,
                   clarity: img.clarity,
                   dehaze: img.dehaze,
                   vignette: img.vignette,
@@ -1426,6 +1472,9 @@ export function useUpload({
                   grain_size: img.grainSize ?? 0,
                   grain_roughness: img.grainRoughness ?? 0,
                   curves: img.curves,
+                  masks: img.masks ?? null,
+                  crop: img.crop ?? null,
+                  straighten: img.straighten ?? 0,
                   brightness: img.brightness,
                   hue: img.hue,
                   blur: img.blur,
@@ -1484,7 +1533,7 @@ export function useUpload({
       saveToHistory,
       resolveOverlapsAndReflow,
       queryClient,
-      updateImageLabels,
+      labelNewPhotos,
       sessionId,
     ],
   );
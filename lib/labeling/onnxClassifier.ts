@@ -0,0 +1,135 @@
+/**
+ * Local content labeling with an ONNX image classifier (runs in Node, no network).
+ * Expects an ImageNet-style model (e.g. MobileNetV2 / ResNet from the ONNX model zoo):
+ * one NCHW float32 RGB input normalized with the ImageNet mean/std and one output of
+ * class scores, plus a text file with one class name per line in output order.
+ */
+
+import path from "node:path";
+import { readFile } from "node:fs/promises";
+import sharp from "sharp";
+import type { InferenceSession } from "onnxruntime-node";
+import type { LabelingProvider } from "@/lib/labeling/provider";
+
+const DEFAULT_MODEL_PATH = "models/labeling/model.onnx";
+const DEFAULT_CLASSES_PATH = "models/labeling/classes.txt";
+const INPUT_SIZE = 224;
+const MEAN = [0.485, 0.456, 0.406];
+const STD = [0.229, 0.224, 0.225];
+const TOP_K = 5;
+const MIN_SCORE = 0.1;
+
+interface Classifier {
+  session: InferenceSession;
+  classes: string[];
+}
+
+// Loaded once per server process, on the first labeling request
+let classifierPromise: Promise<Classifier> | null = null;
+
+function resolveFromRoot(file: string): string {
+  return path.isAbsolute(file) ? file : path.join(process.cwd(), file);
+}
+
+/**
+ * Class names as tags: "n01440764 tench, Tinca tinca" → "tench".
+ * Drops a leading WordNet id and keeps the first synonym.
+ */
+function parseClassName(line: string): string {
+  return line
+    .replace(/^n\d{8}\s+/, "")
+    .split(",")[0]
+    .trim()
+    .toLowerCase();
+}
+
+async function loadClassifier(): Promise<Classifier> {
+  const ort = await import("onnxruntime-node");
+  const modelPath = resolveFromRoot(
+    process.env.LABELING_MODEL_PATH || DEFAULT_MODEL_PATH,
+  );
+  const classesPath = resolveFromRoot(
+    process.env.LABELING_CLASSES_PATH || DEFAULT_CLASSES_PATH,
+  );
+  const [session, classesText] = await Promise.all([
+    ort.InferenceSession.create(modelPath),
+    readFile(classesPath, "utf8"),
+  ]);
+  const classes = classesText
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map(parseClassName);
+  return { session, classes };
+}
+
+function getClassifier(): Promise<Classifier> {
+  if (!classifierPromise) {
+    classifierPromise = loadClassifier().catch((error) => {
+      // Retry on the next request (e.g. model file added after startup)
+      classifierPromise = null;
+      throw error;
+    });
+  }
+  return classifierPromise;
+}
+
+/** Center-cropped INPUT_SIZE² RGB, normalized, as a planar (CHW) float32 array */
+async function preprocess(image: Buffer): Promise<Float32Array> {
+  const { data } = await sharp(image)
+    .rotate()
+    .removeAlpha()
+    .resize(INPUT_SIZE, INPUT_SIZE, { fit: "cover" })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const plane = INPUT_SIZE * INPUT_SIZE;
+  const input = new Float32Array(plane * 3);
+  for (let i = 0; i < plane; i++) {
+    for (let c = 0; c < 3; c++) {
+      input[c * plane + i] = (data[i * 3 + c] / 255 - MEAN[c]) / STD[c];
+    }
+  }
+  return input;
+}
+
+function softmax(logits: Float32Array): Float32Array {
+  let max = -Infinity;
+  for (const v of logits) max = Math.max(max, v);
+  const out = new Float32Array(logits.length);
+  let sum = 0;
+  for (let i = 0; i < logits.length; i++) {
+    out[i] = Math.exp(logits[i] - max);
+    sum += out[i];
+  }
+  for (let i = 0; i < out.length; i++) out[i] /= sum;
+  return out;
+}
+
+export function createOnnxClassifierProvider(): LabelingProvider {
+  return {
+    name: "onnx-classifier",
+    async label(image) {
+      const [{ session, classes }, input] = await Promise.all([
+        getClassifier(),
+        preprocess(image),
+      ]);
+      const ort = await import("onnxruntime-node");
+      const tensor = new ort.Tensor("float32", input, [
+        1,
+        3,
+        INPUT_SIZE,
+        INPUT_SIZE,
+      ]);
+      const results = await session.run({ [session.inputNames[0]]: tensor });
+      const scores = softmax(
+        results[session.outputNames[0]].data as Float32Array,
+      );
+
+      return Array.from(scores, (score, index) => ({ score, index }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, TOP_K)
+        .filter((c) => c.score >= MIN_SCORE && classes[c.index])
+        .map((c) => classes[c.index]);
+    },
+  };
+}
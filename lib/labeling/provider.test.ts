@@ -0,0 +1,168 @@
+import { test, before, beforeEach, after } from "node:test";
+import assert from "node:assert/strict";
+import { NextRequest } from "next/server";
+import {
+  createStaticLabelingProvider,
+  setLabelingProvider,
+} from "@/lib/labeling/provider";
+
+// The label routes build their Supabase client at import: point it at a fake
+// PostgREST / Storage served by the fetch below, before the routes are loaded
+process.env.NEXT_PUBLIC_SUPABASE_URL = "http://supabase.test";
+process.env.SUPABASE_SERVICE_ROLE_KEY = "service-role";
+
+interface PhotoRow {
+  storage_path: string;
+  user_id: string;
+  copy_id: string;
+  labels: string[] | null;
+}
+
+let rows: PhotoRow[] = [];
+const downloads: string[] = [];
+
+// "eq.x" / "gt.x" filters on the photo_edits columns the routes use
+function matchesFilters(row: PhotoRow, params: URLSearchParams): boolean {
+  for (const column of ["storage_path", "user_id", "copy_id"] as const) {
+    const filter = params.get(column);
+    if (filter === null) continue;
+    const [op, value] = [filter.slice(0, 2), filter.slice(3)];
+    if (op === "eq" && row[column] !== value) return false;
+    if (op === "gt" && !(row[column] > value)) return false;
+  }
+  // The batch route's "labels.is.null,labels.eq.{}"
+  if (params.has("or") && (row.labels?.length ?? 0) > 0) return false;
+  return true;
+}
+
+const originalFetch = globalThis.fetch;
+globalThis.fetch = async (input, init) => {
+  const url = new URL(input instanceof Request ? input.url : String(input));
+  const method = init?.method ?? "GET";
+
+  if (url.pathname.startsWith("/storage/v1/object/")) {
+    downloads.push(url.pathname.replace("/storage/v1/object/", ""));
+    return new Response(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]));
+  }
+
+  assert.equal(url.pathname, "/rest/v1/photo_edits");
+  const matching = rows.filter((row) => matchesFilters(row, url.searchParams));
+
+  if (method === "PATCH") {
+    const { labels } = JSON.parse(String(init?.body));
+    for (const row of matching) row.labels = labels;
+    return new Response(null, { status: 204 });
+  }
+
+  matching.sort((a, b) => a.storage_path.localeCompare(b.storage_path));
+  const limit = Number(url.searchParams.get("limit") ?? matching.length);
+  const page = matching.slice(0, limit).map((row) => ({
+    storage_path: row.storage_path,
+  }));
+  return Response.json(page, {
+    headers: { "content-range": `0-${page.length - 1}/${matching.length}` },
+  });
+};
+
+type RouteHandler = (request: NextRequest) => Promise<Response>;
+let labelPhoto: RouteHandler;
+let labelBatch: RouteHandler;
+
+const post = (path: string, body: unknown) =>
+  new NextRequest(`http://localhost${path}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+before(async () => {
+  ({ POST: labelPhoto } = await import("@/app/api/label-photo/route"));
+  ({ POST: labelBatch } = await import("@/app/api/label-photo/batch/route"));
+});
+
+beforeEach(() => {
+  downloads.length = 0;
+  setLabelingProvider(
+    createStaticLabelingProvider(["Dog", " beach ", "dog", ""]),
+  );
+});
+
+after(() => {
+  setLabelingProvider(null);
+  globalThis.fetch = originalFetch;
+});
+
+test("label-photo saves the stub's labels on every copy", async () => {
+  rows = [
+    { storage_path: "u1/a.jpg", user_id: "u1", copy_id: "", labels: null },
+    { storage_path: "u1/a.jpg", user_id: "u1", copy_id: "v2", labels: null },
+    { storage_path: "u1/b.jpg", user_id: "u1", copy_id: "", labels: null },
+  ];
+
+  const res = await labelPhoto(
+    post("/api/label-photo", { storagePath: "u1/a.jpg", userId: "u1" }),
+  );
+
+  assert.equal(res.status, 200);
+  assert.deepEqual(await res.json(), {
+    labels: ["dog", "beach"],
+    provider: "static",
+  });
+  assert.deepEqual(downloads, ["photos/u1/a.jpg"]);
+  assert.deepEqual(
+    rows.map((row) => row.labels),
+    [["dog", "beach"], ["dog", "beach"], null],
+  );
+});
+
+test("batch backfill labels unlabeled photos page by page", async () => {
+  rows = [
+    { storage_path: "u1/a.jpg", user_id: "u1", copy_id: "", labels: null },
+    { storage_path: "u1/b.jpg", user_id: "u1", copy_id: "", labels: [] },
+    { storage_path: "u1/c.jpg", user_id: "u1", copy_id: "", labels: ["cat"] },
+    { storage_path: "u2/e.jpg", user_id: "u2", copy_id: "", labels: null },
+  ];
+
+  const first = await labelBatch(
+    post("/api/label-photo/batch", { userId: "u1", limit: 1 }),
+  );
+  assert.deepEqual(await first.json(), {
+    results: [{ storagePath: "u1/a.jpg", labels: ["dog", "beach"] }],
+    failed: 0,
+    nextCursor: "u1/a.jpg",
+    remaining: 1,
+    provider: "static",
+  });
+
+  const second = await labelBatch(
+    post("/api/label-photo/batch", {
+      userId: "u1",
+      limit: 1,
+      cursor: "u1/a.jpg",
+    }),
+  );
+  const page = await second.json();
+  assert.deepEqual(page.results, [
+    { storagePath: "u1/b.jpg", labels: ["dog", "beach"] },
+  ]);
+  assert.equal(page.nextCursor, "u1/b.jpg");
+
+  const last = await labelBatch(
+    post("/api/label-photo/batch", {
+      userId: "u1",
+      limit: 1,
+      cursor: "u1/b.jpg",
+    }),
+  );
+  assert.deepEqual((await last.json()).results, []);
+
+  assert.deepEqual(
+    rows.map((row) => [row.storage_path, row.labels]),
+    [
+      ["u1/a.jpg", ["dog", "beach"]],
+      ["u1/b.jpg", ["dog", "beach"]],
+      ["u1/c.jpg", ["cat"]],
+      ["u2/e.jpg", null],
+    ],
+  );
+  assert.deepEqual(downloads, ["photos/u1/a.jpg", "photos/u1/b.jpg"]);
+});
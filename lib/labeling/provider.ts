@@ -0,0 +1,62 @@
+/**
+ * Content labeling providers.
+ * /api/label-photo and its batch backfill only talk to the active provider, so the
+ * model behind labels can be swapped (or replaced by a stub in tests) without
+ * touching the routes.
+ */
+
+import { createOnnxClassifierProvider } from "@/lib/labeling/onnxClassifier";
+
+export interface LabelingProvider {
+  /** Shown in logs and returned by the label routes */
+  name: string;
+  /** Short lowercase content tags for an encoded image (JPEG, PNG, WebP, TIFF) */
+  label(image: Buffer): Promise<string[]>;
+}
+
+// Labels are matched by the content search and written as IPTC keywords on export
+const MAX_LABELS = 10;
+
+let activeProvider: LabelingProvider | null = null;
+
+/** Provider that returns the same labels for every image, e.g. as a test stub */
+export function createStaticLabelingProvider(
+  labels: string[] = [],
+): LabelingProvider {
+  return { name: "static", label: async () => [...labels] };
+}
+
+/**
+ * The active provider. Defaults to the local ONNX classifier; LABELING_PROVIDER=none
+ * turns labeling off (every photo gets no labels).
+ */
+export function getLabelingProvider(): LabelingProvider {
+  if (!activeProvider) {
+    activeProvider =
+      process.env.LABELING_PROVIDER === "none"
+        ? createStaticLabelingProvider()
+        : createOnnxClassifierProvider();
+  }
+  return activeProvider;
+}
+
+/** Replace the active provider (null restores the default on next use) */
+export function setLabelingProvider(provider: LabelingProvider | null): void {
+  activeProvider = provider;
+}
+
+/** Trimmed, lowercase, de-duplicated labels, capped at MAX_LABELS */
+export function normalizeLabels(labels: string[]): string[] {
+  const seen = new Set<string>();
+  for (const label of labels) {
+    const value = label.trim().toLowerCase();
+    if (value) seen.add(value);
+    if (seen.size === MAX_LABELS) break;
+  }
+  return [...seen];
+}
+
+/** Label an image with the active provider */
+export async function labelImage(image: Buffer): Promise<string[]> {
+  return normalizeLabels(await getLabelingProvider().label(image));
+}
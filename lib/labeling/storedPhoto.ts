@@ -0,0 +1,55 @@
+/**
+ * Label photos already in storage and save the labels on their rows.
+ * Shared by /api/label-photo (one photo, after upload) and /api/label-photo/batch (backfill).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { labelImage } from "@/lib/labeling/provider";
+import { isRawPath } from "@/lib/utils/thumbnail";
+import { decodeRawToTiff } from "@/lib/utils/rawDecode";
+
+/** Bucket holding a photo: RAW originals, collab uploads or personal previews */
+export function getPhotoBucket(
+  storagePath: string,
+  sessionId?: string | null,
+): string {
+  if (isRawPath(storagePath)) return "originals";
+  return sessionId ? "collab-photos" : "photos";
+}
+
+/** Download a stored photo and label it with the active provider */
+export async function labelStoredPhoto(
+  supabase: SupabaseClient,
+  storagePath: string,
+  sessionId?: string | null,
+): Promise<string[]> {
+  const { data, error } = await supabase.storage
+    .from(getPhotoBucket(storagePath, sessionId))
+    .download(storagePath);
+  if (error || !data) {
+    throw new Error(`Failed to download ${storagePath}: ${error?.message}`);
+  }
+  const buffer = Buffer.from(await data.arrayBuffer());
+  return labelImage(
+    isRawPath(storagePath) ? await decodeRawToTiff(buffer) : buffer,
+  );
+}
+
+/**
+ * Save labels on every row of a photo (all virtual copies share the upload's content).
+ * Collab rows are scoped to the session, personal rows to the user.
+ */
+export async function savePhotoLabels(
+  supabase: SupabaseClient,
+  target: { storagePath: string; userId: string; sessionId?: string | null },
+  labels: string[],
+): Promise<void> {
+  const query = supabase
+    .from(target.sessionId ? "collab_photos" : "photo_edits")
+    .update({ labels })
+    .eq("storage_path", target.storagePath);
+  const { error } = target.sessionId
+    ? await query.eq("session_id", target.sessionId)
+    : await query.eq("user_id", target.userId);
+  if (error) throw error;
+}
@@ -2,7 +2,9 @@
  * Server-side image filters for Sharp
  * Ported from client-side Konva filters in CanvasEditor.tsx
  *
- * These operate on raw pixel buffers (RGB, 3 channels per pixel)
+ * These operate on raw pixel buffers (RGB, 3 channels per pixel): 8-bit Buffers, or
+ * Float32Arrays on the 0-255 scale in the high-precision pipeline (no rounding between
+ * stages, LUTs sampled with interpolation, exposure applied in linear light).
  */
 
 import {
@@ -14,64 +16,111 @@ import {
 } from "@/lib/types";
 import { buildLUT } from "./filters/core/lut";
 import { hslToRgb, clamp8 } from "./filters/core/color";
+import { applyLinearExposure, sampleLut } from "./filters/core/linear";
+import {
+  computeMaskWeights,
+  blendByMask,
+  hasMaskAdjustments,
+  getMaskAdjustments,
+} from "./filters/core/mask";
+import { isProfileActive, applyProfileLut } from "./filters/core/lut3d";
 
 export type { EditValues };
 
+/** 8-bit RGB, or 0-255 floats for the high-precision pipeline */
+export type PixelBuffer = Buffer | Float32Array;
+
 // Use shared clamp8 from color core
 const clamp = clamp8;
 
+/** Per-channel LUT lookup; float pixels sample the LUT with linear interpolation */
+function applyChannelLuts(
+  data: PixelBuffer,
+  pixelCount: number,
+  r: ArrayLike<number>,
+  g: ArrayLike<number> = r,
+  b: ArrayLike<number> = r,
+): void {
+  const n = pixelCount * 3;
+  if (data instanceof Float32Array) {
+    for (let i = 0; i < n; i += 3) {
+      data[i] = sampleLut(r, data[i]);
+      data[i + 1] = sampleLut(g, data[i + 1]);
+      data[i + 2] = sampleLut(b, data[i + 2]);
+    }
+  } else {
+    for (let i = 0; i < n; i += 3) {
+      data[i] = r[data[i]];
+      data[i + 1] = g[data[i + 1]];
+      data[i + 2] = b[data[i + 2]];
+    }
+  }
+}
+
 /**
  * Apply all edit values to a raw RGB buffer
- * @param data - Raw RGB pixel buffer (3 bytes per pixel: R, G, B)
+ * @param data - Raw RGB pixels (8-bit Buffer, or 0-255 Float32Array for high precision)
  * @param width - Image width
  * @param height - Image height
  * @param edits - Edit values to apply
+ * @returns A new buffer of the same type
  */
-export function applyEdits(
-  data: Buffer,
+export function applyEdits<T extends PixelBuffer>(
+  data: T,
   width: number,
   height: number,
   edits: EditValues,
-): Buffer {
+): T {
   // Create a copy to work with
-  const result = Buffer.from(data);
+  const precise = data instanceof Float32Array;
+  const result = (
+    precise ? new Float32Array(data) : Buffer.from(data as Buffer)
+  ) as T;
   const pixelCount = width * height;
+  const createLut = () =>
+    precise ? new Float32Array(256) : new Uint8Array(256);
 
   // Apply edits in order (matching client-side pipeline)
 
   // 1. Curves (if any) – applied at reduced strength so edits are less aggressive
   const CURVES_STRENGTH = 0.6;
   if (edits.curves) {
-    const rgbLUT = buildLUT(edits.curves.rgb);
-    const redLUT = buildLUT(edits.curves.red);
-    const greenLUT = buildLUT(edits.curves.green);
-    const blueLUT = buildLUT(edits.curves.blue);
+    const build = (points: typeof edits.curves.rgb) =>
+      precise ? buildLUT(points, true) : buildLUT(points);
+    const rgbLUT = build(edits.curves.rgb);
     const s = CURVES_STRENGTH;
-
-    for (let i = 0; i < pixelCount * 3; i += 3) {
-      const origR = result[i];
-      const origG = result[i + 1];
-      const origB = result[i + 2];
-      const curvedR = redLUT[rgbLUT[origR]];
-      const curvedG = greenLUT[rgbLUT[origG]];
-      const curvedB = blueLUT[rgbLUT[origB]];
-      result[i] = Math.round((1 - s) * origR + s * curvedR);
-      result[i + 1] = Math.round((1 - s) * origG + s * curvedG);
-      result[i + 2] = Math.round((1 - s) * origB + s * curvedB);
-    }
+    // Fold master curve, channel curve and strength into one LUT per channel
+    const channelLut = (channel: ArrayLike<number>) => {
+      const lut = createLut();
+      for (let v = 0; v < 256; v++) {
+        const curved = precise
+          ? sampleLut(channel, rgbLUT[v])
+          : channel[rgbLUT[v]];
+        const mixed = (1 - s) * v + s * curved;
+        lut[v] = precise ? mixed : Math.round(mixed);
+      }
+      return lut;
+    };
+    applyChannelLuts(
+      result,
+      pixelCount,
+      channelLut(build(edits.curves.red)),
+      channelLut(build(edits.curves.green)),
+      channelLut(build(edits.curves.blue)),
+    );
   }
 
-  // 2. Exposure
+  // 2. Exposure (linear light in the high-precision pipeline)
   if (edits.exposure && edits.exposure !== 0) {
-    const factor = Math.pow(2, edits.exposure);
-    const lut = new Uint8Array(256);
-    for (let i = 0; i < 256; i++) {
-      lut[i] = clamp(i * factor);
-    }
-    for (let i = 0; i < pixelCount * 3; i += 3) {
-      result[i] = lut[result[i]];
-      result[i + 1] = lut[result[i + 1]];
-      result[i + 2] = lut[result[i + 2]];
+    if (result instanceof Float32Array) {
+      applyLinearExposure(result, pixelCount, 3, edits.exposure);
+    } else {
+      const factor = Math.pow(2, edits.exposure);
+      const lut = new Uint8Array(256);
+      for (let i = 0; i < 256; i++) {
+        lut[i] = clamp(i * factor);
+      }
+      applyChannelLuts(result, pixelCount, lut);
     }
   }
 
@@ -82,7 +131,7 @@ export function applyEdits(
     (edits.whites && edits.whites !== 0) ||
     (edits.blacks && edits.blacks !== 0)
   ) {
-    const lut = new Uint8Array(256);
+    const lut = createLut();
     const highlights = edits.highlights || 0;
     const shadows = edits.shadows || 0;
     const whites = edits.whites || 0;
@@ -92,66 +141,70 @@ export function applyEdits(
       let val = i / 255;
 
       if (val < 0.25) {
-        val += blacks * 0.5 * (0.25 - val);
+        val += blacks * 0.3 * (1 - val / 0.25);
       }
       if (val < 0.5) {
-        const shadowMask = Math.sin(val * Math.PI);
-        val += shadows * 0.4 * shadowMask * (0.5 - val);
+        val += shadows * 0.12 * Math.sin(val * Math.PI);
       }
       if (val > 0.5) {
-        const highlightMask = Math.sin((val - 0.5) * Math.PI);
-        val += highlights * 0.3 * highlightMask * (val - 0.5);
+        val += highlights * 0.3 * Math.sin((val - 0.5) * Math.PI);
       }
       if (val > 0.75) {
-        val += whites * 0.5 * (val - 0.75);
+        val += whites * 0.3 * ((val - 0.75) / 0.25);
       }
 
       lut[i] = clamp(val * 255);
     }
 
-    for (let i = 0; i < pixelCount * 3; i += 3) {
-      result[i] = lut[result[i]];
-      result[i + 1] = lut[result[i + 1]];
-      result[i + 2] = lut[result[i + 2]];
-    }
+    applyChannelLuts(result, pixelCount, lut);
   }
 
-  // 4. Temperature
-  if (edits.temperature && edits.temperature !== 0) {
-    const tempFactor = edits.temperature * 30;
-    for (let i = 0; i < pixelCount * 3; i += 3) {
-      result[i] = clamp(result[i] + tempFactor); // R
-      result[i + 2] = clamp(result[i + 2] - tempFactor); // B
+  // 4. Clarity (midtone contrast, fading out towards black and white)
+  if (edits.clarity && edits.clarity !== 0) {
+    const factor = 1 + edits.clarity * 0.5;
+    const lut = createLut();
+
+    for (let i = 0; i < 256; i++) {
+      const diff = i / 255 - 0.5;
+      const weight = Math.max(0, 1 - Math.abs(diff) * 1.5);
+      lut[i] = clamp((0.5 + diff * (1 + (factor - 1) * weight)) * 255);
     }
+
+    applyChannelLuts(result, pixelCount, lut);
   }
 
   // 5. Brightness
   if (edits.brightness && edits.brightness !== 0) {
     const factor = 1 + edits.brightness;
-    const lut = new Uint8Array(256);
+    const lut = createLut();
     for (let i = 0; i < 256; i++) {
       lut[i] = clamp(i * factor);
     }
-    for (let i = 0; i < pixelCount * 3; i += 3) {
-      result[i] = lut[result[i]];
-      result[i + 1] = lut[result[i + 1]];
-      result[i + 2] = lut[result[i + 2]];
-    }
+    applyChannelLuts(result, pixelCount, lut);
   }
 
-  // 6. Contrast
+  // 6. Contrast (Konva formula around mid-gray, as the canvas passes contrast * 25)
   if (edits.contrast && edits.contrast !== 0) {
-    const factor = 1 + edits.contrast;
+    const factor = Math.pow(1 + edits.contrast * 0.25, 2);
+    const lut = createLut();
+    for (let i = 0; i < 256; i++) {
+      lut[i] = clamp(127.5 + (i - 127.5) * factor);
+    }
+    applyChannelLuts(result, pixelCount, lut);
+  }
+
+  // 7. Temperature
+  if (edits.temperature && edits.temperature !== 0) {
+    const tempFactor = edits.temperature * 30;
     for (let i = 0; i < pixelCount * 3; i += 3) {
-      result[i] = clamp(128 + (result[i] - 128) * factor);
-      result[i + 1] = clamp(128 + (result[i + 1] - 128) * factor);
-      result[i + 2] = clamp(128 + (result[i + 2] - 128) * factor);
+      result[i] = clamp(result[i] + tempFactor); // R
+      result[i + 2] = clamp(result[i + 2] - tempFactor); // B
     }
   }
 
-  // 7. Saturation
+  // 8. Saturation (Konva HSV scale: 2^(saturation * 2))
   if (edits.saturation && edits.saturation !== 0) {
-    const sat = 1 + edits.saturation;
+    const sat = Math.pow(2, edits.saturation * 2);
     for (let i = 0; i < pixelCount * 3; i += 3) {
       const r = result[i],
         g = result[i + 1],
@@ -163,7 +216,7 @@ export function applyEdits(
     }
   }
 
-  // 8. Vibrance
+  // 9. Vibrance
   if (edits.vibrance && edits.vibrance !== 0) {
     const amt = edits.vibrance * 1.5;
     for (let i = 0; i < pixelCount * 3; i += 3) {
@@ -184,27 +237,53 @@ export function applyEdits(
     }
   }
 
-  // 9. Clarity (midtone contrast)
-  if (edits.clarity && edits.clarity !== 0) {
-    const factor = 1 + edits.clarity * 0.5;
-    const midtone = 0.5;
-    const lut = new Uint8Array(256);
+  // 10. HSL per-color adjustments
+  if (edits.colorHSL) {
+    applyHSLColorFilter(result, pixelCount, edits.colorHSL);
+  }
 
-    for (let i = 0; i < 256; i++) {
-      const val = i / 255;
-      const diff = val - midtone;
-      const newVal = midtone + diff * factor;
-      lut[i] = clamp(newVal * 255);
-    }
+  // 11. Split Toning
+  if (edits.splitToning) {
+    applySplitToning(result, pixelCount, edits.splitToning);
+  }
 
-    for (let i = 0; i < pixelCount * 3; i += 3) {
-      result[i] = lut[result[i]];
-      result[i + 1] = lut[result[i + 1]];
-      result[i + 2] = lut[result[i + 2]];
+  // 12. Shadow Tint
+  if (edits.shadowTint && edits.shadowTint !== 0) {
+    applyShadowTint(result, pixelCount, edits.shadowTint);
+  }
+
+  // 13. Color Grading
+  if (edits.colorGrading) {
+    applyColorGrading(result, pixelCount, edits.colorGrading);
+  }
+
+  // 14. Color Calibration
+  if (edits.colorCalibration) {
+    applyColorCalibration(result, pixelCount, edits.colorCalibration);
+  }
+
+  // 15. Creative profile (3D LUT, trilinear)
+  if (isProfileActive(edits.profile)) {
+    applyProfileLut(result, pixelCount, 3, edits.profile);
+  }
+
+  // 16. Local adjustment masks – each mask runs its own adjustments on a copy,
+  // then blends back by mask coverage
+  if (edits.masks && edits.masks.length > 0) {
+    for (const mask of edits.masks) {
+      if (!hasMaskAdjustments(mask)) continue;
+      const adjusted = applyEdits(
+        result,
+        width,
+        height,
+        getMaskAdjustments(mask),
+      );
+      const weights = computeMaskWeights(mask, width, height);
+      blendByMask(result, adjusted, weights, 3);
     }
   }
 
-  // 10. Dehaze
+  // 17. Dehaze
   if (edits.dehaze && edits.dehaze !== 0) {
     const contrastBoost = 1 + edits.dehaze * 0.5;
     const satBoost = 1 + edits.dehaze * 0.3;
@@ -231,37 +310,12 @@ export function applyEdits(
     }
   }
 
-  // 11. HSL per-color adjustments
-  if (edits.colorHSL) {
-    applyHSLColorFilter(result, pixelCount, edits.colorHSL);
-  }
-
-  // 12. Split Toning
-  if (edits.splitToning) {
-    applySplitToning(result, pixelCount, edits.splitToning);
-  }
-
-  // 13. Shadow Tint
-  if (edits.shadowTint && edits.shadowTint !== 0) {
-    applyShadowTint(result, pixelCount, edits.shadowTint);
-  }
-
-  // 14. Color Grading
-  if (edits.colorGrading) {
-    applyColorGrading(result, pixelCount, edits.colorGrading);
-  }
-
-  // 15. Color Calibration
-  if (edits.colorCalibration) {
-    applyColorCalibration(result, pixelCount, edits.colorCalibration);
-  }
-
-  // 16. Vignette
+  // 18. Vignette
   if (edits.vignette && edits.vignette !== 0) {
     applyVignette(result, width, height, edits.vignette);
   }
 
-  // 17. Grain
+  // 19. Grain
   if (edits.grain && edits.grain !== 0) {
     applyGrain(result, pixelCount, edits.grain);
   }
@@ -271,7 +325,7 @@ export function applyEdits(
 
 // HSL per-color filter
 function applyHSLColorFilter(
-  data: Buffer,
+  data: PixelBuffer,
   pixelCount: number,
   colorHSL: ColorHSL,
 ): void {
@@ -325,8 +379,10 @@ function applyHSLColorFilter(
     }
   }
 
-  const satStrength = 0.4;
-  const lumStrength = 0.25;
+  // Same strengths as the canvas (createHSLColorFilter) and the GPU shader
+  const hueStrength = 0.2;
+  const satStrength = 0.5;
+  const lumStrength = 0.3;
 
   for (let i = 0; i < pixelCount * 3; i += 3) {
     const r = data[i] / 255;
@@ -359,7 +415,7 @@ function applyHSLColorFilter(
 
     if (hueAdj === 0 && satAdj === 0 && lumAdj === 0) continue;
 
-    let newH = h + hueAdj / 360;
+    let newH = h + (hueAdj / 100) * hueStrength;
     if (newH < 0) newH += 1;
     else if (newH > 1) newH -= 1;
 
@@ -388,7 +444,7 @@ function applyHSLColorFilter(
 
 // Split Toning filter
 function applySplitToning(
-  data: Buffer,
+  data: PixelBuffer,
   pixelCount: number,
   splitToning: SplitToning,
 ): void {
@@ -428,7 +484,11 @@ function applySplitToning(
 }
 
 // Shadow Tint filter
-function applyShadowTint(data: Buffer, pixelCount: number, tint: number): void {
+function applyShadowTint(
+  data: PixelBuffer,
+  pixelCount: number,
+  tint: number,
+): void {
   for (let i = 0; i < pixelCount * 3; i += 3) {
     const r = data[i] / 255;
     const g = data[i + 1] / 255;
@@ -454,7 +514,7 @@ function applyShadowTint(data: Buffer, pixelCount: number, tint: number): void {
 
 // Color Grading filter
 function applyColorGrading(
-  data: Buffer,
+  data: PixelBuffer,
   pixelCount: number,
   colorGrading: ColorGrading,
 ): void {
@@ -477,12 +537,8 @@ function applyColorGrading(
     finalLum += (colorGrading.highlightLum / 100) * highlightWeight * 0.5;
     finalLum += (colorGrading.globalLum / 100) * 0.5;
 
-    const lumChange = finalLum - lum;
-    r = clamp((r + lumChange) * 255) / 255;
-    g = clamp((g + lumChange) * 255) / 255;
-    b = clamp((b + lumChange) * 255) / 255;
-
-    // Apply midtone color
+    // The midtone tint is mixed into the original color at finalLum, so it
+    // replaces the luminance shift rather than adding to it (as on the canvas)
     if (colorGrading.midtoneSat > 0 && midtoneWeight > 0) {
       const h = colorGrading.midtoneHue / 360;
       const s = (colorGrading.midtoneSat / 100) * midtoneWeight;
@@ -491,7 +547,15 @@ function applyColorGrading(
       r = r * (1 - s * blending) + (toneR / 255) * s * blending;
       g = g * (1 - s * blending) + (toneG / 255) * s * blending;
       b = b * (1 - s * blending) + (toneB / 255) * s * blending;
+    } else {
+      const lumChange = finalLum - lum;
+      r += lumChange;
+      g += lumChange;
+      b += lumChange;
     }
+    r = clamp(r * 255) / 255;
+    g = clamp(g * 255) / 255;
+    b = clamp(b * 255) / 255;
 
     // Apply global color
     if (colorGrading.globalSat > 0) {
@@ -516,14 +580,14 @@ function applyColorGrading(
 
 // Color Calibration filter
 function applyColorCalibration(
-  data: Buffer,
+  data: PixelBuffer,
   pixelCount: number,
   colorCal: ColorCalibration,
 ): void {
   for (let i = 0; i < pixelCount * 3; i += 3) {
-    let r = data[i] / 255;
-    let g = data[i + 1] / 255;
-    let b = data[i + 2] / 255;
+    const r = data[i] / 255;
+    const g = data[i + 1] / 255;
+    const b = data[i + 2] / 255;
 
     const max = Math.max(r, g, b);
     const min = Math.min(r, g, b);
@@ -549,31 +613,35 @@ function applyColorCalibration(
       const blueWeight =
         hue >= 180 && hue < 300 ? 1 - Math.abs(hue - 240) / 60 : 0;
 
-      // Apply saturation adjustments
-      const satAdj =
+      // Hue shifts up to 30° and saturation scaling in HSL, as on the canvas
+      const hueShift =
+        ((redWeight * colorCal.redHue +
+          greenWeight * colorCal.greenHue +
+          blueWeight * colorCal.blueHue) /
+          100) *
+        30;
+      const satShift =
         (redWeight * colorCal.redSaturation +
           greenWeight * colorCal.greenSaturation +
           blueWeight * colorCal.blueSaturation) /
         100;
 
-      if (satAdj !== 0) {
-        const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-        const factor = 1 + satAdj * 0.5;
-        r = gray + (r - gray) * factor;
-        g = gray + (g - gray) * factor;
-        b = gray + (b - gray) * factor;
-      }
+      const l = (max + min) / 2;
+      const s = delta / (1 - Math.abs(2 * l - 1));
+      const newHue = (hue + hueShift + 360) % 360;
+      const newSat = Math.max(0, Math.min(1, s * (1 + satShift)));
+      const [newR, newG, newB] = hslToRgb(newHue / 360, newSat, l);
 
-      data[i] = clamp(r * 255);
-      data[i + 1] = clamp(g * 255);
-      data[i + 2] = clamp(b * 255);
+      data[i] = clamp(newR);
+      data[i + 1] = clamp(newG);
+      data[i + 2] = clamp(newB);
     }
   }
 }
 
 // Vignette filter
 function applyVignette(
-  data: Buffer,
+  data: PixelBuffer,
   width: number,
   height: number,
   vignette: number,
@@ -601,7 +669,11 @@ function applyVignette(
 }
 
 // Grain filter
-function applyGrain(data: Buffer, pixelCount: number, grain: number): void {
+function applyGrain(
+  data: PixelBuffer,
+  pixelCount: number,
+  grain: number,
+): void {
   const intensity = grain * 50;
 
   for (let i = 0; i < pixelCount * 3; i += 3) {
@@ -1,13 +1,42 @@
 import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
-import type { CanvasImage } from "@/lib/types";
+import type {
+  CanvasImage,
+  ClippingWarnings,
+  PixelReadout,
+  TargetedAdjustment,
+} from "@/lib/types";
 import { cloneEditValue, EDIT_KEYS } from "@/lib/types";
+import type { ImageHistogram } from "@/lib/filters/core";
 
-type BypassTab = "curves" | "light" | "color" | "effects";
+/** Undo entries kept for photo edits (a batch is never split to fit) */
+export const MAX_EDIT_HISTORY = 50;
+
+// Append undo entries, then drop the oldest steps (whole batches) beyond MAX_EDIT_HISTORY.
+// The newest step is always kept, even a batch that is larger than the cap on its own.
+export function appendEditHistory<T extends { batchId?: string }>(
+  stack: T[],
+  entries: T[],
+): T[] {
+  const next = [...stack, ...entries];
+  let start = 0;
+  while (next.length - start > MAX_EDIT_HISTORY) {
+    const { batchId } = next[start];
+    let end = start + 1;
+    while (batchId && end < next.length && next[end].batchId === batchId) end++;
+    if (end === next.length) break;
+    start = end;
+  }
+  return start > 0 ? next.slice(start) : next;
+}
+
+type BypassTab = "curves" | "light" | "color" | "effects" | "masks";
 
 interface EditSnapshot {
   imageId: string;
   snapshot: Partial<CanvasImage>;
+  /** Entries sharing a batchId (e.g. a sync across a selection) undo/redo together */
+  batchId?: string;
 }
 
 interface EditState {
@@ -15,6 +44,29 @@ interface EditState {
   editRedoStack: EditSnapshot[];
   bypassedTabs: Set<BypassTab>;
   copiedEdit: Partial<CanvasImage> | null;
+  /** Mask being edited on canvas (handles / brush painting shown for it) */
+  activeMaskId: string | null;
+  /** Brush settings for painting brush masks (radius is a fraction of image width) */
+  maskBrush: { radius: number; erase: boolean };
+  /** Crop overlay shown on canvas for the selected photo */
+  isCropping: boolean;
+  /** Locked crop aspect ratio (width / height), "original" = photo's own ratio, null = free */
+  cropAspect: number | "original" | null;
+  /** Histogram of the selected photo's filtered preview */
+  histogram: { imageId: string; data: ImageHistogram } | null;
+  /** Clipping overlays on the selected photo (toggled from Curves or with J) */
+  clippingWarnings: ClippingWarnings;
+  /** Before/after RGB readout while hovering the selected photo (Curves panel open) */
+  isInspecting: boolean;
+  pixelReadout: PixelReadout | null;
+  /** Targeted adjustment tool (drag on the selected photo), null = off */
+  targetedAdjustment: TargetedAdjustment | null;
+  /** Next click on the selected photo pins a new comment thread (collab Comments tab) */
+  isPlacingCommentPin: boolean;
+  /** Pin for the new thread, normalized 0-1 coords of the uncropped photo */
+  commentPinDraft: { imageId: string; x: number; y: number } | null;
+  /** Thread opened from its pin on canvas (highlighted in the Comments tab) */
+  activeCommentThreadId: string | null;
 
   // Actions
   pushSnapshot: (imageId: string, image: CanvasImage) => void;
@@ -30,6 +82,23 @@ interface EditState {
   setBypassedTabs: (tabs: Set<BypassTab>) => void;
   copyEdit: (image: CanvasImage) => void;
   setCopiedEdit: (v: Partial<CanvasImage> | null) => void;
+  setActiveMaskId: (id: string | null) => void;
+  setMaskBrush: (v: Partial<{ radius: number; erase: boolean }>) => void;
+  setIsCropping: (v: boolean) => void;
+  setCropAspect: (v: number | "original" | null) => void;
+  setHistogram: (
+    v: { imageId: string; data: ImageHistogram } | null,
+  ) => void;
+  toggleClippingWarning: (kind: keyof ClippingWarnings) => void;
+  setClippingWarnings: (v: ClippingWarnings) => void;
+  setIsInspecting: (v: boolean) => void;
+  setPixelReadout: (v: PixelReadout | null) => void;
+  setTargetedAdjustment: (v: TargetedAdjustment | null) => void;
+  setIsPlacingCommentPin: (v: boolean) => void;
+  setCommentPinDraft: (
+    v: { imageId: string; x: number; y: number } | null,
+  ) => void;
+  setActiveCommentThreadId: (id: string | null) => void;
   setEditHistory: (
     v: EditSnapshot[] | ((prev: EditSnapshot[]) => EditSnapshot[]),
   ) => void;
@@ -44,6 +113,18 @@ export const useEditStore = create<EditState>()(
     editRedoStack: [],
     bypassedTabs: new Set<BypassTab>(),
     copiedEdit: null,
+    activeMaskId: null,
+    maskBrush: { radius: 0.05, erase: false },
+    isCropping: false,
+    cropAspect: null,
+    histogram: null,
+    clippingWarnings: { shadows: false, highlights: false },
+    isInspecting: false,
+    pixelReadout: null,
+    targetedAdjustment: null,
+    isPlacingCommentPin: false,
+    commentPinDraft: null,
+    activeCommentThreadId: null,
 
     pushSnapshot: (imageId, image) =>
       set((state) => {
@@ -56,7 +137,9 @@ export const useEditStore = create<EditState>()(
             );
           }
         }
-        state.editHistory.push({ imageId, snapshot });
+        state.editHistory = appendEditHistory(state.editHistory, [
+          { imageId, snapshot },
+        ]);
         state.editRedoStack = [];
       }),
 
@@ -151,6 +234,46 @@ export const useEditStore = create<EditState>()(
 
     setCopiedEdit: (v) => set({ copiedEdit: v }),
 
+    setActiveMaskId: (id) => set({ activeMaskId: id }),
+
+    setMaskBrush: (v) =>
+      set((state) => {
+        state.maskBrush = { ...state.maskBrush, ...v };
+      }),
+
+    setIsCropping: (v) => set({ isCropping: v }),
+
+    setCropAspect: (v) => set({ cropAspect: v }),
+
+    setHistogram: (v) => set({ histogram: v }),
+
+    toggleClippingWarning: (kind) =>
+      set((state) => {
+        state.clippingWarnings[kind] = !state.clippingWarnings[kind];
+      }),
+
+    setClippingWarnings: (v) => set({ clippingWarnings: v }),
+
+    setIsInspecting: (v) =>
+      set((state) => {
+        state.isInspecting = v;
+        if (!v) state.pixelReadout = null;
+      }),
+
+    setPixelReadout: (v) => set({ pixelReadout: v }),
+
+    setTargetedAdjustment: (v) => set({ targetedAdjustment: v }),
+
+    setIsPlacingCommentPin: (v) => set({ isPlacingCommentPin: v }),
+
+    setCommentPinDraft: (v) =>
+      set((state) => {
+        state.commentPinDraft = v;
+        state.isPlacingCommentPin = false;
+      }),
+
+    setActiveCommentThreadId: (id) => set({ activeCommentThreadId: id }),
+
     setEditHistory: (v) =>
       set((state) => {
         state.editHistory = typeof v === "function" ? v(state.editHistory) : v;
@@ -167,6 +290,7 @@ export const useEditStore = create<EditState>()(
 // Selectors
 export const selectBypassedTabs = (state: EditState) => state.bypassedTabs;
 export const selectCopiedEdit = (state: EditState) => state.copiedEdit;
+export const selectActiveMaskId = (state: EditState) => state.activeMaskId;
 export const selectCanUndo = (state: EditState) => state.editHistory.length > 0;
 export const selectCanRedo = (state: EditState) =>
   state.editRedoStack.length > 0;
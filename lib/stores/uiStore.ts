@@ -1,6 +1,14 @@
 import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
-import type { PhotoFolder } from "@/lib/types";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  DEFAULT_SYNC_GROUPS,
+  type EditKeyGroupId,
+  type ExportJob,
+  type ExportOptions,
+  type PhotoFolder,
+  type SmartCollectionQuery,
+} from "@/lib/types";
 
 interface FolderPromptState {
   showFolderPrompt: boolean;
@@ -61,21 +69,35 @@ interface UIState
     DeleteConfirmState {
   // Misc UI
   borderDialogImageId: string | null;
+  /** Photo whose content labels are being edited by hand */
+  labelEditorImageId: string | null;
   createPresetFromImageId: string | null;
   createPresetName: string;
   applyPresetToSelectionIds: string[] | null;
+  /** Sync settings dialog: copy picked groups from sourceId to targetIds */
+  syncSettings: { sourceId: string; targetIds: string[] } | null;
+  syncSettingsGroups: EditKeyGroupId[];
   exportProgress: { current: number; total: number } | null;
-  applyPresetProgress: { current: number; total: number } | null;
+  exportDialogIds: string[] | null;
+  exportOptions: ExportOptions;
+  exportJobs: ExportJob[];
+  applyPresetProgress: {
+    current: number;
+    total: number;
+    label?: string;
+  } | null;
   saveStatus: "idle" | "saving" | "saved" | "error";
   zoomedImageId: string | null;
+  /** Before/after divider on the zoomed photo (0-1, before on the left), null = off */
+  compareSplit: number | null;
+  /** Photo pinned side by side as a look reference while editing */
+  referenceImageId: string | null;
   showHeader: boolean;
-  photoFilter: {
-    dateFrom?: string;
-    dateTo?: string;
-    cameraMake?: string;
-    cameraModel?: string;
-    contentSearch?: string;
-  };
+  photoFilter: SmartCollectionQuery;
+  /** Smart collection shown on the canvas (only its photos are visible), null = none */
+  activeSmartCollectionId: string | null;
+  /** Fullscreen culling: a folder's photos in order and the one shown */
+  culling: { imageIds: string[]; index: number } | null;
   isUploading: boolean;
   mobileEditFullscreen: boolean;
   mobileMenuOpen: boolean;
@@ -114,16 +136,29 @@ interface UIState
     v: { current: number; total: number } | null,
   ) => void;
   setBorderDialogImageId: (v: string | null) => void;
+  setLabelEditorImageId: (v: string | null) => void;
   setCreatePresetFromImageId: (v: string | null) => void;
   setCreatePresetName: (v: string) => void;
   setApplyPresetToSelectionIds: (v: string[] | null) => void;
+  setSyncSettings: (
+    v: { sourceId: string; targetIds: string[] } | null,
+  ) => void;
+  setSyncSettingsGroups: (v: EditKeyGroupId[]) => void;
   setExportProgress: (v: { current: number; total: number } | null) => void;
+  setExportDialogIds: (v: string[] | null) => void;
+  setExportOptions: (v: ExportOptions) => void;
+  upsertExportJob: (job: ExportJob) => void;
+  dismissExportJob: (id: string) => void;
   setApplyPresetProgress: (
-    v: { current: number; total: number } | null,
+    v: { current: number; total: number; label?: string } | null,
   ) => void;
   setSaveStatus: (v: "idle" | "saving" | "saved" | "error") => void;
   setZoomedImageId: (v: string | null) => void;
+  setCompareSplit: (v: number | null) => void;
+  setReferenceImageId: (v: string | null) => void;
   setShowHeader: (v: boolean) => void;
+  setCulling: (v: { imageIds: string[]; index: number } | null) => void;
+  setActiveSmartCollectionId: (v: string | null) => void;
   setPhotoFilter: (
     v:
       | UIState["photoFilter"]
@@ -177,15 +212,25 @@ export const useUIStore = create<UIState>()(
 
     // Misc UI
     borderDialogImageId: null,
+    labelEditorImageId: null,
     createPresetFromImageId: null,
     createPresetName: "",
     applyPresetToSelectionIds: null,
+    syncSettings: null,
+    syncSettingsGroups: DEFAULT_SYNC_GROUPS,
     exportProgress: null,
+    exportDialogIds: null,
+    exportOptions: DEFAULT_EXPORT_OPTIONS,
+    exportJobs: [],
     applyPresetProgress: null,
     saveStatus: "idle",
     zoomedImageId: null,
+    compareSplit: null,
+    referenceImageId: null,
     showHeader: false,
     photoFilter: {},
+    culling: null,
+    activeSmartCollectionId: null,
     isUploading: false,
     mobileEditFullscreen: false,
     mobileMenuOpen: false,
@@ -223,14 +268,38 @@ export const useUIStore = create<UIState>()(
     setDeletePhotoDontAskAgain: (v) => set({ deletePhotoDontAskAgain: v }),
     setDeleteFolderProgress: (v) => set({ deleteFolderProgress: v }),
     setBorderDialogImageId: (v) => set({ borderDialogImageId: v }),
+    setLabelEditorImageId: (v) => set({ labelEditorImageId: v }),
     setCreatePresetFromImageId: (v) => set({ createPresetFromImageId: v }),
     setCreatePresetName: (v) => set({ createPresetName: v }),
     setApplyPresetToSelectionIds: (v) => set({ applyPresetToSelectionIds: v }),
+    setSyncSettings: (v) => set({ syncSettings: v }),
+    setSyncSettingsGroups: (v) => set({ syncSettingsGroups: v }),
     setExportProgress: (v) => set({ exportProgress: v }),
+    setExportDialogIds: (v) => set({ exportDialogIds: v }),
+    setExportOptions: (v) => set({ exportOptions: v }),
+    upsertExportJob: (job) =>
+      set((state) => {
+        const i = state.exportJobs.findIndex((j) => j.id === job.id);
+        if (i >= 0) state.exportJobs[i] = job;
+        else state.exportJobs.push(job);
+      }),
+    dismissExportJob: (id) =>
+      set((state) => {
+        state.exportJobs = state.exportJobs.filter((j) => j.id !== id);
+      }),
     setApplyPresetProgress: (v) => set({ applyPresetProgress: v }),
     setSaveStatus: (v) => set({ saveStatus: v }),
-    setZoomedImageId: (v) => set({ zoomedImageId: v }),
+    setZoomedImageId: (v) =>
+      set((state) => {
+        state.zoomedImageId = v;
+        // The split view belongs to the zoomed photo
+        if (!v) state.compareSplit = null;
+      }),
+    setCompareSplit: (v) => set({ compareSplit: v }),
+    setReferenceImageId: (v) => set({ referenceImageId: v }),
     setShowHeader: (v) => set({ showHeader: v }),
+    setCulling: (v) => set({ culling: v }),
+    setActiveSmartCollectionId: (v) => set({ activeSmartCollectionId: v }),
     setPhotoFilter: (v) =>
       set((state) => {
         state.photoFilter = typeof v === "function" ? v(state.photoFilter) : v;
@@ -250,6 +319,7 @@ export const useUIStore = create<UIState>()(
 // Selectors
 export const selectSaveStatus = (state: UIState) => state.saveStatus;
 export const selectExportProgress = (state: UIState) => state.exportProgress;
+export const selectExportJobs = (state: UIState) => state.exportJobs;
 export const selectZoomedImageId = (state: UIState) => state.zoomedImageId;
 export const selectPhotoFilter = (state: UIState) => state.photoFilter;
 export const selectIsUploading = (state: UIState) => state.isUploading;
@@ -0,0 +1,22 @@
+// Minimal typings for dcraw.js (emscripten build of dcraw, no bundled types)
+declare module "dcraw" {
+  interface DcrawOptions {
+    verbose?: boolean;
+    identify?: boolean;
+    exportAsTiff?: boolean;
+    useCameraWhiteBalance?: boolean;
+    setColorSpace?: number;
+    setInterpolationQuality?: number;
+    setHalfSizeMode?: boolean;
+    use16BitMode?: boolean;
+    [flag: string]: boolean | number | string | Uint8Array | undefined;
+  }
+
+  /** Returns the decoded file (Uint8Array), or metadata text when `identify` is set */
+  function dcraw(
+    buffer: Uint8Array,
+    options?: DcrawOptions,
+  ): Uint8Array | string | undefined;
+
+  export default dcraw;
+}
@@ -84,6 +84,188 @@ export interface ColorCalibration {
   blueSaturation: number; // -100 to +100
 }
 
+// --- Local Adjustment Masks ---
+
+export type MaskType = "linear" | "radial" | "brush";
+
+/** Linear gradient: full effect at (x1, y1), fading to none at (x2, y2). Normalized 0-1 image coords. */
+export interface LinearMaskGeometry {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/** Radial ellipse centered at (cx, cy). rx is relative to width, ry to height. */
+export interface RadialMaskGeometry {
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+  feather: number; // 0-1 (fraction of the radius that fades out)
+}
+
+export interface BrushStroke {
+  points: number[]; // flat [x0, y0, x1, y1, ...] in normalized 0-1 image coords
+  radius: number; // relative to image width
+  erase?: boolean;
+}
+
+export interface BrushMaskGeometry {
+  strokes: BrushStroke[];
+  feather: number; // 0-1 (soft edge of each dab)
+}
+
+/** Adjustments a mask can apply locally (subset of EditValues) */
+export interface MaskAdjustments {
+  exposure?: number;
+  contrast?: number;
+  highlights?: number;
+  shadows?: number;
+  whites?: number;
+  blacks?: number;
+  temperature?: number;
+  vibrance?: number;
+  saturation?: number;
+  clarity?: number;
+  dehaze?: number;
+}
+
+export const MASK_ADJUSTMENT_KEYS: (keyof MaskAdjustments)[] = [
+  "exposure",
+  "contrast",
+  "highlights",
+  "shadows",
+  "whites",
+  "blacks",
+  "temperature",
+  "vibrance",
+  "saturation",
+  "clarity",
+  "dehaze",
+];
+
+export interface LocalMask {
+  id: string;
+  name: string;
+  type: MaskType;
+  invert?: boolean;
+  linear?: LinearMaskGeometry;
+  radial?: RadialMaskGeometry;
+  brush?: BrushMaskGeometry;
+  adjustments: MaskAdjustments;
+}
+
+// --- Creative Profile (3D LUT) ---
+
+/** 3D LUT imported from a .cube file, applied after the color adjustments */
+export interface CreativeProfile {
+  name: string;
+  size: number; // grid points per axis (at most 33)
+  data: string; // base64 of size^3 RGB bytes, red varies fastest (.cube order)
+  amount: number; // 0-1
+}
+
+/** A profile kept by reference: its LUT is stored once in creative_profile_luts */
+export interface CreativeProfileRef {
+  name: string;
+  size: number;
+  lutHash: string; // SHA-256 (hex) of the base64 LUT data
+  amount: number;
+}
+
+/** EDIT_KEYS values as stored in history entries and snapshots (profile by reference) */
+export type StoredEditSettings = Omit<Partial<CanvasImage>, "profile"> & {
+  profile?: CreativeProfile | CreativeProfileRef | null;
+};
+
+// --- Crop & Straighten ---
+
+/** Crop rectangle in normalized 0-1 coords of the straightened frame */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CropAspectPreset {
+  label: string;
+  ratio: number | "original" | null; // width / height; null = free
+}
+
+export const CROP_ASPECT_PRESETS: CropAspectPreset[] = [
+  { label: "Free", ratio: null },
+  { label: "Original", ratio: "original" },
+  { label: "1:1", ratio: 1 },
+  { label: "4:5", ratio: 4 / 5 },
+  { label: "5:4", ratio: 5 / 4 },
+  { label: "2:3", ratio: 2 / 3 },
+  { label: "3:2", ratio: 3 / 2 },
+  { label: "9:16", ratio: 9 / 16 },
+  { label: "16:9", ratio: 16 / 9 },
+];
+
+// --- Edit Snapshots ---
+
+/** Named look saved on a photo ("warm v1", "B&W"), restorable from the EditPanel */
+export interface NamedSnapshot {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  settings: StoredEditSettings; // EDIT_KEYS values
+}
+
+// --- Culling ---
+
+export type ColorLabel = "red" | "yellow" | "green" | "blue" | "purple";
+export type PhotoFlag = "pick" | "reject";
+
+/** Color labels in shortcut order (6-9 set red..blue, like Lightroom) */
+export const COLOR_LABELS: { id: ColorLabel; label: string; color: string }[] =
+  [
+    { id: "red", label: "Red", color: "#ef4444" },
+    { id: "yellow", label: "Yellow", color: "#eab308" },
+    { id: "green", label: "Green", color: "#22c55e" },
+    { id: "blue", label: "Blue", color: "#3b82f6" },
+    { id: "purple", label: "Purple", color: "#a855f7" },
+  ];
+
+// --- Smart Collections ---
+
+/** Photo filter query: the canvas filter, and what a smart collection saves */
+export interface SmartCollectionQuery {
+  /** Taken on or after this day (YYYY-MM-DD, UTC); photos without a date don't match */
+  dateFrom?: string;
+  /** Taken on or before this day, inclusive */
+  dateTo?: string;
+  cameraMake?: string;
+  cameraModel?: string;
+  /** Label search: case-insensitive substring of any label */
+  contentSearch?: string;
+  /** At least this many stars */
+  minRating?: number;
+  colorLabel?: ColorLabel;
+  flag?: PhotoFlag | "unflagged";
+  fileType?: "raw" | "jpeg";
+  edited?: "edited" | "unedited";
+  folderId?: string;
+}
+
+/** Named filter query stored in the Supabase smart_collections table */
+export interface SmartCollection {
+  id: string;
+  user_id: string;
+  name: string;
+  query: SmartCollectionQuery;
+  created_at: string;
+}
+
+/** Culling fields on a photo (rating 0 = unrated, null label / flag = none) */
+export type CullMarks = Partial<
+  Pick<CanvasImage, "rating" | "colorLabel" | "flag">
+>;
+
 // --- Canvas Objects ---
 
 export interface CanvasImage {
@@ -95,6 +277,8 @@ export interface CanvasImage {
   height: number;
   src: string;
   storagePath?: string;
+  /** Virtual copy: shares storagePath with the master, own edits + position. Undefined = master */
+  copyId?: string;
   folderId?: string;
   rotation: number;
   scaleX: number;
@@ -116,6 +300,7 @@ export interface CanvasImage {
   splitToning?: SplitToning;
   colorGrading?: ColorGrading;
   colorCalibration?: ColorCalibration;
+  profile?: CreativeProfile;
   // Effects
   clarity: number;
   dehaze: number;
@@ -125,6 +310,11 @@ export interface CanvasImage {
   grainRoughness?: number;
   // Curves
   curves: ChannelCurves;
+  // Local adjustments
+  masks?: LocalMask[];
+  // Crop & straighten (non-destructive, applied after filters)
+  crop?: CropRect;
+  straighten?: number; // degrees, -45 to +45
   // Legacy
   brightness: number;
   hue: number;
@@ -142,9 +332,15 @@ export interface CanvasImage {
   cameraMake?: string;
   cameraModel?: string;
   labels?: string[];
+  // Culling (not part of EDIT_KEYS: presets and synced edits leave them alone)
+  rating?: number; // 0-5
+  colorLabel?: ColorLabel | null;
+  flag?: PhotoFlag | null;
   // Border
   borderWidth?: number;
   borderColor?: string;
+  // Named snapshots (not part of EDIT_KEYS: restoring one must not drop the others)
+  snapshots?: NamedSnapshot[];
 }
 
 export interface CanvasText {
@@ -172,6 +368,80 @@ export interface PhotoFolder {
   backgroundColor?: string;
 }
 
+// --- Collaboration Roles ---
+
+/**
+ * A member's role in a collab session (collab_members.role), lowest to highest:
+ * viewer (view only), commenter (view + comment threads), editor (upload photos, edit
+ * and move/delete their own), editor_all (also edit anyone's photos), admin
+ * (move/delete anything, review join requests).
+ * "master" is the session owner, who also assigns roles.
+ */
+export type CollabRole =
+  | "viewer"
+  | "commenter"
+  | "editor"
+  | "editor_all"
+  | "admin"
+  | "master";
+
+/**
+ * Invite link for a collab session (collab_invites). Joining with a link that has a
+ * role approves the member right away; role null sends a join request to review.
+ */
+export interface CollabInvite {
+  id: string;
+  session_id: string;
+  token: string;
+  created_by: string;
+  role: Exclude<CollabRole, "master"> | null;
+  expires_at: string | null;
+  /** null = unlimited */
+  max_uses: number | null;
+  use_count: number;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+/** Email invite: a pending collab_members row claimed when that account signs in */
+export interface CollabEmailInvite {
+  id: string;
+  invited_email: string;
+  role: Exclude<CollabRole, "master">;
+  created_at: string;
+}
+
+// --- Collaboration Presence ---
+
+/**
+ * What a collaborator is doing on the canvas, tracked on the session's presence channel.
+ * Photos are referenced by row key (getPhotoRowKey): local image ids differ between
+ * clients for photos uploaded during the session.
+ */
+export interface CollabPresenceState {
+  /** Pointer in canvas coordinates, null when it's off the canvas */
+  cursor: { x: number; y: number } | null;
+  /** Visible canvas area in canvas coordinates */
+  viewport: { x: number; y: number; width: number; height: number } | null;
+  selectedKeys: string[];
+  /** Photo open in EditPanel: others see a soft lock badge on it */
+  editingKey: string | null;
+}
+
+/** Session member currently online, with their latest presence state */
+export interface CollabOnlineUser extends Partial<CollabPresenceState> {
+  id: string;
+  email: string;
+  name?: string;
+  color: string;
+}
+
+/** Another member as shown on the canvas (selection outlines, soft lock badge) */
+export interface CollabMember {
+  name: string;
+  color: string;
+}
+
 // --- Edit Keys ---
 
 export const EDIT_KEYS: (keyof CanvasImage)[] = [
@@ -193,6 +463,7 @@ export const EDIT_KEYS: (keyof CanvasImage)[] = [
   "splitToning",
   "colorGrading",
   "colorCalibration",
+  "profile",
   "clarity",
   "dehaze",
   "vignette",
@@ -200,23 +471,106 @@ export const EDIT_KEYS: (keyof CanvasImage)[] = [
   "grainSize",
   "grainRoughness",
   "curves",
+  "masks",
+  "crop",
+  "straighten",
   "brightness",
   "hue",
   "blur",
   "filters",
 ];
 
+/** EDIT_KEYS grouped for syncing part of an edit across a selection */
+export type EditKeyGroupId =
+  | "tone"
+  | "curves"
+  | "hsl"
+  | "grading"
+  | "effects"
+  | "masks"
+  | "geometry";
+
+export interface EditKeyGroup {
+  id: EditKeyGroupId;
+  label: string;
+  keys: (keyof CanvasImage)[];
+}
+
+export const EDIT_KEY_GROUPS: EditKeyGroup[] = [
+  {
+    id: "tone",
+    label: "Tone & color",
+    keys: [
+      "exposure",
+      "contrast",
+      "highlights",
+      "shadows",
+      "whites",
+      "blacks",
+      "texture",
+      "clarity",
+      "dehaze",
+      "brightness",
+      "temperature",
+      "shadowTint",
+      "vibrance",
+      "saturation",
+      "hue",
+      "profile",
+    ],
+  },
+  { id: "curves", label: "Curves", keys: ["curves"] },
+  { id: "hsl", label: "HSL", keys: ["colorHSL"] },
+  {
+    id: "grading",
+    label: "Color grading",
+    keys: ["splitToning", "colorGrading", "colorCalibration"],
+  },
+  {
+    id: "effects",
+    label: "Effects",
+    keys: [
+      "vignette",
+      "grain",
+      "grainSize",
+      "grainRoughness",
+      "blur",
+      "filters",
+    ],
+  },
+  { id: "masks", label: "Masks", keys: ["masks"] },
+  {
+    id: "geometry",
+    label: "Crop & geometry",
+    keys: ["crop", "straighten", "rotation", "scaleX", "scaleY"],
+  },
+];
+
+/** Masks and geometry are placed per photo, so they're off unless picked */
+export const DEFAULT_SYNC_GROUPS: EditKeyGroupId[] = [
+  "tone",
+  "curves",
+  "hsl",
+  "grading",
+  "effects",
+];
+
 // --- Utility Functions ---
 
 /** Deep-clone nested edit values so undo snapshots are independent */
 export function cloneEditValue(key: keyof CanvasImage, v: unknown): unknown {
   if (v === undefined || v === null) return v;
-  if (key === "curves" && typeof v === "object") return structuredClone(v);
+  if (
+    (key === "curves" || key === "masks" || key === "crop") &&
+    typeof v === "object"
+  )
+    return structuredClone(v);
   if (
     (key === "colorHSL" ||
       key === "splitToning" ||
       key === "colorGrading" ||
-      key === "colorCalibration") &&
+      key === "colorCalibration" ||
+      key === "profile") &&
     typeof v === "object"
   )
     return structuredClone(v);
@@ -248,6 +602,174 @@ export interface EditValues {
   shadowTint?: number;
   colorGrading?: ColorGrading;
   colorCalibration?: ColorCalibration;
+  profile?: CreativeProfile;
+  masks?: LocalMask[];
+  crop?: CropRect;
+  straighten?: number;
+}
+
+const EDIT_VALUE_KEYS: (keyof EditValues & keyof CanvasImage)[] = [
+  "exposure",
+  "contrast",
+  "highlights",
+  "shadows",
+  "whites",
+  "blacks",
+  "brightness",
+  "temperature",
+  "vibrance",
+  "saturation",
+  "clarity",
+  "dehaze",
+  "vignette",
+  "grain",
+  "curves",
+  "colorHSL",
+  "splitToning",
+  "shadowTint",
+  "colorGrading",
+  "colorCalibration",
+  "profile",
+  "masks",
+  "crop",
+  "straighten",
+];
+
+/** Pick the edit values the server pipeline understands from a canvas image */
+export function getEditValues(image: CanvasImage): EditValues {
+  const edits: Record<string, unknown> = {};
+  for (const key of EDIT_VALUE_KEYS) {
+    const value = image[key];
+    if (value !== undefined && value !== null) edits[key] = value;
+  }
+  return edits as EditValues;
+}
+
+/** The same edit values from a saved photo_edits / collab_photos row (snake_case columns) */
+export function getRowEditValues(row: Record<string, unknown>): EditValues {
+  const edits: Record<string, unknown> = {};
+  for (const key of EDIT_VALUE_KEYS) {
+    const column = key.replace(/[A-Z]+/g, (c) => `_${c.toLowerCase()}`);
+    const value = row[column];
+    if (value !== undefined && value !== null) edits[key] = value;
+  }
+  return edits as EditValues;
+}
+
+// --- Export Options ---
+
+export type ExportFormat = "jpeg" | "png" | "tiff" | "avif" | "webp";
+
+/** Output sharpening strength (applied after resizing) */
+export type OutputSharpening = "none" | "low" | "standard" | "high";
+
+/** Which metadata to embed: everything, everything but GPS, or nothing */
+export type ExportMetadataMode = "all" | "noLocation" | "none";
+
+/** "high" renders in float from 16-bit decodes (exposure in linear light) */
+export type ProcessingPrecision = "standard" | "high";
+
+/** Output gamut; "p3" keeps wide-gamut sources wide and tags the file Display P3 */
+export type OutputColorSpace = "srgb" | "p3";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** 1-100, used by lossy formats (JPEG, AVIF, WebP) */
+  quality: number;
+  /** 16 only applies to TIFF */
+  bitDepth: 8 | 16;
+  /** Resize so the longest edge is at most this many pixels; null = full resolution */
+  longEdge: number | null;
+  sharpening: OutputSharpening;
+  metadata: ExportMetadataMode;
+  /** Embed a Driftboard XMP packet describing the applied edits */
+  embedEdits: boolean;
+  /** High precision and P3 exports are always rendered server-side */
+  precision: ProcessingPrecision;
+  colorSpace: OutputColorSpace;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: "jpeg",
+  quality: 92,
+  bitDepth: 8,
+  longEdge: null,
+  sharpening: "none",
+  metadata: "all",
+  embedEdits: true,
+  precision: "standard",
+  colorSpace: "srgb",
+};
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  lossy: boolean;
+  supports16Bit: boolean;
+  /** Can be encoded with canvas.toBlob (otherwise the client hands off to /api/export/encode) */
+  browserEncodable: boolean;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  jpeg: {
+    label: "JPEG",
+    extension: "jpg",
+    mimeType: "image/jpeg",
+    lossy: true,
+    supports16Bit: false,
+    browserEncodable: true,
+  },
+  png: {
+    label: "PNG",
+    extension: "png",
+    mimeType: "image/png",
+    lossy: false,
+    supports16Bit: false,
+    browserEncodable: true,
+  },
+  tiff: {
+    label: "TIFF",
+    extension: "tif",
+    mimeType: "image/tiff",
+    lossy: false,
+    supports16Bit: true,
+    browserEncodable: false,
+  },
+  avif: {
+    label: "AVIF",
+    extension: "avif",
+    mimeType: "image/avif",
+    lossy: true,
+    supports16Bit: false,
+    browserEncodable: false,
+  },
+  webp: {
+    label: "WebP",
+    extension: "webp",
+    mimeType: "image/webp",
+    lossy: true,
+    supports16Bit: false,
+    browserEncodable: true,
+  },
+};
+
+export const EXPORT_LONG_EDGE_PRESETS: number[] = [1080, 2048, 3840];
+
+/** Photo metadata written into exported files (EXIF / IPTC keywords via XMP) */
+export interface ExportPhotoMetadata {
+  takenAt?: string;
+  cameraMake?: string;
+  cameraModel?: string;
+  labels?: string[];
+  // Read from the source file on the server (not stored on the canvas)
+  lensModel?: string;
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;
+  latitude?: number;
+  longitude?: number;
 }
 
 // --- UI Types (used by EditPanel) ---
@@ -257,9 +779,34 @@ export type ActivePanel =
   | "light"
   | "color"
   | "effects"
+  | "masks"
+  | "crop"
   | "presets"
+  | "history"
+  | "comments"
   | null;
-export type BypassTab = "curves" | "light" | "color" | "effects";
+export type BypassTab = "curves" | "light" | "color" | "effects" | "masks";
+
+/** Targeted adjustment tool: dragging on the photo edits a curve or the HSL bands under the pointer */
+export type TargetedAdjustment =
+  | { kind: "curves"; channel: keyof ChannelCurves }
+  | { kind: "hsl"; property: keyof HSLAdjustments };
+
+/** Clipping overlays drawn on the selected photo */
+export interface ClippingWarnings {
+  shadows: boolean;
+  highlights: boolean;
+}
+
+/** Before/after RGB (0-255) under the pointer on the selected photo */
+export interface PixelReadout {
+  imageId: string;
+  /** Viewport position of the pointer (the readout follows it) */
+  clientX: number;
+  clientY: number;
+  before: [number, number, number];
+  after: [number, number, number];
+}
 
 export interface Preset {
   id: string;
@@ -273,6 +820,8 @@ export interface Preset {
 export interface PhotoEdits {
   storage_path: string;
   user_id: string;
+  copy_id?: string; // '' for the master row
+  snapshots?: NamedSnapshot[] | null;
   folder_id?: string;
   x: number;
   y: number;
@@ -296,6 +845,7 @@ export interface PhotoEdits {
   split_toning?: SplitToning;
   color_grading?: ColorGrading;
   color_calibration?: ColorCalibration;
+  profile?: CreativeProfile | null;
   clarity: number;
   dehaze: number;
   vignette: number;
@@ -303,6 +853,9 @@ export interface PhotoEdits {
   grain_size?: number;
   grain_roughness?: number;
   curves: ChannelCurves;
+  masks?: LocalMask[] | null;
+  crop?: CropRect | null;
+  straighten?: number | null;
   brightness: number;
   hue: number;
   blur: number;
@@ -317,7 +870,69 @@ export interface PhotoEdits {
   camera_make?: string | null;
   camera_model?: string | null;
   labels?: string[] | null;
+  // Culling
+  rating?: number | null;
+  color_label?: ColorLabel | null;
+  flag?: PhotoFlag | null;
   // Border
   border_width?: number | null;
   border_color?: string | null;
 }
+
+/** One saved edit in the Supabase photo_edit_history table */
+export interface EditHistoryEntry {
+  id: string;
+  user_id: string;
+  session_id?: string | null;
+  storage_path: string;
+  copy_id: string; // '' for the master row
+  changed_keys: string[]; // EDIT_KEYS changed by the saves this entry covers
+  settings: StoredEditSettings; // EDIT_KEYS values after the latest of them
+  created_at: string;
+}
+
+/** Comment in the Supabase collab_comments table */
+export interface CollabComment {
+  id: string;
+  thread_id: string;
+  session_id: string;
+  user_id: string;
+  body: string;
+  mentions: string[]; // user ids @mentioned in the body
+  created_at: string;
+}
+
+/** Comment thread on a collab photo (collab_comment_threads row + its comments) */
+export interface CollabCommentThread {
+  id: string;
+  session_id: string;
+  storage_path: string;
+  copy_id: string; // '' for the master row
+  user_id: string;
+  /** Pinned point in normalized 0-1 coords of the uncropped photo (null = whole photo) */
+  pin_x: number | null;
+  pin_y: number | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+  comments: CollabComment[]; // oldest first; the first one opens the thread
+}
+
+/** Background batch export job stored in Supabase export_jobs table */
+export type ExportJobStatus = "pending" | "processing" | "completed" | "failed";
+
+export interface ExportJob {
+  id: string;
+  user_id: string;
+  session_id?: string | null;
+  status: ExportJobStatus;
+  total: number;
+  completed: number;
+  failed: number;
+  options: ExportOptions;
+  zip_path?: string | null;
+  download_url?: string | null;
+  error?: string | null;
+  created_at: string;
+  updated_at: string;
+}
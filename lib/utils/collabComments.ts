@@ -0,0 +1,138 @@
+/**
+ * Comment threads on collab photos: @mentions and writes to collab_comment_threads /
+ * collab_comments (RLS limits both to the session owner and approved members).
+ * Reads go through useCollabComments; useCollabRealtime refetches on every change.
+ */
+
+import type { CollabCommentThread } from "@/lib/types";
+import { supabase } from "@/lib/supabase";
+
+/** "@name" tokens; names are email prefixes, so dots / plus / dashes are allowed */
+export const MENTION_PATTERN = /@([\w.+-]+)/g;
+
+/** User ids of the session members @mentioned in a comment (names from memberNames) */
+export function findMentions(
+  body: string,
+  memberNames: Record<string, string>,
+): string[] {
+  const byName = new Map(
+    Object.entries(memberNames).map(([id, name]) => [name.toLowerCase(), id]),
+  );
+  const ids = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    // A trailing "." ends the sentence, not the name
+    const name = match[1].replace(/\.+$/, "").toLowerCase();
+    const id = byName.get(name);
+    if (id) ids.add(id);
+  }
+  return [...ids];
+}
+
+/** A photo's threads, in the order they were loaded (creation order) */
+export function getPhotoThreads(
+  threads: CollabCommentThread[],
+  storagePath: string | undefined,
+  copyId: string | undefined,
+): CollabCommentThread[] {
+  return threads.filter(
+    (t) => t.storage_path === storagePath && t.copy_id === (copyId ?? ""),
+  );
+}
+
+/** Start a thread on a photo (optionally pinned) with its first comment */
+export async function createCommentThread(params: {
+  sessionId: string;
+  userId: string;
+  storagePath: string;
+  copyId?: string;
+  pin: { x: number; y: number } | null;
+  body: string;
+  mentions: string[];
+}): Promise<void> {
+  const { data, error } = await supabase
+    .from("collab_comment_threads")
+    .insert({
+      session_id: params.sessionId,
+      user_id: params.userId,
+      storage_path: params.storagePath,
+      copy_id: params.copyId ?? "",
+      pin_x: params.pin?.x ?? null,
+      pin_y: params.pin?.y ?? null,
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  try {
+    await addComment({
+      threadId: data.id as string,
+      sessionId: params.sessionId,
+      userId: params.userId,
+      body: params.body,
+      mentions: params.mentions,
+    });
+  } catch (commentError) {
+    // A thread without its first comment would show up empty: take it back
+    await supabase.from("collab_comment_threads").delete().eq("id", data.id);
+    throw commentError;
+  }
+}
+
+export async function addComment(params: {
+  threadId: string;
+  sessionId: string;
+  userId: string;
+  body: string;
+  mentions: string[];
+}): Promise<void> {
+  const { error } = await supabase.from("collab_comments").insert({
+    thread_id: params.threadId,
+    session_id: params.sessionId,
+    user_id: params.userId,
+    body: params.body,
+    mentions: params.mentions,
+  });
+  if (error) throw error;
+}
+
+/** Resolve (or reopen) a thread; any member can */
+export async function setThreadResolved(
+  threadId: string,
+  userId: string,
+  resolved: boolean,
+): Promise<void> {
+  const { error } = await supabase
+    .from("collab_comment_threads")
+    .update({
+      resolved_at: resolved ? new Date().toISOString() : null,
+      resolved_by: resolved ? userId : null,
+    })
+    .eq("id", threadId);
+  if (error) throw error;
+}
+
+/** Delete one's own comment; deleting a thread's first comment deletes the thread */
+export async function deleteComment(
+  thread: CollabCommentThread,
+  commentId: string,
+): Promise<void> {
+  const { error } =
+    thread.comments[0]?.id === commentId
+      ? await supabase
+          .from("collab_comment_threads")
+          .delete()
+          .eq("id", thread.id)
+      : await supabase.from("collab_comments").delete().eq("id", commentId);
+  if (error) throw error;
+}
+
+/** Pin numbers of a photo's pinned threads (1, 2, … in creation order, resolved included) */
+export function getPinNumbers(
+  photoThreads: CollabCommentThread[],
+): Map<string, number> {
+  const numbers = new Map<string, number>();
+  for (const thread of photoThreads) {
+    if (thread.pin_x != null) numbers.set(thread.id, numbers.size + 1);
+  }
+  return numbers;
+}
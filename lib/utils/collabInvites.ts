@@ -0,0 +1,48 @@
+/**
+ * Collab invite links (CollabInvite): whether a link still admits people, and which
+ * roles an inviter can hand out. /api/collab/join and /api/collab/invites check the
+ * same rules server-side; the Members panel uses them to label and limit the UI.
+ */
+
+import type { CollabInvite, CollabRole } from "@/lib/types";
+import {
+  ASSIGNABLE_COLLAB_ROLES,
+  hasCollabRole,
+} from "@/lib/utils/collabRoles";
+
+export type CollabInviteStatus = "active" | "revoked" | "expired" | "used_up";
+
+export function getInviteStatus(
+  invite: Pick<
+    CollabInvite,
+    "revoked_at" | "expires_at" | "max_uses" | "use_count"
+  >,
+  now = Date.now(),
+): CollabInviteStatus {
+  if (invite.revoked_at) return "revoked";
+  if (invite.expires_at && new Date(invite.expires_at).getTime() <= now) {
+    return "expired";
+  }
+  if (invite.max_uses != null && invite.use_count >= invite.max_uses) {
+    return "used_up";
+  }
+  return "active";
+}
+
+/** Roles an inviter can pre-approve: the owner any, admins up to editor */
+export function getInvitableRoles(
+  inviterRole: string | null | undefined,
+): Exclude<CollabRole, "master">[] {
+  if (inviterRole === "master") return ASSIGNABLE_COLLAB_ROLES;
+  if (!hasCollabRole(inviterRole, "admin")) return [];
+  return ASSIGNABLE_COLLAB_ROLES.filter((r) => !hasCollabRole(r, "admin"));
+}
+
+/** Invite tokens are case-insensitive (stored upper case, like the old invite codes) */
+export function normalizeInviteToken(token: string): string {
+  return token.trim().toUpperCase();
+}
+
+export function getInviteLink(origin: string, token: string): string {
+  return `${origin}/community/join?code=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,159 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  mergeFieldUpdates,
+  mergeRemoteColumns,
+  toServerClock,
+  type EditRow,
+} from "@/lib/utils/collabMerge";
+
+const row = (values: Partial<EditRow>) => values as EditRow;
+
+test("interleaved writes to one field keep the latest", () => {
+  const first = mergeFieldUpdates(
+    {},
+    { exposure: 0.2 },
+    { exposure: 100 },
+    500,
+  );
+  assert.deepEqual(first.applied, { exposure: 0.2 });
+
+  // A write made before the stored one arrives late: it loses
+  const late = mergeFieldUpdates(
+    first.clock,
+    { exposure: -0.4 },
+    { exposure: 90 },
+    500,
+  );
+  assert.deepEqual(late.applied, {});
+  assert.deepEqual(late.rejected, ["exposure"]);
+
+  const newer = mergeFieldUpdates(
+    first.clock,
+    { exposure: 0.5 },
+    { exposure: 110 },
+    500,
+  );
+  assert.deepEqual(newer.applied, { exposure: 0.5 });
+  assert.deepEqual(newer.clock, { exposure: 110 });
+});
+
+test("interleaved writes to different fields both survive", () => {
+  const a = mergeFieldUpdates(
+    {},
+    { exposure: 0.2, contrast: 0.1 },
+    { exposure: 100, contrast: 100 },
+    500,
+  );
+  // Written earlier, but only to a field the other write didn't touch
+  const b = mergeFieldUpdates(
+    a.clock,
+    { saturation: -0.3 },
+    { saturation: 95 },
+    500,
+  );
+  assert.deepEqual(b.applied, { saturation: -0.3 });
+  assert.deepEqual(b.rejected, []);
+  assert.deepEqual(b.clock, { exposure: 100, contrast: 100, saturation: 95 });
+});
+
+test("a write with the stored time loses on the server", () => {
+  const merged = mergeFieldUpdates(
+    { exposure: 100 },
+    { exposure: 0.3 },
+    { exposure: 100 },
+    500,
+  );
+  assert.deepEqual(merged.applied, {});
+  assert.deepEqual(merged.rejected, ["exposure"]);
+  assert.deepEqual(merged.clock, { exposure: 100 });
+});
+
+test("future write times are capped at now", () => {
+  const fast = mergeFieldUpdates(
+    {},
+    { exposure: 0.9 },
+    { exposure: 10_000 },
+    500,
+  );
+  assert.deepEqual(fast.clock, { exposure: 500 });
+
+  // The column isn't locked: the next write after now wins
+  const next = mergeFieldUpdates(
+    fast.clock,
+    { exposure: 0.1 },
+    { exposure: 501 },
+    501,
+  );
+  assert.deepEqual(next.applied, { exposure: 0.1 });
+});
+
+test("a write without a time uses now", () => {
+  const merged = mergeFieldUpdates({ exposure: 100 }, { exposure: 1 }, {}, 500);
+  assert.deepEqual(merged.clock, { exposure: 500 });
+});
+
+test("a slow client's writes are shifted to server time", () => {
+  // The client's clock runs 60s behind: its latest edit must still win
+  const now = 100_000;
+  const clock = toServerClock({ exposure: 39_990 }, 40_000, now);
+  assert.deepEqual(clock, { exposure: 99_990 });
+
+  const merged = mergeFieldUpdates(
+    { exposure: 95_000 },
+    { exposure: 1 },
+    clock,
+    now,
+  );
+  assert.deepEqual(merged.applied, { exposure: 1 });
+
+  assert.deepEqual(toServerClock({ exposure: 10 }, undefined, now), {
+    exposure: 10,
+  });
+});
+
+test("remote columns apply only where nothing is edited locally", () => {
+  const baseline = row({ exposure: 0, contrast: 0 });
+  const local = row({ exposure: 0.4, contrast: 0 }); // exposure not saved yet
+  const incoming = row({ exposure: -0.2, contrast: 0.3 });
+
+  const merged = mergeRemoteColumns(
+    local,
+    incoming,
+    baseline,
+    { exposure: 100, contrast: 100 },
+    { exposure: 200, contrast: 200 },
+  );
+  assert.deepEqual(merged.columns, ["contrast"]);
+  // Both count as saved: the local exposure is still dirty against the new baseline
+  assert.deepEqual(merged.baseline, incoming);
+  assert.deepEqual(merged.known, { exposure: 200, contrast: 200 });
+});
+
+test("older remote columns are ignored, ties apply on the client", () => {
+  const baseline = row({ exposure: 0, contrast: 0 });
+  const merged = mergeRemoteColumns(
+    baseline,
+    row({ exposure: 0.5, contrast: 0.5 }),
+    baseline,
+    { exposure: 300, contrast: 100 },
+    { exposure: 200, contrast: 100 },
+  );
+  // A tie (e.g. the echo of our own save) applies; an older write does not
+  assert.deepEqual(merged.columns, ["contrast"]);
+  assert.deepEqual(merged.baseline, row({ exposure: 0, contrast: 0.5 }));
+  assert.deepEqual(merged.known, { exposure: 300, contrast: 100 });
+});
+
+test("a row never saved here takes every remote column", () => {
+  const incoming = row({ exposure: 0.5, rating: 3 });
+  const merged = mergeRemoteColumns(
+    row({ exposure: 0, rating: 0 }),
+    incoming,
+    undefined,
+    {},
+    { exposure: 100 },
+  );
+  assert.deepEqual(merged.columns, ["exposure", "rating"]);
+  assert.deepEqual(merged.baseline, incoming);
+});
@@ -0,0 +1,239 @@
+/**
+ * Field-level merging for collab photos.
+ * Every collab_photos column carries its own last-write time (field_clock), so two
+ * collaborators editing different sliders of one photo both keep their edits and the
+ * same slider resolves to the latest write. PATCH /api/collab/photos merges on the
+ * server; useAutoSave sends only changed columns and useCollabRealtime applies only
+ * newer remote columns that aren't being edited locally.
+ *
+ * Write times are in server time: clients send their clock with the time they sent it
+ * (sentAt) and the server shifts it by the difference (toServerClock), so a client
+ * whose clock runs behind doesn't lose every write to the others.
+ */
+
+import type { CanvasImage } from "@/lib/types";
+
+/** Last-write time (ms) per column */
+export type FieldClock = Record<string, number>;
+
+/** collab_photos column → CanvasImage field, for every column the editor saves */
+export const PHOTO_COLUMN_FIELDS = {
+  folder_id: "folderId",
+  x: "x",
+  y: "y",
+  width: "width",
+  height: "height",
+  rotation: "rotation",
+  scale_x: "scaleX",
+  scale_y: "scaleY",
+  exposure: "exposure",
+  contrast: "contrast",
+  highlights: "highlights",
+  shadows: "shadows",
+  whites: "whites",
+  blacks: "blacks",
+  texture: "texture",
+  temperature: "temperature",
+  vibrance: "vibrance",
+  saturation: "saturation",
+  shadow_tint: "shadowTint",
+  color_hsl: "colorHSL",
+  split_toning: "splitToning",
+  color_grading: "colorGrading",
+  color_calibration: "colorCalibration",
+  profile: "profile",
+  clarity: "clarity",
+  dehaze: "dehaze",
+  vignette: "vignette",
+  grain: "grain",
+  grain_size: "grainSize",
+  grain_roughness: "grainRoughness",
+  curves: "curves",
+  masks: "masks",
+  crop: "crop",
+  straighten: "straighten",
+  brightness: "brightness",
+  hue: "hue",
+  blur: "blur",
+  filters: "filters",
+  border_width: "borderWidth",
+  border_color: "borderColor",
+  snapshots: "snapshots",
+  original_storage_path: "originalStoragePath",
+  is_raw: "isRaw",
+  original_width: "originalWidth",
+  original_height: "originalHeight",
+  taken_at: "takenAt",
+  camera_make: "cameraMake",
+  camera_model: "cameraModel",
+  labels: "labels",
+  rating: "rating",
+  color_label: "colorLabel",
+  flag: "flag",
+} as const satisfies Record<string, keyof CanvasImage>;
+
+export type PhotoColumn = keyof typeof PHOTO_COLUMN_FIELDS;
+
+/** A photo's saved column values, as compared for dirty tracking and merging */
+export type EditRow = Record<PhotoColumn, unknown>;
+
+/** Layout and file metadata: only the photo's uploader changes these */
+export const OWNER_ONLY_PHOTO_COLUMNS: ReadonlySet<PhotoColumn> = new Set([
+  "folder_id",
+  "x",
+  "y",
+  "width",
+  "height",
+  "original_storage_path",
+  "is_raw",
+  "original_width",
+  "original_height",
+  "taken_at",
+  "camera_make",
+  "camera_model",
+]);
+
+export function isPhotoColumn(column: string): column is PhotoColumn {
+  return Object.prototype.hasOwnProperty.call(PHOTO_COLUMN_FIELDS, column);
+}
+
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * A client's write times in server time. `sentAt` is the client's clock when it sent
+ * the request; the gap to the server's `now` is its clock skew (plus transit time,
+ * which only makes the write a little newer). Without sentAt the times are used as is.
+ */
+export function toServerClock(
+  clock: FieldClock,
+  sentAt: number | undefined,
+  now: number,
+): FieldClock {
+  if (sentAt === undefined || !Number.isFinite(sentAt)) return clock;
+  const skew = now - sentAt;
+  return Object.fromEntries(
+    Object.entries(clock).map(([column, writtenAt]) => [
+      column,
+      writtenAt + skew,
+    ]),
+  );
+}
+
+/**
+ * Server merge (last writer wins per column). A column is applied only if its write
+ * time is newer than the stored one; older writes are returned as rejected. Write times
+ * are capped at `now` so a client with a fast clock can't lock a column.
+ */
+export function mergeFieldUpdates(
+  stored: FieldClock,
+  updates: Record<string, unknown>,
+  clock: FieldClock,
+  now: number,
+): { applied: Record<string, unknown>; clock: FieldClock; rejected: string[] } {
+  const applied: Record<string, unknown> = {};
+  const merged: FieldClock = { ...stored };
+  const rejected: string[] = [];
+  for (const [column, value] of Object.entries(updates)) {
+    const writtenAt = Math.min(clock[column] ?? now, now);
+    if (writtenAt > (stored[column] ?? 0)) {
+      applied[column] = value;
+      merged[column] = writtenAt;
+    } else {
+      rejected.push(column);
+    }
+  }
+  return { applied, clock: merged, rejected };
+}
+
+/**
+ * Client merge of a remote row (realtime). Every column at least as new as the known
+ * write time moves the saved baseline and clock forward; of those, the columns to apply
+ * are the ones not edited locally since the last save. Without a baseline (never saved
+ * here) every newer column applies.
+ */
+export function mergeRemoteColumns(
+  local: EditRow,
+  incoming: EditRow,
+  baseline: EditRow | undefined,
+  known: FieldClock,
+  clock: FieldClock,
+): { columns: PhotoColumn[]; baseline: EditRow; known: FieldClock } {
+  const nextKnown: FieldClock = { ...known };
+  const nextBaseline: EditRow = { ...(baseline ?? incoming) };
+  const columns: PhotoColumn[] = [];
+  for (const column of Object.keys(incoming) as PhotoColumn[]) {
+    const writtenAt = clock[column] ?? 0;
+    if (writtenAt < (nextKnown[column] ?? 0)) continue;
+    nextKnown[column] = writtenAt;
+    nextBaseline[column] = incoming[column];
+    if (baseline && !isSameValue(local[column], baseline[column])) continue;
+    columns.push(column);
+  }
+  return { columns, baseline: nextBaseline, known: nextKnown };
+}
+
+/** CanvasImage fields of a collab_photos record (realtime payloads, PATCH responses) */
+export function parsePhotoRecordFields(
+  record: Record<string, unknown>,
+): Partial<CanvasImage> {
+  return {
+    x: record.x as number,
+    y: record.y as number,
+    width: record.width as number,
+    height: record.height as number,
+    rotation: record.rotation as number,
+    scaleX: record.scale_x as number,
+    scaleY: record.scale_y as number,
+    folderId: record.folder_id as string | undefined,
+    // Light adjustments
+    exposure: record.exposure as number,
+    contrast: record.contrast as number,
+    highlights: record.highlights as number,
+    shadows: record.shadows as number,
+    whites: record.whites as number,
+    blacks: record.blacks as number,
+    texture: record.texture as number,
+    // Color adjustments
+    temperature: record.temperature as number,
+    vibrance: record.vibrance as number,
+    saturation: record.saturation as number,
+    shadowTint: record.shadow_tint as number,
+    colorHSL: record.color_hsl as CanvasImage["colorHSL"],
+    splitToning: record.split_toning as CanvasImage["splitToning"],
+    colorGrading: record.color_grading as CanvasImage["colorGrading"],
+    colorCalibration:
+      record.color_calibration as CanvasImage["colorCalibration"],
+    profile: (record.profile as CanvasImage["profile"]) ?? undefined,
+    // Effects
+    clarity: record.clarity as number,
+    dehaze: record.dehaze as number,
+    vignette: record.vignette as number,
+    grain: record.grain as number,
+    grainSize: record.grain_size as number,
+    grainRoughness: record.grain_roughness as number,
+    // Curves
+    curves: record.curves as CanvasImage["curves"],
+    // Local adjustments
+    masks: (record.masks as CanvasImage["masks"]) ?? undefined,
+    // Crop
+    crop: (record.crop as CanvasImage["crop"]) ?? undefined,
+    straighten: (record.straighten as number) ?? 0,
+    // Legacy
+    brightness: record.brightness as number,
+    hue: record.hue as number,
+    blur: record.blur as number,
+    filters: record.filters as string[],
+    // Labels and culling
+    labels: (record.labels as string[]) || [],
+    rating: (record.rating as number) ?? 0,
+    colorLabel: (record.color_label as CanvasImage["colorLabel"]) ?? null,
+    flag: (record.flag as CanvasImage["flag"]) ?? null,
+    // Border
+    borderWidth: record.border_width as number | undefined,
+    borderColor: record.border_color as string | undefined,
+    // Named snapshots
+    snapshots: (record.snapshots as CanvasImage["snapshots"]) ?? undefined,
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Collab session roles (CollabRole). The same ranking is enforced by the
+ * /api/collab/* routes, by RLS (has_collab_role) and by the canvas, which
+ * disables the controls a role can't use.
+ */
+
+import type { CollabRole } from "@/lib/types";
+
+/** Roles the owner can assign, lowest first ("master" is the owner only) */
+export const ASSIGNABLE_COLLAB_ROLES: Exclude<CollabRole, "master">[] = [
+  "viewer",
+  "commenter",
+  "editor",
+  "editor_all",
+  "admin",
+];
+
+const ROLE_RANK: Record<CollabRole, number> = {
+  viewer: 0,
+  commenter: 1,
+  editor: 2,
+  editor_all: 3,
+  admin: 4,
+  master: 5,
+};
+
+export const COLLAB_ROLE_LABELS: Record<CollabRole, string> = {
+  viewer: "Viewer",
+  commenter: "Commenter",
+  editor: "Editor (own photos)",
+  editor_all: "Editor (all photos)",
+  admin: "Admin",
+  master: "Owner",
+};
+
+export function isCollabRole(value: unknown): value is CollabRole {
+  return typeof value === "string" && Object.hasOwn(ROLE_RANK, value);
+}
+
+/** Whether a role has at least the permissions of minRole (unknown roles have none) */
+export function hasCollabRole(
+  role: string | null | undefined,
+  minRole: CollabRole,
+): boolean {
+  return isCollabRole(role) && ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
@@ -0,0 +1,428 @@
+/**
+ * Shared server export pipeline (source selection, decode, edits, resize, encode).
+ * Used by /api/export, /api/export/encode (formats the browser can't encode) and export jobs.
+ */
+
+import sharp from "sharp";
+import exifr from "exifr";
+import {
+  applyEdits,
+  type EditValues,
+  type PixelBuffer,
+} from "@/lib/serverFilters";
+import { isRawPath } from "@/lib/utils/thumbnail";
+import { decodeRawToTiff } from "@/lib/utils/rawDecode";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportMetadataMode,
+  type ExportOptions,
+  type ExportPhotoMetadata,
+  type OutputColorSpace,
+  type OutputSharpening,
+  type ProcessingPrecision,
+} from "@/lib/types";
+import {
+  applyMetadataMode,
+  buildXmpPacket,
+  getSharpExif,
+} from "@/lib/utils/exportMetadata";
+import {
+  getExportDimensions,
+  applyOutputSharpening,
+  hasCrop,
+  cropAndStraighten,
+  toFloatPixels,
+  toUint16Pixels,
+} from "@/lib/filters/core";
+
+const SHARPENING_LEVELS: OutputSharpening[] = [
+  "none",
+  "low",
+  "standard",
+  "high",
+];
+
+const METADATA_MODES: ExportMetadataMode[] = ["all", "noLocation", "none"];
+
+const PRECISIONS: ProcessingPrecision[] = ["standard", "high"];
+
+const COLOR_SPACES: OutputColorSpace[] = ["srgb", "p3"];
+
+/**
+ * Fill in defaults and clamp untrusted request options.
+ */
+export function normalizeExportOptions(
+  input: Partial<ExportOptions> | null | undefined,
+): ExportOptions {
+  const format: ExportFormat =
+    input?.format && input.format in EXPORT_FORMATS
+      ? input.format
+      : DEFAULT_EXPORT_OPTIONS.format;
+  const quality = Math.round(
+    Math.max(
+      1,
+      Math.min(100, input?.quality ?? DEFAULT_EXPORT_OPTIONS.quality),
+    ),
+  );
+  const bitDepth =
+    input?.bitDepth === 16 && EXPORT_FORMATS[format].supports16Bit ? 16 : 8;
+  const longEdge =
+    input?.longEdge && input.longEdge > 0 ? Math.round(input.longEdge) : null;
+  const sharpening =
+    input?.sharpening && SHARPENING_LEVELS.includes(input.sharpening)
+      ? input.sharpening
+      : DEFAULT_EXPORT_OPTIONS.sharpening;
+  const metadata =
+    input?.metadata && METADATA_MODES.includes(input.metadata)
+      ? input.metadata
+      : DEFAULT_EXPORT_OPTIONS.metadata;
+  const embedEdits =
+    typeof input?.embedEdits === "boolean"
+      ? input.embedEdits
+      : DEFAULT_EXPORT_OPTIONS.embedEdits;
+  const precision =
+    input?.precision && PRECISIONS.includes(input.precision)
+      ? input.precision
+      : DEFAULT_EXPORT_OPTIONS.precision;
+  const colorSpace =
+    input?.colorSpace && COLOR_SPACES.includes(input.colorSpace)
+      ? input.colorSpace
+      : DEFAULT_EXPORT_OPTIONS.colorSpace;
+  return {
+    format,
+    quality,
+    bitDepth,
+    longEdge,
+    sharpening,
+    metadata,
+    embedEdits,
+    precision,
+    colorSpace,
+  };
+}
+
+/**
+ * Pick the storage bucket + path to render from.
+ * RAW/DNG originals are decoded at full resolution; otherwise prefer the photos bucket (JPEG preview).
+ * If sessionId is present and using storagePath (preview), use 'collab-photos'.
+ */
+export function getExportSource(
+  storagePath: string | null | undefined,
+  originalStoragePath: string | null | undefined,
+  sessionId?: string | null,
+): { bucket: string; path: string } | null {
+  if (originalStoragePath && isRawPath(originalStoragePath)) {
+    return { bucket: "originals", path: originalStoragePath };
+  }
+  if (storagePath) {
+    return {
+      bucket: sessionId ? "collab-photos" : "photos",
+      path: storagePath,
+    };
+  }
+  if (originalStoragePath) {
+    return { bucket: "originals", path: originalStoragePath };
+  }
+  return null;
+}
+
+/**
+ * Decode a downloaded source file to raw RGB pixels (RAW/DNG goes through dcraw first,
+ * since Sharp cannot read it directly).
+ * High precision decodes 16 bits per channel into 0-255 floats; P3 converts the source
+ * into Display P3 instead of sRGB, so wide-gamut colors survive the edit stack.
+ */
+export async function decodeToRgb(
+  sourceBuffer: Buffer,
+  path: string,
+  options: Pick<ExportOptions, "precision" | "colorSpace"> = {
+    precision: "standard",
+    colorSpace: "srgb",
+  },
+): Promise<{ data: PixelBuffer; width: number; height: number }> {
+  const input = isRawPath(path)
+    ? await decodeRawToTiff(
+        sourceBuffer,
+        options.precision === "high" ? 16 : 8,
+      )
+    : sourceBuffer;
+  let image = sharp(input).removeAlpha();
+  if (options.colorSpace === "p3") image = image.withIccProfile("p3");
+
+  if (options.precision === "high") {
+    const { data, info } = await image
+      .toColourspace("rgb16")
+      .raw({ depth: "ushort" })
+      .toBuffer({ resolveWithObject: true });
+    const samples = new Uint16Array(
+      data.buffer,
+      data.byteOffset,
+      data.byteLength / 2,
+    );
+    return {
+      data: toFloatPixels(samples),
+      width: info.width,
+      height: info.height,
+    };
+  }
+
+  const { data, info } = await image
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * Minimal uncompressed little-endian RGB TIFF for 16-bit pixels (Sharp's raw input
+ * doesn't take 16-bit samples reliably, a TIFF container does).
+ */
+function encodeRgb16Tiff(
+  data: Uint16Array,
+  width: number,
+  height: number,
+): Buffer {
+  // [tag, type (3 = SHORT, 4 = LONG), value]
+  const entries: [number, number, number][] = [
+    [256, 4, width],
+    [257, 4, height],
+    [258, 3, 0], // BitsPerSample, 3 values stored after the IFD
+    [259, 3, 1], // no compression
+    [262, 3, 2], // RGB
+    [273, 4, 0], // StripOffsets, filled in below
+    [277, 3, 3],
+    [278, 4, height],
+    [279, 4, data.byteLength],
+    [284, 3, 1], // chunky
+  ];
+  const ifdOffset = 8;
+  const bitsOffset = ifdOffset + 2 + entries.length * 12 + 4;
+  const pixelOffset = bitsOffset + 6;
+  const out = Buffer.alloc(pixelOffset + data.byteLength);
+
+  out.write("II", 0);
+  out.writeUInt16LE(42, 2);
+  out.writeUInt32LE(ifdOffset, 4);
+  out.writeUInt16LE(entries.length, ifdOffset);
+  entries.forEach(([tag, type, value], k) => {
+    const o = ifdOffset + 2 + k * 12;
+    out.writeUInt16LE(tag, o);
+    out.writeUInt16LE(type, o + 2);
+    out.writeUInt32LE(tag === 258 ? 3 : 1, o + 4);
+    if (tag === 258) out.writeUInt32LE(bitsOffset, o + 8);
+    else if (tag === 273) out.writeUInt32LE(pixelOffset, o + 8);
+    else if (type === 3) out.writeUInt16LE(value, o + 8);
+    else out.writeUInt32LE(value, o + 8);
+  });
+  for (let c = 0; c < 3; c++) out.writeUInt16LE(16, bitsOffset + c * 2);
+  Buffer.from(data.buffer, data.byteOffset, data.byteLength).copy(
+    out,
+    pixelOffset,
+  );
+  return out;
+}
+
+/** Sharp input for 8-bit or 16-bit raw RGB pixels */
+function rawRgbInput(
+  data: Buffer | Uint16Array,
+  width: number,
+  height: number,
+) {
+  return data instanceof Uint16Array
+    ? sharp(encodeRgb16Tiff(data, width, height))
+    : sharp(data, { raw: { width, height, channels: 3 } });
+}
+
+/**
+ * Read camera / exposure / GPS fields from the source file and merge them with the metadata
+ * the client already has (client values win, e.g. takenAt, labels). Never throws.
+ */
+export async function readSourceMetadata(
+  sourceBuffer: Buffer,
+  known?: ExportPhotoMetadata | null,
+): Promise<ExportPhotoMetadata> {
+  const merged: ExportPhotoMetadata = {};
+  try {
+    const exif = await exifr.parse(sourceBuffer, {
+      pick: [
+        "DateTimeOriginal",
+        "Make",
+        "Model",
+        "LensModel",
+        "ExposureTime",
+        "FNumber",
+        "ISO",
+        "FocalLength",
+        // exifr derives latitude / longitude from these
+        "GPSLatitude",
+        "GPSLatitudeRef",
+        "GPSLongitude",
+        "GPSLongitudeRef",
+      ],
+    });
+    if (exif) {
+      if (exif.DateTimeOriginal instanceof Date) {
+        merged.takenAt = exif.DateTimeOriginal.toISOString();
+      }
+      if (exif.Make) merged.cameraMake = String(exif.Make).trim();
+      if (exif.Model) merged.cameraModel = String(exif.Model).trim();
+      if (exif.LensModel) merged.lensModel = String(exif.LensModel).trim();
+      if (typeof exif.ExposureTime === "number") {
+        merged.exposureTime = exif.ExposureTime;
+      }
+      if (typeof exif.FNumber === "number") merged.fNumber = exif.FNumber;
+      if (typeof exif.ISO === "number") merged.iso = exif.ISO;
+      if (typeof exif.FocalLength === "number") {
+        merged.focalLength = exif.FocalLength;
+      }
+      if (
+        typeof exif.latitude === "number" &&
+        typeof exif.longitude === "number"
+      ) {
+        merged.latitude = exif.latitude;
+        merged.longitude = exif.longitude;
+      }
+    }
+  } catch {
+    // ignore EXIF errors (PNG / edited previews often have none)
+  }
+  for (const [key, value] of Object.entries(known ?? {})) {
+    if (value !== undefined && value !== null) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Apply edits, then crop / straighten (same order as the editor, so vignette and masks line up).
+ */
+export function renderEdits(
+  data: PixelBuffer,
+  width: number,
+  height: number,
+  edits: EditValues,
+): { data: PixelBuffer; width: number; height: number } {
+  const edited = applyEdits(data, width, height, edits);
+  if (!hasCrop(edits.crop, edits.straighten)) {
+    return { data: edited, width, height };
+  }
+  if (edited instanceof Float32Array) {
+    return cropAndStraighten(
+      edited,
+      width,
+      height,
+      3,
+      edits.crop,
+      edits.straighten,
+    );
+  }
+  const cropped = cropAndStraighten(
+    edited,
+    width,
+    height,
+    3,
+    edits.crop,
+    edits.straighten,
+  );
+  return {
+    data: Buffer.from(cropped.data.buffer),
+    width: cropped.width,
+    height: cropped.height,
+  };
+}
+
+/**
+ * Resize raw RGB pixels to the requested long edge, then apply output sharpening.
+ * Float (high-precision) pixels are quantized to 16 bits here, once, and stay 16-bit.
+ */
+export async function resizeAndSharpen(
+  data: PixelBuffer,
+  width: number,
+  height: number,
+  options: ExportOptions,
+): Promise<{ data: Buffer | Uint16Array; width: number; height: number }> {
+  const size = getExportDimensions(width, height, options.longEdge);
+  let out = data instanceof Float32Array ? toUint16Pixels(data) : data;
+  if (size.width !== width || size.height !== height) {
+    const resized = rawRgbInput(out, width, height).resize(
+      size.width,
+      size.height,
+      { kernel: "lanczos3" },
+    );
+    if (out instanceof Uint16Array) {
+      const buffer = await resized
+        .toColourspace("rgb16")
+        .raw({ depth: "ushort" })
+        .toBuffer();
+      out = new Uint16Array(
+        buffer.buffer,
+        buffer.byteOffset,
+        buffer.byteLength / 2,
+      );
+    } else {
+      out = await resized.raw().toBuffer();
+    }
+  }
+  applyOutputSharpening(out, size.width, size.height, 3, options.sharpening);
+  return { data: out, width: size.width, height: size.height };
+}
+
+/**
+ * Encode raw RGB pixels (8-bit, or 16-bit from the high-precision pipeline) in the
+ * requested format.
+ * EXIF / XMP are embedded according to options.metadata and options.embedEdits;
+ * anything not passed here is stripped (Sharp drops metadata by default).
+ * P3 output is tagged with the Display P3 profile (pixels are expected to be P3 already).
+ */
+export async function encodeExport(
+  data: Buffer | Uint16Array,
+  width: number,
+  height: number,
+  options: ExportOptions,
+  embed?: {
+    metadata?: ExportPhotoMetadata | null;
+    edits?: EditValues | null;
+  },
+): Promise<{ buffer: Buffer; contentType: string }> {
+  let image = rawRgbInput(data, width, height);
+  const { quality } = options;
+
+  const metadata = applyMetadataMode(embed?.metadata, options.metadata);
+  const exif = getSharpExif(metadata);
+  const xmp = buildXmpPacket(
+    metadata,
+    options.embedEdits ? (embed?.edits ?? null) : null,
+  );
+  if (exif) image = image.withExif(exif);
+  if (xmp) image = image.withXmp(xmp);
+  if (options.colorSpace === "p3") image = image.withIccProfile("p3");
+  let buffer: Buffer;
+
+  switch (options.format) {
+    case "png":
+      buffer = await image.png().toBuffer();
+      break;
+    case "tiff":
+      buffer = await (options.bitDepth === 16
+        ? image.toColourspace("rgb16")
+        : image
+      )
+        .tiff({ compression: "lzw" })
+        .toBuffer();
+      break;
+    case "avif":
+      buffer = await image.avif({ quality }).toBuffer();
+      break;
+    case "webp":
+      buffer = await image.webp({ quality }).toBuffer();
+      break;
+    case "jpeg":
+    default:
+      buffer = await image.jpeg({ quality }).toBuffer();
+      break;
+  }
+
+  return { buffer, contentType: EXPORT_FORMATS[options.format].mimeType };
+}
@@ -0,0 +1,280 @@
+/**
+ * Background batch export jobs.
+ * Used by /api/export-jobs: loads the requested photos' saved rows, renders every photo
+ * with the shared server pipeline, zips the results into the 'exports' bucket and
+ * reports progress in export_jobs.
+ */
+
+import { once } from "node:events";
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { finished } from "node:stream/promises";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { Zip, ZipPassThrough } from "fflate";
+import type { EditValues } from "@/lib/serverFilters";
+import {
+  EXPORT_FORMATS,
+  getRowEditValues,
+  type ExportOptions,
+  type ExportPhotoMetadata,
+} from "@/lib/types";
+import {
+  getExportSource,
+  decodeToRgb,
+  readSourceMetadata,
+  renderEdits,
+  resizeAndSharpen,
+  encodeExport,
+} from "@/lib/utils/exportEncode";
+
+export const EXPORTS_BUCKET = "exports";
+export const MAX_EXPORT_JOB_ITEMS = 500;
+// Signed ZIP links stay valid for a day
+const DOWNLOAD_URL_TTL = 60 * 60 * 24;
+
+/** A photo requested for export: its row (storage path + virtual copy) */
+export interface ExportJobPhoto {
+  storagePath: string;
+  copyId?: string;
+}
+
+export interface ExportJobItem {
+  photoId: string;
+  storagePath?: string;
+  originalStoragePath?: string;
+  edits: EditValues;
+  metadata?: ExportPhotoMetadata;
+}
+
+/**
+ * The saved rows of the requested photos: the user's own (photo_edits) or, in a
+ * session, the session's (collab_photos). Photos without a row are left out.
+ */
+export async function loadExportJobItems(
+  supabase: SupabaseClient,
+  owner: { userId: string; sessionId?: string | null },
+  photos: ExportJobPhoto[],
+): Promise<ExportJobItem[]> {
+  const paths = [...new Set(photos.map((photo) => photo.storagePath))];
+  const query = supabase
+    .from(owner.sessionId ? "collab_photos" : "photo_edits")
+    .select("*")
+    .in("storage_path", paths);
+  const { data: rows, error } = owner.sessionId
+    ? await query.eq("session_id", owner.sessionId)
+    : await query.eq("user_id", owner.userId);
+  if (error) throw error;
+
+  const items: ExportJobItem[] = [];
+  for (const photo of photos) {
+    const row = rows?.find(
+      (r) =>
+        r.storage_path === photo.storagePath &&
+        (r.copy_id ?? "") === (photo.copyId ?? ""),
+    );
+    if (!row) continue;
+    items.push({
+      photoId: row.id,
+      storagePath: row.storage_path,
+      originalStoragePath: row.original_storage_path ?? undefined,
+      edits: getRowEditValues(row),
+      metadata: {
+        takenAt: row.taken_at ?? undefined,
+        cameraMake: row.camera_make ?? undefined,
+        cameraModel: row.camera_model ?? undefined,
+        labels: row.labels ?? undefined,
+      },
+    });
+  }
+  return items;
+}
+
+/** File name inside the ZIP: source file name with the export extension, de-duplicated */
+function getZipEntryName(
+  item: ExportJobItem,
+  extension: string,
+  used: Set<string>,
+): string {
+  const path = item.storagePath || item.originalStoragePath || item.photoId;
+  const file = path.slice(path.lastIndexOf("/") + 1);
+  const base = file.replace(/\.[^.]+$/, "") || item.photoId;
+  let name = `${base}.${extension}`;
+  for (let i = 2; used.has(name); i++) name = `${base}-${i}.${extension}`;
+  used.add(name);
+  return name;
+}
+
+/**
+ * ZIP written to a temp file as entries are added, so a job holds one encoded photo in
+ * memory at a time instead of the whole archive (up to 500 full-size, maybe 16-bit, files).
+ */
+async function createZipSpool() {
+  const dir = await mkdtemp(path.join(tmpdir(), "driftboard-export-"));
+  const file = path.join(dir, "export.zip");
+  const out = createWriteStream(file);
+  const state: { error: Error | null } = { error: null };
+  out.on("error", (error) => (state.error = error));
+  const zip = new Zip((error, chunk, final) => {
+    if (error) {
+      state.error = error;
+      return;
+    }
+    out.write(chunk);
+    if (final) out.end();
+  });
+
+  return {
+    file,
+    /** Images are already compressed: entries are stored without deflate */
+    async add(name: string, data: Uint8Array) {
+      const entry = new ZipPassThrough(name);
+      zip.add(entry);
+      entry.push(data, true);
+      if (state.error) throw state.error;
+      if (out.writableNeedDrain) await once(out, "drain");
+    },
+    async finish() {
+      zip.end();
+      await finished(out);
+      if (state.error) throw state.error;
+    },
+    async cleanup() {
+      out.destroy();
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Render, zip and upload every item of a job. Never throws: failures are recorded on the job row.
+ */
+export async function runExportJob(
+  supabase: SupabaseClient,
+  job: { id: string; userId: string; sessionId?: string | null },
+  items: ExportJobItem[],
+  options: ExportOptions,
+): Promise<void> {
+  let spool: Awaited<ReturnType<typeof createZipSpool>> | null = null;
+  const usedNames = new Set<string>();
+  const extension = EXPORT_FORMATS[options.format].extension;
+  let completed = 0;
+  let failed = 0;
+
+  const updateJob = async (updates: Record<string, unknown>) => {
+    const { error } = await supabase
+      .from("export_jobs")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", job.id);
+    if (error) console.error("Export job: failed to update progress:", error);
+  };
+
+  try {
+    await updateJob({ status: "processing" });
+    spool = await createZipSpool();
+
+    // One photo at a time, each written to the ZIP on disk once encoded
+    for (const item of items) {
+      try {
+        const source = getExportSource(
+          item.storagePath,
+          item.originalStoragePath,
+          job.sessionId,
+        );
+        if (!source) throw new Error("Photo has no storage path");
+
+        const { data: fileData, error: downloadError } = await supabase.storage
+          .from(source.bucket)
+          .download(source.path);
+        if (downloadError || !fileData) {
+          throw downloadError ?? new Error("Failed to download source image");
+        }
+
+        const sourceBuffer = Buffer.from(await fileData.arrayBuffer());
+        const metadata =
+          options.metadata === "none"
+            ? null
+            : await readSourceMetadata(sourceBuffer, item.metadata);
+        const decoded = await decodeToRgb(
+          sourceBuffer,
+          source.path,
+          options,
+        );
+        const edited = renderEdits(
+          decoded.data,
+          decoded.width,
+          decoded.height,
+          item.edits ?? {},
+        );
+        const sized = await resizeAndSharpen(
+          edited.data,
+          edited.width,
+          edited.height,
+          options,
+        );
+        const { buffer } = await encodeExport(
+          sized.data,
+          sized.width,
+          sized.height,
+          options,
+          { metadata, edits: item.edits },
+        );
+        await spool.add(
+          getZipEntryName(item, extension, usedNames),
+          new Uint8Array(buffer),
+        );
+        completed++;
+      } catch (itemError) {
+        console.error(
+          `Export job ${job.id}: ${item.photoId} failed:`,
+          itemError,
+        );
+        failed++;
+      }
+      await updateJob({ completed, failed });
+    }
+
+    if (completed === 0) {
+      await updateJob({
+        status: "failed",
+        error: "No photos could be exported",
+      });
+      return;
+    }
+
+    // Streamed from disk, so the upload doesn't load the archive either
+    await spool.finish();
+    const zipPath = `${job.userId}/${job.id}.zip`;
+    const { error: uploadError } = await supabase.storage
+      .from(EXPORTS_BUCKET)
+      .upload(zipPath, createReadStream(spool.file), {
+        contentType: "application/zip",
+        upsert: true,
+      });
+    if (uploadError) throw uploadError;
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from(EXPORTS_BUCKET)
+      .createSignedUrl(zipPath, DOWNLOAD_URL_TTL, {
+        download: `driftboard-export-${job.id.slice(0, 8)}.zip`,
+      });
+    if (signError || !signed?.signedUrl) {
+      throw signError ?? new Error("Failed to sign ZIP URL");
+    }
+
+    await updateJob({
+      status: "completed",
+      zip_path: zipPath,
+      download_url: signed.signedUrl,
+    });
+  } catch (error) {
+    console.error(`Export job ${job.id} failed:`, error);
+    await updateJob({
+      status: "failed",
+      error: error instanceof Error ? error.message : "Export failed",
+    });
+  } finally {
+    await spool?.cleanup();
+  }
+}
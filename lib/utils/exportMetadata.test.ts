@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { EditValues } from "@/lib/types";
+import { buildXmpPacket } from "@/lib/utils/exportMetadata";
+
+const meta = { cameraMake: "Fujifilm", labels: ["beach", "dog"] };
+
+test("a creative profile is recorded without its LUT", () => {
+  const edits: EditValues = {
+    exposure: 0.3,
+    profile: { name: "Film", size: 33, data: "A".repeat(150_000), amount: 1 },
+  };
+  const xmp = buildXmpPacket(meta, edits)!;
+
+  assert.ok(xmp.length < 64_000);
+  assert.match(xmp, /<rdf:li>beach<\/rdf:li><rdf:li>dog<\/rdf:li>/);
+  assert.match(xmp, /&quot;profile&quot;:\{&quot;name&quot;:&quot;Film&quot;/);
+  assert.doesNotMatch(xmp, /AAAA/);
+});
+
+test("keywords and camera fields stay when the edit record can't fit", () => {
+  const points = Array.from({ length: 20_000 }, (_, i) => ({ x: i, y: i }));
+  const edits = {
+    curves: { rgb: points, red: points, green: points, blue: points },
+  } as unknown as EditValues;
+  const xmp = buildXmpPacket(meta, edits)!;
+
+  assert.ok(xmp.length < 64_000);
+  assert.match(xmp, /tiff:Make="Fujifilm"/);
+  assert.match(xmp, /<dc:subject>/);
+  assert.doesNotMatch(xmp, /driftboard:Edits/);
+});
@@ -0,0 +1,438 @@
+/**
+ * Export metadata (EXIF, IPTC keywords, Driftboard edit XMP).
+ * Used by client-side export (JPEG/PNG segments written in the browser) and the server
+ * export pipeline (Sharp withExif/withXmp) so every path embeds the same fields.
+ *
+ * Keywords are written as XMP dc:subject (the IPTC Core mapping read by Lightroom, Bridge, Photos).
+ */
+
+import type {
+  CanvasImage,
+  EditValues,
+  ExportMetadataMode,
+  ExportPhotoMetadata,
+} from "@/lib/types";
+
+export const DRIFTBOARD_XMP_NS = "https://driftboard.app/xmp/1.0/";
+const XMP_EDITS_VERSION = 1;
+// JPEG APP1 segments are capped at 64KB; keep the packet well below it
+const MAX_XMP_EDITS_LENGTH = 48000;
+const SOFTWARE = "Driftboard";
+
+/** Metadata we already keep on the canvas image (parsed with exifr on upload) */
+export function getPhotoMetadata(image: CanvasImage): ExportPhotoMetadata {
+  return {
+    takenAt: image.takenAt,
+    cameraMake: image.cameraMake,
+    cameraModel: image.cameraModel,
+    labels: image.labels,
+  };
+}
+
+/** Apply the privacy mode: drop GPS for "noLocation", everything for "none" */
+export function applyMetadataMode(
+  meta: ExportPhotoMetadata | null | undefined,
+  mode: ExportMetadataMode,
+): ExportPhotoMetadata | null {
+  if (!meta || mode === "none") return null;
+  if (mode === "noLocation") {
+    return { ...meta, latitude: undefined, longitude: undefined };
+  }
+  return meta;
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** EXIF date format: "YYYY:MM:DD HH:MM:SS" */
+function formatExifDate(iso: string): string | null {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return null;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const date = `${d.getFullYear()}:${pad(d.getMonth() + 1)}:${pad(d.getDate())}`;
+  const time = `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+  return `${date} ${time}`;
+}
+
+/**
+ * Edits as escaped JSON for XMP. A creative profile is recorded without its LUT (the
+ * data alone is ~144KB), brush stroke points are dropped if the record gets too large,
+ * and a record that still doesn't fit is left out so the rest of the packet is written.
+ */
+function serializeEdits(edits: EditValues): string | null {
+  const { profile } = edits;
+  const recorded = profile
+    ? {
+        ...edits,
+        profile: {
+          name: profile.name,
+          size: profile.size,
+          amount: profile.amount,
+        },
+      }
+    : edits;
+  const json = escapeXml(JSON.stringify(recorded));
+  if (json.length <= MAX_XMP_EDITS_LENGTH) return json;
+  if (!recorded.masks) return null;
+  const trimmed = escapeXml(
+    JSON.stringify({
+      ...recorded,
+      masks: recorded.masks.map((m) =>
+        m.brush ? { ...m, brush: { ...m.brush, strokes: [] } } : m,
+      ),
+    }),
+  );
+  return trimmed.length <= MAX_XMP_EDITS_LENGTH ? trimmed : null;
+}
+
+/**
+ * Build an XMP packet with camera fields, keywords (dc:subject) and the Driftboard edit record.
+ * Returns null when there is nothing to write.
+ */
+export function buildXmpPacket(
+  meta: ExportPhotoMetadata | null,
+  edits: EditValues | null,
+): string | null {
+  const attrs: string[] = [`xmp:CreatorTool="${SOFTWARE}"`];
+  const children: string[] = [];
+
+  if (meta?.cameraMake) attrs.push(`tiff:Make="${escapeXml(meta.cameraMake)}"`);
+  if (meta?.cameraModel)
+    attrs.push(`tiff:Model="${escapeXml(meta.cameraModel)}"`);
+  if (meta?.lensModel)
+    attrs.push(`exifEX:LensModel="${escapeXml(meta.lensModel)}"`);
+  if (meta?.takenAt && !isNaN(new Date(meta.takenAt).getTime())) {
+    attrs.push(`exif:DateTimeOriginal="${escapeXml(meta.takenAt)}"`);
+  }
+  if (meta?.labels && meta.labels.length > 0) {
+    children.push(
+      `<dc:subject><rdf:Bag>${meta.labels
+        .map((l) => `<rdf:li>${escapeXml(l)}</rdf:li>`)
+        .join("")}</rdf:Bag></dc:subject>`,
+    );
+  }
+  const json = edits && serializeEdits(edits);
+  if (json) {
+    attrs.push(`driftboard:EditVersion="${XMP_EDITS_VERSION}"`);
+    children.push(`<driftboard:Edits>${json}</driftboard:Edits>`);
+  }
+  if (children.length === 0 && attrs.length === 1) return null;
+
+  return [
+    `<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>`,
+    `<x:xmpmeta xmlns:x="adobe:ns:meta/">`,
+    `<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">`,
+    `<rdf:Description rdf:about=""`,
+    ` xmlns:xmp="http://ns.adobe.com/xap/1.0/"`,
+    ` xmlns:dc="http://purl.org/dc/elements/1.1/"`,
+    ` xmlns:tiff="http://ns.adobe.com/tiff/1.0/"`,
+    ` xmlns:exif="http://ns.adobe.com/exif/1.0/"`,
+    ` xmlns:exifEX="http://cipa.jp/exif/1.0/"`,
+    ` xmlns:driftboard="${DRIFTBOARD_XMP_NS}"`,
+    ` ${attrs.join(" ")}>`,
+    ...children,
+    `</rdf:Description>`,
+    `</rdf:RDF>`,
+    `</x:xmpmeta>`,
+    `<?xpacket end="w"?>`,
+  ].join("\n");
+}
+
+// --- EXIF ---
+
+/** Rational as [numerator, denominator] (exposure times < 1s are written as 1/x) */
+function toRational(v: number): [number, number] {
+  if (v > 0 && v < 1) return [1, Math.round(1 / v)];
+  return [Math.round(v * 100), 100];
+}
+
+/**
+ * EXIF fields in Sharp's withExif() shape (IFD0 = main, IFD2 = Exif, IFD3 = GPS).
+ */
+export function getSharpExif(
+  meta: ExportPhotoMetadata | null,
+): Record<string, Record<string, string>> | null {
+  if (!meta) return null;
+  const ifd0: Record<string, string> = { Software: SOFTWARE };
+  const exif: Record<string, string> = {};
+  const gps: Record<string, string> = {};
+
+  if (meta.cameraMake) ifd0.Make = meta.cameraMake;
+  if (meta.cameraModel) ifd0.Model = meta.cameraModel;
+  const date = meta.takenAt ? formatExifDate(meta.takenAt) : null;
+  if (date) {
+    ifd0.DateTime = date;
+    exif.DateTimeOriginal = date;
+  }
+  if (meta.exposureTime) {
+    exif.ExposureTime = toRational(meta.exposureTime).join("/");
+  }
+  if (meta.fNumber) exif.FNumber = toRational(meta.fNumber).join("/");
+  if (meta.focalLength) {
+    exif.FocalLength = toRational(meta.focalLength).join("/");
+  }
+  if (meta.iso) exif.ISOSpeedRatings = String(Math.round(meta.iso));
+  if (meta.lensModel) exif.LensModel = meta.lensModel;
+
+  if (meta.latitude !== undefined && meta.longitude !== undefined) {
+    // Degrees / minutes / seconds as rationals
+    const dms = (v: number) => {
+      const a = Math.abs(v);
+      const d = Math.floor(a);
+      const m = Math.floor((a - d) * 60);
+      const s = Math.round(((a - d) * 60 - m) * 60 * 100);
+      return `${d}/1 ${m}/1 ${s}/100`;
+    };
+    gps.GPSLatitudeRef = meta.latitude >= 0 ? "N" : "S";
+    gps.GPSLatitude = dms(meta.latitude);
+    gps.GPSLongitudeRef = meta.longitude >= 0 ? "E" : "W";
+    gps.GPSLongitude = dms(meta.longitude);
+  }
+
+  const out: Record<string, Record<string, string>> = { IFD0: ifd0 };
+  if (Object.keys(exif).length > 0) out.IFD2 = exif;
+  if (Object.keys(gps).length > 0) out.IFD3 = gps;
+  return out;
+}
+
+interface ExifEntry {
+  tag: number;
+  type: 2 | 3 | 5; // ASCII, SHORT, RATIONAL
+  value: string | number;
+}
+
+const TEXT_ENCODER = new TextEncoder();
+
+function toEntries(
+  fields: [number, ExifEntry["type"], string | number | null | undefined][],
+): ExifEntry[] {
+  return fields
+    .filter(
+      ([, , value]) => value !== undefined && value !== null && value !== "",
+    )
+    .map(([tag, type, value]) => ({ tag, type, value: value! }));
+}
+
+function entryBytes(e: ExifEntry): Uint8Array {
+  if (e.type === 2) return TEXT_ENCODER.encode(`${e.value}\0`);
+  if (e.type === 3) {
+    const b = new Uint8Array(2);
+    new DataView(b.buffer).setUint16(0, Number(e.value), true);
+    return b;
+  }
+  const [num, den] = toRational(Number(e.value));
+  const b = new Uint8Array(8);
+  const view = new DataView(b.buffer);
+  view.setUint32(0, num, true);
+  view.setUint32(4, den, true);
+  return b;
+}
+
+/**
+ * Minimal little-endian EXIF (TIFF) block with camera, date and exposure fields.
+ * Used by the browser export path (the server uses Sharp). GPS is never written here:
+ * the canvas doesn't keep location, so browser exports carry none.
+ */
+export function buildExifTiff(
+  meta: ExportPhotoMetadata | null,
+): Uint8Array | null {
+  if (!meta) return null;
+  const date = meta.takenAt ? formatExifDate(meta.takenAt) : null;
+
+  // Entries are [tag, type, value]; unset values are skipped
+  const ifd0 = toEntries([
+    [0x010f, 2, meta.cameraMake], // Make
+    [0x0110, 2, meta.cameraModel], // Model
+    [0x0131, 2, SOFTWARE], // Software
+    [0x0132, 2, date], // DateTime
+  ]);
+  const exif = toEntries([
+    [0x829a, 5, meta.exposureTime], // ExposureTime
+    [0x829d, 5, meta.fNumber], // FNumber
+    [0x8827, 3, meta.iso && Math.round(meta.iso)], // ISO
+    [0x9003, 2, date], // DateTimeOriginal
+    [0x920a, 5, meta.focalLength], // FocalLength
+    [0xa434, 2, meta.lensModel], // LensModel
+  ]);
+
+  // IFD0 gets a LONG pointer (0x8769) to the Exif IFD when there is one
+  const ifd0Count = ifd0.length + (exif.length > 0 ? 1 : 0);
+  const ifdSize = (count: number) => 2 + count * 12 + 4;
+  const dataSize = (entries: ExifEntry[]) =>
+    entries.reduce((sum, e) => {
+      const len = entryBytes(e).length;
+      return sum + (len > 4 ? len + (len % 2) : 0);
+    }, 0);
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0Count) + dataSize(ifd0);
+  const total =
+    exifOffset + (exif.length > 0 ? ifdSize(exif.length) + dataSize(exif) : 0);
+
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  // "II" little-endian, magic 42, first IFD at 8
+  view.setUint16(0, 0x4949, true);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifd0Offset, true);
+
+  const writeIfd = (
+    offset: number,
+    entries: ExifEntry[],
+    pointer?: { tag: number; value: number },
+  ) => {
+    const all: (ExifEntry | { tag: number; pointer: number })[] = [
+      ...entries,
+      ...(pointer ? [{ tag: pointer.tag, pointer: pointer.value }] : []),
+    ].sort((a, b) => a.tag - b.tag);
+    view.setUint16(offset, all.length, true);
+    let dataOffset = offset + ifdSize(all.length);
+    all.forEach((e, i) => {
+      const p = offset + 2 + i * 12;
+      view.setUint16(p, e.tag, true);
+      if ("pointer" in e) {
+        view.setUint16(p + 2, 4, true); // LONG
+        view.setUint32(p + 4, 1, true);
+        view.setUint32(p + 8, e.pointer, true);
+        return;
+      }
+      const bytes = entryBytes(e);
+      const unit = e.type === 2 ? 1 : e.type === 3 ? 2 : 8;
+      view.setUint16(p + 2, e.type, true);
+      view.setUint32(p + 4, bytes.length / unit, true);
+      if (bytes.length <= 4) {
+        out.set(bytes, p + 8);
+      } else {
+        view.setUint32(p + 8, dataOffset, true);
+        out.set(bytes, dataOffset);
+        dataOffset += bytes.length + (bytes.length % 2);
+      }
+    });
+    view.setUint32(offset + 2 + all.length * 12, 0, true); // no next IFD
+  };
+
+  writeIfd(
+    ifd0Offset,
+    ifd0,
+    exif.length > 0 ? { tag: 0x8769, value: exifOffset } : undefined,
+  );
+  if (exif.length > 0) writeIfd(exifOffset, exif);
+  return out;
+}
+
+// --- Container writers (browser path) ---
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let o = 0;
+  for (const p of parts) {
+    out.set(p, o);
+    o += p.length;
+  }
+  return out;
+}
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const seg = new Uint8Array(4 + payload.length);
+  seg[0] = 0xff;
+  seg[1] = marker;
+  seg[2] = ((payload.length + 2) >> 8) & 0xff;
+  seg[3] = (payload.length + 2) & 0xff;
+  seg.set(payload, 4);
+  return seg;
+}
+
+/** Insert EXIF and XMP APP1 segments into a JPEG (after SOI / JFIF APP0) */
+export function embedJpegMetadata(
+  jpeg: Uint8Array,
+  exifTiff: Uint8Array | null,
+  xmp: string | null,
+): Uint8Array {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) return jpeg;
+  // Skip the JFIF APP0 segment canvas.toBlob writes, if present
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+    insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+  }
+  const segments: Uint8Array[] = [];
+  if (exifTiff) {
+    segments.push(
+      jpegSegment(0xe1, concat([TEXT_ENCODER.encode("Exif\0\0"), exifTiff])),
+    );
+  }
+  if (xmp) {
+    const payload = concat([
+      TEXT_ENCODER.encode("http://ns.adobe.com/xap/1.0/\0"),
+      TEXT_ENCODER.encode(xmp),
+    ]);
+    if (payload.length <= 65533) segments.push(jpegSegment(0xe1, payload));
+  }
+  if (segments.length === 0) return jpeg;
+  return concat([
+    jpeg.subarray(0, insertAt),
+    ...segments,
+    jpeg.subarray(insertAt),
+  ]);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const typeBytes = TEXT_ENCODER.encode(type);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(typeBytes, 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/** Insert eXIf and XMP (iTXt) chunks into a PNG, right after IHDR */
+export function embedPngMetadata(
+  png: Uint8Array,
+  exifTiff: Uint8Array | null,
+  xmp: string | null,
+): Uint8Array {
+  // 8-byte signature + IHDR (4 len + 4 type + 13 data + 4 crc)
+  const insertAt = 8 + 25;
+  if (png.length < insertAt || png[12] !== 0x49 || png[13] !== 0x48) return png;
+  const chunks: Uint8Array[] = [];
+  if (exifTiff) chunks.push(pngChunk("eXIf", exifTiff));
+  if (xmp) {
+    // keyword \0 compression-flag compression-method language \0 translated-keyword \0 text
+    chunks.push(
+      pngChunk(
+        "iTXt",
+        concat([
+          TEXT_ENCODER.encode("XML:com.adobe.xmp\0"),
+          new Uint8Array([0, 0, 0, 0]),
+          TEXT_ENCODER.encode(xmp),
+        ]),
+      ),
+    );
+  }
+  if (chunks.length === 0) return png;
+  return concat([png.subarray(0, insertAt), ...chunks, png.subarray(insertAt)]);
+}
@@ -0,0 +1,127 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import type { CanvasImage } from "@/lib/types";
+import {
+  parseLightroomXmp,
+  serializeLightroomXmp,
+} from "@/lib/utils/lightroomXmp";
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8");
+
+const roundTrip = (settings: Partial<CanvasImage>) =>
+  parseLightroomXmp(serializeLightroomXmp(settings));
+
+test("parses a Lightroom sidecar into app ranges", () => {
+  const settings = parseLightroomXmp(fixture("lightroom-sidecar.xmp"));
+
+  assert.equal(settings.exposure, 0.35);
+  assert.equal(settings.contrast, 0.18);
+  assert.equal(settings.highlights, -0.42);
+  assert.equal(settings.temperature, 0.2); // 4800K is warmer than 5500K
+  assert.equal(settings.vignette, 0.18); // Lightroom negative = darken
+  assert.deepEqual(settings.colorHSL?.green, {
+    hue: 25,
+    saturation: -35,
+    luminance: -15,
+  });
+  assert.equal(settings.splitToning?.balance, -10);
+  assert.equal(settings.colorGrading?.blending, 50);
+  assert.equal(settings.colorCalibration?.blueSaturation, 20);
+  assert.deepEqual(settings.curves?.rgb, [
+    { x: 0, y: 12 },
+    { x: 64, y: 58 },
+    { x: 192, y: 200 },
+    { x: 255, y: 250 },
+  ]);
+  assert.equal(settings.filters, undefined);
+});
+
+test("a Lightroom sidecar survives serialize and parse", () => {
+  const settings = parseLightroomXmp(fixture("lightroom-sidecar.xmp"));
+  assert.deepEqual(roundTrip(settings), settings);
+});
+
+test("a B&W preset keeps its own saturation", () => {
+  const settings = parseLightroomXmp(fixture("lightroom-bw-preset.xmp"));
+
+  assert.deepEqual(settings.filters, ["grayscale"]);
+  assert.equal(settings.saturation, 0.15);
+  assert.equal(settings.contrast, 0.25);
+  assert.equal(settings.grain, 0.2);
+
+  const preset = serializeLightroomXmp(settings, {
+    presetName: "Gritty B&W",
+  });
+  assert.match(
+    preset,
+    /<rdf:li xml:lang="x-default">Gritty B&amp;W<\/rdf:li>/,
+  );
+  assert.match(preset, /crs:ConvertToGrayscale="True"/);
+  assert.deepEqual(parseLightroomXmp(preset), settings);
+});
+
+test("grayscale with any saturation round-trips", () => {
+  for (const saturation of [-1, -0.3, 0, 0.45]) {
+    const settings = { filters: ["grayscale"], saturation };
+    assert.deepEqual(roundTrip(settings), settings);
+  }
+});
+
+test("app settings round-trip through XMP", () => {
+  const settings: Partial<CanvasImage> = {
+    exposure: -0.7,
+    contrast: 0.12,
+    highlights: -0.55,
+    shadows: 0.4,
+    whites: -0.05,
+    blacks: 0.1,
+    texture: -0.2,
+    clarity: 0.33,
+    dehaze: -0.15,
+    vibrance: 0.25,
+    saturation: -0.1,
+    shadowTint: 0.07,
+    temperature: -0.4,
+    vignette: 0.3,
+    grain: 0.15,
+    grainSize: 0.4,
+    grainRoughness: 0.6,
+    colorHSL: {
+      red: { hue: -5, saturation: 10, luminance: 0 },
+      orange: { hue: 0, saturation: 0, luminance: 0 },
+      yellow: { hue: 0, saturation: 0, luminance: 0 },
+      green: { hue: 0, saturation: 0, luminance: 0 },
+      aqua: { hue: 0, saturation: 0, luminance: 0 },
+      blue: { hue: 20, saturation: -30, luminance: 12 },
+      purple: { hue: 0, saturation: 0, luminance: 0 },
+      magenta: { hue: 0, saturation: 0, luminance: 0 },
+    },
+    curves: {
+      rgb: [
+        { x: 0, y: 0 },
+        { x: 128, y: 140 },
+        { x: 255, y: 255 },
+      ],
+      red: [
+        { x: 0, y: 0 },
+        { x: 255, y: 255 },
+      ],
+      green: [
+        { x: 0, y: 0 },
+        { x: 255, y: 255 },
+      ],
+      blue: [
+        { x: 0, y: 10 },
+        { x: 255, y: 245 },
+      ],
+    },
+  };
+  assert.deepEqual(roundTrip(settings), settings);
+});
+
+test("partial settings stay partial", () => {
+  const settings = { exposure: 1, vibrance: 0.5 };
+  assert.deepEqual(roundTrip(settings), settings);
+});
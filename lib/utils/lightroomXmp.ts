@@ -0,0 +1,494 @@
+/**
+ * Lightroom / Camera Raw XMP (crs: namespace) import and export.
+ * Used by EditPanel for .xmp preset import and "Download sidecar" on photos and presets.
+ *
+ * Value mapping (kept symmetric so parse(serialize(x)) round-trips):
+ * - Tone / presence / color sliders: Lightroom -100..+100 <-> app -1..+1
+ * - Exposure: stops in both
+ * - Temperature: Kelvin, 5500K = neutral, +/-3500K <-> -1..+1 (lower Kelvin = warmer)
+ * - Vignette: Lightroom negative = darken <-> app positive amount
+ * - HSL, split toning, color grading, calibration: same ranges as Lightroom
+ * - Curves: ToneCurvePV2012 point lists (0-255) per channel
+ */
+
+import {
+  DEFAULT_CURVES,
+  type CanvasImage,
+  type ChannelCurves,
+  type ColorHSL,
+  type CurvePoint,
+} from "@/lib/types";
+
+const CRS_NS = "http://ns.adobe.com/camera-raw-settings/1.0/";
+
+const HSL_COLORS: (keyof ColorHSL)[] = [
+  "red",
+  "orange",
+  "yellow",
+  "green",
+  "aqua",
+  "blue",
+  "purple",
+  "magenta",
+];
+
+const CURVE_TAGS: { channel: keyof ChannelCurves; tag: string }[] = [
+  { channel: "rgb", tag: "ToneCurvePV2012" },
+  { channel: "red", tag: "ToneCurvePV2012Red" },
+  { channel: "green", tag: "ToneCurvePV2012Green" },
+  { channel: "blue", tag: "ToneCurvePV2012Blue" },
+];
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+// --- Import ---
+
+/**
+ * Parse Lightroom / Camera Raw settings (crs: tags) from an .xmp preset or sidecar.
+ */
+export function parseLightroomXmp(xmpContent: string): Partial<CanvasImage> {
+  const settings: Partial<CanvasImage> = {};
+
+  // Extract common adjustment values from XMP
+  const extractValue = (key: string) => {
+    const match = xmpContent.match(new RegExp(`crs:${key}="([^"]+)"`));
+    return match ? parseFloat(match[1]) : null;
+  };
+
+  // Light adjustments
+  const exposure = extractValue("Exposure2012");
+  const contrast = extractValue("Contrast2012");
+  const highlights = extractValue("Highlights2012");
+  const shadows = extractValue("Shadows2012");
+  const whites = extractValue("Whites2012");
+  const blacks = extractValue("Blacks2012");
+  const texture = extractValue("Texture");
+
+  // Color adjustments
+  const temperature = extractValue("Temperature");
+  const vibrance = extractValue("Vibrance");
+  const saturation = extractValue("Saturation");
+  const shadowTint = extractValue("ShadowTint");
+
+  // Effects
+  const clarity = extractValue("Clarity2012");
+  const dehaze = extractValue("Dehaze");
+  const vignette = extractValue("PostCropVignetteAmount");
+  const grain = extractValue("GrainAmount");
+  const grainSize = extractValue("GrainSize");
+  const grainRoughness = extractValue("GrainFrequency");
+
+  // Apply basic adjustments with proper Lightroom-to-app conversion
+  // Lightroom Exposure2012 is in stops (-5 to +5), our filter uses Math.pow(2, exposure)
+  // so we pass through directly (both use stops)
+  if (exposure !== null) settings.exposure = exposure;
+
+  // Lightroom uses -100 to +100, our app uses -1 to +1
+  if (contrast !== null) settings.contrast = contrast / 100;
+  if (highlights !== null) settings.highlights = highlights / 100;
+  if (shadows !== null) settings.shadows = shadows / 100;
+  if (whites !== null) settings.whites = whites / 100;
+  if (blacks !== null) settings.blacks = blacks / 100;
+  if (texture !== null) settings.texture = texture / 100;
+
+  // Temperature: Lightroom uses Kelvin (2000-50000), neutral ~5500
+  // Convert to relative scale where 0 = neutral, negative = cooler, positive = warmer
+  if (temperature !== null) {
+    // Map Kelvin to -1 to +1 range (roughly)
+    // Lower Kelvin = warmer (orange), Higher Kelvin = cooler (blue)
+    // 2000K -> ~+1 (very warm), 5500K -> 0 (neutral), 10000K -> ~-1 (cool)
+    settings.temperature = Math.max(
+      -1,
+      Math.min(1, (5500 - temperature) / 3500),
+    );
+  }
+
+  if (vibrance !== null) settings.vibrance = vibrance / 100;
+  if (saturation !== null) settings.saturation = saturation / 100;
+  if (shadowTint !== null) settings.shadowTint = shadowTint / 100;
+  if (clarity !== null) settings.clarity = clarity / 100;
+  if (dehaze !== null) settings.dehaze = dehaze / 100;
+  if (vignette !== null) settings.vignette = Math.abs(vignette) / 100;
+  if (grain !== null) settings.grain = grain / 100;
+  if (grainSize !== null) settings.grainSize = grainSize / 100;
+  if (grainRoughness !== null) settings.grainRoughness = grainRoughness / 100;
+
+  // Extract HSL adjustments for each color
+  const colorHSL: Partial<ColorHSL> = {};
+  let hasHSL = false;
+
+  for (const color of HSL_COLORS) {
+    const colorCap = capitalize(color);
+    const hue = extractValue(`HueAdjustment${colorCap}`);
+    const sat = extractValue(`SaturationAdjustment${colorCap}`);
+    const lum = extractValue(`LuminanceAdjustment${colorCap}`);
+
+    if (hue !== null || sat !== null || lum !== null) {
+      hasHSL = true;
+      colorHSL[color] = {
+        hue: hue ?? 0,
+        saturation: sat ?? 0,
+        luminance: lum ?? 0,
+      };
+    }
+  }
+
+  if (hasHSL) {
+    settings.colorHSL = colorHSL as ColorHSL;
+  }
+
+  // Extract Split Toning
+  const splitShadowHue = extractValue("SplitToningShadowHue");
+  const splitShadowSat = extractValue("SplitToningShadowSaturation");
+  const splitHighlightHue = extractValue("SplitToningHighlightHue");
+  const splitHighlightSat = extractValue("SplitToningHighlightSaturation");
+  const splitBalance = extractValue("SplitToningBalance");
+
+  if (
+    splitShadowHue !== null ||
+    splitShadowSat !== null ||
+    splitHighlightHue !== null ||
+    splitHighlightSat !== null
+  ) {
+    settings.splitToning = {
+      shadowHue: splitShadowHue ?? 0,
+      shadowSaturation: splitShadowSat ?? 0,
+      highlightHue: splitHighlightHue ?? 0,
+      highlightSaturation: splitHighlightSat ?? 0,
+      balance: splitBalance ?? 0,
+    };
+  }
+
+  // Extract Color Grading
+  const colorGradeShadowLum = extractValue("ColorGradeShadowLum");
+  const colorGradeMidtoneLum = extractValue("ColorGradeMidtoneLum");
+  const colorGradeHighlightLum = extractValue("ColorGradeHighlightLum");
+  const colorGradeMidtoneHue = extractValue("ColorGradeMidtoneHue");
+  const colorGradeMidtoneSat = extractValue("ColorGradeMidtoneSat");
+  const colorGradeGlobalHue = extractValue("ColorGradeGlobalHue");
+  const colorGradeGlobalSat = extractValue("ColorGradeGlobalSat");
+  const colorGradeGlobalLum = extractValue("ColorGradeGlobalLum");
+  const colorGradeBlending = extractValue("ColorGradeBlending");
+
+  if (
+    colorGradeShadowLum !== null ||
+    colorGradeMidtoneLum !== null ||
+    colorGradeHighlightLum !== null ||
+    colorGradeMidtoneHue !== null ||
+    colorGradeMidtoneSat !== null ||
+    colorGradeGlobalHue !== null ||
+    colorGradeGlobalSat !== null ||
+    colorGradeGlobalLum !== null ||
+    colorGradeBlending !== null
+  ) {
+    settings.colorGrading = {
+      shadowLum: colorGradeShadowLum ?? 0,
+      midtoneLum: colorGradeMidtoneLum ?? 0,
+      highlightLum: colorGradeHighlightLum ?? 0,
+      midtoneHue: colorGradeMidtoneHue ?? 0,
+      midtoneSat: colorGradeMidtoneSat ?? 0,
+      globalHue: colorGradeGlobalHue ?? 0,
+      globalSat: colorGradeGlobalSat ?? 0,
+      globalLum: colorGradeGlobalLum ?? 0,
+      blending: colorGradeBlending ?? 100,
+    };
+  }
+
+  // Extract Color Calibration
+  const redHue = extractValue("RedHue");
+  const redSat = extractValue("RedSaturation");
+  const greenHue = extractValue("GreenHue");
+  const greenSat = extractValue("GreenSaturation");
+  const blueHue = extractValue("BlueHue");
+  const blueSat = extractValue("BlueSaturation");
+
+  if (
+    redHue !== null ||
+    redSat !== null ||
+    greenHue !== null ||
+    greenSat !== null ||
+    blueHue !== null ||
+    blueSat !== null
+  ) {
+    settings.colorCalibration = {
+      redHue: redHue ?? 0,
+      redSaturation: redSat ?? 0,
+      greenHue: greenHue ?? 0,
+      greenSaturation: greenSat ?? 0,
+      blueHue: blueHue ?? 0,
+      blueSaturation: blueSat ?? 0,
+    };
+  }
+
+  // Detect Adobe Monochrome Look (or a grayscale conversion) for B&W. The grayscale
+  // filter alone renders B&W; saturation keeps its own value so edits round-trip
+  const isMonochrome =
+    /crs:Name="Adobe Monochrome"/.test(xmpContent) ||
+    /crs:ConvertToGrayscale="True"/.test(xmpContent);
+  if (isMonochrome) {
+    settings.filters = ["grayscale"];
+  }
+
+  // Extract tone curves
+  const extractCurve = (channelName: string): CurvePoint[] => {
+    // Match the ToneCurvePV2012 sequence in XMP
+    const tagName = channelName
+      ? `ToneCurvePV2012${channelName}`
+      : "ToneCurvePV2012";
+    const pattern = new RegExp(
+      `<crs:${tagName}>\\s*<rdf:Seq>([\\s\\S]*?)<\\/rdf:Seq>\\s*<\\/crs:${tagName}>`,
+      "i",
+    );
+    const match = xmpContent.match(pattern);
+
+    if (!match) {
+      // Return default linear curve
+      return [
+        { x: 0, y: 0 },
+        { x: 255, y: 255 },
+      ];
+    }
+
+    // Extract all <rdf:li> elements
+    const liMatches = match[1].matchAll(/<rdf:li>([^<]+)<\/rdf:li>/g);
+    const curvePoints: CurvePoint[] = [];
+
+    for (const liMatch of liMatches) {
+      const [xStr, yStr] = liMatch[1].split(",").map((s) => s.trim());
+      const x = parseInt(xStr);
+      const y = parseInt(yStr);
+
+      if (!isNaN(x) && !isNaN(y)) {
+        curvePoints.push({ x, y });
+      }
+    }
+
+    // If we got valid points, return them; otherwise return default
+    return curvePoints.length >= 2
+      ? curvePoints
+      : [
+          { x: 0, y: 0 },
+          { x: 255, y: 255 },
+        ];
+  };
+
+  // Extract curves for all channels
+  const rgbCurve = extractCurve("");
+  const redCurve = extractCurve("Red");
+  const greenCurve = extractCurve("Green");
+  const blueCurve = extractCurve("Blue");
+
+  // Only set curves if at least one channel has a non-default curve
+  const hasCustomCurves =
+    rgbCurve.length > 2 ||
+    redCurve.length > 2 ||
+    greenCurve.length > 2 ||
+    blueCurve.length > 2;
+
+  if (hasCustomCurves) {
+    settings.curves = {
+      rgb: rgbCurve,
+      red: redCurve,
+      green: greenCurve,
+      blue: blueCurve,
+    };
+  }
+
+  return settings;
+}
+
+// --- Export ---
+
+export interface SerializeXmpOptions {
+  /** Write a Lightroom preset (name, UUID, preset flags) instead of a photo sidecar */
+  presetName?: string;
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Lightroom writes bipolar sliders with an explicit sign ("+25", "-0.50") */
+function signed(v: number, decimals = 0): string {
+  const s = v.toFixed(decimals);
+  if (Number(s) === 0) return (0).toFixed(decimals);
+  return v > 0 ? `+${s}` : s;
+}
+
+const toSlider = (v: number) => signed(Math.round(v * 100));
+
+function isCurveModified(points: CurvePoint[] | undefined): boolean {
+  if (!points) return false;
+  if (points.length !== 2) return true;
+  return !(
+    points[0].x === 0 &&
+    points[0].y === 0 &&
+    points[1].x === 255 &&
+    points[1].y === 255
+  );
+}
+
+/**
+ * Serialize edits as Lightroom / Camera Raw XMP. Only settings present on `settings` are
+ * written, so partial presets stay partial when imported into Lightroom.
+ */
+export function serializeLightroomXmp(
+  settings: Partial<CanvasImage>,
+  options: SerializeXmpOptions = {},
+): string {
+  const attrs: [string, string][] = [
+    ["Version", "15.0"],
+    ["ProcessVersion", "11.0"],
+  ];
+  const children: string[] = [];
+  const attr = (key: string, value: string) => attrs.push([key, value]);
+
+  if (options.presetName !== undefined) {
+    attr("PresetType", "Normal");
+    attr("UUID", crypto.randomUUID().replace(/-/g, "").toUpperCase());
+    attr("SupportsAmount", "False");
+    attr("SupportsColor", "True");
+    attr("SupportsMonochrome", "True");
+    attr("SupportsHighDynamicRange", "True");
+    attr("SupportsNormalDynamicRange", "True");
+    attr("SupportsSceneReferred", "True");
+    attr("SupportsOutputReferred", "True");
+    children.push(
+      `<crs:Name><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(options.presetName)}</rdf:li></rdf:Alt></crs:Name>`,
+    );
+  }
+
+  // Light
+  if (settings.exposure !== undefined) {
+    attr("Exposure2012", signed(settings.exposure, 2));
+  }
+  const sliders: [keyof CanvasImage, string][] = [
+    ["contrast", "Contrast2012"],
+    ["highlights", "Highlights2012"],
+    ["shadows", "Shadows2012"],
+    ["whites", "Whites2012"],
+    ["blacks", "Blacks2012"],
+    ["texture", "Texture"],
+    ["vibrance", "Vibrance"],
+    ["saturation", "Saturation"],
+    ["shadowTint", "ShadowTint"],
+    ["clarity", "Clarity2012"],
+    ["dehaze", "Dehaze"],
+  ];
+  for (const [key, tag] of sliders) {
+    const v = settings[key];
+    if (typeof v === "number") attr(tag, toSlider(v));
+  }
+
+  // Color
+  if (settings.temperature !== undefined) {
+    attr("WhiteBalance", "Custom");
+    attr(
+      "Temperature",
+      String(Math.round(5500 - settings.temperature * 3500)),
+    );
+  }
+  if (settings.filters?.includes("grayscale")) {
+    attr("ConvertToGrayscale", "True");
+  }
+  if (settings.colorHSL) {
+    for (const color of HSL_COLORS) {
+      const hsl = settings.colorHSL[color];
+      if (!hsl) continue;
+      const cap = capitalize(color);
+      attr(`HueAdjustment${cap}`, signed(Math.round(hsl.hue)));
+      attr(
+        `SaturationAdjustment${cap}`,
+        signed(Math.round(hsl.saturation)),
+      );
+      attr(`LuminanceAdjustment${cap}`, signed(Math.round(hsl.luminance)));
+    }
+  }
+  if (settings.splitToning) {
+    const st = settings.splitToning;
+    attr("SplitToningShadowHue", String(Math.round(st.shadowHue)));
+    attr(
+      "SplitToningShadowSaturation",
+      String(Math.round(st.shadowSaturation)),
+    );
+    attr("SplitToningHighlightHue", String(Math.round(st.highlightHue)));
+    attr(
+      "SplitToningHighlightSaturation",
+      String(Math.round(st.highlightSaturation)),
+    );
+    attr("SplitToningBalance", signed(Math.round(st.balance)));
+  }
+  if (settings.colorGrading) {
+    const cg = settings.colorGrading;
+    attr("ColorGradeMidtoneHue", String(Math.round(cg.midtoneHue)));
+    attr("ColorGradeMidtoneSat", String(Math.round(cg.midtoneSat)));
+    attr("ColorGradeShadowLum", signed(Math.round(cg.shadowLum)));
+    attr("ColorGradeMidtoneLum", signed(Math.round(cg.midtoneLum)));
+    attr("ColorGradeHighlightLum", signed(Math.round(cg.highlightLum)));
+    attr("ColorGradeGlobalHue", String(Math.round(cg.globalHue)));
+    attr("ColorGradeGlobalSat", String(Math.round(cg.globalSat)));
+    attr("ColorGradeGlobalLum", signed(Math.round(cg.globalLum)));
+    attr("ColorGradeBlending", String(Math.round(cg.blending)));
+  }
+  if (settings.colorCalibration) {
+    const cc = settings.colorCalibration;
+    attr("RedHue", signed(Math.round(cc.redHue)));
+    attr("RedSaturation", signed(Math.round(cc.redSaturation)));
+    attr("GreenHue", signed(Math.round(cc.greenHue)));
+    attr("GreenSaturation", signed(Math.round(cc.greenSaturation)));
+    attr("BlueHue", signed(Math.round(cc.blueHue)));
+    attr("BlueSaturation", signed(Math.round(cc.blueSaturation)));
+  }
+
+  // Effects
+  if (settings.vignette !== undefined) {
+    attr("PostCropVignetteAmount", toSlider(-settings.vignette));
+  }
+  if (settings.grain !== undefined) {
+    attr("GrainAmount", String(Math.round(settings.grain * 100)));
+  }
+  if (settings.grainSize !== undefined) {
+    attr("GrainSize", String(Math.round(settings.grainSize * 100)));
+  }
+  if (settings.grainRoughness !== undefined) {
+    attr(
+      "GrainFrequency",
+      String(Math.round(settings.grainRoughness * 100)),
+    );
+  }
+
+  // Curves: Lightroom expects all four channels once any of them is custom
+  const curves = settings.curves;
+  if (
+    curves &&
+    CURVE_TAGS.some(({ channel }) => isCurveModified(curves[channel]))
+  ) {
+    attr("ToneCurveName2012", "Custom");
+    for (const { channel, tag } of CURVE_TAGS) {
+      const points = curves[channel] ?? DEFAULT_CURVES[channel];
+      const items = points
+        .map((p) => `<rdf:li>${Math.round(p.x)}, ${Math.round(p.y)}</rdf:li>`)
+        .join("");
+      children.push(`<crs:${tag}><rdf:Seq>${items}</rdf:Seq></crs:${tag}>`);
+    }
+  }
+
+  attr("HasSettings", "True");
+
+  return [
+    `<x:xmpmeta xmlns:x="adobe:ns:meta/" x:xmptk="Driftboard">`,
+    ` <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">`,
+    `  <rdf:Description rdf:about=""`,
+    `    xmlns:crs="${CRS_NS}"`,
+    `${attrs.map(([k, v]) => `    crs:${k}="${escapeXml(v)}"`).join("\n")}>`,
+    ...children.map((c) => `   ${c}`),
+    `  </rdf:Description>`,
+    ` </rdf:RDF>`,
+    `</x:xmpmeta>`,
+    "",
+  ].join("\n");
+}
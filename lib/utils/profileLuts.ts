@@ -0,0 +1,82 @@
+/**
+ * Creative profile LUTs by reference.
+ * History entries and named snapshots keep a profile as { name, size, amount, lutHash };
+ * the LUT data is stored once per content hash in creative_profile_luts.
+ * Entries saved before that still carry the full profile and are used as they are.
+ */
+
+import type {
+  CanvasImage,
+  CreativeProfile,
+  CreativeProfileRef,
+  StoredEditSettings,
+} from "@/lib/types";
+import { supabase } from "@/lib/supabase";
+
+// LUT data by hash: stored or fetched this session (LUTs are immutable)
+const lutCache = new Map<string, string>();
+
+/** SHA-256 (hex) of a profile's base64 LUT data, as checked by the table */
+async function getLutHash(data: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(data),
+  );
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+function isProfileRef(
+  profile: CreativeProfile | CreativeProfileRef,
+): profile is CreativeProfileRef {
+  return "lutHash" in profile;
+}
+
+/** Settings to store: the profile's LUT is saved once and replaced by its hash */
+export async function toStoredSettings(
+  settings: Partial<CanvasImage>,
+): Promise<StoredEditSettings> {
+  const { profile } = settings;
+  if (!profile) return settings;
+
+  const lutHash = await getLutHash(profile.data);
+  if (!lutCache.has(lutHash)) {
+    const { error } = await supabase
+      .from("creative_profile_luts")
+      .upsert(
+        { hash: lutHash, data: profile.data },
+        { onConflict: "hash", ignoreDuplicates: true },
+      );
+    if (error) throw error;
+    lutCache.set(lutHash, profile.data);
+  }
+
+  const { name, size, amount } = profile;
+  return { ...settings, profile: { name, size, lutHash, amount } };
+}
+
+/** Stored settings with a referenced profile's LUT loaded back in */
+export async function fromStoredSettings(
+  settings: StoredEditSettings,
+): Promise<Partial<CanvasImage>> {
+  const { profile } = settings;
+  if (!profile || !isProfileRef(profile)) {
+    return settings as Partial<CanvasImage>;
+  }
+
+  let data = lutCache.get(profile.lutHash);
+  if (data === undefined) {
+    const { data: row, error } = await supabase
+      .from("creative_profile_luts")
+      .select("data")
+      .eq("hash", profile.lutHash)
+      .single();
+    if (error) throw error;
+    data = row.data as string;
+    lutCache.set(profile.lutHash, data);
+  }
+
+  const { name, size, amount } = profile;
+  return { ...settings, profile: { name, size, data, amount } };
+}
@@ -0,0 +1,102 @@
+/**
+ * Server-side RAW/DNG decoding.
+ * Used by /api/export so RAW originals can be exported without the browser (libraw-wasm) path.
+ *
+ * dcraw.js is a synchronous emscripten build, so each decode runs in its own worker thread
+ * and the event loop keeps serving other requests.
+ */
+
+import { availableParallelism } from "node:os";
+import { Worker } from "node:worker_threads";
+
+// Runs dcraw on workerData.source and posts back the TIFF bytes (or an error message).
+// Evaluated rather than loaded from a file: dcraw is an external package, so require()
+// resolves it from node_modules without the worker script going through the bundler.
+// Scoped in a function: dcraw's sloppy-mode globals would hit top-level consts.
+const DECODE_WORKER_SOURCE = `
+(() => {
+  const { parentPort, workerData } = require("node:worker_threads");
+  const dcraw = require("dcraw");
+  try {
+    const tiff = dcraw(new Uint8Array(workerData.source), workerData.options);
+    if (!tiff || typeof tiff === "string" || tiff.length === 0) {
+      parentPort.postMessage({ error: "RAW decode produced no image" });
+    } else {
+      parentPort.postMessage({ tiff }, [tiff.buffer]);
+    }
+  } catch (err) {
+    parentPort.postMessage({ error: err instanceof Error ? err.message : String(err) });
+  }
+})();
+`;
+
+// A decode holds the RAW file and the full-size TIFF in memory: cap how many run at once
+const MAX_CONCURRENT_DECODES = Math.max(
+  1,
+  Math.min(2, availableParallelism() - 1),
+);
+let runningDecodes = 0;
+const queuedDecodes: (() => void)[] = [];
+
+async function withDecodeSlot<T>(decode: () => Promise<T>): Promise<T> {
+  if (runningDecodes >= MAX_CONCURRENT_DECODES) {
+    await new Promise<void>((resolve) => queuedDecodes.push(resolve));
+  }
+  runningDecodes++;
+  try {
+    return await decode();
+  } finally {
+    runningDecodes--;
+    queuedDecodes.shift()?.();
+  }
+}
+
+function runDecodeWorker(
+  source: Uint8Array,
+  options: Record<string, unknown>,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(DECODE_WORKER_SOURCE, {
+      eval: true,
+      workerData: { source, options },
+      transferList: [source.buffer as ArrayBuffer],
+    });
+    worker.once("message", (result: { tiff?: Uint8Array; error?: string }) => {
+      const { tiff } = result;
+      if (tiff) {
+        resolve(Buffer.from(tiff.buffer, tiff.byteOffset, tiff.length));
+      } else {
+        reject(new Error(result.error ?? "RAW decode failed"));
+      }
+      worker.terminate();
+    });
+    worker.once("error", reject);
+    worker.once("exit", (code) => {
+      // After a message this is our own terminate(); settling twice is a no-op
+      reject(new Error(`RAW decode worker exited with code ${code}`));
+    });
+  });
+}
+
+/**
+ * Decode a RAW/DNG buffer to an sRGB TIFF that Sharp can read: 8 bits per channel, or
+ * 16 (dcraw -6) for the high-precision export pipeline. Uses the camera white balance,
+ * sRGB output, AHD interpolation and auto brightness.
+ */
+export function decodeRawToTiff(
+  sourceBuffer: Buffer,
+  bitDepth: 8 | 16 = 8,
+): Promise<Buffer> {
+  // Copied: the worker takes ownership of the bytes it is sent
+  const source = new Uint8Array(sourceBuffer);
+  // sRGB output (-o 1) and AHD (-q 3) are dcraw's defaults. They aren't passed: dcraw.js
+  // throws on any option that takes a value (it reassigns a const args array), and
+  // passes a flag even when it is false, so 8-bit leaves use16BitMode out entirely.
+  return withDecodeSlot(() =>
+    runDecodeWorker(source, {
+      exportAsTiff: true,
+      useCameraWhiteBalance: true,
+      ...(bitDepth === 16 && { use16BitMode: true }),
+    }),
+  );
+}
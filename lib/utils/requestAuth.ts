@@ -0,0 +1,21 @@
+/**
+ * The signed-in user behind an API request.
+ * Clients send their Supabase access token (Authorization: Bearer, see getAuthHeaders in
+ * lib/supabase.ts); routes act for that user instead of a userId from the body or query.
+ */
+
+import type { NextRequest } from "next/server";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+
+/** The user of the request's access token (null = missing or invalid) */
+export async function getRequestUser(
+  supabase: SupabaseClient,
+  request: NextRequest,
+): Promise<User | null> {
+  const token = request.headers
+    .get("authorization")
+    ?.match(/^Bearer (.+)$/i)?.[1];
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  return error ? null : data.user;
+}
@@ -0,0 +1,166 @@
+/**
+ * Photo filter queries: the canvas filter (evaluated on the loaded photos) and
+ * smart collections (the same query saved per user, evaluated in Postgres on photo_edits).
+ */
+
+import {
+  DEFAULT_CURVES,
+  type CanvasImage,
+  type SmartCollectionQuery,
+} from "@/lib/types";
+import { supabase } from "@/lib/supabase";
+
+/** Photo / photo_edits row key: one row per storage path per virtual copy */
+export function getPhotoRowKey(storagePath: string, copyId?: string): string {
+  return `${storagePath}#${copyId ?? ""}`;
+}
+
+/** Any edit differs from its default (same rule as the photo_edits.is_edited column) */
+export function isImageEdited(img: CanvasImage): boolean {
+  const values = [
+    img.exposure,
+    img.contrast,
+    img.highlights,
+    img.shadows,
+    img.whites,
+    img.blacks,
+    img.texture,
+    img.temperature,
+    img.vibrance,
+    img.saturation,
+    img.shadowTint,
+    img.clarity,
+    img.dehaze,
+    img.vignette,
+    img.grain,
+    img.straighten,
+    img.brightness,
+    img.hue,
+    img.blur,
+  ];
+  if (values.some((v) => (v ?? 0) !== 0)) return true;
+  if (
+    img.colorHSL ||
+    img.splitToning ||
+    img.colorGrading ||
+    img.colorCalibration ||
+    img.profile ||
+    img.crop
+  )
+    return true;
+  if ((img.masks?.length ?? 0) > 0 || (img.filters?.length ?? 0) > 0)
+    return true;
+  return (
+    !!img.curves &&
+    JSON.stringify(img.curves) !== JSON.stringify(DEFAULT_CURVES)
+  );
+}
+
+export function isPhotoFilterActive(query: SmartCollectionQuery): boolean {
+  return !!(
+    query.contentSearch?.trim() ||
+    query.dateFrom ||
+    query.dateTo ||
+    query.cameraMake ||
+    query.cameraModel ||
+    query.minRating ||
+    query.colorLabel ||
+    query.flag ||
+    query.fileType ||
+    query.edited ||
+    query.folderId
+  );
+}
+
+/** taken_at bounds of the query's date range: whole UTC days, both ends inclusive */
+function getTakenAtRange(query: SmartCollectionQuery) {
+  return {
+    from: query.dateFrom ? `${query.dateFrom}T00:00:00.000Z` : undefined,
+    to: query.dateTo ? `${query.dateTo}T23:59:59.999Z` : undefined,
+  };
+}
+
+/** Canvas filter: whether a loaded photo passes the query */
+export function matchesPhotoFilter(
+  img: CanvasImage,
+  query: SmartCollectionQuery,
+): boolean {
+  // Same substring match as the search_photo_edits function
+  const term = query.contentSearch?.trim().toLowerCase();
+  if (term && !img.labels?.some((l) => l.toLowerCase().includes(term)))
+    return false;
+  const range = getTakenAtRange(query);
+  if (range.from || range.to) {
+    // Same comparison as the taken_at filters in fetchSmartCollectionMatches
+    const takenAt = img.takenAt ? Date.parse(img.takenAt) : NaN;
+    if (Number.isNaN(takenAt)) return false;
+    if (range.from && takenAt < Date.parse(range.from)) return false;
+    if (range.to && takenAt > Date.parse(range.to)) return false;
+  }
+  if (query.cameraMake && img.cameraMake !== query.cameraMake) return false;
+  if (query.cameraModel && img.cameraModel !== query.cameraModel) return false;
+  if (query.minRating && (img.rating ?? 0) < query.minRating) return false;
+  if (query.colorLabel && img.colorLabel !== query.colorLabel) return false;
+  if (query.flag && (img.flag ?? "unflagged") !== query.flag) return false;
+  if (query.fileType && !!img.isRaw !== (query.fileType === "raw"))
+    return false;
+  if (query.edited && isImageEdited(img) !== (query.edited === "edited"))
+    return false;
+  if (query.folderId && img.folderId !== query.folderId) return false;
+  return true;
+}
+
+/** Rows per smart collection request (below PostgREST's default max-rows) */
+const SMART_COLLECTION_PAGE_SIZE = 1000;
+
+/**
+ * Smart collection: row keys (getPhotoRowKey) of the user's photo_edits rows matching
+ * the query, by the same rules as matchesPhotoFilter. Every filter runs in Postgres
+ * (the label search in the search_photo_edits function), so it can use the user_id /
+ * taken_at / folder_id indexes; results are read a page at a time, since PostgREST
+ * caps the rows one request returns.
+ */
+export async function fetchSmartCollectionMatches(
+  userId: string,
+  query: SmartCollectionQuery,
+): Promise<string[]> {
+  const term = query.contentSearch?.trim() || null;
+  const range = getTakenAtRange(query);
+  const buildRequest = () => {
+    let request = supabase
+      .rpc("search_photo_edits", { _term: term })
+      .select("storage_path, copy_id")
+      .eq("user_id", userId);
+    if (range.from) request = request.gte("taken_at", range.from);
+    if (range.to) request = request.lte("taken_at", range.to);
+    if (query.cameraMake)
+      request = request.eq("camera_make", query.cameraMake);
+    if (query.cameraModel)
+      request = request.eq("camera_model", query.cameraModel);
+    if (query.minRating) request = request.gte("rating", query.minRating);
+    if (query.colorLabel)
+      request = request.eq("color_label", query.colorLabel);
+    if (query.flag === "unflagged") request = request.is("flag", null);
+    else if (query.flag) request = request.eq("flag", query.flag);
+    if (query.fileType === "raw") request = request.eq("is_raw", true);
+    else if (query.fileType === "jpeg")
+      request = request.not("is_raw", "is", true);
+    if (query.edited)
+      request = request.eq("is_edited", query.edited === "edited");
+    if (query.folderId) request = request.eq("folder_id", query.folderId);
+    return request.order("id");
+  };
+
+  const keys: string[] = [];
+  for (let from = 0; ; from += SMART_COLLECTION_PAGE_SIZE) {
+    const { data, error } = await buildRequest().range(
+      from,
+      from + SMART_COLLECTION_PAGE_SIZE - 1,
+    );
+    if (error) throw error;
+    const rows = (data ?? []) as { storage_path: string; copy_id: string }[];
+    for (const row of rows)
+      keys.push(getPhotoRowKey(row.storage_path, row.copy_id));
+    if (rows.length < SMART_COLLECTION_PAGE_SIZE) return keys;
+  }
+}
@@ -2,7 +2,9 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   // Exclude from server-side bundling to avoid multiple Konva instances (client-only)
-  serverExternalPackages: ['konva'],
+  // dcraw is an emscripten build loaded at runtime by /api/export (RAW decoding)
+  // onnxruntime-node is a native addon used by /api/label-photo (content labeling)
+  serverExternalPackages: ['konva', 'dcraw', 'onnxruntime-node'],
 };
 
 export default nextConfig;
@@ -0,0 +1,41 @@
+/**
+ * Headless parity check between the CPU (clientFilters) and server (serverFilters) pipelines.
+ * Usage: npm run parity -- [--threshold 6] [--only exposure] [--json]
+ * Exits with code 1 when any adjustment diverges beyond the threshold; npm test runs the
+ * same check at the default threshold (lib/filters/parity.test.ts).
+ * GPU (GLSL) parity needs WebGL and runs in the browser at /dev/parity.
+ */
+
+import {
+  DEFAULT_PARITY_THRESHOLD,
+  formatParityReport,
+  runParity,
+} from "@/lib/filters/parity";
+import { renderCpu, renderServer } from "@/lib/filters/parityRenderers";
+
+function readArg(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+async function main() {
+  const threshold = Number(readArg("threshold") ?? DEFAULT_PARITY_THRESHOLD);
+  const results = await runParity(renderCpu, renderServer, {
+    threshold,
+    only: readArg("only"),
+  });
+
+  if (process.argv.includes("--json")) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    console.log(
+      formatParityReport(results, { reference: "cpu", candidate: "server" }),
+    );
+  }
+  process.exitCode = results.every((r) => r.pass) ? 0 : 1;
+}
+
+main().catch((error) => {
+  console.error("Parity run failed:", error);
+  process.exitCode = 2;
+});
@@ -0,0 +1,8 @@
+-- Local adjustment masks (linear gradient, radial, brush) per photo.
+-- Stored as a jsonb array of LocalMask objects (geometry in normalized 0-1 image coords).
+
+alter table public.photo_edits
+add column if not exists masks jsonb null;
+
+alter table public.collab_photos
+add column if not exists masks jsonb null;
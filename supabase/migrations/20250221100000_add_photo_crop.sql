@@ -0,0 +1,10 @@
+-- Non-destructive crop + straighten per photo.
+-- crop: { x, y, width, height } normalized 0-1 of the straightened frame; straighten: degrees.
+
+alter table public.photo_edits
+add column if not exists crop jsonb null,
+add column if not exists straighten real null default 0;
+
+alter table public.collab_photos
+add column if not exists crop jsonb null,
+add column if not exists straighten real null default 0;
@@ -0,0 +1,94 @@
+-- Background batch export jobs.
+-- /api/export-jobs renders each photo server-side, zips the results into the private
+-- 'exports' bucket and tracks progress here; clients follow progress over Realtime.
+
+-- =============================================================================
+-- EXPORT JOBS TABLE
+-- =============================================================================
+
+create table public.export_jobs (
+  id uuid not null default gen_random_uuid(),
+  user_id uuid not null,
+  session_id uuid null,
+  status text not null default 'pending',
+  total integer not null default 0,
+  completed integer not null default 0,
+  failed integer not null default 0,
+  options jsonb not null default '{}'::jsonb,
+  zip_path text null,
+  download_url text null,
+  error text null,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  constraint export_jobs_pkey primary key (id),
+  constraint export_jobs_user_id_fkey foreign key (user_id) references auth.users(id) on delete cascade,
+  constraint export_jobs_status_check check (status in ('pending', 'processing', 'completed', 'failed'))
+) tablespace pg_default;
+
+create index if not exists idx_export_jobs_user_created on public.export_jobs using btree (user_id, created_at desc) tablespace pg_default;
+
+alter table public.export_jobs enable row level security;
+
+-- Jobs are created and updated by the service role; users can only read their own
+create policy "Users can view their own export jobs" on public.export_jobs
+  for select using (user_id = auth.uid());
+
+-- =============================================================================
+-- STALE JOBS
+-- =============================================================================
+
+-- Jobs run in after() on /api/export-jobs (maxDuration 800s). If that task is killed,
+-- the job would stay pending / processing forever: jobs without progress for 15 minutes
+-- are marked failed. The sweep runs when a user's running jobs are loaded
+-- (GlobalNotifications) and when a new job is created.
+create or replace function public.fail_stale_export_jobs()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  swept integer;
+begin
+  update public.export_jobs
+  set status = 'failed',
+      error = 'Export timed out',
+      updated_at = now()
+  where status in ('pending', 'processing')
+  and updated_at < now() - interval '15 minutes'
+  -- Users sweep their own jobs; the service role (no auth.uid()) sweeps everyone's
+  and (auth.uid() is null or user_id = auth.uid());
+
+  get diagnostics swept = row_count;
+  return swept;
+end;
+$$;
+
+revoke execute on function public.fail_stale_export_jobs from public;
+grant execute on function public.fail_stale_export_jobs to authenticated;
+grant execute on function public.fail_stale_export_jobs to service_role;
+
+-- =============================================================================
+-- REALTIME
+-- =============================================================================
+
+do $$
+begin
+  alter publication supabase_realtime add table public.export_jobs;
+exception when others then null;
+end $$;
+
+-- =============================================================================
+-- EXPORTS BUCKET (Private, ZIPs are downloaded via signed URLs)
+-- =============================================================================
+
+insert into storage.buckets (id, name, public, avif_autodetection, file_size_limit, allowed_mime_types)
+values (
+  'exports',
+  'exports',
+  false,
+  false,
+  null,
+  array['application/zip']::text[]
+)
+on conflict (id) do nothing;
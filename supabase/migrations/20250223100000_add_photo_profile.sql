@@ -0,0 +1,8 @@
+-- Creative profile (3D LUT imported from a .cube file) per photo.
+-- profile: { name, size, data (base64 8-bit RGB grid, red fastest), amount 0-1 }
+
+alter table public.photo_edits
+add column if not exists profile jsonb null;
+
+alter table public.collab_photos
+add column if not exists profile jsonb null;
@@ -0,0 +1,26 @@
+-- Virtual copies + named edit snapshots per photo.
+-- copy_id: '' for the master row, otherwise a client-generated id. Copies share the
+-- storage object (storage_path) but have their own edits and canvas position.
+-- Not null with a '' default so the unique key still conflicts for masters on upsert.
+-- snapshots: jsonb array of { id, name, createdAt, settings } (settings = edit values).
+
+alter table public.photo_edits
+add column if not exists copy_id text not null default '',
+add column if not exists snapshots jsonb null;
+
+alter table public.collab_photos
+add column if not exists copy_id text not null default '',
+add column if not exists snapshots jsonb null;
+
+-- One row per storage object per copy (was one row per storage object)
+alter table public.photo_edits
+drop constraint if exists photo_edits_storage_path_user_id_key;
+
+alter table public.photo_edits
+add constraint photo_edits_storage_path_user_id_copy_key unique (storage_path, user_id, copy_id);
+
+alter table public.collab_photos
+drop constraint if exists collab_photos_storage_path_session_key;
+
+alter table public.collab_photos
+add constraint collab_photos_storage_path_session_copy_key unique (storage_path, session_id, copy_id);
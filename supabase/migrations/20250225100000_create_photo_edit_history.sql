@@ -0,0 +1,76 @@
+-- Persistent per-photo edit history.
+-- One row per saved edit: who made it, which edit keys changed and the full edit
+-- values after the change (so any entry can be jumped to or branched from).
+-- Personal canvas rows have session_id null; collab rows are shared with the session.
+-- Saves made in quick succession update the user's latest entry (lib/hooks/useAutoSave.ts).
+-- A creative profile's LUT is ~144KB of base64: history entries and named snapshots keep
+-- { name, size, amount, lutHash } and the LUT is stored once in creative_profile_luts
+-- (lib/utils/profileLuts.ts). The photo rows keep the full profile.
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- =============================================================================
+-- PHOTO EDIT HISTORY TABLE
+-- =============================================================================
+
+create table public.photo_edit_history (
+  id uuid not null default gen_random_uuid(),
+  user_id uuid not null,
+  session_id uuid null,
+  storage_path text not null,
+  copy_id text not null default '',
+  changed_keys text[] not null default '{}'::text[],
+  settings jsonb not null default '{}'::jsonb,
+  created_at timestamp with time zone not null default now(),
+  constraint photo_edit_history_pkey primary key (id),
+  constraint photo_edit_history_user_id_fkey foreign key (user_id) references auth.users(id) on delete cascade,
+  constraint photo_edit_history_session_id_fkey foreign key (session_id) references public.collab_sessions(id) on delete cascade
+) tablespace pg_default;
+
+create index if not exists idx_photo_edit_history_photo on public.photo_edit_history using btree (storage_path, copy_id, created_at desc) tablespace pg_default;
+
+alter table public.photo_edit_history enable row level security;
+
+create policy "Users can view their own edit history" on public.photo_edit_history
+  for select using (session_id is null and user_id = auth.uid());
+
+create policy "Members can view session edit history" on public.photo_edit_history
+  for select using (
+    session_id is not null and public.is_member_of_session_secure(session_id)
+  );
+
+create policy "Users can record their own edits" on public.photo_edit_history
+  for insert with check (
+    user_id = auth.uid()
+    and (session_id is null or public.is_member_of_session_secure(session_id))
+  );
+
+create policy "Users can update their own edits" on public.photo_edit_history
+  for update using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and (session_id is null or public.is_member_of_session_secure(session_id))
+  );
+
+-- =============================================================================
+-- PROFILE LUTS TABLE
+-- =============================================================================
+
+create table public.creative_profile_luts (
+  hash text not null,
+  data text not null,
+  created_at timestamp with time zone not null default now(),
+  constraint creative_profile_luts_pkey primary key (hash),
+  -- The key is the LUT's SHA-256, so nobody can store other data under a hash
+  constraint creative_profile_luts_hash_check check (hash = encode(extensions.digest(data, 'sha256'), 'hex'))
+) tablespace pg_default;
+
+alter table public.creative_profile_luts enable row level security;
+
+-- Content-addressed and immutable: any signed-in user can read a LUT they hold the
+-- hash of (collaborators restore each other's history) and add new ones
+create policy "Users can view profile LUTs" on public.creative_profile_luts
+  for select to authenticated using (true);
+
+create policy "Users can add profile LUTs" on public.creative_profile_luts
+  for insert to authenticated with check (true);
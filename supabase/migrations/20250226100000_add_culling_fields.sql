@@ -0,0 +1,26 @@
+-- Culling fields per photo: star rating, color label and pick/reject flag.
+-- rating: 0 = unrated, 1-5 stars. color_label / flag: null = none.
+
+alter table public.photo_edits
+add column if not exists rating smallint not null default 0,
+add column if not exists color_label text null,
+add column if not exists flag text null;
+
+alter table public.collab_photos
+add column if not exists rating smallint not null default 0,
+add column if not exists color_label text null,
+add column if not exists flag text null;
+
+alter table public.photo_edits
+add constraint photo_edits_rating_check check (rating between 0 and 5),
+add constraint photo_edits_color_label_check check (
+  color_label in ('red', 'yellow', 'green', 'blue', 'purple')
+),
+add constraint photo_edits_flag_check check (flag in ('pick', 'reject'));
+
+alter table public.collab_photos
+add constraint collab_photos_rating_check check (rating between 0 and 5),
+add constraint collab_photos_color_label_check check (
+  color_label in ('red', 'yellow', 'green', 'blue', 'purple')
+),
+add constraint collab_photos_flag_check check (flag in ('pick', 'reject'));
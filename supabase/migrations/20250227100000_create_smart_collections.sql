@@ -0,0 +1,105 @@
+-- Smart collections: named photo filter queries saved per user.
+-- The query (dates, camera, labels, rating, color label, flag, RAW vs JPEG, edited, folder)
+-- is evaluated against photo_edits with PostgREST filters, so it runs in Postgres on the
+-- existing indexes (user_id, taken_at, labels GIN, folder_id + user_id). The label search
+-- (case-insensitive substring of any label) goes through search_photo_edits.
+
+-- =============================================================================
+-- EDITED FLAG ON PHOTO EDITS
+-- =============================================================================
+
+-- True when any edit differs from its default (kept in sync by Postgres on every save)
+alter table public.photo_edits
+add column if not exists is_edited boolean generated always as (
+  coalesce(exposure, 0) <> 0
+  or coalesce(contrast, 0) <> 0
+  or coalesce(highlights, 0) <> 0
+  or coalesce(shadows, 0) <> 0
+  or coalesce(whites, 0) <> 0
+  or coalesce(blacks, 0) <> 0
+  or coalesce(texture, 0) <> 0
+  or coalesce(temperature, 0) <> 0
+  or coalesce(vibrance, 0) <> 0
+  or coalesce(saturation, 0) <> 0
+  or coalesce(shadow_tint, 0) <> 0
+  or coalesce(clarity, 0) <> 0
+  or coalesce(dehaze, 0) <> 0
+  or coalesce(vignette, 0) <> 0
+  or coalesce(grain, 0) <> 0
+  or coalesce(straighten, 0) <> 0
+  or coalesce(brightness, 0) <> 0
+  or coalesce(hue, 0) <> 0
+  or coalesce(blur, 0) <> 0
+  or color_hsl is not null
+  or split_toning is not null
+  or color_grading is not null
+  or color_calibration is not null
+  or profile is not null
+  or (masks is not null and masks <> '[]'::jsonb)
+  or crop is not null
+  or coalesce(cardinality(filters), 0) > 0
+  or (
+    curves is not null
+    and curves <> '{"red": [{"x": 0, "y": 0}, {"x": 255, "y": 255}], "rgb": [{"x": 0, "y": 0}, {"x": 255, "y": 255}], "blue": [{"x": 0, "y": 0}, {"x": 255, "y": 255}], "green": [{"x": 0, "y": 0}, {"x": 255, "y": 255}]}'::jsonb
+  )
+) stored;
+
+-- =============================================================================
+-- LABEL SEARCH
+-- =============================================================================
+
+-- The caller's photo_edits rows with a label containing _term, ignoring case (every
+-- row when _term is null). Returns the table type, so the other filters, ordering and
+-- paging are still applied by PostgREST; RLS applies (security invoker).
+create or replace function public.search_photo_edits(_term text default null)
+returns setof public.photo_edits
+language sql
+stable
+set search_path = public
+as $$
+  select *
+  from public.photo_edits p
+  where _term is null
+    or exists (
+      select 1
+      from unnest(p.labels) as label
+      where strpos(lower(label), lower(_term)) > 0
+    );
+$$;
+
+grant execute on function public.search_photo_edits to authenticated;
+
+-- =============================================================================
+-- SMART COLLECTIONS TABLE
+-- =============================================================================
+
+create table public.smart_collections (
+  id uuid not null default gen_random_uuid(),
+  user_id uuid not null,
+  name text not null,
+  query jsonb not null default '{}'::jsonb,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  constraint smart_collections_pkey primary key (id),
+  constraint smart_collections_user_id_fkey foreign key (user_id) references auth.users(id) on delete cascade
+) tablespace pg_default;
+
+create index if not exists idx_smart_collections_user_created on public.smart_collections using btree (user_id, created_at) tablespace pg_default;
+
+create trigger update_smart_collections_updated_at before
+update on smart_collections for each row
+execute function update_updated_at_column();
+
+alter table public.smart_collections enable row level security;
+
+create policy "Users can view their own smart collections" on public.smart_collections
+  for select using (user_id = auth.uid());
+
+create policy "Users can create their own smart collections" on public.smart_collections
+  for insert with check (user_id = auth.uid());
+
+create policy "Users can update their own smart collections" on public.smart_collections
+  for update using (user_id = auth.uid());
+
+create policy "Users can delete their own smart collections" on public.smart_collections
+  for delete using (user_id = auth.uid());
@@ -0,0 +1,9 @@
+-- Field-level merging for collab photos (PATCH /api/collab/photos).
+-- field_clock: last write time (ms) per column, so each column is last-writer-wins
+-- on its own and concurrent edits to different sliders of one photo both survive.
+-- revision: bumped by every merge; a merge only writes if the revision it read is
+-- still current, otherwise it re-reads and merges again.
+
+alter table public.collab_photos
+add column if not exists field_clock jsonb not null default '{}'::jsonb,
+add column if not exists revision bigint not null default 0;
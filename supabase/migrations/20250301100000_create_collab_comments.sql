@@ -0,0 +1,126 @@
+-- Comment threads on collab photos, for reviewing a shoot inside the session.
+-- A thread belongs to one collab_photos row (storage_path + copy_id, deleted with it) and
+-- can be pinned to a point on the image (normalized 0-1 coords of the uncropped photo).
+-- Comments store the user ids they @mention, for notifications.
+-- Access follows the collab membership rules: the session owner and approved members.
+
+-- =============================================================================
+-- ACCESS HELPER
+-- =============================================================================
+
+create or replace function public.can_access_collab_session(_session_id uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+stable
+as $$
+  select exists (
+    select 1 from public.collab_sessions
+    where id = _session_id
+    and owner_id = auth.uid()
+  ) or public.is_member_of_session_secure(_session_id);
+$$;
+
+grant execute on function public.can_access_collab_session to authenticated;
+grant execute on function public.can_access_collab_session to service_role;
+
+-- =============================================================================
+-- COMMENT THREADS TABLE
+-- =============================================================================
+
+create table public.collab_comment_threads (
+  id uuid not null default gen_random_uuid(),
+  session_id uuid not null,
+  storage_path text not null,
+  copy_id text not null default '',
+  user_id uuid not null,
+  pin_x double precision null,
+  pin_y double precision null,
+  resolved_at timestamp with time zone null,
+  resolved_by uuid null,
+  created_at timestamp with time zone not null default now(),
+  constraint collab_comment_threads_pkey primary key (id),
+  constraint collab_comment_threads_photo_fkey foreign key (storage_path, session_id, copy_id) references public.collab_photos(storage_path, session_id, copy_id) on delete cascade,
+  constraint collab_comment_threads_session_id_fkey foreign key (session_id) references public.collab_sessions(id) on delete cascade,
+  constraint collab_comment_threads_user_id_fkey foreign key (user_id) references auth.users(id) on delete cascade,
+  constraint collab_comment_threads_resolved_by_fkey foreign key (resolved_by) references auth.users(id) on delete set null,
+  constraint collab_comment_threads_pin_check check (
+    (pin_x is null and pin_y is null)
+    or (pin_x between 0 and 1 and pin_y between 0 and 1)
+  )
+) tablespace pg_default;
+
+create index if not exists idx_collab_comment_threads_photo on public.collab_comment_threads using btree (session_id, storage_path, copy_id) tablespace pg_default;
+
+-- =============================================================================
+-- COMMENTS TABLE
+-- =============================================================================
+
+create table public.collab_comments (
+  id uuid not null default gen_random_uuid(),
+  thread_id uuid not null,
+  session_id uuid not null,
+  user_id uuid not null,
+  body text not null,
+  mentions uuid[] not null default '{}'::uuid[],
+  created_at timestamp with time zone not null default now(),
+  constraint collab_comments_pkey primary key (id),
+  constraint collab_comments_thread_id_fkey foreign key (thread_id) references public.collab_comment_threads(id) on delete cascade,
+  constraint collab_comments_session_id_fkey foreign key (session_id) references public.collab_sessions(id) on delete cascade,
+  constraint collab_comments_user_id_fkey foreign key (user_id) references auth.users(id) on delete cascade,
+  constraint collab_comments_body_check check (char_length(body) between 1 and 2000)
+) tablespace pg_default;
+
+create index if not exists idx_collab_comments_thread on public.collab_comments using btree (thread_id, created_at) tablespace pg_default;
+
+-- =============================================================================
+-- RLS POLICIES
+-- =============================================================================
+
+alter table public.collab_comment_threads enable row level security;
+alter table public.collab_comments enable row level security;
+
+create policy "Members can view comment threads" on public.collab_comment_threads
+  for select using (public.can_access_collab_session(session_id));
+
+create policy "Members can start comment threads" on public.collab_comment_threads
+  for insert with check (
+    user_id = auth.uid()
+    and public.can_access_collab_session(session_id)
+  );
+
+-- Any member can resolve / reopen a thread (column grants below limit what changes)
+create policy "Members can resolve comment threads" on public.collab_comment_threads
+  for update using (public.can_access_collab_session(session_id))
+  with check (public.can_access_collab_session(session_id));
+
+create policy "Authors can delete their comment threads" on public.collab_comment_threads
+  for delete using (user_id = auth.uid());
+
+revoke update on public.collab_comment_threads from authenticated;
+grant update (resolved_at, resolved_by) on public.collab_comment_threads to authenticated;
+
+create policy "Members can view comments" on public.collab_comments
+  for select using (public.can_access_collab_session(session_id));
+
+create policy "Members can comment" on public.collab_comments
+  for insert with check (
+    user_id = auth.uid()
+    and public.can_access_collab_session(session_id)
+    and exists (
+      select 1 from public.collab_comment_threads t
+      where t.id = thread_id
+      and t.session_id = collab_comments.session_id
+    )
+  );
+
+create policy "Authors can delete their comments" on public.collab_comments
+  for delete using (user_id = auth.uid());
+
+-- =============================================================================
+-- REALTIME
+-- =============================================================================
+
+alter publication supabase_realtime add table public.collab_comment_threads;
+alter publication supabase_realtime add table public.collab_comments;
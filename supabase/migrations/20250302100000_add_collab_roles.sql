@@ -0,0 +1,338 @@
+-- Granular collab roles, lowest to highest:
+--   viewer      view only
+--   commenter   view + comment threads
+--   editor      upload photos, edit and move/delete their own photos and folders
+--               (the old "collaborator")
+--   editor_all  also edit anyone's photos (field merge via PATCH /api/collab/photos)
+--   admin       move/delete any photo or folder, review join requests
+--   master      the session owner, who also assigns roles
+-- The /api/collab/* routes check the same ranking (lib/utils/collabRoles.ts).
+-- RLS is back on for sessions and members: only the owner changes roles, nobody their own.
+
+-- =============================================================================
+-- ROLE TYPE
+-- =============================================================================
+
+-- Existing collaborators keep what they could do: edit
+alter type public.collab_member_role rename value 'collaborator' to 'editor';
+alter type public.collab_member_role add value if not exists 'viewer' before 'editor';
+alter type public.collab_member_role add value if not exists 'commenter' before 'editor';
+alter type public.collab_member_role add value if not exists 'admin' after 'editor';
+alter type public.collab_member_role add value if not exists 'editor_all' after 'editor';
+
+-- =============================================================================
+-- ROLE HELPERS
+-- =============================================================================
+
+-- The current user's role in a session (null = no access). The owner is always master.
+-- Roles are compared as text: new enum values can't be used in the transaction that adds them.
+create or replace function public.collab_session_role(_session_id uuid)
+returns text
+language sql
+security definer
+set search_path = public
+stable
+as $$
+  select case
+    when exists (
+      select 1 from public.collab_sessions
+      where id = _session_id
+      and owner_id = auth.uid()
+    ) then 'master'
+    else (
+      select role::text from public.collab_members
+      where session_id = _session_id
+      and user_id = auth.uid()
+      and status = 'approved'
+    )
+  end;
+$$;
+
+create or replace function public.has_collab_role(_session_id uuid, _min_role text)
+returns boolean
+language sql
+security definer
+set search_path = public
+stable
+as $$
+  select coalesce(
+    array_position(
+      array['viewer', 'commenter', 'editor', 'editor_all', 'admin', 'master'],
+      public.collab_session_role(_session_id)
+    ) >= array_position(
+      array['viewer', 'commenter', 'editor', 'editor_all', 'admin', 'master'],
+      _min_role
+    ),
+    false
+  );
+$$;
+
+grant execute on function public.collab_session_role to authenticated;
+grant execute on function public.collab_session_role to service_role;
+grant execute on function public.has_collab_role to authenticated;
+grant execute on function public.has_collab_role to service_role;
+
+-- =============================================================================
+-- SESSIONS AND MEMBERS
+-- =============================================================================
+
+-- RLS was switched off here too: anyone could read every session or set their own role.
+-- Joining, approving and role changes go through /api/collab/* (service role); clients
+-- only read their sessions and members directly.
+alter table public.collab_sessions enable row level security;
+alter table public.collab_members enable row level security;
+
+-- Policies left by the earlier recursion fixes (some only exist on some databases)
+drop policy if exists "Temp bypass" on public.collab_sessions;
+drop policy if exists "Owner can do everything" on public.collab_sessions;
+drop policy if exists "Members can view sessions" on public.collab_sessions;
+drop policy if exists "Users can view sessions they are members of" on public.collab_sessions;
+drop policy if exists "Users can view their own sessions" on public.collab_sessions;
+drop policy if exists "Users can create their own sessions" on public.collab_sessions;
+drop policy if exists "Owners can update their sessions" on public.collab_sessions;
+drop policy if exists "Owners can delete their sessions" on public.collab_sessions;
+drop policy if exists "Users can see their own membership" on public.collab_members;
+drop policy if exists "Users can view their own membership" on public.collab_members;
+drop policy if exists "Owners can see session members" on public.collab_members;
+drop policy if exists "Session owners can view all members" on public.collab_members;
+drop policy if exists "Members can see other members" on public.collab_members;
+drop policy if exists "Members can view other members in same session" on public.collab_members;
+drop policy if exists "Approved members can view other approved members" on public.collab_members;
+drop policy if exists "Users can join (insert)" on public.collab_members;
+drop policy if exists "Anyone can request to join sessions" on public.collab_members;
+drop policy if exists "Master can be inserted via trigger" on public.collab_members;
+drop policy if exists "Masters can update member status" on public.collab_members;
+drop policy if exists "Masters can delete members" on public.collab_members;
+drop policy if exists "Users can leave sessions" on public.collab_members;
+
+create policy "Owners manage their sessions" on public.collab_sessions
+  for all using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "Members can view their sessions" on public.collab_sessions
+  for select using (public.can_access_collab_session(id));
+
+create policy "Users can view their own membership" on public.collab_members
+  for select using (user_id = auth.uid());
+
+create policy "Members can view the session's members" on public.collab_members
+  for select using (public.can_access_collab_session(session_id));
+
+-- Status (approve / reject) is an admin's; roles are the owner's (check below)
+create policy "Admins can update members" on public.collab_members
+  for update using (public.has_collab_role(session_id, 'admin'))
+  with check (public.has_collab_role(session_id, 'admin'));
+
+create policy "Owners can remove members" on public.collab_members
+  for delete using (public.collab_session_role(session_id) = 'master');
+
+create policy "Users can leave sessions" on public.collab_members
+  for delete using (user_id = auth.uid());
+
+-- Nobody changes their own role, and only the owner changes anyone's. Only client
+-- writes (the authenticated role) are checked: the API routes (service role) and
+-- claim_collab_email_invites (security definer) check their own rules.
+create or replace function public.check_collab_member_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user <> 'authenticated' then
+    return new;
+  end if;
+  if (new.session_id, new.user_id) is distinct from (old.session_id, old.user_id) then
+    raise exception 'A membership can''t be moved to another session or user'
+      using errcode = '42501';
+  end if;
+  if new.role is distinct from old.role then
+    if old.user_id = auth.uid() then
+      raise exception 'You can''t change your own role'
+        using errcode = '42501';
+    end if;
+    if public.collab_session_role(old.session_id) is distinct from 'master' then
+      raise exception 'Only the session owner can change roles'
+        using errcode = '42501';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger check_collab_member_update
+  before update on public.collab_members
+  for each row execute function public.check_collab_member_update();
+
+-- Members have no insert policy: the owner's master row is added by this trigger
+alter function public.add_master_as_member() security definer set search_path = public;
+
+-- =============================================================================
+-- PHOTOS
+-- =============================================================================
+
+-- RLS was switched off while diagnosing policy recursion; the role policies need it back
+alter table public.collab_photos enable row level security;
+
+drop policy if exists "Users can create their own photos" on public.collab_photos;
+drop policy if exists "Users can update their own photos" on public.collab_photos;
+drop policy if exists "Users can delete their own photos" on public.collab_photos;
+drop policy if exists "Members can insert photos" on public.collab_photos;
+drop policy if exists "Own only can update photos" on public.collab_photos;
+drop policy if exists "Own only can delete photos" on public.collab_photos;
+
+create policy "Editors can add photos" on public.collab_photos
+  for insert with check (
+    user_id = auth.uid()
+    and public.has_collab_role(session_id, 'editor')
+  );
+
+create policy "Editors update own photos, all-photos editors any" on public.collab_photos
+  for update using (
+    (user_id = auth.uid() and public.has_collab_role(session_id, 'editor'))
+    or public.has_collab_role(session_id, 'editor_all')
+  );
+
+create policy "Editors delete own photos, admins any" on public.collab_photos
+  for delete using (
+    (user_id = auth.uid() and public.has_collab_role(session_id, 'editor'))
+    or public.has_collab_role(session_id, 'admin')
+  );
+
+-- RLS can't tell which columns an update changes: moving, resizing or re-filing someone
+-- else's photo stays with admins (OWNER_ONLY_PHOTO_COLUMNS in lib/utils/collabMerge.ts).
+-- The service role (auth.uid() null) is the field merge, which checks this itself.
+create or replace function public.check_collab_photo_layout_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null
+    or old.user_id = auth.uid()
+    or public.has_collab_role(old.session_id, 'admin') then
+    return new;
+  end if;
+  if (
+    new.folder_id, new.x, new.y, new.width, new.height,
+    new.original_storage_path, new.is_raw, new.original_width, new.original_height,
+    new.taken_at, new.camera_make, new.camera_model
+  ) is distinct from (
+    old.folder_id, old.x, old.y, old.width, old.height,
+    old.original_storage_path, old.is_raw, old.original_width, old.original_height,
+    old.taken_at, old.camera_make, old.camera_model
+  ) then
+    raise exception 'Only the uploader or an admin can move or resize a photo'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger check_collab_photo_layout_update
+  before update on public.collab_photos
+  for each row execute function public.check_collab_photo_layout_update();
+
+-- =============================================================================
+-- FOLDERS
+-- =============================================================================
+
+alter table public.collab_folders enable row level security;
+
+drop policy if exists "Users can create their own folders" on public.collab_folders;
+drop policy if exists "Users can update their own folders" on public.collab_folders;
+drop policy if exists "Users can delete their own folders" on public.collab_folders;
+drop policy if exists "Members can insert folders" on public.collab_folders;
+drop policy if exists "Own or master can update folders" on public.collab_folders;
+drop policy if exists "Own or master can delete folders" on public.collab_folders;
+
+create policy "Editors can add folders" on public.collab_folders
+  for insert with check (
+    user_id = auth.uid()
+    and public.has_collab_role(session_id, 'editor')
+  );
+
+create policy "Editors update own folders, admins any" on public.collab_folders
+  for update using (
+    (user_id = auth.uid() and public.has_collab_role(session_id, 'editor'))
+    or public.has_collab_role(session_id, 'admin')
+  );
+
+create policy "Editors delete own folders, admins any" on public.collab_folders
+  for delete using (
+    (user_id = auth.uid() and public.has_collab_role(session_id, 'editor'))
+    or public.has_collab_role(session_id, 'admin')
+  );
+
+-- =============================================================================
+-- COMMENTS (viewers can read threads, commenters and up can write)
+-- =============================================================================
+
+drop policy if exists "Members can start comment threads" on public.collab_comment_threads;
+drop policy if exists "Members can resolve comment threads" on public.collab_comment_threads;
+drop policy if exists "Members can comment" on public.collab_comments;
+
+create policy "Commenters can start comment threads" on public.collab_comment_threads
+  for insert with check (
+    user_id = auth.uid()
+    and public.has_collab_role(session_id, 'commenter')
+  );
+
+create policy "Commenters can resolve comment threads" on public.collab_comment_threads
+  for update using (public.has_collab_role(session_id, 'commenter'))
+  with check (public.has_collab_role(session_id, 'commenter'));
+
+create policy "Commenters can comment" on public.collab_comments
+  for insert with check (
+    user_id = auth.uid()
+    and public.has_collab_role(session_id, 'commenter')
+    and exists (
+      select 1 from public.collab_comment_threads t
+      where t.id = thread_id
+      and t.session_id = collab_comments.session_id
+    )
+  );
+
+-- =============================================================================
+-- EDIT HISTORY (viewers and commenters can't record edits)
+-- =============================================================================
+
+drop policy if exists "Users can record their own edits" on public.photo_edit_history;
+drop policy if exists "Users can update their own edits" on public.photo_edit_history;
+
+create policy "Users can record their own edits" on public.photo_edit_history
+  for insert with check (
+    user_id = auth.uid()
+    and (session_id is null or public.has_collab_role(session_id, 'editor'))
+  );
+
+create policy "Users can update their own edits" on public.photo_edit_history
+  for update using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and (session_id is null or public.has_collab_role(session_id, 'editor'))
+  );
+
+-- =============================================================================
+-- STORAGE (uploads into a session folder need editor)
+-- =============================================================================
+
+drop policy if exists "Users can upload to their session folders" on storage.objects;
+
+create policy "Editors can upload to their session folders"
+  on storage.objects
+  for insert
+  with check (
+    bucket_id = 'collab-photos' and
+    (storage.foldername(name))[1] in (
+      select s.id::text
+      from public.collab_sessions s
+      where s.owner_id = auth.uid()
+      union
+      select cm.session_id::text
+      from public.collab_members cm
+      where cm.user_id = auth.uid()
+      and cm.status = 'approved'
+      and cm.role::text in ('editor', 'editor_all', 'admin', 'master')
+    )
+  );
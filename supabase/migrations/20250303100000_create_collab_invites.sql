@@ -0,0 +1,197 @@
+-- Invite links and email invites for collab sessions.
+-- collab_invites replaces the permanent collab_sessions.invite_code: a session can have
+-- several links, each with an optional expiry, max uses and pre-approved role (null =
+-- the join request waits for the owner / an admin), and links can be revoked.
+-- Email invites are collab_members rows with invited_email and no user_id yet: the
+-- Google account with that email is approved with the row's role when it signs in.
+-- collab_join_attempts logs bad codes for the rate limit in /api/collab/join, which
+-- prunes attempts older than a day (cleanup_old_join_attempts) as it logs new ones.
+-- Invites are managed through /api/collab/invites (service role).
+
+-- =============================================================================
+-- INVITE LINKS TABLE
+-- =============================================================================
+
+create table public.collab_invites (
+  id uuid not null default gen_random_uuid(),
+  session_id uuid not null,
+  token text not null default upper(substring(replace(gen_random_uuid()::text, '-', ''), 1, 12)),
+  created_by uuid not null,
+  role public.collab_member_role null,
+  expires_at timestamp with time zone null,
+  max_uses integer null,
+  use_count integer not null default 0,
+  revoked_at timestamp with time zone null,
+  created_at timestamp with time zone not null default now(),
+  constraint collab_invites_pkey primary key (id),
+  constraint collab_invites_token_key unique (token),
+  constraint collab_invites_session_id_fkey foreign key (session_id) references public.collab_sessions(id) on delete cascade,
+  constraint collab_invites_created_by_fkey foreign key (created_by) references auth.users(id) on delete cascade,
+  constraint collab_invites_role_check check (role is null or role::text <> 'master'),
+  constraint collab_invites_max_uses_check check (max_uses is null or max_uses > 0),
+  constraint collab_invites_use_count_check check (use_count >= 0)
+) tablespace pg_default;
+
+create index if not exists idx_collab_invites_session on public.collab_invites using btree (session_id, created_at) tablespace pg_default;
+
+-- Existing invite codes keep working as links that never expire, until revoked
+insert into public.collab_invites (session_id, token, created_by)
+select id, invite_code, owner_id
+from public.collab_sessions
+on conflict (token) do nothing;
+
+-- =============================================================================
+-- EMAIL INVITES (collab_members rows without a user yet)
+-- =============================================================================
+
+create unique index if not exists idx_collab_members_session_invited_email
+  on public.collab_members using btree (session_id, lower(invited_email))
+  tablespace pg_default
+  where user_id is null;
+
+-- =============================================================================
+-- JOIN ATTEMPTS TABLE (rate limit for bad invite codes)
+-- =============================================================================
+
+create table public.collab_join_attempts (
+  id uuid not null default gen_random_uuid(),
+  user_id uuid null,
+  ip text null,
+  created_at timestamp with time zone not null default now(),
+  constraint collab_join_attempts_pkey primary key (id),
+  constraint collab_join_attempts_user_id_fkey foreign key (user_id) references auth.users(id) on delete cascade
+) tablespace pg_default;
+
+create index if not exists idx_collab_join_attempts_user on public.collab_join_attempts using btree (user_id, created_at) tablespace pg_default;
+create index if not exists idx_collab_join_attempts_ip on public.collab_join_attempts using btree (ip, created_at) tablespace pg_default;
+
+create or replace function public.cleanup_old_join_attempts()
+returns void as $$
+begin
+  delete from public.collab_join_attempts
+  where created_at < now() - interval '1 day';
+end;
+$$ language plpgsql;
+
+revoke execute on function public.cleanup_old_join_attempts from public;
+grant execute on function public.cleanup_old_join_attempts to service_role;
+
+-- =============================================================================
+-- RLS POLICIES
+-- =============================================================================
+
+alter table public.collab_invites enable row level security;
+alter table public.collab_join_attempts enable row level security;
+
+-- Writes go through the API; attempts are service role only (no policies)
+create policy "Admins can view invites" on public.collab_invites
+  for select using (public.has_collab_role(session_id, 'admin'));
+
+-- =============================================================================
+-- CLAIM EMAIL INVITES
+-- =============================================================================
+
+-- Approve the pending email invites for a confirmed account. Called on sign-in (below)
+-- and by /api/collab/invites when the invited account already exists.
+create or replace function public.claim_collab_email_invites(_email text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _user_id uuid;
+  invite record;
+  updated integer;
+  claimed integer := 0;
+begin
+  select id into _user_id
+  from auth.users
+  where lower(email) = lower(_email)
+  and email_confirmed_at is not null;
+
+  if _user_id is null then
+    return 0;
+  end if;
+
+  for invite in
+    select id, session_id, role from public.collab_members
+    where user_id is null
+    and status = 'pending'
+    and lower(invited_email) = lower(_email)
+  loop
+    begin
+      if exists (
+        select 1 from public.collab_members
+        where session_id = invite.session_id
+        and user_id = _user_id
+      ) then
+        -- A join request or past membership takes the invite's role; members stay as they are
+        update public.collab_members
+        set role = invite.role,
+            status = 'approved',
+            approved_at = now(),
+            joined_at = now(),
+            updated_at = now()
+        where session_id = invite.session_id
+        and user_id = _user_id
+        and status <> 'approved';
+        get diagnostics updated = row_count;
+
+        delete from public.collab_members where id = invite.id;
+
+        if updated = 0 then
+          continue;
+        end if;
+      else
+        -- check_max_collaborators raises when the session is full
+        update public.collab_members
+        set user_id = _user_id,
+            status = 'approved',
+            approved_at = now(),
+            joined_at = now(),
+            updated_at = now()
+        where id = invite.id;
+      end if;
+
+      insert into public.collab_activity (session_id, user_id, action, target_type, target_id, metadata)
+      values (
+        invite.session_id,
+        _user_id,
+        'member_joined',
+        'member',
+        invite.id::text,
+        jsonb_build_object('joined_user_id', _user_id, 'status', 'approved', 'via', 'email_invite')
+      );
+
+      claimed := claimed + 1;
+    exception when others then
+      -- Leave the invite pending (e.g. session full) rather than fail the sign-in
+      raise warning 'Could not claim collab invite %: %', invite.id, sqlerrm;
+    end;
+  end loop;
+
+  return claimed;
+end;
+$$;
+
+revoke execute on function public.claim_collab_email_invites from public;
+grant execute on function public.claim_collab_email_invites to service_role;
+
+create or replace function public.claim_collab_email_invites_on_sign_in()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.email is not null and new.email_confirmed_at is not null then
+    perform public.claim_collab_email_invites(new.email);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger claim_collab_email_invites_on_sign_in
+  after insert or update of last_sign_in_at, email_confirmed_at on auth.users
+  for each row execute function public.claim_collab_email_invites_on_sign_in();